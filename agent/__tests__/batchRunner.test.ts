@@ -0,0 +1,76 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { parseCsv, parseBatchRows, runBatch, summarizeBatch, compareBatchResults, resultsToCsv } from '../batchRunner'
+import { createProviderError } from '../callModel'
+
+const CSV = [
+  'modality,study_type,anatomy,clinical_indication,findings_summary,dictation_report',
+  'MRI,Knee,,"Pain, rule out tear","Complete ACL tear, Small joint effusion",',
+  'MRI,Shoulder,,Pain,"Rotator cuff tear","Full-thickness ""supraspinatus"" tear.\nNo fracture."',
+  ''
+].join('\n')
+
+const studies = {
+  'MRI Knee': { template: 'FINDINGS:\n\nIMPRESSION:\n', agent_logic: { impression: { numerically_itemized: true } } }
+}
+
+describe('batch runner', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  it('parses quoted fields, escaped quotes and embedded newlines', () => {
+    const rows = parseCsv(CSV)
+    expect(rows).toHaveLength(3)
+    expect(rows[2][5]).toBe('Full-thickness "supraspinatus" tear.\nNo fracture.')
+  })
+
+  it('prefers the dictated report and otherwise lists the findings summary', () => {
+    const [knee, shoulder] = parseBatchRows(CSV)
+    expect(knee).toMatchObject({ row: 1, studyType: 'Knee', clinicalIndication: 'Pain, rule out tear' })
+    expect(knee.findings).toBe('Complete ACL tear.\nSmall joint effusion.')
+    expect(shoulder.findings).toBe('Full-thickness "supraspinatus" tear.\nNo fracture.')
+  })
+
+  it('generates and validates every row through the mock provider', async () => {
+    const results = await runBatch(parseBatchRows(CSV), { provider: 'mock', studies })
+
+    expect(results.map(result => result.status)).toEqual(['ok', 'ok'])
+    expect(results[0].headersValid).toBe(true)
+    expect(results[0].output).toContain('IMPRESSION:\n1. Complete ACL tear.')
+    expect(results[0].tokens.total).toBeGreaterThan(0)
+    expect(summarizeBatch(results)).toMatchObject({ rows: 2, errors: 0, headerFailures: 0 })
+  })
+
+  it('records provider failures per row instead of aborting the run', async () => {
+    const callModelImpl = vi.fn()
+      .mockRejectedValueOnce(createProviderError('rate limited', 'openai', 429))
+      .mockResolvedValueOnce({ text: 'FINDINGS:\nTear.\n\nIMPRESSION:\n1. Tear.', tokens: { input: 5, output: 5, total: 10 } })
+
+    const results = await runBatch(parseBatchRows(CSV), { provider: 'openai', callModelImpl })
+
+    expect(results[0]).toMatchObject({ status: 'error', error: 'rate limited' })
+    expect(results[1]).toMatchObject({ status: 'ok', provider: 'openai' })
+    expect(summarizeBatch(results).errors).toBe(1)
+  })
+
+  it('reports rows whose validation changed against a baseline', async () => {
+    const rows = parseBatchRows(CSV)
+    const baseline = await runBatch(rows, { provider: 'mock', studies })
+    const current = await runBatch(rows.map(row => ({ ...row, findings: `${row.findings} [[mock:malformed-headers]]` })), { provider: 'mock', studies })
+
+    const changes = compareBatchResults(baseline, current)
+    expect(changes.map(change => change.row)).toContain(1)
+    expect(changes.find(change => change.row === 1)?.changes).toContain('headers broken')
+  })
+
+  it('writes one CSV line per result with quoted multi-line output', async () => {
+    const results = await runBatch(parseBatchRows(CSV), { provider: 'mock', studies })
+    const parsed = parseCsv(resultsToCsv(results))
+
+    expect(parsed[0][0]).toBe('row')
+    expect(parsed).toHaveLength(3)
+    expect(parsed[1][15]).toBe(results[0].output)
+  })
+})
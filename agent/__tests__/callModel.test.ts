@@ -0,0 +1,107 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import callModel, { isAbortError } from '../callModel';
+
+type StreamResponse = { text: string; tokens?: { input: number; output: number; total: number }; cancelled?: boolean };
+
+// Stands in for the preload bridge: chunk listeners plus one pending stream the test drives
+function createStreamingApi() {
+  const listeners = new Set<(data: { requestId: string; chunk: string }) => void>();
+  let finish: (response: StreamResponse) => void = () => {};
+  let requestId = '';
+
+  const api = {
+    onReportStreamChunk: vi.fn((callback: (data: { requestId: string; chunk: string }) => void) => {
+      listeners.add(callback);
+      return () => listeners.delete(callback);
+    }),
+    generateReportStream: vi.fn((_prompt: string, id: string) => {
+      requestId = id;
+      return new Promise<StreamResponse>(resolve => { finish = resolve; });
+    }),
+    cancelReportStream: vi.fn(async (id: string) => {
+      finish({ text: '', tokens: { input: 0, output: 0, total: 0 }, cancelled: id === requestId });
+      return true;
+    })
+  };
+
+  return {
+    api,
+    listeners,
+    send: (chunk: string, id = requestId) => listeners.forEach(listener => listener({ requestId: id, chunk })),
+    finish: (response: StreamResponse) => finish(response)
+  };
+}
+
+describe('streaming through the main process', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('forwards this request\'s chunks in order and detaches its listeners', async () => {
+    const bridge = createStreamingApi();
+    vi.stubGlobal('window', { electronAPI: bridge.api });
+    const controller = new AbortController();
+    const removeListener = vi.spyOn(controller.signal, 'removeEventListener');
+    const chunks: string[] = [];
+
+    const call = callModel({ prompt: 'Findings.', onToken: chunk => chunks.push(chunk), signal: controller.signal });
+    bridge.send('IMPRESSION:\n');
+    bridge.send('other request', 'stream-other');
+    bridge.send('1. ACL tear.');
+    bridge.finish({ text: 'IMPRESSION:\n1. ACL tear.', tokens: { input: 5, output: 4, total: 9 } });
+
+    await expect(call).resolves.toMatchObject({ text: 'IMPRESSION:\n1. ACL tear.', tokens: { total: 9 } });
+    expect(chunks).toEqual(['IMPRESSION:\n', '1. ACL tear.']);
+    expect(bridge.listeners.size).toBe(0);
+    expect(removeListener).toHaveBeenCalledWith('abort', expect.any(Function));
+  });
+
+  it('rejects with the abort error when the signal aborts, and detaches its listeners', async () => {
+    const bridge = createStreamingApi();
+    vi.stubGlobal('window', { electronAPI: bridge.api });
+    const controller = new AbortController();
+    const addListener = vi.spyOn(controller.signal, 'addEventListener');
+    const removeListener = vi.spyOn(controller.signal, 'removeEventListener');
+    const chunks: string[] = [];
+
+    const call = callModel({ prompt: 'Findings.', onToken: chunk => chunks.push(chunk), signal: controller.signal });
+    bridge.send('IMPRESSION:\n');
+    controller.abort();
+
+    const error = await call.catch(err => err);
+    expect(isAbortError(error)).toBe(true);
+    expect(bridge.api.cancelReportStream).toHaveBeenCalledWith(bridge.api.generateReportStream.mock.calls[0][1]);
+    expect(chunks).toEqual(['IMPRESSION:\n']);
+    expect(bridge.listeners.size).toBe(0);
+    expect(removeListener).toHaveBeenCalledWith('abort', addListener.mock.calls[0][1]);
+  });
+
+  it('rejects with the abort error when the main process reports the stream cancelled', async () => {
+    const bridge = createStreamingApi();
+    vi.stubGlobal('window', { electronAPI: bridge.api });
+
+    const call = callModel({ prompt: 'Findings.', onToken: () => {} });
+    bridge.finish({ text: '', cancelled: true });
+
+    const error = await call.catch(err => err);
+    expect(isAbortError(error)).toBe(true);
+    expect(bridge.listeners.size).toBe(0);
+  });
+
+  it('does not start a stream for an already aborted signal', async () => {
+    const bridge = createStreamingApi();
+    vi.stubGlobal('window', { electronAPI: bridge.api });
+    const controller = new AbortController();
+    controller.abort();
+
+    const error = await callModel({ prompt: 'Findings.', onToken: () => {}, signal: controller.signal }).catch(err => err);
+    expect(isAbortError(error)).toBe(true);
+    expect(bridge.api.generateReportStream).not.toHaveBeenCalled();
+    expect(bridge.api.onReportStreamChunk).not.toHaveBeenCalled();
+  });
+});
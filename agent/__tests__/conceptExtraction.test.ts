@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest'
+import { compileTerms, extractFindings, getPathologyKey, suggestStudyTypes } from '../conceptExtraction'
+import { RADIOLOGY_LEXICON, extendLexicon } from '../radiologyLexicon'
+import validateRules from '../validateRules'
+
+describe('concept extraction', () => {
+  it('extracts structures and findings with status, severity and side', () => {
+    const findings = extractFindings('Right knee: Complete tear of the ACL. Small joint effusion. The PCL is intact.')
+
+    expect(findings).toEqual([
+      { anatomy: 'anterior cruciate ligament', pathology: 'tear', status: 'present', laterality: 'right', text: 'Right knee: Complete tear of the ACL.' },
+      { pathology: 'effusion', status: 'present', severity: { term: 'small', rank: 2 }, text: 'Small joint effusion.' },
+      { anatomy: 'posterior cruciate ligament', status: 'absent', text: 'The PCL is intact.' }
+    ])
+  })
+
+  it('carries negation across a list and matches synonyms', () => {
+    const findings = extractFindings('No fracture, dislocation, or fluid in the joint. Minimal supraspinatus tendinopathy.')
+
+    expect(findings.map(({ anatomy, pathology, status }) => [anatomy || pathology, status])).toEqual([
+      ['fracture', 'absent'],
+      ['dislocation', 'absent'],
+      ['effusion', 'absent'],
+      ['supraspinatus tendon', 'present']
+    ])
+    expect(getPathologyKey("Baker's cyst")).toBe('baker cyst')
+  })
+
+  it('matches whole words only', () => {
+    const matcher = compileTerms({ ct: ['ct'], effusion: ['joint effusion', 'effusion'] })
+    expect(matcher.find('Mass effect. Large joint effusion.').map(match => `${match.key}:${match.term}`)).toEqual(['effusion:joint effusion'])
+  })
+
+  it('accepts lexicon additions', () => {
+    const lexicon = extendLexicon(RADIOLOGY_LEXICON, { pathology: { tear: ['dehiscence'] } })
+    expect(extractFindings('Graft dehiscence.', lexicon)).toMatchObject([{ pathology: 'tear', status: 'present' }])
+    expect(extractFindings('Graft dehiscence.')).toEqual([])
+  })
+
+  it('suggests study types from lexicon terms and template names', () => {
+    const findings = 'Right knee: Complete tear of the anterior cruciate ligament. Medial meniscus intact. Small joint effusion.'
+
+    expect(suggestStudyTypes(findings)[0].type).toBe('MRI Knee')
+    expect(suggestStudyTypes(findings, { templateNames: ['MRI Ankle', 'MRI Knee Arthrogram'] })).toEqual([{ type: 'MRI Knee Arthrogram', confidence: 28 }])
+  })
+
+  it('checks findings incorporation through synonyms', () => {
+    const incorporation = (report: string, findings: string) =>
+      validateRules(report, findings, {}).violations.filter(violation => violation.startsWith('FINDINGS INCORPORATION'))
+
+    expect(incorporation('The ACL is torn.', 'ACL tear. No fracture.')).toEqual([])
+    expect(incorporation('The ACL is torn.', 'ACL tear. Bone contusion.')).toEqual([
+      'FINDINGS INCORPORATION: Important finding "contusion" from original findings may not be incorporated into report.'
+    ])
+  })
+
+  it('leaves findings incorporation to full reports', () => {
+    const logic = { impression: { exclusion_rules: [{ concept: 'effusion', max_severity: 'small' as const }] } }
+    const result = validateRules('1. Complete ACL tear.', 'Complete ACL tear. Small joint effusion.', logic, { impressionOnly: true })
+
+    expect(result.violations.filter(violation => violation.startsWith('FINDINGS INCORPORATION'))).toEqual([])
+  })
+})
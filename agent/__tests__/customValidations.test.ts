@@ -0,0 +1,62 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { evaluateCustomValidations, resolveValidationRules } from '../customValidations'
+import { validateAgentLogic } from '../logicSchema'
+import validateRules from '../validateRules'
+import { mergeLogicLayers } from '../../src/utils/logicInheritance'
+
+const REPORT = 'FINDINGS:\nComplete ACL tear. Bone contusions of the lateral femoral condyle.\n\nIMPRESSION:\n1. Complete ACL tear.\n2. Lateral femoral condyle contusion.\n3. Small joint effusion.'
+
+describe('custom validations', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  it('requires a mention only when the findings match', () => {
+    const rules = [{ id: 'acl-graft', kind: 'require_mention' as const, when: 'ACL tear', section: 'IMPRESSION', pattern: 'reconstruction' }]
+
+    expect(evaluateCustomValidations(REPORT, 'Complete ACL tear.', rules).violations).toEqual([
+      'CUSTOM RULE (acl-graft): the IMPRESSION section must mention /reconstruction/.'
+    ])
+    expect(evaluateCustomValidations(REPORT, 'Intact ligaments.', rules).violations).toEqual([])
+  })
+
+  it('forbids patterns and limits item counts', () => {
+    const result = evaluateCustomValidations(REPORT, '', [
+      { id: 'no-effusion', kind: 'forbid_pattern', section: 'IMPRESSION', pattern: '\\beffusion\\b', severity: 'warning' },
+      { id: 'short', kind: 'max_items', section: 'impression', max: 2, message: 'Keep the impression to two items.' }
+    ])
+
+    expect(result.warnings).toEqual(['CUSTOM RULE (no-effusion): the IMPRESSION section must not contain /\\beffusion\\b/.'])
+    expect(result.violations).toEqual(['CUSTOM RULE (short): Keep the impression to two items.'])
+  })
+
+  it('counts structured impression items directly', () => {
+    const rules = [{ id: 'short', kind: 'max_items' as const, section: 'IMPRESSION', max: 1 }]
+    expect(evaluateCustomValidations(REPORT, '', rules, { impressionItems: ['Complete ACL tear.'] }).violations).toEqual([])
+  })
+
+  it('reports broken rules as warnings instead of throwing', () => {
+    const result = evaluateCustomValidations(REPORT, '', [{ id: 'bad', kind: 'forbid_pattern', pattern: '(' }])
+    expect(result).toEqual({ violations: [], warnings: ['CUSTOM RULE (bad): missing or invalid pattern ('] })
+  })
+
+  it('inherits rules through the logic layers and lets a study override them by id', () => {
+    const baseLogic = {
+      validations: [
+        { id: 'short', kind: 'max_items', section: 'IMPRESSION', max: 2 },
+        { id: 'no-hedging', kind: 'forbid_pattern', pattern: 'cannot be excluded' }
+      ]
+    }
+    const studySpecificLogic = {
+      validations: [{ id: 'short', kind: 'max_items', section: 'IMPRESSION', max: 5 }, { id: 'no-hedging', enabled: false }]
+    }
+    const { mergedLogic } = mergeLogicLayers({ baseLogic, studySpecificLogic })
+
+    expect(validateAgentLogic(mergedLogic).errors).toEqual([])
+    expect(resolveValidationRules(mergedLogic.validations)).toEqual([{ id: 'short', kind: 'max_items', section: 'IMPRESSION', max: 5 }])
+    expect(validateRules(REPORT, '', { validations: baseLogic.validations as any }).violations).toContain(
+      'CUSTOM RULE (short): the IMPRESSION section has 3 items; the limit is 2.'
+    )
+    expect(validateRules(REPORT, '', mergedLogic).violations.filter((violation: string) => violation.startsWith('CUSTOM RULE'))).toEqual([])
+  })
+})
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { checkExamContext, formatExamContext, toPatientContext } from '../examContext'
+import buildEnhancedPrompt from '../buildEnhancedPrompt'
+import buildEnhancedImpressionPrompt from '../buildEnhancedImpressionPrompt'
+import validateRules from '../validateRules'
+
+describe('exam context', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  const exam = {
+    indication: 'Right knee pain after twisting injury',
+    age: 34,
+    sex: 'female' as const,
+    history: 'Prior ACL reconstruction.',
+    contrast: 'none' as const,
+    comparisonDate: '2026-03-01',
+    priorImpression: '1. Intact ACL graft.'
+  }
+
+  it('lists the case details in every prompt, and nothing when empty', () => {
+    const block = [
+      'CLINICAL CONTEXT:',
+      'Indication: Right knee pain after twisting injury',
+      'Patient: 34-year-old female',
+      'Relevant history: Prior ACL reconstruction.',
+      'Contrast: Without IV contrast',
+      'Comparison: Prior study dated 2026-03-01',
+      'Prior impression:\n1. Intact ACL graft.'
+    ].join('\n')
+    expect(formatExamContext(exam)).toBe(block)
+    expect(buildEnhancedPrompt('Meniscal tear.', 'FINDINGS:\nIMPRESSION:', {}, { exam })).toContain(block)
+    expect(buildEnhancedImpressionPrompt('Meniscal tear.', '', {}, { exam })).toContain(block)
+
+    expect(formatExamContext({ indication: '  ' })).toBe('')
+    expect(buildEnhancedPrompt('Meniscal tear.', '', {}, { exam: {} })).toBe(buildEnhancedPrompt('Meniscal tear.', '', {}))
+  })
+
+  it('reads guideline risk factors from the history', () => {
+    expect(toPatientContext({ age: 62, history: 'Smoker, 30 pack-years. History of colon cancer.' })).toEqual({ age: 62, highRisk: true, cancerHistory: true })
+    expect(toPatientContext({ history: 'Never smoker. No history of cancer.' })).toEqual({ highRisk: false, cancerHistory: false })
+    expect(toPatientContext(undefined)).toEqual({})
+  })
+
+  it('flags contrast, anatomy and comparisons that contradict the case', () => {
+    const report = [
+      'TECHNIQUE: MRI of the abdomen with IV contrast.',
+      'COMPARISON: 1/5/2026.',
+      'FINDINGS: The prostate is normal in size.'
+    ].join('\n')
+
+    expect(checkExamContext(report, { contrast: 'none', sex: 'female', comparisonDate: '2026-03-01' })).toEqual([
+      'EXAM CONTEXT: Report says "MRI of the abdomen with IV contrast." but the exam was without IV contrast.',
+      'EXAM CONTEXT: Report describes anatomy the female patient does not have: "The prostate is normal in size."'
+    ])
+    expect(checkExamContext('COMPARISON: Prior study of 1/5/2026.', { comparisonDate: '2026-03-01' })).toHaveLength(1)
+    expect(checkExamContext('COMPARISON: Prior study of 3/1/2026.', { comparisonDate: '2026-03-01' })).toEqual([])
+    expect(checkExamContext('The effusion has decreased in size.', { noComparison: true })).toEqual([
+      'EXAM CONTEXT: Report compares with a prior study but none is available: "The effusion has decreased in size."'
+    ])
+  })
+
+  it('gives the indication, comparison and prior impression to the rules that need them', () => {
+    const logic = {
+      impression: { first_item_should_address_clinical_concern: true },
+      report: { include_comparison: true },
+      measurements: { describe_change_from_prior: true }
+    }
+    const prompt = buildEnhancedPrompt('Meniscal tear.', 'FINDINGS:\nIMPRESSION:', logic, { exam })
+    expect(prompt).toContain('The clinical indication is: Right knee pain after twisting injury')
+
+    const report = 'FINDINGS:\nComplex tear of the medial meniscus.\n\nIMPRESSION:\n1. Small joint effusion.\n2. Complex medial meniscal tear.'
+    const result = validateRules(report, 'Meniscal tear.', logic, { exam })
+    expect(result.violations).toContain('COMPARISON: Report does not cite the comparison study dated 2026-03-01.')
+    expect(result.warnings).toContain('CLINICAL FOCUS: First impression item "Small joint effusion." does not address the indication "Right knee pain after twisting injury".')
+    expect(result.warnings).toContain('INTERVAL CHANGE: Prior findings were provided but the report does not describe interval change.')
+
+    const addressed = 'COMPARISON: 2026-03-01.\n\nFINDINGS:\nComplex tear of the medial meniscus, new since the prior study.\n\nIMPRESSION:\n1. New complex medial meniscal tear of the right knee.'
+    expect(validateRules(addressed, 'Meniscal tear.', logic, { exam })).toMatchObject({ violations: [], warnings: [] })
+  })
+})
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { applyExclusions, parseExclusionRules, parseLegacyExclusion, resolveExclusionRules } from '../exclusions'
+import { postProcessImpressionWithLog } from '../postProcessImpression'
+import validateRules from '../validateRules'
+
+describe('impression exclusions', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  it('reads legacy entries as a concept and a maximum severity', () => {
+    expect(parseLegacyExclusion('small_joint_effusion')).toMatchObject({ concept: 'effusion', maxSeverity: 'small' })
+    expect(parseLegacyExclusion("small_baker's_cyst")).toMatchObject({ concept: 'baker cyst', maxSeverity: 'small' })
+    expect(parseLegacyExclusion('tiny_ganglion_cyst')).toMatchObject({ concept: 'ganglion cyst', maxSeverity: 'trace' })
+    expect(parseLegacyExclusion('bursitis')).toMatchObject({ concept: 'bursitis', maxSeverity: undefined })
+  })
+
+  it('matches paraphrases up to the maximum severity', () => {
+    const rules = parseExclusionRules([{ concept: 'effusion', max_severity: 'small' }])
+
+    expect(applyExclusions('1. ACL tear.\n2. Minimal fluid in the joint.', rules).text).toBe('1. ACL tear.')
+    expect(applyExclusions('1. ACL tear.\n2. Moderate joint effusion.', rules).text).toBe('1. ACL tear.\n2. Moderate joint effusion.')
+    // Ungraded mentions are kept when a maximum is set
+    expect(applyExclusions('1. ACL tear.\n2. Joint effusion.', rules).text).toBe('1. ACL tear.\n2. Joint effusion.')
+  })
+
+  it('keeps findings with modifiers that make them reportable', () => {
+    const rules = parseExclusionRules([{ concept: 'effusion', max_severity: 'small' }, { concept: 'tendinosis', max_severity: 'mild' }])
+    const impression = '1. Small joint effusion, increased from prior.\n2. Mild hemorrhagic effusion.\n3. Mild supraspinatus tendinopathy.'
+
+    expect(applyExclusions(impression, rules).text).toBe('1. Small joint effusion, increased from prior.\n2. Mild hemorrhagic effusion.')
+  })
+
+  it('removes sentences that only report excluded findings and logs why', () => {
+    const rules = resolveExclusionRules({ impression: { exclude_by_default: ['small_joint_effusion', 'small_bakers_cyst'] } })
+    const { text, removed } = applyExclusions('1. Complete ACL tear. Trace joint fluid. Tear measures 3.5 cm.\n2. Small popliteal cyst.', rules)
+
+    expect(text).toBe('1. Complete ACL tear. Tear measures 3.5 cm.')
+    expect(removed).toEqual([
+      {
+        item: 'Complete ACL tear. Trace joint fluid. Tear measures 3.5 cm.',
+        removed: 'Trace joint fluid',
+        rule: 'small_joint_effusion',
+        reason: 'effusion is excluded up to "small" severity'
+      },
+      { item: 'Small popliteal cyst.', removed: 'Small popliteal cyst', rule: 'small_bakers_cyst', reason: 'baker cyst is excluded up to "small" severity' }
+    ])
+  })
+
+  it('keeps sentences whole when an excluded finding shares them with other findings', () => {
+    const rules = parseExclusionRules([{ concept: 'bone marrow edema', max_severity: 'mild' }, { concept: 'tendinosis', max_severity: 'mild' }])
+    const impression = [
+      '1. Mild bone marrow edema in the lateral femoral condyle and tibial plateau, consistent with pivot shift injury.',
+      '2. Mild tendinosis of the supraspinatus and small partial-thickness tear.'
+    ].join('\n')
+    const { text, removed, kept } = applyExclusions(impression, rules)
+
+    expect(text).toBe(impression)
+    expect(removed).toEqual([])
+    expect(kept.map(entry => entry.removed)).toEqual(['Mild bone marrow edema in the lateral femoral condyle', 'Mild tendinosis of the supraspinatus'])
+
+    const result = validateRules(`IMPRESSION:\n${impression}`, '', { impression: { exclusion_rules: [{ concept: 'tendinosis', max_severity: 'mild' as const }] } })
+    expect(result.violations.filter(violation => violation.startsWith('EXCLUSION'))).toEqual([])
+    expect(result.warnings).toContain('EXCLUSION RULE: "Mild tendinosis of the supraspinatus" was left in the impression because its sentence also reports other findings; tendinosis is excluded up to "mild" severity.')
+  })
+
+  it('renumbers the remaining items and returns the removal log', () => {
+    const impression = '1. Mild tendinosis of the supraspinatus.\n2. Full-thickness rotator cuff tear.\n3. Trace subacromial bursitis.'
+    const logic = { impression: { exclusion_rules: [{ concept: 'tendinosis', max_severity: 'mild' as const }, { concept: 'bursitis' }] } }
+    const { text, removed } = postProcessImpressionWithLog(impression, logic)
+
+    expect(text).toBe('1. Full-thickness rotator cuff tear.')
+    expect(removed.map(removal => removal.rule)).toEqual(['tendinosis', 'bursitis'])
+  })
+
+  it('validates structured exclusion rules', () => {
+    const logic = { impression: { exclusion_rules: [{ concept: 'effusion', max_severity: 'small' as const }] } }
+    const result = validateRules('IMPRESSION:\n1. ACL tear.\n2. Small amount of intra-articular fluid.', '', logic)
+
+    expect(result.violations).toContain('EXCLUSION RULE VIOLATION: "Small amount of intra-articular fluid" appears in impression but effusion is excluded up to "small" severity.')
+  })
+})
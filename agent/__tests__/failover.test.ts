@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../callModel', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../callModel')>();
+  return { ...actual, default: vi.fn() };
+});
+
+import callModel, { createProviderError, createAbortError } from '../callModel';
+import { callModelWithFailover, isRetryableError } from '../failover';
+
+const mockedCallModel = vi.mocked(callModel);
+const noSleep = () => Promise.resolve();
+const healthy = () => Promise.resolve(true);
+
+function ok(text: string) {
+  return { text, tokens: { input: 1, output: 1, total: 2 } };
+}
+
+describe('isRetryableError', () => {
+  it('retries rate limits, server errors and network failures only', () => {
+    expect(isRetryableError(createProviderError('rate limited', 'openai', 429))).toBe(true);
+    expect(isRetryableError(createProviderError('bad gateway', 'openai', 502))).toBe(true);
+    expect(isRetryableError(new Error('fetch failed'))).toBe(true);
+    expect(isRetryableError(createProviderError('bad key', 'openai', 401))).toBe(false);
+  });
+});
+
+describe('callModelWithFailover', () => {
+  beforeEach(() => {
+    mockedCallModel.mockReset();
+  });
+
+  it('retries a transient failure with exponential backoff', async () => {
+    const delays: number[] = [];
+    mockedCallModel
+      .mockRejectedValueOnce(createProviderError('overloaded', 'openai', 503))
+      .mockRejectedValueOnce(createProviderError('overloaded', 'openai', 503))
+      .mockResolvedValueOnce(ok('report'));
+
+    const result = await callModelWithFailover({
+      prompt: 'p',
+      chain: ['openai'],
+      baseDelayMs: 100,
+      checkHealth: healthy,
+      sleep: async (ms) => { delays.push(ms); }
+    });
+
+    expect(result.provider).toBe('openai');
+    expect(result.text).toBe('report');
+    expect(delays).toEqual([100, 200]);
+    expect(result.attempts).toEqual([{ provider: 'openai', outcome: 'success', calls: 3 }]);
+  });
+
+  it('falls back to the next provider and records which one answered', async () => {
+    mockedCallModel.mockImplementation(async ({ provider }) => {
+      if (provider === 'claude-sonnet') throw createProviderError('down', provider, 500);
+      return ok(`from ${provider}`);
+    });
+
+    const attempted: string[] = [];
+    const result = await callModelWithFailover({
+      prompt: 'p',
+      chain: ['claude-sonnet', 'openai', 'mistral-local'],
+      maxRetries: 1,
+      checkHealth: healthy,
+      sleep: noSleep,
+      onProviderAttempt: (provider) => attempted.push(provider)
+    });
+
+    expect(result.provider).toBe('openai');
+    expect(result.text).toBe('from openai');
+    expect(attempted).toEqual(['claude-sonnet', 'claude-sonnet', 'openai']);
+  });
+
+  it('does not retry non-transient errors on the same provider', async () => {
+    mockedCallModel
+      .mockRejectedValueOnce(createProviderError('invalid key', 'openai', 401))
+      .mockResolvedValueOnce(ok('local report'));
+
+    const result = await callModelWithFailover({
+      prompt: 'p',
+      chain: ['openai', 'mistral-local'],
+      checkHealth: healthy,
+      sleep: noSleep
+    });
+
+    expect(result.provider).toBe('mistral-local');
+    expect(result.attempts[0]).toMatchObject({ provider: 'openai', outcome: 'failed', calls: 1 });
+  });
+
+  it('skips providers whose health check fails', async () => {
+    mockedCallModel.mockResolvedValue(ok('report'));
+
+    const result = await callModelWithFailover({
+      prompt: 'p',
+      chain: ['mistral-local', 'gemini'],
+      checkHealth: async (provider) => provider !== 'mistral-local',
+      sleep: noSleep
+    });
+
+    expect(result.provider).toBe('gemini');
+    expect(result.attempts[0]).toEqual({ provider: 'mistral-local', outcome: 'skipped', calls: 0 });
+    expect(mockedCallModel).toHaveBeenCalledTimes(1);
+  });
+
+  it('reports every failure when the whole chain is exhausted', async () => {
+    mockedCallModel.mockRejectedValue(createProviderError('bad request', 'x', 400));
+
+    await expect(callModelWithFailover({
+      prompt: 'p',
+      chain: ['openai', 'gemini'],
+      checkHealth: healthy,
+      sleep: noSleep
+    })).rejects.toThrow('All providers failed (openai: bad request; gemini: bad request)');
+  });
+
+  it('stops immediately when the generation is cancelled', async () => {
+    mockedCallModel.mockRejectedValueOnce(createAbortError());
+
+    await expect(callModelWithFailover({
+      prompt: 'p',
+      chain: ['openai', 'gemini'],
+      checkHealth: healthy,
+      sleep: noSleep
+    })).rejects.toMatchObject({ name: 'AbortError' });
+    expect(mockedCallModel).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest'
+import { toGenerationOptions } from '../generationSettings'
+
+describe('toGenerationOptions', () => {
+  it('returns no overrides when the logic has no generation block', () => {
+    expect(toGenerationOptions({})).toEqual({})
+    expect(toGenerationOptions(null)).toEqual({})
+  })
+
+  it('maps agent_logic.generation to provider options', () => {
+    expect(toGenerationOptions({
+      generation: {
+        temperature: 0.2,
+        top_p: 0.8,
+        max_tokens: 2000,
+        system_persona: '  You are a musculoskeletal radiologist.  ',
+        stop_sequences: ['END OF REPORT']
+      }
+    })).toEqual({
+      temperature: 0.2,
+      topP: 0.8,
+      maxTokens: 2000,
+      system: 'You are a musculoskeletal radiologist.',
+      stop: ['END OF REPORT']
+    })
+  })
+
+  it('drops out-of-range and mistyped values so provider defaults apply', () => {
+    expect(toGenerationOptions({
+      generation: {
+        temperature: 3,
+        top_p: -0.1,
+        max_tokens: 12.5,
+        system_persona: '   ',
+        stop_sequences: ['', 42 as unknown as string]
+      }
+    })).toEqual({})
+  })
+})
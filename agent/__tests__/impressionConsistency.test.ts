@@ -0,0 +1,69 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { checkImpressionConsistency, extractConcepts } from '../impressionConsistency'
+import { extractSections } from '../validateSectionHeaders'
+import validateRules from '../validateRules'
+
+const REPORT = `MRI RIGHT KNEE
+
+FINDINGS:
+Ligaments: Complete tear of the anterior cruciate ligament. The PCL is intact.
+Menisci: Horizontal tear of the medial meniscus.
+Joint: No fracture, dislocation, or effusion.
+
+IMPRESSION:
+1. Complete ACL tear.
+2. Medial meniscus tear.
+`
+
+describe('impression consistency', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  it('splits a report into sections', () => {
+    const sections = extractSections(REPORT)
+    expect(sections.map(section => section.header)).toEqual(['FINDINGS:', 'IMPRESSION:'])
+    expect(sections[1].content).toBe('1. Complete ACL tear.\n2. Medial meniscus tear.')
+  })
+
+  it('extracts concepts with negation', () => {
+    const concepts = extractConcepts('No fracture, dislocation, or effusion. The PCL is intact but the ACL is torn.')
+    expect(concepts.map(({ key, status }) => `${key}:${status}`)).toEqual([
+      'fracture:absent',
+      'dislocation:absent',
+      'effusion:absent',
+      'posterior cruciate ligament:absent',
+      'anterior cruciate ligament:present'
+    ])
+  })
+
+  it('passes an impression that agrees with the findings', () => {
+    expect(checkImpressionConsistency(REPORT).issues).toEqual([])
+  })
+
+  it('flags an impression that contradicts the findings', () => {
+    const report = REPORT.replace('1. Complete ACL tear.', '1. Intact ACL.').replace('2. Medial meniscus tear.', '2. Small joint effusion.')
+    const issues = checkImpressionConsistency(report).issues
+
+    expect(issues.map(issue => issue.kind)).toEqual(['contradiction', 'contradiction'])
+    expect(issues[0].message).toBe(
+      'Impression describes the anterior cruciate ligament as intact ("Intact ACL.") but the findings describe the anterior cruciate ligament as abnormal ("Ligaments: Complete tear of the anterior cruciate ligament.").'
+    )
+    expect(issues[1].findings).toBe('Joint: No fracture, dislocation, or effusion.')
+  })
+
+  it('flags impression items with no basis in the findings', () => {
+    const report = REPORT.replace('2. Medial meniscus tear.', '2. Medial meniscus tear.\n3. Supraspinatus tendinosis.')
+    const issues = checkImpressionConsistency(report).issues
+
+    expect(issues).toHaveLength(1)
+    expect(issues[0]).toMatchObject({ kind: 'orphan', impression: 'Supraspinatus tendinosis.' })
+  })
+
+  it('uses the dictated findings for impression-only output', () => {
+    const result = validateRules('1. Lateral meniscus tear.', 'Lateral meniscus is intact. ACL tear.', {} as any)
+    expect(result.violations).toContain(
+      'IMPRESSION CONFLICT: Impression describes the lateral meniscus as abnormal ("Lateral meniscus tear.") but the findings describe the lateral meniscus as intact ("Lateral meniscus is intact.").'
+    )
+  })
+})
@@ -0,0 +1,92 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { checkLaterality, findLateralityMentions, impliedSide } from '../laterality'
+import validateRules from '../validateRules'
+
+const TEMPLATE = 'MRI RIGHT KNEE WITHOUT CONTRAST\n\nFINDINGS:\nMenisci: [describe left or right findings]\n\nIMPRESSION:\n'
+
+describe('laterality', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  it('reads the side a text implies', () => {
+    expect(impliedSide('MRI Knee Left')).toBe('left')
+    expect(impliedSide('Right shoulder')).toBe('right')
+    expect(impliedSide('Left and right hips')).toBe('bilateral')
+    expect(impliedSide('Both knees')).toBe('bilateral')
+    expect(impliedSide('Both menisci are intact.')).toBeUndefined()
+  })
+
+  it('records the sentence around each mention', () => {
+    const [mention] = findLateralityMentions('No fracture. Tear of the left medial meniscus. Small effusion.')
+    expect(mention).toMatchObject({ side: 'left', term: 'left', excerpt: 'Tear of the left medial meniscus.' })
+  })
+
+  it('flags report sentences naming the other side of a right knee exam', () => {
+    const result = checkLaterality({
+      report: 'FINDINGS:\nRight knee.\nHorizontal tear of the left medial meniscus.',
+      template: TEMPLATE,
+      studyType: 'MRI Knee'
+    })
+
+    expect(result.examSide).toBe('right')
+    expect(result.sources).toEqual({ template: 'right' })
+    expect(result.conflicts).toEqual([{
+      kind: 'report',
+      message: 'RIGHT exam but the report says "left": "Horizontal tear of the left medial meniscus."',
+      excerpt: 'Horizontal tear of the left medial meniscus.'
+    }])
+  })
+
+  it('flags inputs that disagree, trusting the exam context first', () => {
+    const result = checkLaterality({ report: '', studyType: 'MRI Knee Right', findings: 'Left knee pain.', examSide: 'right' })
+
+    expect(result.conflicts.map(conflict => conflict.message)).toEqual([
+      'Exam context indicates RIGHT but findings indicates LEFT.'
+    ])
+  })
+
+  it('flags a report that names both sides when no input gives the side', () => {
+    const result = checkLaterality({ report: 'Left medial meniscus tear. Right lateral meniscus intact.', studyType: 'MRI Knee' })
+    expect(result.examSide).toBeUndefined()
+    expect(result.conflicts[0].message).toContain('both LEFT and RIGHT')
+  })
+
+  it('leaves body exams that name both sides of paired organs alone', () => {
+    const chest = checkLaterality({
+      report: 'FINDINGS:\n8 mm right upper lobe nodule. The left lung is clear.',
+      findings: '8 mm right upper lobe nodule.',
+      studyType: 'CT Chest'
+    })
+    const abdomen = checkLaterality({
+      report: 'FINDINGS:\nThe right and left kidneys are normal. Left adrenal gland is normal.',
+      studyType: 'CT Abdomen and Pelvis'
+    })
+
+    expect(chest).toMatchObject({ lateralExam: false, conflicts: [] })
+    expect(chest.examSide).toBeUndefined()
+    expect(abdomen).toMatchObject({ lateralExam: false, conflicts: [] })
+
+    const validation = validateRules('FINDINGS:\nThe right and left kidneys are normal.\n\nIMPRESSION:\n1. Normal kidneys.', 'Normal kidneys.', {}, { studyType: 'CT Abdomen and Pelvis' })
+    expect(validation.violations.filter(violation => violation.startsWith('LATERALITY'))).toEqual([])
+  })
+
+  it('does not take the exam side from findings about paired or midline anatomy', () => {
+    const result = checkLaterality({
+      report: 'FINDINGS:\nLeft knee. Small joint effusion.',
+      findings: 'Small joint effusion. Incidental right inguinal lymph node.',
+      studyType: 'MRI Knee'
+    })
+
+    expect(result.lateralExam).toBe(true)
+    expect(result.sources).toEqual({})
+    expect(result.conflicts).toEqual([])
+  })
+
+  it('reports laterality conflicts as rule violations', () => {
+    const result = validateRules('IMPRESSION:\n1. Left ACL tear.', 'Complete ACL tear.', {}, { studyType: 'MRI Knee Right' })
+
+    expect(result.passed).toBe(false)
+    expect(result.violations).toContain('LATERALITY: RIGHT exam but the report says "Left": "Left ACL tear."')
+  })
+})
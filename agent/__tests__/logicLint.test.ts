@@ -0,0 +1,69 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { lintAgentLogic } from '../logicLint'
+import { getDefaultAgentLogic } from '../../src/utils/logicMerge'
+
+describe('logic linter', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  it('passes the default logic', () => {
+    expect(lintAgentLogic({ defaultLogic: getDefaultAgentLogic() }).issues).toEqual([])
+  })
+
+  it('reports conflicting flags with the layer of each side', () => {
+    const { issues } = lintAgentLogic({ studySpecificLogic: { formatting: { use_bullet_points: true } } })
+
+    expect(issues).toEqual([{
+      kind: 'conflict',
+      severity: 'warning',
+      path: 'impression.numerically_itemized',
+      message: 'impression.numerically_itemized conflicts with formatting.use_bullet_points: The impression is asked to be both a numbered list and bullet points.',
+      layer: 'default',
+      conflictsWith: { path: 'formatting.use_bullet_points', layer: 'study' }
+    }])
+  })
+
+  it('reports exclusions that instructions or validations require', () => {
+    const { issues } = lintAgentLogic({
+      baseLogic: { custom_impression_instructions: ['Always mention trace fluid when present'] },
+      studySpecificLogic: {
+        validations: [{ id: 'effusion', kind: 'require_mention', section: 'IMPRESSION', pattern: 'joint effusion' }]
+      }
+    })
+
+    expect(issues.map(issue => [issue.path, issue.conflictsWith])).toEqual([
+      ['impression.exclude_by_default', { path: 'validations[0]', layer: 'study' }],
+      ['impression.exclude_by_default', { path: 'validations[0]', layer: 'study' }],
+      ['impression.exclude_by_default', { path: 'validations[0]', layer: 'study' }],
+      ['impression.exclude_by_default', { path: 'custom_impression_instructions', layer: 'base' }]
+    ])
+    expect(issues[3]).toMatchObject({
+      layer: 'default',
+      message: '"trace_fluid" is excluded from the impression, but custom_impression_instructions requires it: "Always mention trace fluid when present"'
+    })
+  })
+
+  it('reports unknown keys, unrecognized values, suspicious entries and unused keys', () => {
+    const { issues } = lintAgentLogic({
+      baseLogic: {
+        impression: {
+          mention_muscle_atrophy_if: 'mild',
+          exclude_by_default: ['Small joint effusion', 'Do not mention degenerative changes unless severe.', ' ']
+        },
+        report: { preserve_section_structure: true }
+      },
+      studySpecificLogic: { impression: { numbered: true } }
+    })
+
+    expect(issues.map(({ kind, severity, path, layer }) => ({ kind, severity, path, layer }))).toEqual([
+      { kind: 'unknown-key', severity: 'error', path: 'impression.numbered', layer: 'study' },
+      { kind: 'invalid-value', severity: 'warning', path: 'impression.mention_muscle_atrophy_if', layer: 'base' },
+      { kind: 'suspicious-entry', severity: 'warning', path: 'impression.exclude_by_default[13]', layer: 'base' },
+      { kind: 'suspicious-entry', severity: 'warning', path: 'impression.exclude_by_default[14]', layer: 'base' },
+      { kind: 'suspicious-entry', severity: 'warning', path: 'impression.exclude_by_default[15]', layer: 'base' },
+      { kind: 'unused-key', severity: 'info', path: 'report.preserve_section_structure', layer: 'base' }
+    ])
+    expect(issues[2].message).toBe('impression.exclude_by_default[13] "Small joint effusion" repeats "small_joint_effusion".')
+  })
+})
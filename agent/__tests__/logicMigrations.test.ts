@@ -0,0 +1,100 @@
+import { createRequire } from 'module'
+import { describe, it, expect } from 'vitest'
+import { migrateAgentLogic, normalizeLogicVersion, CURRENT_LOGIC_VERSION, LOGIC_MIGRATIONS } from '../logicMigrations'
+import { validateAgentLogic } from '../logicSchema'
+import { createDefaultAgentLogic } from '../defaultAgentLogic'
+
+const electronMigrations = createRequire(import.meta.url)('../../electron/logicMigrations.js')
+
+const NOW = new Date('2026-01-15T12:00:00.000Z')
+
+const fallbackLogic = {
+  instructions: 'Generate a concise report. Use bullet points and include a technique section.',
+  version: '1.0_fallback',
+  impression: { concise_summary: false }
+}
+
+const legacyLogic = {
+  version: '1.0',
+  reportSpecific: {
+    includeAllSections: true,
+    sectionOrder: ['TECHNIQUE', 'FINDINGS', 'IMPRESSION'],
+    customSections: { COMPARISON: 'List prior studies' }
+  },
+  impressionSpecific: { style: 'structured', includeRecommendations: true },
+  steps: [{ name: 'review', prompt: 'Review every finding before writing' }],
+  context: { source: 'v1 editor' },
+  impression: { exclude_by_default: 'trace fluid, small joint effusion\nmild tendinosis' },
+  custom_instructions: 'Mention ACL status'
+}
+
+describe('agent logic migrations', () => {
+  it('chains the generate_prompt fallback up to the current version', () => {
+    const { logic, applied } = migrateAgentLogic(fallbackLogic, NOW)
+
+    expect(applied.map(step => step.id)).toEqual(['fallback-prompt-to-structured', 'legacy-sections-to-v2'])
+    expect(logic.version).toBe(CURRENT_LOGIC_VERSION)
+    expect(logic).not.toHaveProperty('instructions')
+    expect(logic.formatting?.use_bullet_points).toBe(true)
+    expect(logic.report?.include_technique_section).toBe(true)
+    // Values stored with the fallback win over keyword-derived ones
+    expect(logic.impression?.concise_summary).toBe(false)
+    expect(logic.migration_history).toEqual([
+      { id: 'fallback-prompt-to-structured', from: '1.0_fallback', to: '1.0', applied_at: NOW.toISOString() },
+      { id: 'legacy-sections-to-v2', from: '1.0', to: '2.0', applied_at: NOW.toISOString() }
+    ])
+    expect(validateAgentLogic(logic).errors).toEqual([])
+  })
+
+  it('folds v1 camelCase sections into the v2 structure', () => {
+    const { logic } = migrateAgentLogic(legacyLogic, NOW)
+
+    expect(logic).not.toHaveProperty('reportSpecific')
+    expect(logic).not.toHaveProperty('impressionSpecific')
+    expect(logic.report?.preserve_section_structure).toBe(true)
+    expect(logic.impression).toMatchObject({
+      numerically_itemized: true,
+      include_recommendations: true,
+      exclude_by_default: ['trace fluid', 'small joint effusion', 'mild tendinosis']
+    })
+    expect(logic.custom_instructions).toEqual([
+      'Mention ACL status',
+      'Order the report sections as: TECHNIQUE, FINDINGS, IMPRESSION',
+      'Include a "COMPARISON" section: List prior studies',
+      'Review every finding before writing'
+    ])
+    expect(validateAgentLogic(logic).errors).toEqual([])
+  })
+
+  it('leaves current and unversioned logic untouched', () => {
+    const current = createDefaultAgentLogic('MRI Knee')
+    expect(migrateAgentLogic(current)).toEqual({ logic: current, applied: [] })
+
+    const delta = { impression: { concise_summary: true } }
+    expect(migrateAgentLogic(delta).logic).toBe(delta)
+    expect(migrateAgentLogic(null).logic).toBeNull()
+  })
+
+  it('normalizes numeric versions without recording a migration', () => {
+    expect(normalizeLogicVersion(2)).toBe('2.0')
+    expect(normalizeLogicVersion('1')).toBe('1.0')
+    expect(migrateAgentLogic({ version: 2.0 })).toEqual({ logic: { version: '2.0' }, applied: [] })
+  })
+
+  it('keeps earlier history and reports versions without a path', () => {
+    const previous = [{ id: 'manual-import', from: '0.9', to: '1.0', applied_at: '2025-01-01T00:00:00.000Z' }]
+    const { logic } = migrateAgentLogic({ version: '1.0', migration_history: previous }, NOW)
+    expect(logic.migration_history?.map(step => step.id)).toEqual(['manual-import', 'legacy-sections-to-v2'])
+
+    const future = { version: '3.0', report: {} }
+    expect(migrateAgentLogic(future)).toEqual({ logic: future, applied: [], unsupportedVersion: '3.0' })
+  })
+
+  it('matches the main-process implementation', () => {
+    expect(electronMigrations.CURRENT_LOGIC_VERSION).toBe(CURRENT_LOGIC_VERSION)
+    expect(electronMigrations.LOGIC_MIGRATIONS.map((step: any) => step.id)).toEqual(LOGIC_MIGRATIONS.map(step => step.id))
+    for (const logic of [fallbackLogic, legacyLogic, { version: 2 }, { version: '3.0' }, createDefaultAgentLogic('CT Chest'), undefined]) {
+      expect(electronMigrations.migrateAgentLogic(logic, NOW)).toEqual(migrateAgentLogic(logic, NOW))
+    }
+  })
+})
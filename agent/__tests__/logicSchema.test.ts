@@ -0,0 +1,84 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import { describe, it, expect, vi } from 'vitest'
+import { validateAgentLogic, getLogicSchemaNode, toJsonSchema, AGENT_LOGIC_SCHEMA } from '../logicSchema'
+import { createDefaultAgentLogic } from '../defaultAgentLogic'
+import { strictHeaderAgentLogic } from '../strictHeaderExample'
+import { EDIT_LOGIC_SYSTEM_PROMPT } from '../prompts/editLogicSystemPrompt'
+import { listPromptFixtures, loadPromptFixture } from '../promptSnapshots'
+import { getDefaultAgentLogic } from '../../src/utils/logicMerge'
+import { validateLogicStructure } from '../../src/utils/logicInheritance'
+
+describe('agent logic schema', () => {
+  it('accepts every logic the app produces', () => {
+    for (const studyType of ['Generic', 'MRI Knee', 'CT Abdomen Pelvis', 'MRI Lumbar Spine']) {
+      expect(validateAgentLogic(createDefaultAgentLogic(studyType)).errors).toEqual([])
+    }
+    expect(validateAgentLogic(getDefaultAgentLogic()).errors).toEqual([])
+    expect(validateAgentLogic(strictHeaderAgentLogic).errors).toEqual([])
+    for (const name of listPromptFixtures()) {
+      expect(validateAgentLogic(loadPromptFixture(name).agent_logic).errors, name).toEqual([])
+    }
+  })
+
+  it('reports unknown keys and wrong types by path', () => {
+    const result = validateAgentLogic({
+      report: { no_hallucinated_findings: 'yes', made_up_rule: true },
+      impression: { exclude_by_default: ['trace_fluid', 3] },
+      generation: { temperature: 2.5, max_tokens: 10.5 },
+      custom_instructions: { first: 'x' },
+      extra_section: {}
+    })
+
+    expect(result.valid).toBe(false)
+    expect(result.errors).toEqual([
+      'report.no_hallucinated_findings: expected boolean, got string',
+      'report.made_up_rule: unknown key',
+      'impression.exclude_by_default[1]: expected string, got number',
+      'generation.temperature: must be at most 2',
+      'generation.max_tokens: expected integer, got number',
+      'custom_instructions: expected array of strings or string, got object',
+      'extra_section: unknown key'
+    ])
+  })
+
+  it('rejects null and non-object logic', () => {
+    expect(validateAgentLogic({ style: { active_voice: null } }).errors).toEqual(['style.active_voice: expected boolean, got null'])
+    expect(validateAgentLogic([]).errors).toEqual(['(root): expected object, got array'])
+  })
+
+  it('skips keys marked for deletion in pending editor changes', () => {
+    expect(validateAgentLogic({ formatting: { use_bullet_points: undefined }, anatomy: undefined }).valid).toBe(true)
+  })
+
+  it('requires the core sections for complete logic', () => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    expect(validateLogicStructure(getDefaultAgentLogic())).toEqual({ valid: true, errors: [] })
+    expect(validateLogicStructure({ report: {}, impression: { exclude_by_default: 'trace_fluid' } }).errors).toEqual([
+      'Missing required key: formatting',
+      'impression.exclude_by_default: expected array of strings, got string'
+    ])
+  })
+
+  it('looks up nodes by path', () => {
+    expect(getLogicSchemaNode(['impression', 'exclude_by_default'])).toMatchObject({ type: 'array' })
+    expect(getLogicSchemaNode(['impression', 'nope'])).toBeUndefined()
+    expect(getLogicSchemaNode(['version', 'nested'])).toBeUndefined()
+  })
+
+  it('keeps the committed JSON Schema in sync', () => {
+    // Regenerate with: npm run logic:schema
+    const file = path.resolve(__dirname, '../agentLogic.schema.json')
+    const committed = JSON.parse(fs.readFileSync(file, 'utf-8'))
+    expect(committed).toEqual(toJsonSchema())
+    expect(committed.additionalProperties).toBe(false)
+    expect(committed.properties.impression.additionalProperties).toBe(false)
+  })
+
+  it('lists every section in the logic editing prompt', () => {
+    for (const key of Object.keys(AGENT_LOGIC_SCHEMA.properties)) {
+      expect(EDIT_LOGIC_SYSTEM_PROMPT).toContain(`- ${key}:`)
+    }
+    expect(EDIT_LOGIC_SYSTEM_PROMPT).toContain('exclude_by_default (array of strings)')
+  })
+})
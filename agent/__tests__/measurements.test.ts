@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { crossCheckMeasurements, extractMeasurements, extractStandaloneNumbers } from '../measurements'
+import validateRules from '../validateRules'
+
+describe('measurements', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  it('parses dictated dimensions, units and single values', () => {
+    const measurements = extractMeasurements('Cyst measuring two point one by three centimeters. Effusion 5mm deep. Angle of 30 degrees, 2 cm by 3 cm lipoma.')
+
+    expect(measurements.map(({ raw, values, unit }) => ({ raw, values, unit }))).toEqual([
+      { raw: '2.1 x 3 centimeters', values: [2.1, 3], unit: 'cm' },
+      { raw: '5mm', values: [5], unit: 'mm' },
+      { raw: '30 degrees', values: [30], unit: 'degrees' },
+      { raw: '2 cm x 3 cm', values: [2, 3], unit: 'cm' }
+    ])
+  })
+
+  it('ignores list numbering, labels, dates and times', () => {
+    expect(extractStandaloneNumbers('1. Grade 2 signal at L4-5 on T2 images, 10/12/2024 at 4:00.\n2. Two loose bodies.')).toEqual([2, 2])
+  })
+
+  it('passes a report that keeps every measurement', () => {
+    const result = crossCheckMeasurements(
+      'Paralabral cyst 1.2 x 0.8 cm. Small effusion.',
+      'FINDINGS:\nParalabral cyst measuring 1.2 x 0.8 cm.\n\nIMPRESSION:\n1. Paralabral cyst (1.2 x 0.8 cm).'
+    )
+    expect(result.issues).toEqual([])
+  })
+
+  it('flags changed, converted, missing and invented measurements', () => {
+    const result = crossCheckMeasurements(
+      'Ganglion 2.1 x 3 cm. Tendon gap 15 mm. Baker cyst 4 cm.',
+      'Ganglion measuring 2.1 x 3.5 cm. Tendon gap of 1.5 cm. Loose body 6 mm.'
+    )
+    expect(result.issues.map(issue => issue.kind)).toEqual(['converted', 'changed', 'missing', 'new-measurement'])
+    expect(result.issues[0].message).toBe('"15 mm" from the findings was converted to "1.5 cm"; keep the dictated units.')
+    expect(result.issues[1].message).toBe('"2.1 x 3 cm" from the findings was changed to "2.1 x 3.5 cm" in the report.')
+    expect(result.issues[2].message).toBe('"4 cm" from the findings is missing from the report.')
+
+    const invented = crossCheckMeasurements('Small effusion.', 'Small effusion measuring 6 mm. Grade 3 chondrosis.')
+    expect(invented.issues.map(issue => issue.message)).toEqual([
+      '"6 mm" in the report does not appear in the findings.',
+      'The number 3 in the report does not appear in the findings.'
+    ])
+  })
+
+  it('allows numbers that come from the template', () => {
+    const result = crossCheckMeasurements('Normal study.', 'Patellar tendon thickness 5 mm.', 'Patellar tendon thickness 5 mm.')
+    expect(result.issues).toEqual([])
+  })
+
+  it('ignores years and image references, and allows numbers from trusted sources', () => {
+    expect(extractStandaloneNumbers('Nodule (series 3, image 45) unchanged since 2024. Images 12-14.')).toEqual([])
+
+    const untrusted = crossCheckMeasurements('Nodule 6 mm.', 'Nodule 6 mm, previously 4 mm. Follow-up in 12 months.')
+    expect(untrusted.issues.map(issue => issue.kind)).toEqual(['new-measurement', 'new-number'])
+
+    const trusted = crossCheckMeasurements('Nodule 6 mm.', 'Nodule 6 mm, previously 4 mm. Follow-up in 12 months.', '', ['Prior: nodule 4 mm.', 'CT at 12 months.'])
+    expect(trusted.issues).toEqual([])
+  })
+
+  it('skips written dates and reports new counts as warnings', () => {
+    expect(extractStandaloneNumbers('COMPARISON: March 1, 2026. Prior from Sept 3rd and 14 Feb 2025. Marrow edema at 3 marrow sites.')).toEqual([3])
+
+    const result = validateRules(
+      'EXAM: MRI knee\nCOMPARISON: March 1, 2026.\nHISTORY: 54-year-old with knee pain.\nFINDINGS:\nThree loose bodies. Effusion 1.5 cm.\n\nIMPRESSION:\n1. Loose bodies.',
+      'Loose bodies. Effusion 1.5 cm.',
+      {} as any,
+      { exam: { age: 54, comparisonDate: '2026-03-01' } }
+    )
+    expect(result.violations.filter(violation => violation.startsWith('MEASUREMENT'))).toEqual([])
+    expect(result.warnings).toContain('MEASUREMENT: The number 3 in the report does not appear in the findings.')
+    expect(result.measurements?.issues.map(issue => issue.severity)).toEqual(['warning'])
+  })
+
+  it('reports mismatches as violations in validateRules', () => {
+    const result = validateRules('IMPRESSION:\n1. Cyst measuring 2 cm.', 'Cyst 20 mm.', {} as any)
+    expect(result.violations).toContain('MEASUREMENT: "20 mm" from the findings was converted to "2 cm"; keep the dictated units.')
+    expect(result.measurements?.issues).toHaveLength(1)
+  })
+})
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { alignPriorReport, checkIntervalChanges, splitPriorReport } from '../priorReport'
+import buildEnhancedPrompt from '../buildEnhancedPrompt'
+import validateRules from '../validateRules'
+
+describe('prior report alignment', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  const template = 'TECHNIQUE:\nCT of the abdomen.\n\nFINDINGS:\nAdrenals:\nKidneys:\n\nIMPRESSION:'
+  const prior = [
+    'Technique: CT of the abdomen without contrast.',
+    'Findings: Right adrenal nodule measuring 8 mm.',
+    'Simple cyst in the left kidney measuring 2.0 cm.',
+    'Small nodule in the right lower lobe.',
+    'Impression: 1. Indeterminate right adrenal nodule.'
+  ].join('\n')
+
+  it('splits the prior report on the template headers in any case', () => {
+    const split = splitPriorReport(prior, template)
+    expect(split.sections.map(section => section.header)).toEqual(['TECHNIQUE:', 'FINDINGS:', 'IMPRESSION:'])
+    expect(split.findings).toBe('Right adrenal nodule measuring 8 mm.\nSimple cyst in the left kidney measuring 2.0 cm.\nSmall nodule in the right lower lobe.')
+    expect(split.impression).toBe('1. Indeterminate right adrenal nodule.')
+    expect(splitPriorReport('Stable appearance of the knee.').findings).toBe('Stable appearance of the knee.')
+  })
+
+  it('aligns findings by structure, finding and side', () => {
+    const findings = [
+      'Right adrenal nodule measuring 1.2 cm.',
+      'Simple cyst in the left kidney measuring 2.0 cm.',
+      'Left adrenal nodule measuring 15 mm.',
+      'No pulmonary nodule.'
+    ].join(' ')
+
+    expect(alignPriorReport(findings, prior, template, '2026-03-01').map(change => change.text)).toEqual([
+      'Right adrenal gland nodule: increased from 0.8 to 1.2 cm since 2026-03-01.',
+      'Left kidney cyst: stable at 2 cm since 2026-03-01.',
+      'Left adrenal gland nodule: new since 2026-03-01.',
+      'Right lung nodule: resolved since 2026-03-01.'
+    ])
+    // Prior findings the current text says nothing about are left alone
+    expect(alignPriorReport('Right adrenal nodule measuring 8 mm.', prior, template).map(change => change.kind)).toEqual(['stable'])
+  })
+
+  it('requires the prior size of measured changes in the report', () => {
+    const changes = alignPriorReport('Right adrenal nodule measuring 12 mm.', prior, template, '2026-03-01')
+    expect(changes[0].text).toBe('Right adrenal gland nodule: increased from 8 to 12 mm since 2026-03-01.')
+
+    expect(checkIntervalChanges('Right adrenal nodule measures 12 mm.', changes)).toEqual([
+      'INTERVAL CHANGE: Report does not state that the right adrenal gland nodule increased from 8 mm.'
+    ])
+    expect(checkIntervalChanges('Right adrenal nodule has increased from 8 to 12 mm.', changes)).toEqual([])
+    expect(checkIntervalChanges('Right adrenal nodule has increased from 0.8 cm to 1.2 cm.', changes)).toEqual([])
+  })
+
+  it('gives the alignment to describe_change_from_prior in the prompt and validation', () => {
+    const logic = { measurements: { describe_change_from_prior: true } }
+    const exam = { comparisonDate: '2026-03-01', priorReport: prior }
+    const findings = 'Right adrenal nodule measuring 12 mm.'
+
+    expect(buildEnhancedPrompt(findings, template, logic, { exam })).toContain('- Right adrenal gland nodule: increased from 8 to 12 mm since 2026-03-01.')
+    expect(buildEnhancedPrompt(findings, template, logic)).not.toContain('INTERVAL CHANGE')
+
+    const report = 'FINDINGS:\nAdrenals: Right adrenal nodule measures 12 mm, increased in size.\n\nIMPRESSION:\n1. Enlarging right adrenal nodule.'
+    expect(validateRules(report, findings, logic, { template, exam }).warnings).toContain(
+      'INTERVAL CHANGE: Report does not state that the right adrenal gland nodule increased from 8 mm.'
+    )
+  })
+
+  it('passes a report that states an interval change exactly as aligned', () => {
+    const logic = { measurements: { describe_change_from_prior: true } }
+    const exam = { comparisonDate: '2026-03-01', priorReport: prior }
+    const findings = 'Right adrenal nodule measuring 12 mm.'
+    const [change] = alignPriorReport(findings, prior, template, exam.comparisonDate)
+
+    const report = `FINDINGS:\nAdrenals: Right adrenal nodule measuring 12 mm.\n\nIMPRESSION:\n1. ${change.text}`
+    const result = validateRules(report, findings, logic, { template, exam })
+    expect(result.measurements?.issues).toEqual([])
+    expect(result.violations.filter(violation => violation.startsWith('MEASUREMENT'))).toEqual([])
+    expect(result.warnings.filter(warning => warning.startsWith('INTERVAL CHANGE'))).toEqual([])
+  })
+})
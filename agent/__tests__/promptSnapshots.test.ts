@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest'
+import { listPromptFixtures, loadPromptFixture, renderPrompt, readGoldenPrompt, PROMPT_BUILDER_NAMES } from '../promptSnapshots'
+
+// Regenerate with: npm run prompt:snapshot -- --update
+describe('golden prompts', () => {
+  const fixtures = listPromptFixtures()
+
+  it('has fixtures to check', () => {
+    expect(fixtures.length).toBeGreaterThan(0)
+  })
+
+  for (const name of fixtures) {
+    describe(name, () => {
+      const fixture = loadPromptFixture(name)
+
+      for (const builder of PROMPT_BUILDER_NAMES) {
+        it(`${builder} matches the golden prompt`, () => {
+          const golden = readGoldenPrompt(name, builder)
+          expect(golden, `missing golden for ${name}/${builder}`).toBeDefined()
+          expect(renderPrompt(fixture, builder)).toBe(golden)
+        })
+      }
+    })
+  }
+
+  it('is deterministic across renders', () => {
+    const fixture = loadPromptFixture(fixtures[0])
+    for (const builder of PROMPT_BUILDER_NAMES) {
+      expect(renderPrompt(fixture, builder)).toBe(renderPrompt(fixture, builder))
+    }
+  })
+})
@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { contentTerms, splitSentences, traceReportProvenance } from '../provenance'
+import validateRules from '../validateRules'
+
+const TEMPLATE = 'FINDINGS:\nLigaments: [describe findings]\nMenisci: [describe findings]\nBones: No fracture.\n\nIMPRESSION:\n[numbered list]\n'
+const FINDINGS = 'Complete ACL tear.\nHorizontal tear of the posterior horn of the medial meniscus measuring 1.2 cm.\nSmall joint effusion.'
+const REPORT = [
+  'FINDINGS:',
+  'Ligaments: The anterior cruciate ligament is completely torn.',
+  'Menisci: Horizontal tear of the posterior horn of the medial meniscus, measuring 1.2 cm.',
+  'Bones: No fracture. There is a 3 mm osteochondral lesion of the lateral femoral condyle.',
+  '',
+  'IMPRESSION:',
+  '1. Complete ACL tear.',
+  '2. Posterolateral corner injury.'
+].join('\n')
+
+describe('report provenance', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  it('expands abbreviations and keeps decimals whole', () => {
+    expect(contentTerms('ACL tear 1.2 cm')).toEqual(['anteri', 'crucia', 'ligame', 'tear', '1.2', 'cm'])
+  })
+
+  it('splits sentences with offsets, skipping headers and list markers', () => {
+    const sentences = splitSentences(REPORT)
+
+    expect(sentences.map(sentence => sentence.text)).toContain('Menisci: Horizontal tear of the posterior horn of the medial meniscus, measuring 1.2 cm.')
+    expect(sentences.map(sentence => sentence.text)).toContain('Complete ACL tear.')
+    sentences.forEach(sentence => expect(REPORT.slice(sentence.start, sentence.end)).toBe(sentence.text))
+  })
+
+  it('traces sentences to findings and template lines and flags the rest', () => {
+    const provenance = traceReportProvenance(REPORT, FINDINGS, TEMPLATE)
+
+    expect(provenance.unsupported.map(sentence => sentence.text)).toEqual([
+      'There is a 3 mm osteochondral lesion of the lateral femoral condyle.',
+      'Posterolateral corner injury.'
+    ])
+    const acl = provenance.sentences.find(sentence => sentence.text.startsWith('Ligaments'))!
+    expect(acl.sources.map(source => `${source.kind}:${source.line}`)).toEqual(['findings:1'])
+    expect(provenance.sentences.find(sentence => sentence.text === 'Bones: No fracture.')?.sources[0]).toMatchObject({ kind: 'template', line: 4 })
+  })
+
+  it('never supports a number missing from every source', () => {
+    const provenance = traceReportProvenance('Horizontal tear of the medial meniscus measuring 1.5 cm.', FINDINGS)
+    expect(provenance.unsupported[0].unsupportedTerms).toEqual(['1.5'])
+  })
+
+  it('lists unsupported sentences as warnings when no_hallucinated_findings is on', () => {
+    const result = validateRules(REPORT, FINDINGS, { report: { no_hallucinated_findings: true } }, { template: TEMPLATE })
+
+    expect(result.provenance?.unsupported).toHaveLength(2)
+    expect(result.warnings).toContain('UNSUPPORTED STATEMENT: "Posterolateral corner injury." is not supported by the findings or template.')
+    expect(validateRules(REPORT, FINDINGS, {}).provenance).toBeUndefined()
+  })
+})
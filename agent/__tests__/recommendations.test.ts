@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { checkRecommendations, recommendFollowUp } from '../recommendations'
+import buildEnhancedImpressionPrompt from '../buildEnhancedImpressionPrompt'
+import validateRules from '../validateRules'
+
+describe('follow-up recommendations', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  it('applies the Fleischner table by size, type and risk', () => {
+    const [solid] = recommendFollowUp('7 x 5 mm solid nodule in the right upper lobe.', { age: 60, highRisk: false })
+    expect(solid).toMatchObject({ guideline: 'fleischner', sizeMm: 6, followUp: true })
+    expect(solid.text).toBe('Solid pulmonary nodule (6 mm): CT at 6-12 months, then consider CT at 18-24 months (Fleischner Society 2017).')
+
+    expect(recommendFollowUp('4 mm pulmonary nodule.', { age: 60 })[0].action)
+      .toBe('No follow-up imaging is recommended if low risk; Optional CT at 12 months if high risk')
+    expect(recommendFollowUp('8 mm ground-glass nodule in the left lower lobe.')[0].action)
+      .toBe('CT at 6-12 months to confirm persistence, then CT every 2 years until 5 years')
+    // Not for patients under 35 or with known cancer
+    expect(recommendFollowUp('7 mm pulmonary nodule.', { age: 30 })).toEqual([])
+    expect(recommendFollowUp('No pulmonary nodules.')).toEqual([])
+  })
+
+  it('manages multiple subsolid nodules together at every size', () => {
+    const [small] = recommendFollowUp('Multiple ground-glass nodules in both lungs, the largest measuring 4 mm.', { age: 60 })
+    expect(small).toMatchObject({ followUp: true, action: 'CT at 3-6 months; if stable, consider CT at 2 and 4 years' })
+    expect(recommendFollowUp('Several part-solid nodules in the right lung, the largest 5 mm.', { age: 60 })[0].action)
+      .toBe('CT at 3-6 months; if stable, consider CT at 2 and 4 years')
+
+    const mostSuspicious = 'CT at 3-6 months; subsequent management based on the most suspicious nodule(s)'
+    expect(recommendFollowUp('Multiple ground-glass nodules in both lungs, the largest measuring 6 mm.', { age: 60 })[0].action).toBe(mostSuspicious)
+    expect(recommendFollowUp('Multiple part-solid nodules in the left lung, the largest measuring 9 mm.', { age: 60 })[0].action).toBe(mostSuspicious)
+  })
+
+  it('applies the ACR incidental adrenal, renal and thyroid tables', () => {
+    const findings = [
+      'Left adrenal nodule measuring 2.2 cm with attenuation of 25 HU.',
+      'Right adrenal nodule measuring 1.5 cm with attenuation of 5 HU.',
+      'Simple cyst in the left kidney measuring 3 cm.',
+      'Right thyroid nodule measuring 1.2 cm.'
+    ].join(' ')
+
+    expect(recommendFollowUp(findings, { age: 50 }).map(recommendation => recommendation.text)).toEqual([
+      'Left adrenal nodule (22 mm): Adrenal protocol CT or chemical-shift MRI (ACR Incidental Findings 2017).',
+      'Right adrenal nodule (15 mm): No follow-up imaging is recommended (ACR Incidental Findings 2017).',
+      'Left renal cyst (30 mm): No follow-up imaging is recommended (ACR Incidental Findings 2018).',
+      'Right thyroid nodule (12 mm): No follow-up imaging is recommended (ACR Incidental Findings 2015).'
+    ])
+    expect(recommendFollowUp('Right thyroid nodule measuring 1.2 cm.', { age: 28 })[0].action).toBe('Thyroid ultrasound')
+  })
+
+  it('flags impression recommendations that disagree with the guideline', () => {
+    const recommendations = recommendFollowUp('7 mm solid nodule in the right upper lobe.', { highRisk: true })
+
+    expect(checkRecommendations('1. 7 mm pulmonary nodule. Recommend follow-up CT in 3 months.', recommendations).violations).toEqual([
+      'FOLLOW-UP RECOMMENDATION: Impression says "Recommend follow-up CT in 3 months." but Fleischner Society 2017 recommends: CT at 6-12 months, then CT at 18-24 months.'
+    ])
+    expect(checkRecommendations('1. 7 mm pulmonary nodule. Follow-up CT in 6 months is recommended.', recommendations)).toEqual({ violations: [], warnings: [] })
+    expect(checkRecommendations('1. No acute findings.', recommendations).warnings).toHaveLength(1)
+  })
+
+  it('puts the recommendation in the prompt and validates it when include_recommendations is on', () => {
+    const findings = 'Right adrenal nodule measuring 2 cm with attenuation of 30 HU.'
+    const logic = { impression: { include_recommendations: true } }
+
+    expect(buildEnhancedImpressionPrompt(findings, '', logic)).toContain('- Right adrenal nodule (20 mm): Adrenal protocol CT or chemical-shift MRI (ACR Incidental Findings 2017).')
+    expect(validateRules('1. Right adrenal nodule. No further imaging is needed.', findings, logic).violations).toContain(
+      'FOLLOW-UP RECOMMENDATION: Impression says "No further imaging is needed." but ACR Incidental Findings 2017 recommends: Adrenal protocol CT or chemical-shift MRI.'
+    )
+  })
+
+  it('accepts the numbers of a recommendation written exactly as given', () => {
+    const findings = '7 x 5 mm solid nodule in the right upper lobe.'
+    const [recommendation] = recommendFollowUp(findings, { highRisk: true })
+    const report = `FINDINGS:\n${findings}\n\nIMPRESSION:\n1. 7 x 5 mm solid nodule in the right upper lobe.\n2. ${recommendation.text}`
+    const result = validateRules(report, findings, { impression: { include_recommendations: true } }, { patient: { highRisk: true } })
+
+    expect(recommendation.text).toContain('(6 mm)')
+    expect(result.violations.filter(violation => violation.startsWith('MEASUREMENT'))).toEqual([])
+    expect(result.measurements?.issues).toEqual([])
+  })
+})
@@ -0,0 +1,70 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { RULE_REGISTRY, buildRuleInstructions, getRule } from '../ruleRegistry'
+import { getLogicSchemaNode } from '../logicSchema'
+import { postProcessImpression } from '../postProcessImpression'
+import validateRules from '../validateRules'
+import buildPrompt from '../buildPrompt'
+import buildEnhancedPrompt from '../buildEnhancedPrompt'
+import buildImpressionPrompt from '../buildImpressionPrompt'
+import buildEnhancedImpressionPrompt from '../buildEnhancedImpressionPrompt'
+
+const BUILDERS = { buildPrompt, buildEnhancedPrompt, buildImpressionPrompt, buildEnhancedImpressionPrompt }
+
+describe('rule registry', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  it('registers each logic key once, against its schema node', () => {
+    const ids = RULE_REGISTRY.map(rule => rule.id)
+    expect(new Set(ids).size).toBe(ids.length)
+    for (const rule of RULE_REGISTRY) {
+      expect(getLogicSchemaNode(rule.path), rule.id).toBe(rule.schema)
+    }
+  })
+
+  it('gives every rule a prompt, a validator or a post-processor', () => {
+    for (const rule of RULE_REGISTRY) {
+      const used = Object.keys(rule.prompts).length > 0 || rule.validate || rule.postProcess
+      expect(used, rule.id).toBeTruthy()
+    }
+  })
+
+  it('prompts muscle atrophy "never" in every builder', () => {
+    const logic = { impression: { mention_muscle_atrophy_if: 'never' } }
+    for (const [name, build] of Object.entries(BUILDERS)) {
+      expect(build('Findings', '', logic).toLowerCase(), name).toMatch(/do not mention muscle atrophy/)
+    }
+  })
+
+  it('groups enhanced instructions by tier', () => {
+    const lines = buildRuleInstructions('enhancedReport', { impression: { numerically_itemized: true }, style: { active_voice: true } })
+    expect(lines.map(line => line.tier)).toEqual(['critical', 'critical', 'content'])
+  })
+
+  it('validates differential diagnosis and muscle atrophy rules', () => {
+    const report = 'IMPRESSION:\n1. Soft tissue mass in the popliteal fossa.\n2. Mild muscle atrophy.'
+    const result = validateRules(report, '', { impression: { differential_diagnosis: true, mention_muscle_atrophy_if: 'never' } })
+
+    expect(result.warnings).toContain('DIFFERENTIAL DIAGNOSIS: Impression describes a lesion or mass without a differential diagnosis.')
+    expect(result.violations).toContain('MUSCLE ATROPHY RULE VIOLATION: Muscle atrophy mentioned but rule specifies it should never be included.')
+
+    const hedged = report.replace('fossa.', 'fossa, likely a ganglion cyst.')
+    expect(validateRules(hedged, '', { impression: { differential_diagnosis: true } }).warnings).toEqual([])
+  })
+
+  it('flags acronyms that should be spelled out', () => {
+    const rule = getRule('impression.expand_acronyms_to_full_terms')!
+    const context = { report: '', findings: '', logic: {}, impressionText: '1. Complete ACL tear.', impressionUnits: [] }
+    expect(rule.validate!(true, context)).toEqual({ violations: ['ACRONYM RULE VIOLATION: Impression uses ACL without spelling it out.'] })
+    expect(rule.validate!(true, { ...context, impressionText: '1. Complete anterior cruciate ligament (ACL) tear.' })).toBeUndefined()
+  })
+
+  it('post-processes exclusions and muscle atrophy thresholds together', () => {
+    const impression = '1. Complete ACL tear.\n2. Small joint effusion.\n3. Mild muscle atrophy of the vastus medialis.\n4. Severe muscle atrophy of the gastrocnemius.'
+    const logic = { impression: { exclude_by_default: ['small_joint_effusion'], mention_muscle_atrophy_if: 'severe' } }
+
+    expect(postProcessImpression(impression, logic)).toBe('1. Complete ACL tear.\n2. Severe muscle atrophy of the gastrocnemius.')
+    expect(postProcessImpression(impression, {})).toBe(impression)
+  })
+})
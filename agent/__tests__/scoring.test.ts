@@ -0,0 +1,89 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { checkScoringCategories, getScoringCalculator, insertScoringResult, scoreFindings, scoreInputs } from '../scoring'
+import buildEnhancedImpressionPrompt from '../buildEnhancedImpressionPrompt'
+import validateRules from '../validateRules'
+
+describe('scoring calculators', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  it('computes TI-RADS points, level and size-based management', () => {
+    const tirads = getScoringCalculator('tirads')!
+    const result = scoreInputs(tirads, { composition: 'solid', echogenicity: 'hypoechoic', margin: 'smooth', foci: ['macrocalcifications'], sizeMm: 18 })
+    expect(result).toMatchObject({ category: 'TR4', points: 5 })
+    expect(result!.text).toBe('ACR TI-RADS TR4 (moderately suspicious, 5 points): FNA is recommended (1.8 cm; threshold 1.5 cm) (ACR TI-RADS 2017).')
+
+    expect(scoreInputs(tirads, { composition: 'spongiform', echogenicity: 'hypoechoic' })!.category).toBe('TR1')
+    expect(scoreInputs(tirads, { composition: 'solid', echogenicity: 'very_hypoechoic', shape: 'taller_than_wide', sizeMm: 6 })!.management)
+      .toBe('Follow-up ultrasound annually for up to 5 years (0.6 cm; FNA threshold 1 cm)')
+    expect(scoreInputs(tirads, { composition: 'solid' })).toBeNull()
+  })
+
+  it('classes cystic renal masses with Bosniak 2019 and grades cartilage with Outerbridge', () => {
+    const bosniak = getScoringCalculator('bosniak')!
+    expect(scoreInputs(bosniak, { wall: 'thin', septa: 'many_thin' })!.category).toBe('IIF')
+    expect(scoreInputs(bosniak, { septa: 'thick' })!.category).toBe('III')
+    expect(scoreInputs(bosniak, { nodule: 'acute' })!.category).toBe('IV')
+    expect(scoreInputs(bosniak, { attenuation: 75 })!.category).toBe('II')
+    // Could be a solid mass
+    expect(scoreInputs(bosniak, { attenuation: 40 })).toBeNull()
+
+    const [cartilage] = scoreFindings('Full-thickness cartilage defect of the medial femoral condyle. No partial-thickness fissuring of the patella.')
+    expect(cartilage).toMatchObject({ calculator: 'outerbridge', category: '4', label: 'Outerbridge grade 4' })
+    expect(scoreFindings('Articular cartilage is intact.')).toEqual([])
+  })
+
+  it('reads the LI-RADS diagnostic table', () => {
+    const lirads = getScoringCalculator('lirads')!
+    expect(scoreInputs(lirads, { aphe: 'nonrim', sizeMm: 15, features: ['capsule'] })!.category).toBe('LR-4')
+    expect(scoreInputs(lirads, { aphe: 'nonrim', sizeMm: 15, features: ['washout'] })!.category).toBe('LR-5')
+    expect(scoreInputs(lirads, { aphe: 'none', sizeMm: 25, features: ['washout', 'capsule'] })!.category).toBe('LR-4')
+    expect(scoreInputs(lirads, { aphe: 'rim', sizeMm: 25 })!.category).toBe('LR-M')
+
+    const [observation] = scoreFindings('2.4 cm observation in hepatic segment 7 with nonrim arterial phase hyperenhancement and nonperipheral washout, without enhancing capsule.')
+    expect(observation).toMatchObject({ category: 'LR-5', label: 'LI-RADS LR-5' })
+  })
+
+  it('flags report categories that contradict the calculator', () => {
+    const findings = 'Solid hypoechoic nodule in the right thyroid lobe measuring 1.8 cm with macrocalcifications.'
+    const results = scoreFindings(findings, ['tirads'])
+    expect(results.map(result => result.category)).toEqual(['TR4'])
+
+    expect(checkScoringCategories('1. Right thyroid nodule, TI-RADS TR3.', findings, results).violations).toEqual([
+      'SCORING CATEGORY: Report states ACR TI-RADS TR3 ("Right thyroid nodule, TI-RADS TR3.") but the ACR TI-RADS 2017 calculator gives ACR TI-RADS TR4 for "Solid hypoechoic nodule in the right thyroid lobe measuring 1.8 cm with macrocalcifications."'
+    ])
+    expect(checkScoringCategories('1. Right thyroid nodule, ACR TI-RADS TR4.', findings, results)).toEqual({ violations: [], warnings: [] })
+    // Categories the findings give themselves are accepted
+    expect(checkScoringCategories('1. Bosniak IIF cyst.', 'Left renal cyst, Bosniak IIF.', []).warnings).toEqual([])
+    expect(checkScoringCategories('1. Bosniak III cyst.', 'Left renal cyst.', []).warnings).toHaveLength(1)
+  })
+
+  it('keeps calculator points, thresholds and intervals out of the measurement check', () => {
+    const findings = 'Solid very hypoechoic nodule in the right thyroid lobe measuring 1.8 cm with irregular margins and punctate echogenic foci.\nCystic lesion in the left kidney with 5 thin septations.'
+    const results = scoreFindings(findings)
+    expect(results.map(result => result.text)).toEqual([
+      'ACR TI-RADS TR5 (highly suspicious, 10 points): FNA is recommended (1.8 cm; threshold 1 cm) (ACR TI-RADS 2017).',
+      'Bosniak IIF (probably benign): Follow-up CT or MRI at 6 and 12 months, then annually for 5 years (Bosniak 2019).'
+    ])
+
+    const report = results.reduce((text, result) => insertScoringResult(text, result.text), `FINDINGS:\n${findings}\n\nIMPRESSION:\n1. Right thyroid nodule and left renal cyst.`)
+    expect(validateRules(report, findings, {}).measurements?.issues).toEqual([])
+  })
+
+  it('prompts, validates and inserts results when scoring_systems is set', () => {
+    const findings = 'Cystic lesion in the left kidney with 5 thin septations.'
+    const logic = { severity: { scoring_systems: ['bosniak' as const] } }
+
+    expect(buildEnhancedImpressionPrompt(findings, '', logic)).toContain(
+      '- Bosniak IIF (probably benign): Follow-up CT or MRI at 6 and 12 months, then annually for 5 years (Bosniak 2019).'
+    )
+    expect(validateRules('1. Cystic lesion in the left kidney, Bosniak II.', findings, logic).violations).toEqual([
+      'SCORING CATEGORY: Report states Bosniak II ("Cystic lesion in the left kidney, Bosniak II.") but the Bosniak 2019 calculator gives Bosniak IIF for "Cystic lesion in the left kidney with 5 thin septations."'
+    ])
+
+    expect(insertScoringResult('FINDINGS:\nNormal.\n\nIMPRESSION:\n1. Left renal cyst.\n', 'Bosniak IIF.'))
+      .toBe('FINDINGS:\nNormal.\n\nIMPRESSION:\n1. Left renal cyst.\n2. Bosniak IIF.')
+    expect(insertScoringResult('Normal study.', 'Bosniak I.')).toBe('Normal study.\n\nBosniak I.')
+  })
+})
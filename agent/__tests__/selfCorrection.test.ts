@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+  buildRepairPrompt,
+  collectRepairViolations,
+  evaluateReport,
+  getMaxRepairAttempts,
+  runSelfCorrection
+} from '../selfCorrection'
+import { runBatchRow } from '../batchRunner'
+
+const TEMPLATE = 'FINDINGS:\n[describe findings]\n\nIMPRESSION:\n[numbered list]\n'
+const FINDINGS = 'Complete ACL tear.'
+const LOGIC = { impression: { numerically_itemized: true } }
+
+const response = (text: string) => ({ text, tokens: { input: 10, output: 5, total: 15 } })
+
+describe('self-correction', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  it('is off unless enabled and defaults to two attempts', () => {
+    expect(getMaxRepairAttempts({})).toBe(0)
+    expect(getMaxRepairAttempts({ self_correction: { enabled: true } })).toBe(2)
+    expect(getMaxRepairAttempts({ self_correction: { enabled: true, max_attempts: 4 } })).toBe(4)
+  })
+
+  it('reports missing headers alongside rule violations', () => {
+    const evaluation = evaluateReport('IMPRESSION:\nComplete ACL tear.', TEMPLATE, FINDINGS, LOGIC)
+
+    expect(evaluation.text).toContain('FINDINGS:')
+    expect(collectRepairViolations(evaluation)).toEqual([
+      'SECTION HEADERS: Missing template headers FINDINGS:.',
+      'IMPRESSION FORMATTING: Report should use numbered list format (1, 2, 3, etc.) but does not.'
+    ])
+  })
+
+  it('includes the previous output and each violation in the repair prompt', () => {
+    const prompt = buildRepairPrompt('Original prompt\n', 'Old report', ['First problem', 'Second problem'])
+
+    expect(prompt).toContain('Original prompt\n\n=== PREVIOUS OUTPUT ===\nOld report')
+    expect(prompt).toContain('1. First problem\n2. Second problem\n')
+  })
+
+  it('re-prompts until the violations are fixed and reports what changed', async () => {
+    const output = 'FINDINGS:\nComplete ACL tear.\n\nIMPRESSION:\nComplete ACL tear.'
+    const regenerate = vi.fn().mockResolvedValue(response('FINDINGS:\nComplete ACL tear.\n\nIMPRESSION:\n1. Complete ACL tear.'))
+    const evaluate = (text: string) => evaluateReport(text, TEMPLATE, FINDINGS, LOGIC)
+
+    const result = await runSelfCorrection({ prompt: 'prompt', output, evaluation: evaluate(output), maxAttempts: 3, evaluate, regenerate })
+
+    expect(regenerate).toHaveBeenCalledTimes(1)
+    expect(regenerate.mock.calls[0][0]).toContain('IMPRESSION FORMATTING')
+    expect(result.attempts).toBe(1)
+    expect(result.fixed).toEqual(['IMPRESSION FORMATTING: Report should use numbered list format (1, 2, 3, etc.) but does not.'])
+    expect(result.remaining).toEqual([])
+    expect(result.evaluation.text).toContain('1. Complete ACL tear.')
+    expect(result.tokens.total).toBe(15)
+  })
+
+  it('stops at the attempt limit and keeps the best output', async () => {
+    const output = 'FINDINGS:\nComplete ACL tear.\n\nIMPRESSION:\nComplete ACL tear.'
+    const regenerate = vi.fn().mockResolvedValue(response('Not a report'))
+    const evaluate = (text: string) => evaluateReport(text, TEMPLATE, FINDINGS, LOGIC)
+
+    const result = await runSelfCorrection({ prompt: 'prompt', output, evaluation: evaluate(output), maxAttempts: 2, evaluate, regenerate })
+
+    expect(regenerate).toHaveBeenCalledTimes(2)
+    expect(result.output).toBe(output)
+    expect(result.fixed).toEqual([])
+    expect(result.remaining).toHaveLength(1)
+  })
+
+  it('keeps the best output when a repair call fails', async () => {
+    const output = 'FINDINGS:\nComplete ACL tear.\n\nIMPRESSION:\nComplete ACL tear.'
+    const regenerate = vi.fn().mockRejectedValue(new Error('Rate limit exceeded'))
+    const evaluate = (text: string) => evaluateReport(text, TEMPLATE, FINDINGS, LOGIC)
+
+    const result = await runSelfCorrection({ prompt: 'prompt', output, evaluation: evaluate(output), maxAttempts: 3, evaluate, regenerate })
+
+    expect(regenerate).toHaveBeenCalledTimes(1)
+    expect(result.output).toBe(output)
+    expect(result.attempts).toBe(1)
+    expect(result.remaining).toHaveLength(1)
+    expect(result.error).toBe('Rate limit exceeded')
+    expect(result.tokens.total).toBe(0)
+  })
+
+  it('repairs batch rows when the study enables it', async () => {
+    const callModelImpl = vi.fn()
+      .mockResolvedValueOnce(response('FINDINGS:\nComplete ACL tear.\n\nIMPRESSION:\nComplete ACL tear.'))
+      .mockResolvedValueOnce(response('FINDINGS:\nComplete ACL tear.\n\nIMPRESSION:\n1. Complete ACL tear.'))
+
+    const result = await runBatchRow(
+      { row: 1, modality: 'MRI', studyType: 'Knee', anatomy: '', clinicalIndication: '', findings: FINDINGS },
+      {
+        provider: 'mock',
+        studies: { Knee: { template: TEMPLATE, agent_logic: { ...LOGIC, self_correction: { enabled: true } } } },
+        callModelImpl
+      }
+    )
+
+    expect(result.violations).toEqual([])
+    expect(result.selfCorrection).toMatchObject({ attempts: 1, remaining: [] })
+    expect(result.tokens.total).toBe(30)
+  })
+})
@@ -0,0 +1,102 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import {
+  applyStructuredOutput,
+  buildStructuredOutputInstructions,
+  parseStructuredReport,
+  renderStructuredReport
+} from '../structuredReport'
+import { extractSectionHeaders, validateSectionHeaders } from '../validateSectionHeaders'
+import validateRules from '../validateRules'
+import { runBatchRow } from '../batchRunner'
+
+const TEMPLATE = 'MRI RIGHT KNEE\n\nTECHNIQUE:\nMultiplanar MRI.\n\nFINDINGS:\n[describe findings]\n\nIMPRESSION:\n[numbered list]\n'
+
+const OUTPUT = JSON.stringify({
+  sections: { TECHNIQUE: 'Multiplanar MRI of the right knee.', FINDINGS: 'Complete ACL tear.\nSmall joint effusion.' },
+  impression: ['1. Complete ACL tear.', 'Small joint effusion.']
+})
+
+describe('structured report output', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  it('keeps a title line above a header out of the header name', () => {
+    expect(extractSectionHeaders(TEMPLATE)).toEqual(['TECHNIQUE:', 'FINDINGS:', 'IMPRESSION:'])
+  })
+
+  it('asks for exactly the template body sections plus impression items', () => {
+    const instructions = buildStructuredOutputInstructions(TEMPLATE)
+    expect(instructions).toContain('exactly these keys: "TECHNIQUE", "FINDINGS"')
+    expect(instructions).toContain('"impression": [')
+  })
+
+  it('parses fenced JSON, strips item numbering and reports missing and extra sections', () => {
+    const parsed = parseStructuredReport(
+      'Here is the report:\n```json\n{"sections": {"findings:": "Tear.", "HISTORY": "Pain."}, "impression": ["1. Tear."]}\n```',
+      TEMPLATE
+    )
+    expect(parsed.report).toEqual({ sections: { FINDINGS: 'Tear.' }, impression: ['Tear.'] })
+    expect(parsed.missing).toEqual(['TECHNIQUE:'])
+    expect(parsed.extra).toEqual(['HISTORY:'])
+  })
+
+  it('rejects output that is not in the structured shape', () => {
+    expect(parseStructuredReport('FINDINGS:\nTear.', TEMPLATE).error).toBe('Output does not contain a JSON object')
+    expect(parseStructuredReport('{"sections": {"FINDINGS": "Tear."}, "impression": [1]}', TEMPLATE).error)
+      .toBe('"impression" must be an array of strings')
+  })
+
+  it('renders sections into the template order with formatted impression items', () => {
+    const parsed = parseStructuredReport(OUTPUT, TEMPLATE)
+    const text = renderStructuredReport(TEMPLATE, parsed.report!, { impression: { numerically_itemized: true } })
+
+    expect(text).toBe([
+      'MRI RIGHT KNEE',
+      'TECHNIQUE:\nMultiplanar MRI of the right knee.',
+      'FINDINGS:\nComplete ACL tear.\nSmall joint effusion.',
+      'IMPRESSION:\n1. Complete ACL tear.\n\n2. Small joint effusion.'
+    ].join('\n\n'))
+    expect(validateSectionHeaders(TEMPLATE, text).valid).toBe(true)
+  })
+
+  it('falls back to free text with header repair when the JSON does not parse', () => {
+    const result = applyStructuredOutput('FINDINGS:\nTear.\n\nIMPRESSION:\nTear.', TEMPLATE, {})
+    expect(result.structured).toBe(false)
+    expect(result.impressionItems).toBeUndefined()
+    expect(result.text).toContain('TECHNIQUE:')
+  })
+
+  it('validates exclusions per impression item', () => {
+    const logic = { impression: { exclude_by_default: ['joint effusion'] } }
+    const report = 'IMPRESSION:\nModerate ACL sprain. Small joint effusion.'
+
+    // As free text, "moderate" elsewhere in the impression excuses the effusion
+    expect(validateRules(report, '', logic).violations).toEqual([])
+    expect(validateRules(report, '', logic, { impressionItems: ['Moderate ACL sprain.', 'Small joint effusion.'] }).violations)
+      .toEqual(['EXCLUSION RULE VIOLATION: "joint effusion" appears in impression but should be excluded unless clinically relevant.'])
+  })
+
+  it('renders structured output in batch runs and checks the returned keys', async () => {
+    const callModelImpl = vi.fn().mockResolvedValue({
+      text: JSON.stringify({ sections: { FINDINGS: 'Complete ACL tear.' }, impression: ['Complete ACL tear.'] }),
+      tokens: { input: 1, output: 1, total: 2 }
+    })
+    const result = await runBatchRow(
+      { row: 1, modality: 'MRI', studyType: 'Knee', anatomy: '', clinicalIndication: '', findings: 'Complete ACL tear.' },
+      {
+        provider: 'mock',
+        studies: { Knee: { template: TEMPLATE, agent_logic: { formatting: { structured_output: true } } } },
+        callModelImpl
+      }
+    )
+
+    expect(callModelImpl.mock.calls[0][0].prompt).toContain('OUTPUT FORMAT (STRUCTURED JSON)')
+    expect(result.structured).toBe(true)
+    expect(result.output).toContain('IMPRESSION:\n1. Complete ACL tear.')
+    expect(result.headersValid).toBe(false)
+    expect(result.missingHeaders).toEqual(['TECHNIQUE:'])
+  })
+})
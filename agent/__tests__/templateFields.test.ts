@@ -0,0 +1,51 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+import { checkUnfilledFields, fillFieldDefaults, formatTemplateFieldInstructions, parseTemplateFields } from '../templateFields'
+import buildEnhancedPrompt from '../buildEnhancedPrompt'
+import { evaluateReport } from '../selfCorrection'
+
+describe('template fields', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  const template = [
+    'FINDINGS:',
+    'Menisci: {{Menisci|Intact|*Degenerated|Torn}}',
+    'Effusion: {{Effusion=None}}',
+    'Cartilage: {{Cartilage}}',
+    '',
+    'IMPRESSION:'
+  ].join('\n')
+
+  it('parses free-text, default and picklist fields', () => {
+    expect(parseTemplateFields(template).map(({ index, end, ...field }) => field)).toEqual([
+      { label: 'Menisci', kind: 'picklist', options: ['Intact', 'Degenerated', 'Torn'], defaultValue: 'Degenerated', raw: '{{Menisci|Intact|*Degenerated|Torn}}' },
+      { label: 'Effusion', kind: 'text', options: [], defaultValue: 'None', raw: '{{Effusion=None}}' },
+      { label: 'Cartilage', kind: 'text', options: [], raw: '{{Cartilage}}' }
+    ])
+    expect(parseTemplateFields('Braces {} and {{ }} are not fields.')).toEqual([])
+  })
+
+  it('fills defaults and reports the fields left without one', () => {
+    const filled = fillFieldDefaults(template)
+    expect(filled).toContain('Menisci: Degenerated')
+    expect(filled).toContain('Effusion: None')
+    expect(checkUnfilledFields(filled)).toEqual(['TEMPLATE FIELD: "Cartilage" was left unfilled.'])
+  })
+
+  it('tells the model how to fill fields only when the template has them', () => {
+    const instructions = formatTemplateFieldInstructions(template)
+    expect(instructions).toContain('- Menisci: Intact | Degenerated | Torn')
+    expect(buildEnhancedPrompt('Small joint effusion.', template, {})).toContain(instructions)
+    expect(formatTemplateFieldInstructions('FINDINGS:\n[Section content]')).toBe('')
+  })
+
+  it('leaves defaults for untouched fields and warns about the rest after generation', () => {
+    const output = 'FINDINGS:\nMenisci: Torn\nEffusion: {{Effusion=None}}\nCartilage: {{Cartilage}}\n\nIMPRESSION:\n1. Medial meniscal tear.'
+    const evaluation = evaluateReport(output, template, 'Medial meniscal tear.', {})
+
+    expect(evaluation.text).toContain('Effusion: None')
+    expect(evaluation.text).toContain('Cartilage: {{Cartilage}}')
+    expect(evaluation.warnings).toContain('TEMPLATE FIELD: "Cartilage" was left unfilled.')
+  })
+})
@@ -0,0 +1,363 @@
+import buildEnhancedPrompt from './buildEnhancedPrompt'
+import callModel, { ModelCallResponse } from './callModel'
+import { toGenerationOptions } from './generationSettings'
+import { ReportEvaluation, SelfCorrectionSummary, evaluateReport, getMaxRepairAttempts, runSelfCorrection } from './selfCorrection'
+import { deepMergeAgentLogic, getDefaultAgentLogic } from '../src/utils/logicMerge'
+
+/**
+ * Headless batch generation for regression runs.
+ * Each CSV row goes through the same prompt → model → validation path as the app,
+ * so outputs from different agent logic or providers can be compared row by row.
+ */
+
+export interface BatchInputRow {
+  // 1-based data row number in the source CSV (header excluded)
+  row: number
+  modality: string
+  studyType: string
+  anatomy: string
+  clinicalIndication: string
+  findings: string
+}
+
+export interface BatchStudyConfig {
+  template: string
+  agent_logic?: Record<string, any>
+}
+
+export interface BatchResult {
+  row: number
+  studyType: string
+  provider: string
+  status: 'ok' | 'error'
+  latencyMs: number
+  tokens: { input: number; output: number; total: number }
+  headersValid: boolean
+  missingHeaders: string[]
+  extraHeaders: string[]
+  violations: string[]
+  warnings: string[]
+  error?: string
+  // Structured output mode: whether the model's JSON parsed
+  structured?: boolean
+  // Set when self_correction is enabled for the study
+  selfCorrection?: SelfCorrectionSummary
+  // Report text as the app would insert it (rendered or header-repaired)
+  output: string
+}
+
+export interface BatchOptions {
+  provider: string
+  // Template and study logic per study type (matched case-insensitively)
+  studies?: Record<string, BatchStudyConfig>
+  // User-level logic applied between the defaults and the study logic
+  baseLogic?: Record<string, any>
+  concurrency?: number
+  onResult?: (result: BatchResult) => void
+  // Overridable for tests
+  callModelImpl?: typeof callModel
+}
+
+export interface BatchSummary {
+  rows: number
+  errors: number
+  headerFailures: number
+  rowsWithViolations: number
+  violations: number
+  warnings: number
+  totalTokens: number
+  averageLatencyMs: number
+}
+
+export interface BatchRowChange {
+  row: number
+  studyType: string
+  // Human-readable description of what changed against the baseline
+  changes: string[]
+}
+
+// Used when a study type has no template in the studies file
+export const DEFAULT_BATCH_TEMPLATE = 'FINDINGS:\n\nIMPRESSION:\n'
+
+const EMPTY_TOKENS = { input: 0, output: 0, total: 0 }
+
+/**
+ * Minimal RFC 4180 parser: quoted fields, escaped quotes ("") and newlines inside quotes
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let field = ''
+  let inQuotes = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      row.push(field)
+      rows.push(row)
+      row = []
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field)
+    rows.push(row)
+  }
+
+  // Blank lines parse as a single empty field
+  return rows.filter(cells => cells.some(cell => cell.trim()))
+}
+
+/**
+ * Reads rows in the phase1_msk_mri_inputs.csv layout.
+ * A dictated report takes precedence; otherwise the comma-separated findings summary becomes one finding per line.
+ */
+export function parseBatchRows(csv: string): BatchInputRow[] {
+  const [header = [], ...records] = parseCsv(csv)
+  const columns = header.map(name => name.trim().toLowerCase())
+  const column = (record: string[], name: string) => {
+    const index = columns.indexOf(name)
+    return index >= 0 ? (record[index] || '').trim() : ''
+  }
+
+  if (!columns.includes('study_type')) {
+    throw new Error('CSV is missing the study_type column')
+  }
+
+  return records.map((record, index) => {
+    const dictation = column(record, 'dictation_report')
+    const summary = column(record, 'findings_summary')
+      .split(',')
+      .map(item => item.trim())
+      .filter(Boolean)
+      .map(item => (/[.!?]$/.test(item) ? item : `${item}.`))
+      .join('\n')
+
+    return {
+      row: index + 1,
+      modality: column(record, 'modality'),
+      studyType: column(record, 'study_type'),
+      anatomy: column(record, 'anatomy'),
+      clinicalIndication: column(record, 'clinical_indication'),
+      findings: dictation || summary
+    }
+  })
+}
+
+function findStudy(studies: Record<string, BatchStudyConfig> | undefined, row: BatchInputRow): BatchStudyConfig | undefined {
+  if (!studies) return undefined
+  const candidates = [`${row.modality} ${row.studyType}`, row.studyType].map(name => name.trim().toLowerCase())
+  const key = Object.keys(studies).find(name => candidates.includes(name.trim().toLowerCase()))
+  return key ? studies[key] : undefined
+}
+
+/**
+ * Generates and validates a single row; failures are captured in the result rather than thrown
+ */
+export async function runBatchRow(row: BatchInputRow, options: BatchOptions): Promise<BatchResult> {
+  const study = findStudy(options.studies, row)
+  const template = study?.template || DEFAULT_BATCH_TEMPLATE
+  // Same default → base → study layering the app applies before generation
+  const logic = deepMergeAgentLogic(
+    deepMergeAgentLogic(getDefaultAgentLogic(), options.baseLogic || {}),
+    study?.agent_logic || {}
+  )
+
+  const started = Date.now()
+  const callModelImpl = options.callModelImpl || callModel
+  let response: ModelCallResponse
+  let evaluation: ReportEvaluation
+  let selfCorrection: SelfCorrectionSummary | undefined
+
+  try {
+    const prompt = buildEnhancedPrompt(row.findings, template, logic)
+    const generation = toGenerationOptions(logic)
+    response = await callModelImpl({
+      prompt,
+      provider: options.provider,
+      generation
+    })
+    const evaluate = (output: string) => evaluateReport(output, template, row.findings, logic, { studyType: `${row.modality} ${row.studyType} ${row.anatomy}` })
+    evaluation = evaluate(response.text)
+
+    const maxRepairAttempts = getMaxRepairAttempts(logic)
+    if (maxRepairAttempts > 0) {
+      const repair = await runSelfCorrection({
+        prompt,
+        output: response.text,
+        evaluation,
+        maxAttempts: maxRepairAttempts,
+        evaluate,
+        regenerate: (repairPrompt) => callModelImpl({ prompt: repairPrompt, provider: options.provider, generation })
+      })
+      evaluation = repair.evaluation
+      selfCorrection = { attempts: repair.attempts, fixed: repair.fixed, remaining: repair.remaining, error: repair.error }
+      if (response.tokens) {
+        response = {
+          ...response,
+          tokens: {
+            input: response.tokens.input + repair.tokens.input,
+            output: response.tokens.output + repair.tokens.output,
+            total: response.tokens.total + repair.tokens.total
+          }
+        }
+      }
+    }
+  } catch (error) {
+    return {
+      row: row.row,
+      studyType: row.studyType,
+      provider: options.provider,
+      status: 'error',
+      latencyMs: Date.now() - started,
+      tokens: { ...EMPTY_TOKENS },
+      headersValid: false,
+      missingHeaders: [],
+      extraHeaders: [],
+      violations: [],
+      warnings: [],
+      error: error instanceof Error ? error.message : String(error),
+      output: ''
+    }
+  }
+
+  return {
+    row: row.row,
+    studyType: row.studyType,
+    provider: response.provider || options.provider,
+    status: 'ok',
+    latencyMs: Date.now() - started,
+    tokens: response.tokens || { ...EMPTY_TOKENS },
+    headersValid: evaluation.headers.valid,
+    missingHeaders: evaluation.headers.missing,
+    extraHeaders: evaluation.headers.extra,
+    violations: evaluation.violations,
+    warnings: evaluation.warnings,
+    ...(evaluation.structured !== undefined ? { structured: evaluation.structured } : {}),
+    ...(selfCorrection ? { selfCorrection } : {}),
+    output: evaluation.text
+  }
+}
+
+/**
+ * Runs every row, keeping results in input order regardless of concurrency
+ */
+export async function runBatch(rows: BatchInputRow[], options: BatchOptions): Promise<BatchResult[]> {
+  const results: BatchResult[] = new Array(rows.length)
+  const concurrency = Math.max(1, Math.floor(options.concurrency || 1))
+  let next = 0
+
+  const worker = async () => {
+    while (next < rows.length) {
+      const index = next++
+      results[index] = await runBatchRow(rows[index], options)
+      options.onResult?.(results[index])
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, rows.length) }, worker))
+  return results
+}
+
+export function summarizeBatch(results: BatchResult[]): BatchSummary {
+  const completed = results.filter(result => result.status === 'ok')
+  const totalLatency = completed.reduce((sum, result) => sum + result.latencyMs, 0)
+
+  return {
+    rows: results.length,
+    errors: results.length - completed.length,
+    headerFailures: completed.filter(result => !result.headersValid).length,
+    rowsWithViolations: completed.filter(result => result.violations.length > 0).length,
+    violations: completed.reduce((sum, result) => sum + result.violations.length, 0),
+    warnings: completed.reduce((sum, result) => sum + result.warnings.length, 0),
+    totalTokens: completed.reduce((sum, result) => sum + result.tokens.total, 0),
+    averageLatencyMs: completed.length ? Math.round(totalLatency / completed.length) : 0
+  }
+}
+
+/**
+ * Rows whose status, header validity or violations differ from a baseline run
+ */
+export function compareBatchResults(baseline: BatchResult[], current: BatchResult[]): BatchRowChange[] {
+  const previousByRow = new Map(baseline.map(result => [result.row, result]))
+  const changes: BatchRowChange[] = []
+
+  for (const result of current) {
+    const previous = previousByRow.get(result.row)
+    if (!previous) continue
+
+    const rowChanges: string[] = []
+    if (previous.status !== result.status) {
+      rowChanges.push(`status ${previous.status} → ${result.status}`)
+    }
+    if (previous.headersValid !== result.headersValid) {
+      rowChanges.push(result.headersValid ? 'headers fixed' : 'headers broken')
+    }
+    const added = result.violations.filter(violation => !previous.violations.includes(violation))
+    const removed = previous.violations.filter(violation => !result.violations.includes(violation))
+    added.forEach(violation => rowChanges.push(`+ ${violation}`))
+    removed.forEach(violation => rowChanges.push(`- ${violation}`))
+    if (previous.warnings.length !== result.warnings.length) {
+      rowChanges.push(`warnings ${previous.warnings.length} → ${result.warnings.length}`)
+    }
+
+    if (rowChanges.length > 0) {
+      changes.push({ row: result.row, studyType: result.studyType, changes: rowChanges })
+    }
+  }
+
+  return changes
+}
+
+function csvField(value: string | number | boolean): string {
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function resultsToCsv(results: BatchResult[]): string {
+  const header = [
+    'row', 'study_type', 'provider', 'status', 'latency_ms',
+    'input_tokens', 'output_tokens', 'total_tokens',
+    'headers_valid', 'missing_headers', 'extra_headers',
+    'violation_count', 'violations', 'warnings', 'error', 'output'
+  ]
+  const lines = results.map(result => [
+    result.row,
+    result.studyType,
+    result.provider,
+    result.status,
+    result.latencyMs,
+    result.tokens.input,
+    result.tokens.output,
+    result.tokens.total,
+    result.headersValid,
+    result.missingHeaders.join(' | '),
+    result.extraHeaders.join(' | '),
+    result.violations.length,
+    result.violations.join(' | '),
+    result.warnings.join(' | '),
+    result.error || '',
+    result.output
+  ].map(csvField).join(','))
+
+  return [header.join(','), ...lines].join('\n') + '\n'
+}
@@ -1,7 +1,13 @@
+import { AgentLogic } from './types'
+import { formatExamContext } from './examContext'
+import { InstructionTier, PromptContext, buildRuleInstructions } from './ruleRegistry'
+
 export default function buildEnhancedImpressionPrompt(
   findings: string,
   template: string,
-  agentLogic: Record<string, any>
+  agentLogic: AgentLogic,
+  // Case details beyond the findings, e.g. patient age or the exam context
+  context: Omit<PromptContext, 'findings'> = {}
 ): string {
   // Debug: Log the full agent logic structure
   console.log('🔍 BuildEnhancedImpressionPrompt received agent_logic:', JSON.stringify(agentLogic, null, 2))
@@ -19,123 +25,18 @@ export default function buildEnhancedImpressionPrompt(
   prompt += '📋 FINDINGS TO SUMMARIZE:\n'
   prompt += findings + '\n\n'
   
-  // Critical instructions first
-  const criticalInstructions: string[] = []
-  const formattingInstructions: string[] = []
-  const contentInstructions: string[] = []
+  // Add what is known about the case besides the findings
+  const examBlock = formatExamContext(context.exam)
+  if (examBlock) prompt += examBlock + '\n\n'
   
-  // CORE REQUIREMENT
-  criticalInstructions.push('Generate ONLY the IMPRESSION section - do not include findings or other report sections.')
+  // Per-key instructions come from the rule registry, grouped by priority
+  const ruleLines = buildRuleInstructions('enhancedImpression', agentLogic, { ...context, findings, template })
+  const byTier = (tier: InstructionTier) => ruleLines.filter(line => line.tier === tier).map(line => line.text)
   
-  // FORMATTING RULES (Most Important)
-  if (agentLogic.impression) {
-    if (agentLogic.impression.numerically_itemized) {
-      criticalInstructions.push('IMPRESSION FORMAT: Write the impression as a numbered list (1, 2, 3, etc.).')
-      criticalInstructions.push('SPACING: Separate each numbered item with a double line break.')
-    } else {
-      // Check for bullet points when not numerically itemized
-      if (agentLogic.formatting?.use_bullet_points) {
-        criticalInstructions.push('IMPRESSION FORMAT: Write the impression as a bullet point list using • symbols.')
-        criticalInstructions.push('SPACING: Separate each bullet point with a double line break.')
-        criticalInstructions.push('BULLET FORMAT: Start each item with "• " followed by the diagnosis/finding.')
-      } else {
-        // Paragraph format but still with proper spacing
-        formattingInstructions.push('Write the impression as separate statements, each separated by a double line break.')
-      }
-    }
-    
-    // EXCLUSION RULES - MAKE THESE EXTREMELY STRICT
-    if (agentLogic.impression.exclude_by_default && Array.isArray(agentLogic.impression.exclude_by_default) && agentLogic.impression.exclude_by_default.length > 0) {
-      const excludeList = agentLogic.impression.exclude_by_default
-      
-      // Convert snake_case to readable phrases and create strict pattern matching
-      const readableExclusions = excludeList.map((item: string) => {
-        // Convert snake_case to readable format
-        const readable = item.replace(/_/g, ' ').toLowerCase()
-        return readable
-      })
-      
-      // Create multiple exclusion instructions for emphasis
-      criticalInstructions.push('═══════════════════════════════════════════')
-      criticalInstructions.push('⚠️ STRICT EXCLUSION RULES - MUST FOLLOW:')
-      criticalInstructions.push('═══════════════════════════════════════════')
-      
-      // List each exclusion individually for clarity
-      readableExclusions.forEach((exclusion: string) => {
-        criticalInstructions.push(`❌ EXCLUDE: "${exclusion}" - Do NOT mention this in the impression`)
-      })
-      
-      // Add specific examples for common exclusions
-      if (readableExclusions.some((e: string) => e.includes('baker'))) {
-        criticalInstructions.push('❌ SPECIFICALLY: Do NOT mention "Small Baker\'s cyst" or "Small Baker cyst" or any variation')
-      }
-      
-      if (readableExclusions.some((e: string) => e.includes('effusion'))) {
-        criticalInstructions.push('❌ SPECIFICALLY: Do NOT mention "Small joint effusion" or "Trace joint effusion"')
-      }
-      
-      criticalInstructions.push('═══════════════════════════════════════════')
-      criticalInstructions.push('IMPORTANT: These exclusions are MANDATORY unless the finding is causing symptoms or requires immediate treatment.')
-      criticalInstructions.push('Before including ANY finding, check if it matches the exclusion list above.')
-    }
-    
-    // MUSCLE ATROPHY RULES (Fix the inconsistent mentions)
-    if (agentLogic.impression.mention_muscle_atrophy_if) {
-      console.log('🔍 Processing mention_muscle_atrophy_if:', agentLogic.impression.mention_muscle_atrophy_if)
-      if (agentLogic.impression.mention_muscle_atrophy_if === 'moderate_or_severe') {
-        criticalInstructions.push('MUSCLE ATROPHY: Only mention muscle atrophy if it is explicitly described as moderate or severe. Do NOT mention mild muscle atrophy.')
-      } else if (agentLogic.impression.mention_muscle_atrophy_if === 'severe') {
-        criticalInstructions.push('MUSCLE ATROPHY: Only mention muscle atrophy if it is explicitly described as severe. Do NOT mention mild or moderate muscle atrophy.')
-      } else if (agentLogic.impression.mention_muscle_atrophy_if === 'never') {
-        criticalInstructions.push('MUSCLE ATROPHY: Do NOT mention muscle atrophy regardless of severity.')
-      }
-      // Note: 'any' case intentionally omitted to avoid unwanted muscle atrophy mentions
-    }
-    
-    // CLINICAL FOCUS
-    if (agentLogic.impression.first_item_should_address_clinical_concern) {
-      criticalInstructions.push('CLINICAL FOCUS: The first item MUST directly address the primary clinical concern or indication.')
-    }
-    
-    // CONTENT RULES
-    if (agentLogic.impression.omit_minor_or_incidental_findings_unless_relevant) {
-      contentInstructions.push('Focus on clinically significant findings. Omit mild or incidental findings unless they relate to the clinical history.')
-    }
-    
-    if (agentLogic.impression.concise_summary) {
-      contentInstructions.push('Keep the impression concise and focused on the most important findings.')
-    }
-    
-    if (agentLogic.impression.include_recommendations) {
-      contentInstructions.push('Include specific follow-up recommendations when clinically appropriate.')
-    }
-  }
-  
-  // ACCURACY RULES
-  if (agentLogic.report?.no_hallucinated_findings) {
-    criticalInstructions.push('ACCURACY: Do not invent, assume, or hallucinate any findings. Only summarize what is explicitly stated in the provided findings.')
-  }
-  
-  // CLINICAL CORRELATION
-  if (agentLogic.clinical) {
-    if (agentLogic.clinical.correlate_with_symptoms) {
-      contentInstructions.push('Correlate impression with clinical symptoms when clinical history is provided.')
-    }
-    if (agentLogic.clinical.mention_clinical_significance) {
-      contentInstructions.push('Comment on the clinical significance of findings.')
-    }
-  }
-  
-  // CUSTOM INSTRUCTIONS (Treat as critical)
-  if (agentLogic.custom_instructions) {
-    if (Array.isArray(agentLogic.custom_instructions)) {
-      agentLogic.custom_instructions.forEach(instruction => {
-        criticalInstructions.push(`CUSTOM RULE: ${instruction}`)
-      })
-    } else if (typeof agentLogic.custom_instructions === 'string') {
-      criticalInstructions.push(`CUSTOM RULE: ${agentLogic.custom_instructions}`)
-    }
-  }
+  // CORE REQUIREMENT first
+  const criticalInstructions = ['Generate ONLY the IMPRESSION section - do not include findings or other report sections.', ...byTier('critical')]
+  const formattingInstructions = byTier('formatting')
+  const contentInstructions = byTier('content')
   
   // Build the final prompt with prioritized sections
   if (criticalInstructions.length > 0) {
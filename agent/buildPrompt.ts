@@ -1,10 +1,15 @@
 import { AgentLogic } from './types'
+import { formatExamContext } from './examContext'
+import { formatTemplateFieldInstructions } from './templateFields'
+import { PromptContext, buildRuleInstructions } from './ruleRegistry'
 
 // For backward compatibility, accept either merged logic or raw logic
 export default function buildPrompt(
   findings: string,
   template: string,
-  agentLogic: Record<string, any>
+  agentLogic: AgentLogic,
+  // Case details beyond the findings, e.g. patient age or the exam context
+  context: Omit<PromptContext, 'findings'> = {}
 ): string {
   // Debug: Log the full agent logic structure
   console.log('🔍 BuildPrompt received agent_logic:', JSON.stringify(agentLogic, null, 2))
@@ -17,6 +22,9 @@ export default function buildPrompt(
     prompt += 'TEMPLATE STRUCTURE - You MUST follow this exact structure:\n\n'
     prompt += template + '\n\n'
     prompt += 'IMPORTANT: Preserve ALL section headers (text ending with ":") EXACTLY as shown above. Do not add, remove, or modify any section headers.\n\n'
+    
+    const fieldInstructions = formatTemplateFieldInstructions(template)
+    if (fieldInstructions) prompt += fieldInstructions + '\n\n'
   }
   
 // Add findings with emphasis
@@ -25,180 +33,25 @@ prompt += '=== FINDINGS TO INCORPORATE ===\n'
 prompt += findings + '\n'
 prompt += '=== END OF FINDINGS ===\n\n'
 
+  // Add what is known about the case besides the findings
+  const examBlock = formatExamContext(context.exam)
+  if (examBlock) prompt += examBlock + '\n\n'
+
   
   // Build instructions based on agent logic
   const instructions: string[] = []
   
-  // Formatting instructions
-  if (agentLogic.formatting) {
-    if (agentLogic.formatting.preserve_template_punctuation) {
-      instructions.push('Preserve all punctuation and formatting exactly as shown in the template.')
-    }
-    if (agentLogic.formatting.use_bullet_points) {
-      instructions.push('Use bullet points for listing multiple findings within each section.')
-    }
-    if (agentLogic.formatting.capitalize_sections) {
-      instructions.push('Ensure all section headers are in UPPERCASE.')
-    }
-  }
-  
-  // Report-specific instructions
   if (agentLogic.report) {
-    if (agentLogic.report.no_hallucinated_findings) {
-      instructions.push('Do not invent findings. Only report what is explicitly stated in the findings.')
-    }
     // Always add this instruction to ensure findings are incorporated
     instructions.push('CRITICAL: You must incorporate ALL the findings provided between the "=== FINDINGS TO INCORPORATE ===" markers into the appropriate sections of the report. Do not omit any findings.')
     
     // Add strict section header enforcement
     instructions.push('SECTION HEADERS: You MUST preserve ALL section headers exactly as shown in the template (e.g., FINDINGS:, IMPRESSION:, etc.). Do not add, remove, or modify any section headers.')
     instructions.push('SECTION CONTENT: While section headers must be preserved exactly, the content within each section can be written in a natural, fluid manner based on the findings provided.')
-    if (agentLogic.report.include_technique_section) {
-      instructions.push('Include a TECHNIQUE section describing the imaging protocol used.')
-    }
-    if (agentLogic.report.include_comparison) {
-      instructions.push('Include a COMPARISON section if prior imaging is mentioned.')
-    }
-    if (agentLogic.report.use_medical_abbreviations) {
-      instructions.push('Use standard medical abbreviations where appropriate.')
-    }
-    if (agentLogic.report.expand_lesions) {
-      instructions.push('For each lesion, describe location, size, morphology, and enhancement characteristics.')
-    }
-    
-    // Handle cartilage placement rules
-    if (agentLogic.report.cartilage_placement) {
-      if (agentLogic.report.cartilage_placement.trochlear_cartilage_in_patellofemoral) {
-        instructions.push('Ensure trochlear cartilage findings are included in the patellofemoral compartment.')
-      }
-      if (agentLogic.report.cartilage_placement.mention_patellar_if_trochlear_defect_present) {
-        instructions.push('If a trochlear defect is present, confirm that the patellar cartilage is explicitly stated as intact or abnormal.')
-      }
-    }
-    
-    // Handle anatomic routing rules
-    if (agentLogic.report.anatomic_routing_rules) {
-      console.log('🔍 Processing anatomic_routing_rules:', agentLogic.report.anatomic_routing_rules)
-      
-      if (agentLogic.report.anatomic_routing_rules.loose_bodies === 'joints') {
-        instructions.push('Describe loose bodies under the joints section.')
-      }
-      if (agentLogic.report.anatomic_routing_rules.bone_contusions === 'ossea_or_bone_marrow') {
-        instructions.push('Describe bone contusions under the osseous structures or bone marrow section.')
-      }
-      if (agentLogic.report.anatomic_routing_rules.joint_effusions === 'joint_space') {
-        instructions.push('Describe joint effusions under the joint space section.')
-      }
-    }
-  }
-  
-  // Impression-specific instructions
-  if (agentLogic.impression) {
-    if (agentLogic.impression.numerically_itemized) {
-      instructions.push('IMPRESSION FORMAT: Write the impression section as a numbered list (1, 2, 3, etc.).')
-    }
-    // Additional impression formatting is already handled above
-    if (agentLogic.impression.omit_minor_or_incidental_findings_unless_relevant) {
-      instructions.push('In the impression, omit mild or incidental findings unless relevant to the clinical history.')
-    }
-    if (agentLogic.impression.concise_summary) {
-      instructions.push('Keep the impression concise, focusing on clinically significant findings.')
-    }
-    if (agentLogic.impression.include_recommendations) {
-      instructions.push('Include follow-up recommendations when appropriate.')
-    }
-    if (agentLogic.impression.differential_diagnosis) {
-      instructions.push('Provide differential diagnoses for significant findings when appropriate.')
-    }
-    
-    // Handle new nested impression rules
-    if (agentLogic.impression.first_item_should_address_clinical_concern) {
-      instructions.push('The first impression item should address the clinical concern.')
-    }
-    
-    // Handle exclude_by_default array
-    if (agentLogic.impression.exclude_by_default && Array.isArray(agentLogic.impression.exclude_by_default)) {
-      console.log('🔍 Processing exclude_by_default:', agentLogic.impression.exclude_by_default)
-      const excludeList = agentLogic.impression.exclude_by_default.join(', ')
-      instructions.push(`Do not include the following EXACT phrases unless clinically relevant: ${excludeList}. Note: Only exclude the EXACT phrases listed - similar but different findings should still be included.`)
-    }
-    
-    // Handle mention_muscle_atrophy_if
-    if (agentLogic.impression.mention_muscle_atrophy_if) {
-      console.log('🔍 Processing mention_muscle_atrophy_if:', agentLogic.impression.mention_muscle_atrophy_if)
-      if (agentLogic.impression.mention_muscle_atrophy_if === 'moderate_or_severe') {
-        instructions.push('Only mention muscle atrophy if it is moderate or severe.')
-      }
-    }
-  }
-  
-  // Anatomy-specific instructions
-  if (agentLogic.anatomy) {
-    if (agentLogic.anatomy.combine_meniscus_and_cartilage_findings) {
-      instructions.push('Combine meniscus and cartilage findings in the same section for better organization.')
-    }
-    if (agentLogic.anatomy.group_by_anatomic_region) {
-      instructions.push('Group findings by anatomic region (e.g., anterior, posterior, medial, lateral).')
-    }
-    if (agentLogic.anatomy.describe_bilateral_structures) {
-      instructions.push('For bilateral structures, describe each side separately and note any asymmetry.')
-    }
-  }
-  
-  // Clinical correlation instructions
-  if (agentLogic.clinical) {
-    if (agentLogic.clinical.correlate_with_symptoms) {
-      instructions.push('Correlate findings with clinical symptoms when provided.')
-    }
-    if (agentLogic.clinical.mention_clinical_significance) {
-      instructions.push('Comment on the clinical significance of major findings.')
-    }
   }
   
-  // Measurement and quantification instructions
-  if (agentLogic.measurements) {
-    if (agentLogic.measurements.include_all_measurements) {
-      instructions.push('Include all measurements mentioned in the findings.')
-    }
-    if (agentLogic.measurements.use_metric_system) {
-      instructions.push('Use metric system (mm, cm) for all measurements.')
-    }
-    if (agentLogic.measurements.describe_change_from_prior) {
-      instructions.push('When prior measurements are available, describe interval change.')
-    }
-  }
-  
-  // Severity and grading instructions
-  if (agentLogic.severity) {
-    if (agentLogic.severity.use_standard_grading) {
-      instructions.push('Use standard grading systems (e.g., mild/moderate/severe) consistently.')
-    }
-    if (agentLogic.severity.avoid_vague_terms) {
-      instructions.push('Avoid vague terms like "some" or "several" - be specific.')
-    }
-  }
-  
-  // Style preferences
-  if (agentLogic.style) {
-    if (agentLogic.style.active_voice) {
-      instructions.push('Use active voice when describing findings.')
-    }
-    if (agentLogic.style.avoid_hedging) {
-      instructions.push('Avoid excessive hedging language unless uncertainty is clinically relevant.')
-    }
-    if (agentLogic.style.professional_tone) {
-      instructions.push('Maintain a professional, objective tone throughout.')
-    }
-  }
-  
-  // Add custom instructions if provided
-  if (agentLogic.custom_instructions) {
-    if (Array.isArray(agentLogic.custom_instructions)) {
-      instructions.push(...agentLogic.custom_instructions)
-    } else if (typeof agentLogic.custom_instructions === 'string') {
-      instructions.push(agentLogic.custom_instructions)
-    }
-  }
+  // Per-key instructions come from the rule registry
+  instructions.push(...buildRuleInstructions('report', agentLogic, { ...context, findings, template }).map(line => line.text))
   
   // Add all instructions to the prompt
   if (instructions.length > 0) {
@@ -1,37 +1,8 @@
-interface OpenAIResponse {
-  choices: Array<{
-    message: {
-      content: string
-    }
-  }>
-}
-
-interface AnthropicResponse {
-  content: Array<{
-    text: string
-  }>
-}
-
-interface GeminiResponse {
-  candidates: Array<{
-    content: {
-      parts: Array<{
-        text: string
-      }>
-    }
-  }>
-}
-
-interface KimiResponse {
-  choices: Array<{
-    message: {
-      content: string
-    }
-  }>
-}
-
-// Import Mistral Local resolver
-import { resolveMistralLocal } from '../src/providers/MistralLocalResolver'
+import { resolveProvider, getProviderEntry, listProviderEntries } from '../src/providers/registry'
+import { GenerationOptions } from './generationSettings'
+import { getConfig } from '../src/config/models'
+import { ReportProvenance } from './provenance'
+import { ImpressionRemoval } from './exclusions'
 
 export interface ModelCallResponse {
   text: string
@@ -42,20 +13,97 @@ export interface ModelCallResponse {
   }
   ruleViolations?: string[]
   ruleWarnings?: string[]
+  // Impression items exactly as returned in structured output mode
+  impressionItems?: string[]
+  // Impression text removed by post-processing (exclusions, muscle atrophy threshold) and why
+  impressionRemovals?: ImpressionRemoval[]
+  // Sentence-to-source mapping of the final report (report generation with no_hallucinated_findings)
+  provenance?: ReportProvenance
+  // Outcome of the automatic repair pass, when it ran
+  selfCorrection?: {
+    attempts: number
+    fixed: string[]
+    remaining: string[]
+    error?: string
+  }
+  cancelled?: boolean
+  // Provider that produced the text (set when a specific provider was requested)
+  provider?: string
+}
+
+export interface StreamCallbacks {
+  // Receives each text delta as the model produces it
+  onToken?: (chunk: string) => void
+  // Aborts the in-flight generation when triggered
+  signal?: AbortSignal
+}
+
+export function createAbortError(): Error {
+  const error = new Error('Generation cancelled')
+  error.name = 'AbortError'
+  return error
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError'
+}
+
+export interface ProviderCallError extends Error {
+  provider: string
+  status?: number
+}
+
+// Failed provider call with the HTTP status (when known) so failover can decide whether to retry
+export function createProviderError(message: string, provider: string, status?: number): ProviderCallError {
+  const error = new Error(message) as ProviderCallError
+  error.name = 'ProviderCallError'
+  error.provider = provider
+  error.status = status
+  return error
 }
 
 export default async function callModel({
   prompt,
-  model = "gpt-4"
+  model = "gpt-4",
+  provider,
+  generation = {},
+  onToken,
+  signal
 }: {
   prompt: string
   model?: string
-}): Promise<ModelCallResponse> {
+  // Catalog id to call explicitly; failures are thrown instead of returned as report text
+  provider?: string
+  // Sampling and persona overrides from agent_logic.generation
+  generation?: GenerationOptions
+} & StreamCallbacks): Promise<ModelCallResponse> {
   try {
+    if (signal?.aborted) {
+      throw createAbortError()
+    }
+
+    // Stream through the main process when the caller wants progressive output
+    if (onToken && typeof window !== 'undefined' && window.electronAPI?.generateReportStream) {
+      return await streamViaIPC(prompt, onToken, signal, provider, generation)
+    }
+
+    // Explicit provider calls go through the provider-specific IPC handler
+    if (provider && typeof window !== 'undefined' && window.electronAPI?.generateReportWithProvider) {
+      const response = await window.electronAPI.generateReportWithProvider(prompt, provider, generation)
+      if (response?.error) {
+        throw createProviderError(response.error.message, provider, response.error.status)
+      }
+      return {
+        text: response.text,
+        tokens: response.tokens || { input: 0, output: 0, total: 0 },
+        provider
+      }
+    }
+
     // Check if we're in browser/Electron renderer process
     if (typeof window !== 'undefined' && window.electronAPI?.generateReport) {
       // Use the existing Electron IPC to call the model
-      const response = await window.electronAPI.generateReport(prompt)
+      const response = await window.electronAPI.generateReport(prompt, generation)
       
       // Handle both string and object responses
       if (typeof response === 'string') {
@@ -73,265 +121,109 @@ export default async function callModel({
       }
     } else {
       // Server-side implementation - call APIs directly
-      return await callModelDirect(prompt, model)
+      // RADPAL_API_PROVIDER (e.g. "mock") replaces the default model for offline runs
+      const target = provider || getConfig().RADPAL_API_PROVIDER || model
+      const response = await callModelDirect(prompt, target, { onToken, signal }, generation)
+      return provider ? { ...response, provider } : response
     }
   } catch (error) {
-    console.error('Error calling model:', error)
+    if (isAbortError(error)) {
+      console.log('⏹️ Model call cancelled')
+    } else {
+      console.error('Error calling model:', error)
+    }
     throw error
   }
 }
 
-async function callModelDirect(prompt: string, model: string): Promise<ModelCallResponse> {
-  // Normalize model names and route to appropriate API
-  const normalizedModel = model.toLowerCase()
-
-  if (normalizedModel.includes('gpt') || normalizedModel.includes('openai')) {
-    return await callOpenAI(prompt, model)
-  } else if (normalizedModel.includes('claude')) {
-    return await callAnthropic(prompt, model)
-  } else if (normalizedModel.includes('gemini')) {
-    return await callGemini(prompt, model)
-  } else if (normalizedModel.includes('kimi')) {
-    return await callKimi(prompt, model)
-  } else if (normalizedModel.includes('mistral-local') || normalizedModel === 'mistral-local') {
-    return await callMistralLocal(prompt)
-  } else {
-    throw new Error(`Unsupported model: ${model}. Supported models: GPT-4, GPT-3.5-Turbo, Claude-3-Sonnet, Claude-3-Opus, Gemini, Kimi, Mistral-Local`)
-  }
-}
-
-async function callOpenAI(prompt: string, model: string): Promise<ModelCallResponse> {
-  const apiKey = process.env.OPENAI_API_KEY
-  if (!apiKey) {
-    throw new Error('OPENAI_API_KEY not found in environment variables')
-  }
-
-  // Map RadPal model names to OpenAI model names
-  let openaiModel = 'gpt-4o' // Default to GPT-4o
-  if (model.includes('3.5') || model.includes('turbo')) {
-    openaiModel = 'gpt-3.5-turbo'
-  }
-
-  const response = await fetch('https://api.openai.com/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`
-    },
-    body: JSON.stringify({
-      model: openaiModel,
-      messages: [
-        {
-          role: 'system',
-          content: 'You are a helpful radiology assistant.'
-        },
-        {
-          role: 'user',
-          content: prompt
-        }
-      ],
-      max_tokens: 4096,
-      temperature: 0.7
-    })
+async function streamViaIPC(
+  prompt: string,
+  onToken: (chunk: string) => void,
+  signal?: AbortSignal,
+  provider?: string,
+  generation: GenerationOptions = {}
+): Promise<ModelCallResponse> {
+  const api = window.electronAPI!
+  const requestId = `stream-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+
+  const unsubscribe = api.onReportStreamChunk?.((data) => {
+    if (data.requestId === requestId && data.chunk) {
+      onToken(data.chunk)
+    }
   })
+  const handleAbort = () => api.cancelReportStream?.(requestId)
+  signal?.addEventListener('abort', handleAbort)
 
-  if (!response.ok) {
-    const errorText = await response.text()
-    throw new Error(`OpenAI API error: ${response.status} ${response.statusText} - ${errorText}`)
-  }
+  try {
+    const response = await api.generateReportStream!(prompt, requestId, provider, generation)
 
-  const data: any = await response.json()
-  
-  if (!data.choices || data.choices.length === 0) {
-    throw new Error('No response from OpenAI API')
-  }
+    if (response?.cancelled || signal?.aborted) {
+      throw createAbortError()
+    }
+    if (provider && response?.error) {
+      throw createProviderError(response.error.message, provider, response.error.status)
+    }
+    if (!response?.text) {
+      throw new Error('Invalid response from model')
+    }
 
-  return {
-    text: data.choices[0].message.content || 'No content in OpenAI response',
-    tokens: data.usage ? {
-      input: data.usage.prompt_tokens || 0,
-      output: data.usage.completion_tokens || 0,
-      total: data.usage.total_tokens || 0
-    } : { input: 0, output: 0, total: 0 }
+    return {
+      text: response.text,
+      tokens: response.tokens || { input: 0, output: 0, total: 0 },
+      ...(provider ? { provider } : {})
+    }
+  } finally {
+    signal?.removeEventListener('abort', handleAbort)
+    unsubscribe?.()
   }
 }
 
-async function callAnthropic(prompt: string, model: string): Promise<ModelCallResponse> {
-  const apiKey = process.env.ANTHROPIC_API_KEY
-  if (!apiKey) {
-    throw new Error('ANTHROPIC_API_KEY not found in environment variables')
-  }
-
-  // Map RadPal model names to Anthropic model names
-  let anthropicModel = 'claude-sonnet-4-20250514' // Default to Claude 4 Sonnet
-  let maxTokens = 4096
-
-  if (model.includes('opus')) {
-    anthropicModel = 'claude-opus-4-20250514'
-    maxTokens = 8192 // Higher token limit for Opus
-  } else if (model.includes('sonnet')) {
-    anthropicModel = 'claude-sonnet-4-20250514'
-    maxTokens = 4096
+async function callModelDirect(
+  prompt: string,
+  model: string,
+  { onToken, signal }: StreamCallbacks = {},
+  generation: GenerationOptions = {}
+): Promise<ModelCallResponse> {
+  const provider = resolveProvider(model)
+  if (!provider) {
+    const supported = listProviderEntries().map(entry => entry.id).join(', ')
+    throw new Error(`Unsupported model: ${model}. Supported models: ${supported}`)
   }
 
-  const response = await fetch('https://api.anthropic.com/v1/messages', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'x-api-key': apiKey,
-      'anthropic-version': '2023-06-01'
-    },
-    body: JSON.stringify({
-      model: anthropicModel,
-      max_tokens: maxTokens,
-      messages: [
-        {
-          role: 'user',
-          content: prompt
-        }
-      ]
-    })
-  })
-
-  if (!response.ok) {
-    const errorText = await response.text()
-    throw new Error(`Anthropic API error: ${response.status} ${response.statusText} - ${errorText}`)
-  }
-
-  const data: any = await response.json()
-  
-  if (!data.content || data.content.length === 0) {
-    throw new Error('No response from Anthropic API')
-  }
+  const entry = getProviderEntry(provider.id)!
+  // Without a study persona the catalog entry decides whether a default system prompt is sent
+  const generateOptions = { ...generation, prompt }
 
-  return {
-    text: data.content[0].text || 'No content in Anthropic response',
-    tokens: data.usage ? {
-      input: data.usage.input_tokens || 0,
-      output: data.usage.output_tokens || 0,
-      total: (data.usage.input_tokens || 0) + (data.usage.output_tokens || 0)
-    } : { input: 0, output: 0, total: 0 }
-  }
-}
-
-async function callGemini(prompt: string, model: string): Promise<ModelCallResponse> {
-  const apiKey = process.env.GEMINI_API_KEY
-  if (!apiKey) {
-    throw new Error('GEMINI_API_KEY not found in environment variables')
-  }
+  try {
+    // Local servers are checked up front so users get setup instructions instead of a fetch error
+    if (entry.local && !(await provider.health())) {
+      throw new Error(`${provider.name} server is not running`)
+    }
 
-  const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent?key=${apiKey}`, {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify({
-      contents: [{
-        parts: [{
-          text: prompt
-        }]
-      }],
-      generationConfig: {
-        temperature: 0.7,
-        maxOutputTokens: 4096
+    // Stream when both the caller and the backend support it; otherwise emit the completion once
+    let result
+    if (onToken && provider.capabilities.streaming && provider.stream) {
+      result = await provider.stream(generateOptions, { onToken, signal })
+    } else {
+      result = await provider.generate(generateOptions)
+      if (signal?.aborted) {
+        throw createAbortError()
       }
-    })
-  })
-
-  if (!response.ok) {
-    const errorText = await response.text()
-    throw new Error(`Gemini API error: ${response.status} ${response.statusText} - ${errorText}`)
-  }
-
-  const data: any = await response.json()
-  
-  if (!data.candidates || data.candidates.length === 0 || !data.candidates[0].content.parts.length) {
-    throw new Error('No response from Gemini API')
-  }
-
-  return {
-    text: data.candidates[0].content.parts[0].text || 'No content in Gemini response',
-    tokens: data.usageMetadata ? {
-      input: data.usageMetadata.promptTokenCount || 0,
-      output: data.usageMetadata.candidatesTokenCount || 0,
-      total: data.usageMetadata.totalTokenCount || 0
-    } : { input: 0, output: 0, total: 0 }
-  }
-}
-
-async function callKimi(prompt: string, model: string): Promise<ModelCallResponse> {
-  const apiKey = process.env.MOONSHOT_API_KEY
-  if (!apiKey) {
-    throw new Error('MOONSHOT_API_KEY not found in environment variables')
-  }
-
-  const response = await fetch('https://api.moonshot.ai/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Content-Type': 'application/json',
-      'Authorization': `Bearer ${apiKey}`
-    },
-    body: JSON.stringify({
-      model: 'kimi-k2-0711-preview',
-      messages: [
-        {
-          role: 'system',
-          content: 'You are a helpful radiology assistant.'
-        },
-        {
-          role: 'user',
-          content: prompt
-        }
-      ],
-      temperature: 0.7,
-      stream: false
-    })
-  })
-
-  if (!response.ok) {
-    const errorText = await response.text()
-    throw new Error(`Kimi API error: ${response.status} ${response.statusText} - ${errorText}`)
-  }
-
-  const data: any = await response.json()
-  
-  if (!data.choices || data.choices.length === 0) {
-    throw new Error('No response from Kimi API')
-  }
-
-  return {
-    text: data.choices[0].message.content || 'No content in Kimi response',
-    tokens: data.usage ? {
-      input: data.usage.prompt_tokens || 0,
-      output: data.usage.completion_tokens || 0,
-      total: data.usage.total_tokens || 0
-    } : { input: 0, output: 0, total: 0 }
-  }
-}
+      onToken?.(result.text)
+    }
 
-async function callMistralLocal(prompt: string): Promise<ModelCallResponse> {
-  try {
-    // Check if llama.cpp server is running
-    const provider = await resolveMistralLocal()
-    
-    // Call the provider
-    const text = await provider.generate({
-      system: 'You are a helpful radiology assistant.',
-      prompt: prompt,
-      temperature: 0.25,
-      topP: 0.9,
-      maxTokens: 1200
-    })
-    
     return {
-      text: text,
-      tokens: { input: 0, output: 0, total: 0 } // Local models don't typically report token usage
+      text: result.text,
+      tokens: result.tokens || { input: 0, output: 0, total: 0 }
     }
   } catch (error: any) {
-    console.error('Error calling Mistral Local:', error)
-    
+    if (isAbortError(error) || !entry.local) {
+      throw error
+    }
+    console.error(`Error calling ${provider.name}:`, error)
+
     // Provide helpful error message for users
-    if (error.message?.includes('llama.cpp server is not running')) {
+    if (error.message?.includes('server is not running')) {
       const helpfulError = new Error(
         'Local AI server is not running.\n\n' +
         'To use local AI:\n' +
@@ -345,7 +237,7 @@ async function callMistralLocal(prompt: string): Promise<ModelCallResponse> {
       helpfulError.name = 'LocalAINotRunning'
       throw helpfulError
     }
-    
+
     throw error
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,257 @@
+import { splitSentences } from './provenance'
+import { AnatomyEntry, Laterality, RADIOLOGY_LEXICON, RadiologyLexicon } from './radiologyLexicon'
+
+/**
+ * Local concept extraction.
+ * Free text is split into sentences and clauses, lexicon terms are found in each clause and every
+ * structure or finding is returned with its status (negation cues carry across a comma list such as
+ * "No fracture, dislocation, or effusion"), the severity word nearest to it and the side it is on.
+ * Validation, study-type suggestion and impression exclusions all read medical content through here.
+ */
+
+export type FindingStatus = 'present' | 'absent'
+
+export interface ExtractedFinding {
+  // Structure the finding is about, e.g. "anterior cruciate ligament"
+  anatomy?: string
+  // Finding named, e.g. "tear"; unset when a structure is only described as normal
+  pathology?: string
+  status: FindingStatus
+  severity?: { term: string; rank: number }
+  laterality?: Laterality
+  // Sentence the finding came from
+  text: string
+}
+
+export interface TermMatch {
+  key: string
+  term: string
+  index: number
+  end: number
+}
+
+export interface TermMatcher {
+  find: (text: string) => TermMatch[]
+  test: (text: string) => boolean
+}
+
+export interface StudyTypeSuggestion {
+  type: string
+  confidence: number
+}
+
+interface CompiledLexicon {
+  anatomy: TermMatcher
+  pathology: TermMatcher
+  severity: TermMatcher
+  laterality: TermMatcher
+  normal: TermMatcher
+  negation: RegExp
+  listContinuation: RegExp
+}
+
+const CLAUSE_SEPARATOR = /([,;]|\b(?:but|however|although|though|whereas|except)\b)/i
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+const normalizeTerm = (term: string) => term.toLowerCase().trim().replace(/\s+/g, ' ')
+
+function alternation(terms: string[]): string {
+  // Longest first, so "medial meniscus" wins over "meniscus"
+  return [...new Set(terms.map(normalizeTerm))]
+    .filter(Boolean)
+    .sort((a, b) => b.length - a.length)
+    .map(term => escapeRegExp(term).replace(/ /g, '\\s+'))
+    .join('|')
+}
+
+/**
+ * Whole-word, case-insensitive matcher for groups of terms; each match reports its group key
+ */
+export function compileTerms(groups: Record<string, string[]>): TermMatcher {
+  const keys = new Map<string, string>()
+  for (const [key, terms] of Object.entries(groups)) {
+    for (const term of terms) {
+      const normalized = normalizeTerm(term)
+      if (normalized && !keys.has(normalized)) keys.set(normalized, key)
+    }
+  }
+  const source = alternation([...keys.keys()])
+  if (!source) return { find: () => [], test: () => false }
+  const pattern = new RegExp(`(?<!\\w)(?:${source})(?!\\w)`, 'gi')
+
+  const find = (text: string) => [...text.matchAll(pattern)].map(match => ({
+    key: keys.get(normalizeTerm(match[0]))!,
+    term: match[0],
+    index: match.index!,
+    end: match.index! + match[0].length
+  }))
+  return { find, test: (text: string) => find(text).length > 0 }
+}
+
+const compiledLexicons = new WeakMap<RadiologyLexicon, CompiledLexicon>()
+
+function compile(lexicon: RadiologyLexicon): CompiledLexicon {
+  let compiled = compiledLexicons.get(lexicon)
+  if (compiled) return compiled
+
+  const pathologyTerms = alternation(Object.values(lexicon.pathology).flat())
+  compiled = {
+    anatomy: compileTerms(Object.fromEntries(lexicon.anatomy.map(entry => [entry.key, entry.terms]))),
+    pathology: compileTerms(lexicon.pathology),
+    severity: compileTerms(Object.fromEntries(Object.keys(lexicon.severity).map(term => [term, [term]]))),
+    laterality: compileTerms(lexicon.laterality),
+    normal: compileTerms({ normal: lexicon.normal }),
+    negation: new RegExp(`(?<!\\w)(?:${alternation(lexicon.negation)})(?!\\w)`, 'i'),
+    // Negation carries across a comma list such as "No fracture, dislocation, or effusion"
+    listContinuation: new RegExp(`^\\s*(?:or|and|nor)?\\s*(?:${pathologyTerms})(?!\\w)`, 'i')
+  }
+  compiledLexicons.set(lexicon, compiled)
+  return compiled
+}
+
+function gap(a: { index: number; end: number }, b: { index: number; end: number }): number {
+  return Math.max(b.index - a.end, a.index - b.end, 0)
+}
+
+function nearest<T extends { index: number; end: number }>(target: { index: number; end: number }, candidates: T[]): T | undefined {
+  let best: T | undefined
+  for (const candidate of candidates) {
+    if (!best || gap(target, candidate) < gap(target, best)) best = candidate
+  }
+  return best
+}
+
+function splitClauses(sentence: string): Array<{ text: string; afterComma: boolean }> {
+  const parts = sentence.split(CLAUSE_SEPARATOR)
+  const clauses: Array<{ text: string; afterComma: boolean }> = []
+  for (let i = 0; i < parts.length; i += 2) {
+    clauses.push({ text: parts[i], afterComma: i > 0 && parts[i - 1] === ',' })
+  }
+  return clauses
+}
+
+/**
+ * Structures and findings a text describes, each marked present or absent
+ */
+export function extractFindings(text: string, lexicon: RadiologyLexicon = RADIOLOGY_LEXICON): ExtractedFinding[] {
+  const compiled = compile(lexicon)
+  const findings: ExtractedFinding[] = []
+  const add = (finding: ExtractedFinding) => {
+    const duplicate = findings.some(existing =>
+      existing.anatomy === finding.anatomy && existing.pathology === finding.pathology &&
+      existing.status === finding.status && existing.text === finding.text
+    )
+    if (!duplicate) findings.push(finding)
+  }
+
+  for (const sentence of splitSentences(text)) {
+    let previousNegated = false
+    const [side] = compiled.laterality.find(sentence.text)
+
+    for (const clause of splitClauses(sentence.text)) {
+      const negatedBefore = (position: number) => compiled.negation.test(clause.text.slice(0, position))
+      const inherited: boolean = clause.afterComma && previousNegated && compiled.listContinuation.test(clause.text)
+      const abnormal = compiled.pathology.find(clause.text)
+      const normal = compiled.normal.find(clause.text)
+      const structures = compiled.anatomy.find(clause.text)
+      const severities = compiled.severity.find(clause.text)
+
+      const statusOf = (match: TermMatch, kind: 'abnormal' | 'normal'): FindingStatus => {
+        const negated = inherited || negatedBefore(match.index)
+        if (kind === 'abnormal') return negated ? 'absent' : 'present'
+        return negated ? 'present' : 'absent'
+      }
+      const describe = (match: TermMatch) => {
+        const severity = nearest(match, severities)
+        return {
+          ...(severity ? { severity: { term: severity.term.toLowerCase(), rank: lexicon.severity[severity.key] } } : {}),
+          ...(side ? { laterality: side.key as Laterality } : {}),
+          text: sentence.text
+        }
+      }
+
+      if (structures.length > 0) {
+        // Each structure takes the status word closest to it
+        const statuses = [
+          ...abnormal.map(match => ({ ...match, kind: 'abnormal' as const })),
+          ...normal.map(match => ({ ...match, kind: 'normal' as const }))
+        ]
+        for (const structure of structures) {
+          const status = nearest(structure, statuses)
+          if (!status) continue
+          add({
+            anatomy: structure.key,
+            ...(status.kind === 'abnormal' ? { pathology: status.key } : {}),
+            status: statusOf(status, status.kind),
+            ...describe(status.kind === 'abnormal' ? status : structure)
+          })
+        }
+      } else {
+        for (const match of abnormal) {
+          add({ pathology: match.key, status: statusOf(match, 'abnormal'), ...describe(match) })
+        }
+      }
+
+      previousNegated = inherited || compiled.negation.test(clause.text)
+    }
+  }
+
+  return findings
+}
+
+/**
+ * Lexicon entry for an anatomy key, e.g. to find the structure it belongs to
+ */
+export function getAnatomyEntry(key: string, lexicon: RadiologyLexicon = RADIOLOGY_LEXICON): AnatomyEntry | undefined {
+  return lexicon.anatomy.find(entry => entry.key === key)
+}
+
+/**
+ * Pathology key a phrase names, e.g. "joint effusion" -> "effusion"
+ */
+export function getPathologyKey(phrase: string, lexicon: RadiologyLexicon = RADIOLOGY_LEXICON): string | undefined {
+  const normalized = normalizeTerm(phrase)
+  if (lexicon.pathology[normalized]) return normalized
+  return Object.keys(lexicon.pathology).find(key => lexicon.pathology[key].some(term => normalizeTerm(term) === normalized))
+}
+
+/**
+ * Study types whose lexicon terms appear in the findings, best first (at most three, 20% confidence or more).
+ * With templateNames, only study types that have a template are suggested, and templates without lexicon
+ * terms are matched on the words of their name.
+ */
+export function suggestStudyTypes(
+  findings: string,
+  { templateNames = [], lexicon = RADIOLOGY_LEXICON }: { templateNames?: string[]; lexicon?: RadiologyLexicon } = {}
+): StudyTypeSuggestion[] {
+  const suggestions: StudyTypeSuggestion[] = []
+
+  for (const [studyType, terms] of Object.entries(lexicon.studyTypes)) {
+    if (templateNames.length > 0 && !templateNames.includes(studyType)) continue
+
+    const matched = new Set(compileTerms({ [studyType]: terms }).find(findings).map(match => normalizeTerm(match.term)))
+    if (matched.size === 0) continue
+    // Multi-word terms are more specific
+    const score = [...matched].reduce((total, term) => total + (term.includes(' ') ? 3 : 1), 0)
+    const baseConfidence = (matched.size / Math.min(3, terms.length)) * 60
+    const scoreBonus = Math.min(35, score * 10)
+    suggestions.push({ type: studyType, confidence: Math.min(95, Math.round(baseConfidence + scoreBonus)) })
+  }
+
+  for (const studyType of templateNames.filter(name => !lexicon.studyTypes[name])) {
+    const nameTerms = studyType.toLowerCase().split(/[\s_-]+/).filter(word => word.length > 2)
+    const matched = new Set(compileTerms({ [studyType]: nameTerms }).find(findings).map(match => normalizeTerm(match.term)))
+    if (matched.size === 0) continue
+    // Name-only matches are capped lower than lexicon matches
+    const score = [...matched].reduce((total, term) => total + term.length, 0)
+    const baseConfidence = (matched.size / Math.min(2, nameTerms.length)) * 40
+    const scoreBonus = Math.min(15, score * 2)
+    suggestions.push({ type: studyType, confidence: Math.min(60, Math.round(baseConfidence + scoreBonus)) })
+  }
+
+  return suggestions
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, 3)
+    .filter(suggestion => suggestion.confidence >= 20)
+}
@@ -0,0 +1,129 @@
+import { AgentLogic } from './types'
+import { extractSections } from './validateSectionHeaders'
+
+/**
+ * User-defined validation rules (agent_logic.validations).
+ * Rules are declarative: a section must mention a pattern (optionally only when the findings
+ * match), must not contain a pattern, or may hold at most N items. Rules from every logic layer
+ * are concatenated by mergeLogicLayers; a later rule with the same id replaces an earlier one.
+ */
+
+export type ValidationRule = NonNullable<AgentLogic['validations']>[number]
+
+export interface CustomValidationResult {
+  violations: string[]
+  warnings: string[]
+}
+
+export interface CustomValidationContext {
+  // Exact impression items from structured output
+  impressionItems?: string[]
+}
+
+/**
+ * Rules in effect after inheritance: the last rule per id wins and disabled rules are dropped
+ */
+export function resolveValidationRules(rules: ValidationRule[] | undefined): ValidationRule[] {
+  if (!Array.isArray(rules)) return []
+
+  const resolved: ValidationRule[] = []
+  for (const rule of rules) {
+    if (!rule || typeof rule !== 'object') continue
+    const existing = rule.id ? resolved.findIndex(other => other.id === rule.id) : -1
+    if (existing !== -1) resolved.splice(existing, 1)
+    resolved.push(rule)
+  }
+  return resolved.filter(rule => rule.enabled !== false)
+}
+
+function compile(pattern: string): RegExp | null {
+  try {
+    return new RegExp(pattern, 'i')
+  } catch {
+    return null
+  }
+}
+
+function sectionText(report: string, section: string | undefined): string | null {
+  if (!section) return report
+  const wanted = section.replace(/:$/, '').trim().toUpperCase()
+  const match = extractSections(report).find(candidate => candidate.header.replace(/:$/, '') === wanted)
+  return match ? match.content : null
+}
+
+function countItems(text: string): number {
+  const lines = text.split('\n').map(line => line.trim()).filter(Boolean)
+  const listed = lines.filter(line => /^(?:\d+[.)]|[•\-*])\s*/.test(line))
+  return listed.length > 0 ? listed.length : lines.length
+}
+
+function ruleLabel(rule: ValidationRule, index: number): string {
+  return rule.id || rule.description || `validations[${index}]`
+}
+
+/**
+ * Evaluates the resolved rules against a generated report
+ */
+export function evaluateCustomValidations(
+  report: string,
+  findings: string,
+  rules: ValidationRule[] | undefined,
+  context: CustomValidationContext = {}
+): CustomValidationResult {
+  const violations: string[] = []
+  const warnings: string[] = []
+
+  resolveValidationRules(rules).forEach((rule, index) => {
+    const label = ruleLabel(rule, index)
+    const fail = (detail: string) => {
+      const message = `CUSTOM RULE (${label}): ${rule.message || detail}`
+      if (rule.severity === 'warning') warnings.push(message)
+      else violations.push(message)
+    }
+
+    if (rule.when) {
+      const trigger = compile(rule.when)
+      if (!trigger) {
+        warnings.push(`CUSTOM RULE (${label}): invalid "when" pattern ${rule.when}`)
+        return
+      }
+      if (!trigger.test(findings)) return
+    }
+
+    const isImpression = rule.section?.replace(/:$/, '').trim().toUpperCase() === 'IMPRESSION'
+    const text = isImpression && context.impressionItems
+      ? context.impressionItems.join('\n')
+      : sectionText(report, rule.section)
+    const where = rule.section ? `the ${rule.section.replace(/:$/, '').toUpperCase()} section` : 'the report'
+
+    switch (rule.kind) {
+      case 'require_mention':
+      case 'forbid_pattern': {
+        const pattern = rule.pattern ? compile(rule.pattern) : null
+        if (!pattern) {
+          warnings.push(`CUSTOM RULE (${label}): missing or invalid pattern${rule.pattern ? ` ${rule.pattern}` : ''}`)
+          return
+        }
+        if (rule.kind === 'require_mention') {
+          if (text === null || !pattern.test(text)) fail(`${where} must mention /${rule.pattern}/.`)
+        } else if (text !== null && pattern.test(text)) {
+          fail(`${where} must not contain /${rule.pattern}/.`)
+        }
+        return
+      }
+      case 'max_items': {
+        if (rule.max === undefined) {
+          warnings.push(`CUSTOM RULE (${label}): max_items needs a max`)
+          return
+        }
+        const count = isImpression && context.impressionItems ? context.impressionItems.length : text ? countItems(text) : 0
+        if (count > rule.max) fail(`${where} has ${count} items; the limit is ${rule.max}.`)
+        return
+      }
+      default:
+        warnings.push(`CUSTOM RULE (${label}): unknown kind ${rule.kind ?? '(none)'}`)
+    }
+  })
+
+  return { violations, warnings }
+}
@@ -0,0 +1,152 @@
+import { PatientContext } from './recommendations'
+import { affirms } from './scoring'
+import { splitSentences } from './provenance'
+
+/**
+ * Exam context: what the radiologist knows about the case besides the findings.
+ * It is listed in every prompt, supplies the patient details guideline tables need, and
+ * validation checks the report against it (contrast, patient sex, comparison study).
+ */
+
+export type PatientSex = 'female' | 'male'
+
+export type ContrastUse = 'none' | 'with' | 'with_and_without'
+
+export interface ExamContext {
+  indication?: string
+  age?: number
+  sex?: PatientSex
+  // Relevant history, e.g. "Prior ACL reconstruction. Smoker."
+  history?: string
+  contrast?: ContrastUse
+  // Comparison study date as YYYY-MM-DD
+  comparisonDate?: string
+  // Set when no prior imaging is available, so any comparison in the report is invented
+  noComparison?: boolean
+  priorImpression?: string
+  // Full prior report, aligned with the current findings to describe interval change
+  priorReport?: string
+}
+
+export const EXAM_CONTEXT_PREFIX = 'EXAM CONTEXT:'
+
+const CONTRAST_LABELS: Record<ContrastUse, string> = {
+  none: 'Without IV contrast',
+  with: 'With IV contrast',
+  with_and_without: 'With and without IV contrast'
+}
+
+const contrastPhrase = (contrast: ContrastUse) => CONTRAST_LABELS[contrast].replace(/^W/, 'w')
+
+// Wording that only makes sense against a prior study
+export const INTERVAL_CHANGE = /\b(?:interval(?:ly)?|since (?:the )?(?:prior|previous|last)|(?:compared|comparison) (?:to|with) (?:the )?(?:prior|previous)|previously (?:seen|noted|described|demonstrated)|unchanged|(?:increased|decreased) (?:in size|from)|no longer (?:seen|visualized)|resolved|resolution of)\b/i
+
+const CANCER = /\b(?:cancer|carcinoma|malignan\w*|metasta\w*|lymphoma|melanoma|sarcoma|leuk[a]?emia|myeloma)\b/i
+const NO_CANCER = /\bno (?:known |prior )?(?:history of )?(?:cancer|malignancy)\b/i
+const LUNG_CANCER_RISK = /\b(?:smok\w*|tobacco|pack[- ]years?|asbestos|radon|family history of lung cancer)\b/i
+const NEVER_SMOKED = /\b(?:never[- ]smok\w*|non-?smoker)\b/i
+
+// Organs a report should not describe for a patient of the other sex
+const SEX_SPECIFIC_ANATOMY: Record<PatientSex, RegExp> = {
+  female: /\b(?:prostat\w*|testic\w*|testes|testis|scrot\w*|seminal vesicles?)\b/i,
+  male: /\b(?:uter\w*|ovar\w*|endometri\w*|cervix|adnex\w*|fallopian)\b/i
+}
+
+const WITH_AND_WITHOUT_CONTRAST = /\bwith and without (?:IV |intravenous )?contrast\b/i
+const WITHOUT_CONTRAST = /\b(?:without (?:IV |intravenous )?contrast|non-?contrast|unenhanced|noncontrast)\b/i
+const WITH_CONTRAST = /\b(?:with (?:IV |intravenous |oral and IV )?contrast|post-?contrast|contrast-enhanced|administration of (?:IV |intravenous )?contrast)\b/i
+
+export function isExamContextEmpty(exam: ExamContext | undefined): boolean {
+  if (!exam) return true
+  return !exam.indication?.trim() && exam.age === undefined && !exam.sex && !exam.history?.trim() &&
+    !exam.contrast && !exam.comparisonDate && !exam.noComparison && !exam.priorImpression?.trim() && !exam.priorReport?.trim()
+}
+
+/**
+ * Patient details for the follow-up recommendation tables; history decides risk when it says so
+ */
+export function toPatientContext(exam: ExamContext | undefined): PatientContext {
+  if (!exam) return {}
+  const history = exam.history || ''
+  const cancerHistory = affirms(history, CANCER) && !NO_CANCER.test(history) ? true : NO_CANCER.test(history) ? false : undefined
+  const highRisk = affirms(history, LUNG_CANCER_RISK) && !NEVER_SMOKED.test(history) ? true : NEVER_SMOKED.test(history) ? false : undefined
+  return {
+    ...(exam.age !== undefined ? { age: exam.age } : {}),
+    ...(highRisk !== undefined ? { highRisk } : {}),
+    ...(cancerHistory !== undefined ? { cancerHistory } : {})
+  }
+}
+
+/**
+ * CLINICAL CONTEXT block for the prompt builders; empty when nothing is known
+ */
+export function formatExamContext(exam: ExamContext | undefined): string {
+  if (!exam || isExamContextEmpty(exam)) return ''
+  const lines = ['CLINICAL CONTEXT:']
+  if (exam.indication?.trim()) lines.push(`Indication: ${exam.indication.trim()}`)
+  const patient = [exam.age !== undefined ? `${exam.age}-year-old` : '', exam.sex || ''].filter(Boolean).join(' ')
+  if (patient) lines.push(`Patient: ${patient}`)
+  if (exam.history?.trim()) lines.push(`Relevant history: ${exam.history.trim()}`)
+  if (exam.contrast) lines.push(`Contrast: ${CONTRAST_LABELS[exam.contrast]}`)
+  if (exam.comparisonDate) lines.push(`Comparison: Prior study dated ${exam.comparisonDate}`)
+  else if (exam.noComparison) lines.push('Comparison: None available. Do not describe interval change.')
+  if (exam.priorImpression?.trim()) lines.push(`Prior impression:\n${exam.priorImpression.trim()}`)
+  return lines.join('\n')
+}
+
+/**
+ * Whether a text cites an ISO date, in ISO or US (M/D/YYYY) form
+ */
+export function mentionsDate(text: string, isoDate: string): boolean {
+  const [year, month, day] = isoDate.split('-').map(Number)
+  if (!year || !month || !day) return text.includes(isoDate)
+  if (text.includes(isoDate)) return true
+  return [...text.matchAll(/\b(\d{1,2})\/(\d{1,2})\/(\d{4})\b/g)].some(match =>
+    Number(match[1]) === month && Number(match[2]) === day && Number(match[3]) === year)
+}
+
+/**
+ * Report statements that contradict the exam context; checked whenever exam context is given
+ */
+export function checkExamContext(report: string, exam: ExamContext | undefined): string[] {
+  const violations: string[] = []
+  if (!exam || isExamContextEmpty(exam)) return violations
+  const sentences = splitSentences(report).map(sentence => sentence.text)
+
+  if (exam.contrast && exam.contrast !== 'with_and_without') {
+    for (const sentence of sentences) {
+      if (WITH_AND_WITHOUT_CONTRAST.test(sentence)) {
+        violations.push(`${EXAM_CONTEXT_PREFIX} Report says "${sentence}" but the exam was ${contrastPhrase(exam.contrast)}.`)
+        continue
+      }
+      const contradicts = exam.contrast === 'none' ? WITH_CONTRAST.test(sentence) && !WITHOUT_CONTRAST.test(sentence) : WITHOUT_CONTRAST.test(sentence)
+      if (contradicts) {
+        violations.push(`${EXAM_CONTEXT_PREFIX} Report says "${sentence}" but the exam was ${contrastPhrase(exam.contrast)}.`)
+      }
+    }
+  }
+
+  if (exam.sex) {
+    for (const sentence of sentences.filter(candidate => SEX_SPECIFIC_ANATOMY[exam.sex!].test(candidate))) {
+      violations.push(`${EXAM_CONTEXT_PREFIX} Report describes anatomy the ${exam.sex} patient does not have: "${sentence}"`)
+    }
+  }
+
+  if (exam.noComparison && !exam.comparisonDate) {
+    for (const sentence of sentences.filter(candidate => INTERVAL_CHANGE.test(candidate))) {
+      violations.push(`${EXAM_CONTEXT_PREFIX} Report compares with a prior study but none is available: "${sentence}"`)
+    }
+  }
+
+  if (exam.comparisonDate) {
+    // Dates given for the prior study must be the comparison date
+    for (const sentence of sentences.filter(candidate => /\b(?:prior|previous|comparison|compared)\b/i.test(candidate))) {
+      const dates = sentence.match(/\b\d{4}-\d{2}-\d{2}\b|\b\d{1,2}\/\d{1,2}\/\d{4}\b/g) || []
+      if (dates.length > 0 && !mentionsDate(sentence, exam.comparisonDate)) {
+        violations.push(`${EXAM_CONTEXT_PREFIX} Report dates the prior study ${dates.join(', ')} but the comparison study is dated ${exam.comparisonDate}: "${sentence}"`)
+      }
+    }
+  }
+
+  return violations
+}
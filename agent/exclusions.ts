@@ -0,0 +1,203 @@
+import { AgentLogic } from './types'
+import { compileTerms, getPathologyKey } from './conceptExtraction'
+import { RADIOLOGY_LEXICON } from './radiologyLexicon'
+
+/**
+ * Severity-aware impression exclusions.
+ * An exclusion is a concept plus the most severe grade that is still left out, e.g. effusion up to
+ * "small". Concepts match their lexicon synonyms ("minimal fluid in the joint" is an effusion), the grade
+ * comes from the severity words next to the mention, and sentences with modifiers that make a
+ * finding matter ("new", "increased", "hemorrhagic") are never touched.
+ */
+
+export type ExclusionSeverity = NonNullable<NonNullable<NonNullable<AgentLogic['impression']>['exclusion_rules']>[number]['max_severity']>
+
+export interface ExclusionRule {
+  // Canonical concept, e.g. "effusion"
+  concept: string
+  // Most severe grade still excluded; unset excludes the concept unless it is moderate or worse
+  maxSeverity?: ExclusionSeverity
+  // Phrases that count as a mention of the concept
+  terms: string[]
+  // Setting the rule came from, for the removal log
+  source: string
+}
+
+export interface ImpressionRemoval {
+  // Impression item the text was removed from
+  item: string
+  removed: string
+  // Setting that caused the removal, e.g. "small_joint_effusion" or "impression.mention_muscle_atrophy_if"
+  rule: string
+  reason: string
+}
+
+export interface ExclusionResult {
+  text: string
+  removed: ImpressionRemoval[]
+  // Excluded findings left in place because their sentence also reports other findings
+  kept: ImpressionRemoval[]
+}
+
+// Grades on the lexicon's shared scale; equal ranks are interchangeable
+const SEVERITY_RANKS = RADIOLOGY_LEXICON.severity
+
+const UNGRADED_LIMIT = SEVERITY_RANKS.moderate
+
+// Grades an exclusion can be capped at, in the order a legacy entry's severity word is mapped onto
+const EXCLUDABLE_GRADES: ExclusionSeverity[] = ['trace', 'minimal', 'small', 'mild', 'moderate']
+
+const SEVERITY_WORDS = compileTerms(Object.fromEntries(Object.keys(SEVERITY_RANKS).map(term => [term, [term]])))
+
+// Modifiers that make an otherwise minor finding worth reporting
+const PROTECTIVE_MODIFIERS = /\b(?:new|newly|increas\w*|enlarg\w*|worsen\w*|progress\w*|interval|hemorrhag\w*|haemorrhag\w*|infect\w*|septic|rupture\w*|complex|septated|loculated|lipoh[a]?emarthrosis|h[a]?emarthrosis|symptomatic|compress\w*|mass effect|concerning|significant)\b/i
+
+const CLAUSE_SEPARATOR = /(\s*(?:[,;]|\b(?:and|with|as well as|plus)\b)\s*)/i
+const LIST_PREFIX = /^(\s*(?:\d+[.)]|[•\-*])\s*)/
+
+function literalTerms(phrase: string): string[] {
+  // Tolerate a missing apostrophe and a plural on user-supplied phrases
+  const bare = phrase.toLowerCase().trim()
+  const withoutApostrophe = bare.replace(/'/g, '')
+  return [...new Set([bare, withoutApostrophe, `${bare}s`, `${withoutApostrophe}s`])]
+}
+
+function makeRule(concept: string, maxSeverity: ExclusionSeverity | undefined, synonyms: string[], source: string): ExclusionRule {
+  const known = getPathologyKey(concept)
+  const terms = [...(known ? RADIOLOGY_LEXICON.pathology[known] : literalTerms(concept)), ...synonyms.flatMap(literalTerms)]
+  return { concept: known || concept, maxSeverity, terms, source }
+}
+
+/**
+ * Reads a legacy exclude_by_default entry such as "small_baker's_cyst" as a concept and a grade
+ */
+export function parseLegacyExclusion(entry: string): ExclusionRule | null {
+  const phrase = entry.replace(/_/g, ' ').replace(/\s+/g, ' ').trim().toLowerCase()
+  if (!phrase) return null
+  const [first, ...rest] = phrase.split(' ')
+  const grade = rest.length > 0 ? EXCLUDABLE_GRADES.find(option => SEVERITY_RANKS[option] === SEVERITY_RANKS[first]) : undefined
+  const concept = grade ? rest.join(' ') : phrase
+  return makeRule(concept, grade, [], entry)
+}
+
+/**
+ * Rules from impression.exclusion_rules entries
+ */
+export function parseExclusionRules(entries: unknown): ExclusionRule[] {
+  if (!Array.isArray(entries)) return []
+  return entries
+    .filter(entry => entry && typeof entry.concept === 'string' && entry.concept.trim())
+    .map(entry => makeRule(entry.concept.trim().toLowerCase(), entry.max_severity, Array.isArray(entry.synonyms) ? entry.synonyms : [], entry.concept))
+}
+
+/**
+ * Rules from impression.exclude_by_default entries
+ */
+export function parseLegacyExclusions(entries: unknown): ExclusionRule[] {
+  if (!Array.isArray(entries)) return []
+  return entries
+    .map(entry => (typeof entry === 'string' ? parseLegacyExclusion(entry) : null))
+    .filter((rule): rule is ExclusionRule => rule !== null)
+}
+
+/**
+ * Exclusion rules in effect: structured exclusion_rules plus legacy exclude_by_default entries
+ */
+export function resolveExclusionRules(logic: AgentLogic | undefined): ExclusionRule[] {
+  return [
+    ...parseExclusionRules(logic?.impression?.exclusion_rules),
+    ...parseLegacyExclusions(logic?.impression?.exclude_by_default)
+  ]
+}
+
+export function describeExclusion(rule: ExclusionRule): string {
+  return rule.maxSeverity ? `${rule.concept} (${rule.maxSeverity} or less)` : rule.concept
+}
+
+function severityOf(text: string): number | undefined {
+  const ranks = SEVERITY_WORDS.find(text).map(match => SEVERITY_RANKS[match.key])
+  return ranks.length > 0 ? Math.max(...ranks) : undefined
+}
+
+/**
+ * The rule that leaves a clause out of the impression, with the reason, or null if the clause stays
+ */
+function matchClause(clause: string, rules: ExclusionRule[]): { rule: ExclusionRule; reason: string } | null {
+  const severity = severityOf(clause)
+  for (const rule of rules) {
+    if (!compileTerms({ [rule.concept]: rule.terms }).test(clause)) continue
+    if (rule.maxSeverity) {
+      // Ungraded mentions can't be shown to be minor
+      if (severity !== undefined && severity <= SEVERITY_RANKS[rule.maxSeverity]) {
+        return { rule, reason: `${rule.concept} is excluded up to "${rule.maxSeverity}" severity` }
+      }
+    } else if (severity === undefined || severity < UNGRADED_LIMIT) {
+      return { rule, reason: `${rule.concept} is excluded unless moderate or worse` }
+    }
+  }
+  return null
+}
+
+/**
+ * Whether a single finding or impression item would be left out entirely
+ */
+export function isExcludedFinding(finding: string, rules: ExclusionRule[]): boolean {
+  return !PROTECTIVE_MODIFIERS.test(finding) && matchClause(finding, rules) !== null
+}
+
+/**
+ * Drops a sentence only when excluded findings are all it says; a sentence that also reports other
+ * findings stays whole, since cutting a clause out can leave it saying something else
+ */
+function pruneSentence(sentence: string, rules: ExclusionRule[], item: string, removed: ImpressionRemoval[], kept: ImpressionRemoval[]): string {
+  if (PROTECTIVE_MODIFIERS.test(sentence)) return sentence
+
+  const [, body] = sentence.match(/^([\s\S]*?)([.!?]*\s*)$/) || [sentence, sentence]
+  // Even parts are clauses, odd parts the separators between them
+  const clauses = body.split(CLAUSE_SEPARATOR).filter((part, i) => i % 2 === 0 && part.trim())
+  const matches = clauses.map(clause => ({ clause: clause.trim(), match: matchClause(clause, rules) }))
+  const excluded = matches.filter(({ match }) => match)
+  if (excluded.length === 0) return sentence
+
+  const entries = excluded.map(({ clause, match }) => ({ item, removed: clause, rule: match!.rule.source, reason: match!.reason }))
+  if (excluded.length < matches.length) {
+    kept.push(...entries)
+    return sentence
+  }
+  removed.push(...entries)
+  return ''
+}
+
+/**
+ * Removes excluded findings from one impression item; an empty string means the whole item goes
+ */
+function pruneItem(item: string, rules: ExclusionRule[], removed: ImpressionRemoval[], kept: ImpressionRemoval[]): string {
+  const before = removed.length
+  // Sentence breaks need whitespace after the stop, so "3.5 cm" stays whole
+  const pruned = item.trim().split(/(?<=[.!?])\s+/)
+    .map(sentence => pruneSentence(sentence, rules, item.trim(), removed, kept))
+    .filter(sentence => sentence.trim())
+    .join(' ')
+  return removed.length === before ? item : pruned
+}
+
+/**
+ * Applies exclusion rules to impression text, one item (line) at a time.
+ * Items left empty are dropped; postProcessImpression renumbers what remains.
+ */
+export function applyExclusions(text: string, rules: ExclusionRule[]): ExclusionResult {
+  const removed: ImpressionRemoval[] = []
+  const kept: ImpressionRemoval[] = []
+  if (rules.length === 0) return { text, removed, kept }
+
+  const lines = text.split('\n').flatMap(line => {
+    const [, prefix = ''] = line.match(LIST_PREFIX) || []
+    const content = line.slice(prefix.length)
+    // Headers and blank lines pass through
+    if (!content.trim() || /^[A-Z][A-Z\s]*:\s*$/.test(content.trim())) return [line]
+    const pruned = pruneItem(content, rules, removed, kept)
+    return pruned ? [prefix + pruned] : []
+  })
+
+  return { text: lines.join('\n'), removed, kept }
+}
@@ -0,0 +1,157 @@
+import callModel, { ModelCallResponse, StreamCallbacks, isAbortError, createAbortError } from './callModel'
+import { getProvider } from '../src/providers/registry'
+import { resolveMistralLocal } from '../src/providers/MistralLocalResolver'
+import { GenerationOptions } from './generationSettings'
+
+export interface FailoverAttempt {
+  provider: string
+  outcome: 'success' | 'failed' | 'skipped'
+  // Number of calls made to this provider (0 when skipped by the health check)
+  calls: number
+  error?: string
+}
+
+export interface FailoverResponse extends ModelCallResponse {
+  provider: string
+  attempts: FailoverAttempt[]
+}
+
+export interface FailoverOptions {
+  // Retries per provider for rate limits, 5xx responses and network failures
+  maxRetries?: number
+  // Backoff before retry n is baseDelayMs * 2^n
+  baseDelayMs?: number
+  // Called before each provider is tried so streamed output can be reset
+  onProviderAttempt?: (provider: string) => void
+  // Overridable for tests
+  checkHealth?: (provider: string) => Promise<boolean>
+  sleep?: (ms: number) => Promise<void>
+}
+
+const DEFAULT_MAX_RETRIES = 2
+const DEFAULT_BASE_DELAY_MS = 1000
+
+/**
+ * Whether an error is worth retrying on the same provider.
+ * Rate limits (429), server errors (5xx) and network failures (no status) are transient;
+ * other 4xx responses (bad key, bad request) will fail the same way again.
+ */
+export function isRetryableError(error: unknown): boolean {
+  const status = (error as { status?: number })?.status
+  if (typeof status !== 'number') return true
+  return status === 429 || status >= 500
+}
+
+/**
+ * Health check for a provider, routed through the main process when running in Electron
+ */
+export async function checkProviderHealth(provider: string): Promise<boolean> {
+  try {
+    if (typeof window !== 'undefined' && window.electronAPI?.checkProviderHealth) {
+      return await window.electronAPI.checkProviderHealth(provider)
+    }
+    if (provider === 'mistral-local') {
+      await resolveMistralLocal()
+      return true
+    }
+    return (await getProvider(provider)?.health()) ?? false
+  } catch {
+    return false
+  }
+}
+
+function abortableSleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(createAbortError())
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(createAbortError())
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * Calls each provider in the chain until one produces a completion.
+ * Unhealthy providers are skipped, transient errors are retried with exponential
+ * backoff, and the provider that actually answered is returned with the attempt log.
+ */
+export async function callModelWithFailover({
+  prompt,
+  chain,
+  generation,
+  onToken,
+  signal,
+  maxRetries = DEFAULT_MAX_RETRIES,
+  baseDelayMs = DEFAULT_BASE_DELAY_MS,
+  onProviderAttempt,
+  checkHealth = checkProviderHealth,
+  sleep
+}: {
+  prompt: string
+  chain: string[]
+  generation?: GenerationOptions
+} & StreamCallbacks & FailoverOptions): Promise<FailoverResponse> {
+  const providers = [...new Set(chain.filter(Boolean))]
+  if (providers.length === 0) {
+    throw new Error('No providers configured for generation')
+  }
+
+  const wait = sleep || ((ms: number) => abortableSleep(ms, signal))
+  const attempts: FailoverAttempt[] = []
+  let lastError: unknown
+
+  for (const provider of providers) {
+    // With a single provider there is nothing to fall back to, so let the call surface the real error
+    if (providers.length > 1 && !(await checkHealth(provider))) {
+      console.warn(`⏭️ Skipping ${provider}: health check failed`)
+      attempts.push({ provider, outcome: 'skipped', calls: 0 })
+      continue
+    }
+
+    const attempt: FailoverAttempt = { provider, outcome: 'failed', calls: 0 }
+    attempts.push(attempt)
+
+    for (let retry = 0; retry <= maxRetries; retry++) {
+      if (signal?.aborted) {
+        throw createAbortError()
+      }
+
+      onProviderAttempt?.(provider)
+      attempt.calls++
+
+      try {
+        const response = await callModel({ prompt, provider, generation, onToken, signal })
+        attempt.outcome = 'success'
+        delete attempt.error
+        return { ...response, provider, attempts }
+      } catch (error) {
+        if (isAbortError(error)) {
+          throw error
+        }
+        lastError = error
+        attempt.error = error instanceof Error ? error.message : String(error)
+
+        if (!isRetryableError(error) || retry === maxRetries) {
+          console.warn(`⚠️ ${provider} failed, moving to next provider:`, attempt.error)
+          break
+        }
+
+        const delay = baseDelayMs * 2 ** retry
+        console.warn(`🔁 ${provider} failed (attempt ${retry + 1}), retrying in ${delay}ms`)
+        await wait(delay)
+      }
+    }
+  }
+
+  const summary = attempts
+    .map(a => `${a.provider}: ${a.outcome === 'skipped' ? 'unavailable' : a.error}`)
+    .join('; ')
+  const error = new Error(`All providers failed (${summary})`)
+  ;(error as Error & { cause?: unknown }).cause = lastError
+  throw error
+}
@@ -3,8 +3,13 @@ import { AgentLogic } from './types'
 import buildImpressionPrompt from './buildImpressionPrompt'
 import buildEnhancedImpressionPrompt from './buildEnhancedImpressionPrompt'
 import validateRules from './validateRules'
-import callModel, { ModelCallResponse } from './callModel'
-import { postProcessImpression } from './postProcessImpression'
+import callModel, { ModelCallResponse, StreamCallbacks } from './callModel'
+import { callModelWithFailover } from './failover'
+import { toGenerationOptions } from './generationSettings'
+import { postProcessImpressionWithLog } from './postProcessImpression'
+import { migrateAgentLogic } from './logicMigrations'
+import { PatientContext } from './recommendations'
+import { ExamContext } from './examContext'
 
 // Helper function to get template data via IPC
 async function getTemplateViaIPC(userId: string, studyType: string) {
@@ -22,13 +27,26 @@ export default async function generateImpression({
   userId,
   studyType,
   findings,
-  model
+  model,
+  fallbackChain = [],
+  onProviderAttempt,
+  patient,
+  exam,
+  onToken,
+  signal
 }: {
   userId: string
   studyType: string  // studyType is required
   findings: string
   model?: string
-}): Promise<ModelCallResponse> {
+  // Providers to try, in order, when the selected model fails
+  fallbackChain?: string[]
+  onProviderAttempt?: (provider: string) => void
+  // Patient details for guideline follow-up recommendations
+  patient?: PatientContext
+  // Indication, history and comparison study entered for the case
+  exam?: ExamContext
+} & StreamCallbacks): Promise<ModelCallResponse> {
   try {
     // Query templates table via IPC to avoid TLS inspection issues
     const data = await getTemplateViaIPC(userId, studyType)
@@ -52,31 +70,40 @@ export default async function generateImpression({
       }
     }
     
+    // Upgrade older logic versions, including the fallback converted above
+    finalAgentLogic = migrateAgentLogic(finalAgentLogic).logic
+    
     // Build the prompt using enhanced logic for better formatting and compliance
     const useEnhancedPrompt = true // Toggle this to compare old vs new prompts
     const prompt = useEnhancedPrompt 
-      ? buildEnhancedImpressionPrompt(findings, template || '', finalAgentLogic || {})
-      : buildImpressionPrompt(findings, template || '', finalAgentLogic || {})
+      ? buildEnhancedImpressionPrompt(findings, template || '', finalAgentLogic || {}, { patient, exam })
+      : buildImpressionPrompt(findings, template || '', finalAgentLogic || {}, { patient, exam })
     
     console.log('🎯 Using enhanced impression prompt for better formatting and rule compliance')
     
-    // Call the model with the composed prompt
-    const modelOutput = await callModel({ prompt, model })
+    // Per-study sampling and persona settings inherited through the logic layers
+    const generation = toGenerationOptions(finalAgentLogic)
+    
+    // Call the model with the composed prompt (streams progressively when onToken is provided)
+    // With an explicit model, transient failures retry and then fall back along the chain
+    const modelOutput = model
+      ? await callModelWithFailover({ prompt, chain: [model, ...fallbackChain], generation, onToken, signal, onProviderAttempt })
+      : await callModel({ prompt, model, generation, onToken, signal })
     
     // POST-PROCESS: Apply strict exclusion rules to the generated text
     console.log('🔧 Post-processing impression to enforce exclusion rules...')
-    const processedText = postProcessImpression(modelOutput.text, finalAgentLogic || {})
+    const { text: processedText, removed } = postProcessImpressionWithLog(modelOutput.text, finalAgentLogic || {})
     
     // Check if post-processing removed anything
-    if (processedText !== modelOutput.text) {
-      console.log('✂️ Post-processing removed excluded items from impression')
+    if (removed.length > 0) {
+      console.log(`✂️ Post-processing removed ${removed.length} excluded item(s) from impression`)
     }
     
     // Update the model output with processed text
     modelOutput.text = processedText
     
     // Validate rule compliance for impressions
-    const ruleValidation = validateRules(processedText, findings, finalAgentLogic || {})
+    const ruleValidation = validateRules(processedText, findings, finalAgentLogic || {}, { studyType, patient, exam, impressionOnly: true })
     
     if (!ruleValidation.passed) {
       console.error('🚨 Impression rule validation failed:', ruleValidation.violations)
@@ -96,7 +123,8 @@ export default async function generateImpression({
     return {
       ...modelOutput,
       ruleViolations: ruleValidation.violations,
-      ruleWarnings: ruleValidation.warnings
+      ruleWarnings: ruleValidation.warnings,
+      ...(removed.length > 0 ? { impressionRemovals: removed } : {})
     }
   } catch (error) {
     console.error('Error generating impression:', error)
@@ -2,9 +2,14 @@
 import { AgentLogic } from './types'
 import buildPrompt from './buildPrompt'
 import buildEnhancedPrompt from './buildEnhancedPrompt'
-import validateRules from './validateRules'
-import callModel, { ModelCallResponse } from './callModel'
-import { validateSectionHeaders, ensureSectionHeaders } from './validateSectionHeaders'
+import callModel, { ModelCallResponse, StreamCallbacks } from './callModel'
+import { callModelWithFailover } from './failover'
+import { toGenerationOptions } from './generationSettings'
+import { migrateAgentLogic } from './logicMigrations'
+import { isStructuredOutputEnabled } from './structuredReport'
+import { evaluateReport, getMaxRepairAttempts, runSelfCorrection } from './selfCorrection'
+import { PatientContext } from './recommendations'
+import { ExamContext } from './examContext'
 
 // Helper function to get template data via IPC
 async function getTemplateViaIPC(userId: string, studyType: string) {
@@ -22,13 +27,26 @@ export default async function generateReport({
   userId,
   studyType,
   findings,
-  model
+  model,
+  fallbackChain = [],
+  onProviderAttempt,
+  patient,
+  exam,
+  onToken,
+  signal
 }: {
   userId: string
   studyType: string
   findings: string
   model?: string
-}): Promise<ModelCallResponse> {
+  // Providers to try, in order, when the selected model fails
+  fallbackChain?: string[]
+  onProviderAttempt?: (provider: string) => void
+  // Patient details for guideline follow-up recommendations
+  patient?: PatientContext
+  // Indication, history and comparison study entered for the case
+  exam?: ExamContext
+} & StreamCallbacks): Promise<ModelCallResponse> {
   console.log('🤖 Agent generateReport called:', { 
     userId, 
     studyType, 
@@ -61,57 +79,92 @@ export default async function generateReport({
       throw new Error(`Template is empty for study type "${studyType}"`)
     }
     
+    // Upgrade older logic versions, including the fallback converted above
+    finalAgentLogic = migrateAgentLogic(finalAgentLogic).logic
+    
     // Build the prompt using enhanced logic for better rule compliance
     const useEnhancedPrompt = true // Toggle this to compare old vs new prompts
     const prompt = useEnhancedPrompt 
-      ? buildEnhancedPrompt(findings, template, finalAgentLogic || {})
-      : buildPrompt(findings, template, finalAgentLogic || {})
+      ? buildEnhancedPrompt(findings, template, finalAgentLogic || {}, { patient, exam })
+      : buildPrompt(findings, template, finalAgentLogic || {}, { patient, exam })
     
     console.log('🎯 Using enhanced prompt for better rule compliance')
     
-    // Call the model with the composed prompt
-    const modelOutput = await callModel({ prompt, model })
+    // Per-study sampling and persona settings inherited through the logic layers
+    const generation = toGenerationOptions(finalAgentLogic)
+    
+    // Structured output is JSON until it is rendered, so it is not streamed into the editor
+    const structuredOutput = isStructuredOutputEnabled(finalAgentLogic)
+    const streamToken = structuredOutput ? undefined : onToken
+    
+    // Call the model with the composed prompt (streams progressively when onToken is provided)
+    // With an explicit model, transient failures retry and then fall back along the chain
+    const modelOutput = model
+      ? await callModelWithFailover({ prompt, chain: [model, ...fallbackChain], generation, onToken: streamToken, signal, onProviderAttempt })
+      : await callModel({ prompt, model, generation, onToken: streamToken, signal })
     
-    // Validate section headers in the generated report
-    const headerValidation = validateSectionHeaders(template, modelOutput.text)
-    let finalReport = modelOutput.text
+    // Validation and header repair run on the complete text once streaming has finished
+    const evaluate = (output: string) => evaluateReport(output, template, findings, finalAgentLogic || {}, { studyType, patient, exam })
+    let evaluation = evaluate(modelOutput.text)
+    let tokens = modelOutput.tokens
+    let selfCorrection: ModelCallResponse['selfCorrection']
     
-    if (!headerValidation.valid) {
-      console.warn('⚠️ Section header validation failed:', headerValidation)
-      finalReport = ensureSectionHeaders(template, modelOutput.text)
+    if (!evaluation.headers.valid) {
+      console.warn('⚠️ Section header validation failed:', evaluation.headers)
     }
     
-    // Validate rule compliance
-    const ruleValidation = validateRules(finalReport, findings, finalAgentLogic || {})
+    // Optional repair pass: re-prompt with the specific violations (not streamed; the draft stays visible)
+    const maxRepairAttempts = getMaxRepairAttempts(finalAgentLogic)
+    if (maxRepairAttempts > 0) {
+      const repairProvider = modelOutput.provider || model
+      const repair = await runSelfCorrection({
+        prompt,
+        output: modelOutput.text,
+        evaluation,
+        maxAttempts: maxRepairAttempts,
+        evaluate,
+        regenerate: (repairPrompt) => repairProvider
+          ? callModelWithFailover({ prompt: repairPrompt, chain: [repairProvider, ...fallbackChain.filter(provider => provider !== repairProvider)], generation, signal })
+          : callModel({ prompt: repairPrompt, model, generation, signal })
+      })
+      
+      if (repair.attempts > 0) {
+        evaluation = repair.evaluation
+        selfCorrection = { attempts: repair.attempts, fixed: repair.fixed, remaining: repair.remaining, error: repair.error }
+        tokens = tokens && {
+          input: tokens.input + repair.tokens.input,
+          output: tokens.output + repair.tokens.output,
+          total: tokens.total + repair.tokens.total
+        }
+        console.log(`🔧 Self-correction fixed ${repair.fixed.length} violations, ${repair.remaining.length} remain`)
+      }
+    }
     
-    if (!ruleValidation.passed) {
-      console.error('🚨 Rule validation failed:', ruleValidation.violations)
+    if (evaluation.violations.length > 0) {
+      console.error('🚨 Rule validation failed:', evaluation.violations)
       
       // Log violations for debugging
-      ruleValidation.violations.forEach(violation => {
+      evaluation.violations.forEach(violation => {
         console.error('❌ RULE VIOLATION:', violation)
       })
-      
-      // Add violations as metadata (could be shown to user)
-      return {
-        ...modelOutput,
-        text: finalReport,
-        ruleViolations: ruleValidation.violations,
-        ruleWarnings: ruleValidation.warnings
-      }
     } else {
       console.log('✅ All rules validated successfully')
     }
     
-    if (ruleValidation.warnings.length > 0) {
-      console.warn('⚠️ Rule warnings:', ruleValidation.warnings)
+    if (evaluation.warnings.length > 0) {
+      console.warn('⚠️ Rule warnings:', evaluation.warnings)
     }
     
+    // Violations are returned as metadata (could be shown to user)
     return {
       ...modelOutput,
-      text: finalReport,
-      ruleViolations: ruleValidation.violations,
-      ruleWarnings: ruleValidation.warnings
+      text: evaluation.text,
+      tokens,
+      impressionItems: evaluation.impressionItems,
+      ruleViolations: evaluation.violations,
+      ruleWarnings: evaluation.warnings,
+      provenance: evaluation.provenance,
+      selfCorrection
     }
   } catch (error) {
     console.error('Error generating report:', error)
@@ -0,0 +1,50 @@
+import { AgentLogic } from './types'
+
+export const DEFAULT_SYSTEM_PERSONA = 'You are a helpful radiology assistant.'
+
+// Provider-neutral generation options sent with each model call
+export interface GenerationOptions {
+  system?: string
+  temperature?: number
+  topP?: number
+  maxTokens?: number
+  stop?: string[]
+}
+
+function inRange(value: unknown, min: number, max: number): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= min && value <= max
+}
+
+/**
+ * Converts the agent_logic.generation block into provider options.
+ * Out-of-range or mistyped values are dropped so a bad edit falls back to the provider default.
+ */
+export function toGenerationOptions(logic?: AgentLogic | null): GenerationOptions {
+  const generation = logic?.generation
+  if (!generation || typeof generation !== 'object') return {}
+
+  const options: GenerationOptions = {}
+
+  if (typeof generation.system_persona === 'string' && generation.system_persona.trim()) {
+    options.system = generation.system_persona.trim()
+  }
+  if (inRange(generation.temperature, 0, 2)) {
+    options.temperature = generation.temperature
+  }
+  if (inRange(generation.top_p, 0, 1)) {
+    options.topP = generation.top_p
+  }
+  if (Number.isInteger(generation.max_tokens) && (generation.max_tokens as number) > 0) {
+    options.maxTokens = generation.max_tokens
+  }
+  if (Array.isArray(generation.stop_sequences)) {
+    const stop = generation.stop_sequences.filter(
+      (sequence): sequence is string => typeof sequence === 'string' && sequence.length > 0
+    )
+    if (stop.length > 0) {
+      options.stop = stop
+    }
+  }
+
+  return options
+}
@@ -0,0 +1,143 @@
+import { extractFindings, getAnatomyEntry } from './conceptExtraction'
+import { extractSections } from './validateSectionHeaders'
+
+/**
+ * Findings-vs-impression consistency.
+ * The report is split into its sections, findings and impression are reduced to concepts
+ * (a structure or finding that is present or absent; see agent/conceptExtraction.ts), and impression
+ * items that contradict the findings or have no finding behind them are reported.
+ */
+
+export type ConceptStatus = 'present' | 'absent'
+
+export interface ReportConcept {
+  // Canonical structure or finding, e.g. "anterior cruciate ligament", "effusion"
+  key: string
+  status: ConceptStatus
+  // Sentence the concept came from
+  text: string
+}
+
+export interface ConsistencyIssue {
+  kind: 'contradiction' | 'orphan'
+  message: string
+  impression: string
+  findings?: string
+}
+
+export interface ConsistencyResult {
+  findingsConcepts: ReportConcept[]
+  impressionConcepts: ReportConcept[]
+  issues: ConsistencyIssue[]
+}
+
+export interface ConsistencyOptions {
+  // Dictated findings; the only basis for impression-only output, which has no findings section of its own
+  sourceFindings?: string
+  // Exact impression items from structured output
+  impressionItems?: string[]
+}
+
+export const CONTRADICTION_PREFIX = 'IMPRESSION CONFLICT:'
+export const ORPHAN_PREFIX = 'UNSUPPORTED IMPRESSION:'
+
+const NON_FINDINGS_SECTIONS = /^(?:IMPRESSION|CONCLUSION|CLINICAL|HISTORY|INDICATION|TECHNIQUE|COMPARISON|EXAM|PROCEDURE)/
+const IMPRESSION_SECTIONS = /^(?:IMPRESSION|CONCLUSION)/
+
+/**
+ * Structures and findings a text describes, each marked present or absent
+ */
+export function extractConcepts(text: string): ReportConcept[] {
+  const concepts: ReportConcept[] = []
+  for (const finding of extractFindings(text)) {
+    const key = finding.anatomy || finding.pathology!
+    if (!concepts.some(existing => existing.key === key && existing.status === finding.status && existing.text === finding.text)) {
+      concepts.push({ key, status: finding.status, text: finding.text })
+    }
+  }
+  return concepts
+}
+
+function related(a: string, b: string): boolean {
+  if (a === b) return true
+  const parentOf = (key: string) => getAnatomyEntry(key)?.parent
+  return parentOf(a) === b || parentOf(b) === a
+}
+
+function describe(concept: ReportConcept): string {
+  const isStructure = getAnatomyEntry(concept.key) !== undefined
+  if (isStructure) return `the ${concept.key} as ${concept.status === 'present' ? 'abnormal' : 'intact'}`
+  return `${concept.key} as ${concept.status}`
+}
+
+function splitImpressionItems(impression: string): string[] {
+  return impression
+    .split('\n')
+    .map(line => line.replace(/^\s*(?:\d+[.)]|[•\-*])\s*/, '').trim())
+    .filter(Boolean)
+}
+
+/**
+ * Checks each impression item against the findings: contradictions in status, and
+ * abnormal items the findings never mention
+ */
+export function checkImpressionConsistency(report: string, options: ConsistencyOptions = {}): ConsistencyResult {
+  const sections = extractSections(report)
+  const impressionSection = sections.find(section => IMPRESSION_SECTIONS.test(section.header))
+  // Template placeholders left in a repaired section say nothing about the patient
+  const reportFindings = sections
+    .filter(section => !NON_FINDINGS_SECTIONS.test(section.header))
+    .map(section => section.content.replace(/\[[^\]]*\]/g, ''))
+    .join('\n')
+    .trim()
+
+  // Output without any sections is an impression on its own
+  const items = options.impressionItems
+    || splitImpressionItems(impressionSection ? impressionSection.content : sections.length === 0 ? report : '')
+
+  // Nothing to compare against
+  if (!reportFindings && !options.sourceFindings?.trim()) {
+    return { findingsConcepts: [], impressionConcepts: [], issues: [] }
+  }
+
+  // The dictated findings also count as a basis when the model left something out of its findings section
+  const findingsConcepts = [...extractConcepts(reportFindings), ...extractConcepts(options.sourceFindings || '')]
+  const impressionConcepts: ReportConcept[] = []
+  const issues: ConsistencyIssue[] = []
+
+  for (const item of items) {
+    const concepts = extractConcepts(item)
+    impressionConcepts.push(...concepts)
+
+    let contradicted = false
+    for (const concept of concepts) {
+      const matching = findingsConcepts.filter(finding => related(finding.key, concept.key))
+      if (matching.length === 0 || matching.some(finding => finding.status === concept.status)) continue
+      contradicted = true
+      issues.push({
+        kind: 'contradiction',
+        message: `Impression describes ${describe(concept)} ("${item}") but the findings describe ${describe(matching[0])} ("${matching[0].text}").`,
+        impression: item,
+        findings: matching[0].text
+      })
+    }
+
+    const present = concepts.filter(concept => concept.status === 'present')
+    if (!contradicted && present.length > 0 && !present.some(concept => findingsConcepts.some(finding => related(finding.key, concept.key)))) {
+      issues.push({
+        kind: 'orphan',
+        message: `"${item}" has no supporting finding in the findings.`,
+        impression: item
+      })
+    }
+  }
+
+  return { findingsConcepts, impressionConcepts, issues }
+}
+
+/**
+ * Whether a validateRules violation came from this check
+ */
+export function isConsistencyViolation(violation: string): boolean {
+  return violation.startsWith(CONTRADICTION_PREFIX) || violation.startsWith(ORPHAN_PREFIX)
+}
@@ -0,0 +1,187 @@
+/**
+ * Laterality consistency checks.
+ * Only exams of one side of the body (extremities, joints, breast) are checked: the side comes from
+ * the exam context, study type, template and findings, then inputs that disagree and report
+ * sentences that name the other side are flagged. Body exams name both sides of paired organs as a
+ * matter of course, so they are left alone.
+ */
+
+export type Side = 'left' | 'right' | 'bilateral'
+
+export type LateralitySourceName = 'context' | 'studyType' | 'template' | 'findings'
+
+export interface LateralityMention {
+  side: Side
+  // Matched word as written, e.g. "Left"
+  term: string
+  index: number
+  // Sentence or line containing the mention
+  excerpt: string
+}
+
+export interface LateralityConflict {
+  kind: 'input' | 'report'
+  message: string
+  excerpt?: string
+}
+
+export interface LateralityInput {
+  report: string
+  findings?: string
+  template?: string
+  studyType?: string
+  // Side recorded for the exam itself (e.g. from the worklist); wins over everything else
+  examSide?: Side
+}
+
+export interface LateralityResult {
+  // Whether the exam covers one side of the body; nothing is checked otherwise
+  lateralExam: boolean
+  // Side the report is expected to describe, when any input implies one
+  examSide?: Side
+  // Side implied by each input that has one
+  sources: Partial<Record<LateralitySourceName, Side>>
+  reportMentions: LateralityMention[]
+  conflicts: LateralityConflict[]
+}
+
+// Sources in the order they are trusted when they disagree
+const SOURCE_PRIORITY: LateralitySourceName[] = ['context', 'studyType', 'template', 'findings']
+
+const SOURCE_LABELS: Record<LateralitySourceName, string> = {
+  context: 'Exam context',
+  studyType: 'Study type',
+  template: 'Template',
+  findings: 'Findings'
+}
+
+// Body parts imaged one side at a time
+const LATERAL_EXAM = /\b(?:knees?|shoulders?|hips?|ankles?|wrists?|elbows?|foot|feet|hands?|fingers?|thumbs?|toes?|forearms?|humerus|femur|tibia|fibula|legs?|arms?|thighs?|calf|calves|clavicles?|scapulae?|extremit(?:y|ies)|breasts?|mammo\w*)\b/i
+
+// Paired or midline anatomy; a finding about it says nothing about the exam side
+const PAIRED_OR_MIDLINE_ANATOMY = /\b(?:lungs?|lobes?|hemithorax|pleura\w*|hil(?:um|a|ar)|kidneys?|renal|adrenals?|ureters?|ovar\w*|adnex\w*|hemidiaphragms?|thyroid|liver|hepatic|spleen|colon|iliac|inguinal|paraspinal|foramina\w*|facets?|hemispheres?|frontal|parietal|temporal|occipital|cerebell\w*|ventricles?|sinus(?:es)?|carotids?|vertebral)\b/i
+
+const SIDE_PATTERN = /\b(left|right|bilateral|bilaterally|both)\b/gi
+
+function toSide(word: string): Side {
+  const lower = word.toLowerCase()
+  if (lower === 'left' || lower === 'right') return lower
+  return 'bilateral'
+}
+
+function excerptAt(text: string, index: number): string {
+  const before = text.slice(0, index)
+  const start = Math.max(before.lastIndexOf('\n'), before.search(/[.!?]\s[^.!?]*$/) + 1, 0)
+  const rest = text.slice(index)
+  const endMatch = rest.search(/[.!?](\s|$)|\n/)
+  const end = endMatch === -1 ? text.length : index + endMatch + 1
+  return text.slice(start, end).trim()
+}
+
+/**
+ * Every left/right/bilateral word in the text; "both" only counts before a side-bearing noun
+ */
+export function findLateralityMentions(text: string): LateralityMention[] {
+  const mentions: LateralityMention[] = []
+  for (const match of text.matchAll(SIDE_PATTERN)) {
+    const term = match[0]
+    if (term.toLowerCase() === 'both' && !/^\s+(sides|knees|shoulders|hips|ankles|wrists|elbows|feet|hands|legs|arms|lungs|kidneys|breasts)\b/i.test(text.slice(match.index! + term.length))) {
+      continue
+    }
+    mentions.push({ side: toSide(term), term, index: match.index!, excerpt: excerptAt(text, match.index!) })
+  }
+  return mentions
+}
+
+/**
+ * Single side a text implies: bilateral when it says so or names both sides, undefined when it names none
+ */
+export function impliedSide(text: string | undefined): Side | undefined {
+  if (!text) return undefined
+  const sides = new Set(findLateralityMentions(text).map(mention => mention.side))
+  if (sides.has('bilateral') || (sides.has('left') && sides.has('right'))) return 'bilateral'
+  if (sides.has('left')) return 'left'
+  if (sides.has('right')) return 'right'
+  return undefined
+}
+
+function opposite(side: Side): Side | undefined {
+  if (side === 'left') return 'right'
+  if (side === 'right') return 'left'
+  return undefined
+}
+
+function templateTitle(template: string | undefined): string {
+  return template?.split('\n').find(line => line.trim())?.trim() || ''
+}
+
+/**
+ * Whether the exam covers one side of the body, judged from the exam context, study type or template title
+ */
+export function isLateralExam(input: Pick<LateralityInput, 'studyType' | 'template' | 'examSide'>): boolean {
+  return Boolean(input.examSide) || LATERAL_EXAM.test(input.studyType || '') || LATERAL_EXAM.test(templateTitle(input.template))
+}
+
+/**
+ * Checks the inputs against each other and the report against the exam side
+ */
+export function checkLaterality(input: LateralityInput): LateralityResult {
+  const reportMentions = findLateralityMentions(input.report)
+  if (!isLateralExam(input)) {
+    return { lateralExam: false, sources: {}, reportMentions, conflicts: [] }
+  }
+
+  const sources: Partial<Record<LateralitySourceName, Side>> = {}
+  const implied: Record<LateralitySourceName, Side | undefined> = {
+    context: input.examSide,
+    studyType: impliedSide(input.studyType),
+    // Only the template's title and headers describe the exam; placeholder text may name either side
+    template: impliedSide(input.template?.split('\n').filter(line => !/\[.*\]/.test(line)).join('\n')),
+    findings: impliedSide(input.findings?.split(/(?<=[.!?])\s+|\n/).filter(sentence => !PAIRED_OR_MIDLINE_ANATOMY.test(sentence)).join('\n'))
+  }
+  for (const name of SOURCE_PRIORITY) {
+    if (implied[name]) sources[name] = implied[name]
+  }
+
+  const conflicts: LateralityConflict[] = []
+  const primary = SOURCE_PRIORITY.find(name => sources[name] && sources[name] !== 'bilateral')
+  const examSide = primary ? sources[primary] : SOURCE_PRIORITY.map(name => sources[name]).find(Boolean)
+
+  // Inputs naming the other single side than the most trusted one
+  if (primary) {
+    for (const name of SOURCE_PRIORITY) {
+      const side = sources[name]
+      if (name === primary || !side || side === 'bilateral' || side === sources[primary]) continue
+      conflicts.push({
+        kind: 'input',
+        message: `${SOURCE_LABELS[primary]} indicates ${sources[primary]!.toUpperCase()} but ${SOURCE_LABELS[name].toLowerCase()} indicates ${side.toUpperCase()}.`
+      })
+    }
+  }
+
+  const wrongSide = examSide ? opposite(examSide) : undefined
+
+  if (wrongSide) {
+    const seen = new Set<string>()
+    for (const mention of reportMentions) {
+      if (mention.side !== wrongSide && mention.side !== 'bilateral') continue
+      if (seen.has(mention.excerpt)) continue
+      seen.add(mention.excerpt)
+      conflicts.push({
+        kind: 'report',
+        message: `${examSide!.toUpperCase()} exam but the report says "${mention.term}": "${mention.excerpt}"`,
+        excerpt: mention.excerpt
+      })
+    }
+  } else if (!examSide) {
+    const reportSides = new Set(reportMentions.map(mention => mention.side))
+    if (reportSides.has('left') && reportSides.has('right')) {
+      conflicts.push({
+        kind: 'report',
+        message: 'The report refers to both LEFT and RIGHT but the exam side is unknown.'
+      })
+    }
+  }
+
+  return { lateralExam: true, examSide, sources, reportMentions, conflicts }
+}
@@ -0,0 +1,273 @@
+import { AgentLogic } from './types'
+import { LogicSchemaNode, getLogicSchemaNode, validateAgentLogic } from './logicSchema'
+import { RULE_REGISTRY, getLogicValue, isRuleValueSet } from './ruleRegistry'
+import { ValidationRule } from './customValidations'
+import { LogicLayers, getLogicSource, mergeLogicLayers } from '../src/utils/logicInheritance'
+import { getDefaultAgentLogic } from '../src/utils/logicMerge'
+
+/**
+ * Agent logic linter.
+ * Runs on the merged logic (default -> base -> study) and reports settings that contradict each
+ * other, keys the schema or the generators don't know, values no prompt acts on and list entries
+ * that look wrong. Each issue names the layer its setting came from so the editor can point at it.
+ */
+
+export type LogicLayerName = NonNullable<ReturnType<typeof getLogicSource>>
+
+export type LogicLintKind = 'conflict' | 'unknown-key' | 'invalid-value' | 'unused-key' | 'suspicious-entry'
+
+export type LogicLintSeverity = 'error' | 'warning' | 'info'
+
+export interface LogicLintIssue {
+  kind: LogicLintKind
+  severity: LogicLintSeverity
+  // Dotted path, with [n] for list entries
+  path: string
+  message: string
+  layer: LogicLayerName | null
+  // The other setting in a conflict
+  conflictsWith?: { path: string; layer: LogicLayerName | null }
+}
+
+export interface LogicLintResult {
+  mergedLogic: AgentLogic
+  issues: LogicLintIssue[]
+}
+
+// Keys read outside the rule registry
+const OTHER_CONSUMERS = [
+  'version',
+  'instructions',
+  'migration_history',
+  'examples',
+  'impression_examples',
+  'formatting.structured_output',
+  'formatting.strict_section_headers',
+  'self_correction',
+  'generation'
+]
+
+const FLAG_CONFLICTS: Array<{ paths: [string, string]; message: string }> = [
+  {
+    paths: ['impression.numerically_itemized', 'formatting.use_bullet_points'],
+    message: 'The impression is asked to be both a numbered list and bullet points.'
+  },
+  {
+    paths: ['measurements.include_all_measurements', 'measurements.include_key_measurements_only'],
+    message: 'Every measurement and only the key measurements are both requested.'
+  },
+  {
+    paths: ['report.use_medical_abbreviations', 'report.expand_acronyms_to_full_terms'],
+    message: 'Abbreviations are encouraged while acronyms must be spelled out.'
+  }
+]
+
+// Lists whose entries are matched or prompted one at a time
+const PHRASE_LISTS = ['impression.exclude_by_default', 'impression.exclude_unless_surgical']
+const INSTRUCTION_LISTS = ['custom_instructions', 'custom_impression_instructions']
+
+const REQUIRES = /\b(?:always|must|include|mention|report|list|state)\b/i
+const FORBIDS = /\b(?:not|never|no|exclude|omit|avoid|without|don't)\b/i
+const INSTRUCTION_LIKE = /[.!?:]|\b(?:do not|don't|never|always|unless|should)\b/i
+const MAX_PHRASE_WORDS = 6
+
+const SEVERITY_ORDER: Record<LogicLintSeverity, number> = { error: 0, warning: 1, info: 2 }
+
+function normalizePhrase(text: string): string {
+  return text.toLowerCase().replace(/_/g, ' ').replace(/\s+/g, ' ').trim()
+}
+
+function asList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.filter((item): item is string => typeof item === 'string')
+  return typeof value === 'string' && value ? [value] : []
+}
+
+function compile(pattern: string | undefined): RegExp | null {
+  if (!pattern) return null
+  try {
+    return new RegExp(pattern, 'i')
+  } catch {
+    return null
+  }
+}
+
+function isConsumed(path: string): boolean {
+  const readers = [...RULE_REGISTRY.map(rule => rule.id), ...OTHER_CONSUMERS]
+  return readers.some(reader => path === reader || path.startsWith(`${reader}.`))
+}
+
+/**
+ * Lints the logic a study will actually run with, merged from its layers
+ */
+export function lintAgentLogic(layers: LogicLayers): LogicLintResult {
+  // Merging falls back to the system default; sources need to see it too
+  const fullLayers: LogicLayers = { ...layers, defaultLogic: layers.defaultLogic || getDefaultAgentLogic() }
+  const { mergedLogic } = mergeLogicLayers(fullLayers)
+  const issues: LogicLintIssue[] = []
+
+  const sourceOf = (path: string): LogicLayerName | null =>
+    getLogicSource(path.replace(/\[\d+\]/g, '').split('.'), fullLayers)
+
+  // Layer that contributed a list entry; merged lists concatenate every layer's entries
+  const entrySourceOf = (path: string, entry: unknown): LogicLayerName | null => {
+    const candidates: Array<[LogicLayerName, any]> = [
+      ['study', fullLayers.studySpecificLogic],
+      ['base', fullLayers.baseLogic],
+      ['default', fullLayers.defaultLogic]
+    ]
+    const serialized = JSON.stringify(entry)
+    for (const [layer, logic] of candidates) {
+      const list = getLogicValue(logic, path.split('.'))
+      if (Array.isArray(list) && list.some(item => JSON.stringify(item) === serialized)) return layer
+    }
+    return null
+  }
+
+  // Unknown keys and wrong types
+  for (const error of validateAgentLogic(mergedLogic).errors) {
+    const [path, ...rest] = error.split(': ')
+    const detail = rest.join(': ')
+    const unknown = detail === 'unknown key'
+    issues.push({
+      kind: unknown ? 'unknown-key' : 'invalid-value',
+      severity: 'error',
+      path,
+      message: unknown ? `${path} is not a recognized logic key.` : `${path} ${detail.replace(/^expected/, 'should be')}.`,
+      layer: sourceOf(path)
+    })
+  }
+
+  // Flags that pull in opposite directions
+  for (const { paths: [first, second], message } of FLAG_CONFLICTS) {
+    if (getLogicValue(mergedLogic, first.split('.')) === true && getLogicValue(mergedLogic, second.split('.')) === true) {
+      issues.push({
+        kind: 'conflict',
+        severity: 'warning',
+        path: first,
+        message: `${first} conflicts with ${second}: ${message}`,
+        layer: sourceOf(first),
+        conflictsWith: { path: second, layer: sourceOf(second) }
+      })
+    }
+  }
+
+  const exclusions = asList(mergedLogic.impression?.exclude_by_default)
+  const surgical = asList(mergedLogic.impression?.exclude_unless_surgical).map(normalizePhrase)
+
+  // Exclusions that another setting asks for
+  for (const exclusion of exclusions) {
+    const phrase = normalizePhrase(exclusion)
+    if (!phrase) continue
+    const exclusionPath = 'impression.exclude_by_default'
+    const exclusionLayer = entrySourceOf(exclusionPath, exclusion)
+
+    if (surgical.includes(phrase)) {
+      issues.push({
+        kind: 'conflict',
+        severity: 'warning',
+        path: exclusionPath,
+        message: `"${exclusion}" is excluded by default and also allowed when surgically relevant.`,
+        layer: exclusionLayer,
+        conflictsWith: { path: 'impression.exclude_unless_surgical', layer: sourceOf('impression.exclude_unless_surgical') }
+      })
+    }
+
+    for (const listPath of INSTRUCTION_LISTS) {
+      for (const instruction of asList(getLogicValue(mergedLogic, [listPath]))) {
+        const text = normalizePhrase(instruction)
+        if (!text.includes(phrase) || !REQUIRES.test(text) || FORBIDS.test(text)) continue
+        issues.push({
+          kind: 'conflict',
+          severity: 'warning',
+          path: exclusionPath,
+          message: `"${exclusion}" is excluded from the impression, but ${listPath} requires it: "${instruction}"`,
+          layer: exclusionLayer,
+          conflictsWith: { path: listPath, layer: entrySourceOf(listPath, instruction) }
+        })
+      }
+    }
+
+    const validations: ValidationRule[] = Array.isArray(mergedLogic.validations) ? mergedLogic.validations : []
+    validations.forEach((rule, index) => {
+      const inImpression = rule?.section?.replace(/:$/, '').trim().toUpperCase() === 'IMPRESSION'
+      if (rule?.kind !== 'require_mention' || rule.enabled === false || !inImpression) return
+      if (!compile(rule.pattern)?.test(phrase)) return
+      issues.push({
+        kind: 'conflict',
+        severity: 'warning',
+        path: exclusionPath,
+        message: `"${exclusion}" is excluded from the impression, but validation ${rule.id || `#${index + 1}`} requires the impression to mention /${rule.pattern}/.`,
+        layer: exclusionLayer,
+        conflictsWith: { path: `validations[${index}]`, layer: entrySourceOf('validations', rule) }
+      })
+    })
+  }
+
+  // Text values no prompt renderer acts on
+  for (const rule of RULE_REGISTRY) {
+    const value = getLogicValue(mergedLogic, rule.path)
+    if (!rule.values || typeof value !== 'string' || !value || rule.values.includes(value)) continue
+    issues.push({
+      kind: 'invalid-value',
+      severity: 'warning',
+      path: rule.id,
+      message: `${rule.id} is "${value}", which no prompt acts on. Use ${rule.values.map(option => `"${option}"`).join(', ')}.`,
+      layer: sourceOf(rule.id)
+    })
+  }
+
+  // List entries that are empty, repeated or misplaced
+  for (const listPath of [...PHRASE_LISTS, ...INSTRUCTION_LISTS]) {
+    const entries = getLogicValue(mergedLogic, listPath.split('.'))
+    if (!Array.isArray(entries)) continue
+    const seen = new Map<string, string>()
+
+    entries.forEach((entry, index) => {
+      const path = `${listPath}[${index}]`
+      const flag = (message: string) => issues.push({ kind: 'suspicious-entry', severity: 'warning', path, message, layer: entrySourceOf(listPath, entry) })
+
+      if (typeof entry !== 'string') return
+      const normalized = normalizePhrase(entry)
+      if (!normalized) {
+        flag(`${path} is empty.`)
+        return
+      }
+      const earlier = seen.get(normalized)
+      if (earlier !== undefined) {
+        flag(`${path} "${entry}" repeats "${earlier}".`)
+        return
+      }
+      seen.set(normalized, entry)
+
+      const isPhrase = PHRASE_LISTS.includes(listPath)
+      if (isPhrase && (normalized.split(' ').length > MAX_PHRASE_WORDS || INSTRUCTION_LIKE.test(entry))) {
+        flag(`${path} "${entry}" reads like an instruction; entries here are matched as finding phrases. Move it to custom_impression_instructions.`)
+      }
+    })
+  }
+
+  // Settings nothing reads
+  const walk = (node: LogicSchemaNode | undefined, value: unknown, path: string[]) => {
+    if (!node || !('type' in node) || node.type !== 'object' || !value || typeof value !== 'object' || Array.isArray(value)) return
+    for (const [key, child] of Object.entries(value)) {
+      const childPath = [...path, key]
+      const childNode = getLogicSchemaNode(childPath)
+      if (!childNode) continue
+      if ('type' in childNode && childNode.type === 'object' && !isConsumed(childPath.join('.'))) {
+        walk(childNode, child, childPath)
+      } else if (isRuleValueSet(child) && !isConsumed(childPath.join('.'))) {
+        issues.push({
+          kind: 'unused-key',
+          severity: 'info',
+          path: childPath.join('.'),
+          message: `${childPath.join('.')} is set but no prompt builder or validator reads it.`,
+          layer: sourceOf(childPath.join('.'))
+        })
+      }
+    }
+  }
+  walk(getLogicSchemaNode([]), mergedLogic, [])
+
+  issues.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity])
+  return { mergedLogic, issues }
+}
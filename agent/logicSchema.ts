@@ -0,0 +1,396 @@
+/**
+ * Authoritative agent_logic schema.
+ * The AgentLogic type, the exported JSON Schema (agent/agentLogic.schema.json),
+ * structure validation and the logic-editing prompt are all derived from AGENT_LOGIC_SCHEMA.
+ * Every key is optional so the same schema covers full logic and the base/study deltas merged into it.
+ */
+
+interface LogicSchemaBase {
+  description?: string
+}
+
+export interface BooleanSchemaNode extends LogicSchemaBase {
+  type: 'boolean'
+}
+
+export interface StringSchemaNode extends LogicSchemaBase {
+  type: 'string'
+  enum?: readonly string[]
+}
+
+export interface NumberSchemaNode extends LogicSchemaBase {
+  type: 'number' | 'integer'
+  minimum?: number
+  maximum?: number
+}
+
+export interface ArraySchemaNode extends LogicSchemaBase {
+  type: 'array'
+  items: LogicSchemaNode
+}
+
+export interface ObjectSchemaNode extends LogicSchemaBase {
+  type: 'object'
+  properties: Readonly<Record<string, LogicSchemaNode>>
+}
+
+export interface AnyOfSchemaNode extends LogicSchemaBase {
+  anyOf: readonly LogicSchemaNode[]
+}
+
+export type LogicSchemaNode =
+  | BooleanSchemaNode
+  | StringSchemaNode
+  | NumberSchemaNode
+  | ArraySchemaNode
+  | ObjectSchemaNode
+  | AnyOfSchemaNode
+
+/**
+ * TypeScript type described by a schema node; object properties are all optional
+ */
+export type InferLogicSchema<S> =
+  S extends { anyOf: readonly (infer U)[] } ? InferLogicSchema<U>
+  : S extends { type: 'boolean' } ? boolean
+  : S extends { type: 'string'; enum: readonly (infer E)[] } ? E
+  : S extends { type: 'string' } ? string
+  : S extends { type: 'number' | 'integer' } ? number
+  : S extends { type: 'array'; items: infer I } ? InferLogicSchema<I>[]
+  : S extends { type: 'object'; properties: infer P } ? { -readonly [K in keyof P]?: InferLogicSchema<P[K]> }
+  : never
+
+const flag = (description: string) => ({ type: 'boolean', description }) as const
+
+const text = (description: string) => ({ type: 'string', description }) as const
+
+const textList = (description: string) => ({ type: 'array', items: { type: 'string' }, description }) as const
+
+// Builders accept either a single instruction or a list
+const instructionList = (description: string) => ({
+  anyOf: [{ type: 'array', items: { type: 'string' } }, { type: 'string' }],
+  description
+}) as const
+
+const section = <P extends Record<string, LogicSchemaNode>>(description: string, properties: P) => ({
+  type: 'object' as const,
+  description,
+  properties
+})
+
+export const AGENT_LOGIC_SCHEMA = section('Report and impression generation rules stored in agent_logic / default_agent_logic', {
+  version: text('Logic format version, e.g. "2.0"'),
+  instructions: text('Free-text instructions converted from a legacy generate_prompt'),
+  formatting: section('Output formatting', {
+    preserve_template_punctuation: flag('Keep template punctuation and formatting exactly'),
+    use_bullet_points: flag('Use bullet points for lists of findings'),
+    capitalize_sections: flag('Write section headers in uppercase'),
+    capitalize_diagnoses: flag('Capitalize the first letter of each diagnosis'),
+    strict_section_headers: flag('Never add, remove or rename template section headers'),
+    structured_output: flag('Return JSON sections and impression items that RadPal renders into the template')
+  }),
+  report: section('Report body rules', {
+    no_hallucinated_findings: flag('Only report findings that were provided'),
+    preserve_section_structure: flag('Keep every template section in the report'),
+    flexible_content: flag('Allow natural, flowing content within sections'),
+    include_technique_section: flag('Include a technique section'),
+    include_comparison: flag('Include a comparison section'),
+    use_medical_abbreviations: flag('Use standard medical abbreviations'),
+    expand_acronyms_to_full_terms: flag('Spell out acronyms in the report body'),
+    expand_lesions: flag('Describe lesions in full detail'),
+    cartilage_placement: section('Where cartilage findings are reported', {
+      trochlear_cartilage_in_patellofemoral: flag('Report trochlear cartilage under the patellofemoral compartment'),
+      mention_patellar_if_trochlear_defect_present: flag('Comment on patellar cartilage when a trochlear defect is present'),
+      group_cartilage_by_compartment_in_impression: flag('Group cartilage findings by compartment in the impression'),
+      mention_grade_in_impression: flag('Include cartilage defect grades in the impression')
+    }),
+    anatomic_routing_rules: section('Which section specific findings are placed in', {
+      loose_bodies: text('Section for loose bodies, e.g. "joints"'),
+      bone_contusions: text('Section for bone contusions, e.g. "ossea_or_bone_marrow"'),
+      joint_effusions: text('Section for joint effusions, e.g. "joint_space"'),
+      group_pathology_by_type: flag('Group findings of the same pathology type'),
+      impression_order: text('Order of anatomic regions in the impression')
+    })
+  }),
+  impression: section('Impression rules', {
+    numerically_itemized: flag('Number impression items'),
+    omit_minor_or_incidental_findings_unless_relevant: flag('Leave minor or incidental findings out of the impression'),
+    concise_summary: flag('Keep the impression concise'),
+    include_recommendations: flag('Include follow-up recommendations'),
+    differential_diagnosis: flag('Include a differential diagnosis where appropriate'),
+    severity_classification: flag('Classify findings by severity'),
+    prioritize_by_urgency: flag('List the most urgent findings first'),
+    first_item_should_address_clinical_concern: flag('First item answers the clinical question'),
+    exclude_by_default: textList('Findings never mentioned in the impression'),
+    exclusion_rules: {
+      type: 'array',
+      description: 'Findings left out of the impression up to a severity (see agent/exclusions.ts)',
+      items: section('Finding excluded up to a maximum severity', {
+        concept: text('Finding to exclude, e.g. "effusion"; known findings also match their synonyms'),
+        max_severity: {
+          type: 'string',
+          enum: ['trace', 'minimal', 'mild', 'small', 'moderate'] as const,
+          description: 'Most severe grade still excluded; when unset the finding is excluded unless moderate or worse'
+        },
+        synonyms: textList('Other phrasings of the finding')
+      })
+    },
+    exclude_unless_surgical: textList('Findings mentioned in the impression only when surgically relevant'),
+    mention_muscle_atrophy_if: text('Threshold for mentioning muscle atrophy, e.g. "moderate_or_severe"'),
+    combine_compartments: flag('Combine findings from related compartments'),
+    expand_acronyms_to_full_terms: flag('Spell out acronyms in the impression')
+  }),
+  clinical: section('Clinical correlation', {
+    correlate_with_symptoms: flag('Correlate findings with the clinical history'),
+    mention_clinical_significance: flag('State the clinical significance of findings'),
+    suggest_follow_up: flag('Suggest follow-up imaging when warranted'),
+    include_acuity: flag('Describe findings as acute or chronic'),
+    management_implications: flag('Mention management implications')
+  }),
+  measurements: section('Measurement handling', {
+    include_all_measurements: flag('Report every measurement provided'),
+    include_key_measurements_only: flag('Report only clinically important measurements'),
+    use_metric_system: flag('Use metric units'),
+    describe_change_from_prior: flag('Describe changes compared with prior studies')
+  }),
+  severity: section('Severity terminology', {
+    use_standard_grading: flag('Use standard grading systems'),
+    use_standard_terminology: flag('Use standard severity terms'),
+    avoid_vague_terms: flag('Avoid vague severity terms'),
+    highlight_urgent_findings: flag('Call out urgent findings'),
+    scoring_systems: {
+      type: 'array',
+      description: 'Scoring calculators run on the findings; their categories and management are inserted verbatim (see agent/scoring)',
+      items: { type: 'string', enum: ['tirads', 'bosniak', 'lirads', 'outerbridge'] as const }
+    }
+  }),
+  style: section('Writing style', {
+    active_voice: flag('Prefer active voice'),
+    professional_tone: flag('Keep a professional tone'),
+    definitive_statements: flag('Make definitive statements where possible'),
+    avoid_hedging: flag('Avoid hedging language')
+  }),
+  anatomy: section('Anatomic organization', {
+    combine_meniscus_and_cartilage_findings: flag('Report meniscus and cartilage findings together'),
+    group_by_anatomic_region: flag('Group findings by anatomic region'),
+    group_related_findings: flag('Group related findings together'),
+    mention_normal_variants: flag('Mention significant normal variants'),
+    describe_bilateral_structures: flag('Describe both sides for bilateral structures')
+  }),
+  custom_instructions: instructionList('Additional report instructions'),
+  custom_impression_instructions: instructionList('Additional impression instructions'),
+  examples: {
+    type: 'array',
+    description: 'Example reports included in the prompt',
+    items: section('Example input and output', {
+      context: text('What the example demonstrates'),
+      input: text('Example findings or template'),
+      output: text('Expected report')
+    })
+  },
+  impression_examples: {
+    type: 'array',
+    description: 'Example impressions included in the impression prompt',
+    items: section('Example findings and impression', {
+      findings: text('Example findings'),
+      impression: text('Expected impression')
+    })
+  },
+  migration_history: {
+    type: 'array',
+    description: 'Version upgrades applied to this logic (see agent/logicMigrations.ts)',
+    items: section('Applied migration', {
+      id: text('Migration id'),
+      from: text('Version before the migration'),
+      to: text('Version after the migration'),
+      applied_at: text('ISO timestamp')
+    })
+  },
+  validations: {
+    type: 'array',
+    description: 'User-defined checks run on every generated report (see agent/customValidations.ts)',
+    items: section('Declarative validation rule', {
+      id: text('Stable rule id; a rule in a later logic layer with the same id replaces the inherited one'),
+      description: text('What the rule checks, shown with its violations'),
+      enabled: flag('Set to false to switch off an inherited rule'),
+      kind: {
+        type: 'string',
+        enum: ['require_mention', 'forbid_pattern', 'max_items'] as const,
+        description: 'require_mention: section must match pattern (when the findings match "when"); forbid_pattern: section must not match pattern; max_items: section has at most max items'
+      },
+      when: text('Regular expression the findings must match for the rule to apply'),
+      section: text('Report section the rule checks, e.g. "IMPRESSION"; the whole report when unset'),
+      pattern: text('Regular expression (case-insensitive) required or forbidden in the section'),
+      max: { type: 'integer', minimum: 0, description: 'Maximum number of items for max_items' },
+      severity: { type: 'string', enum: ['violation', 'warning'] as const, description: 'Report failures as violations (default) or warnings' },
+      message: text('Message shown when the rule fails')
+    })
+  },
+  self_correction: section('Automatic repair pass when a generated report breaks rules', {
+    enabled: flag('Re-prompt the model with the violations found in its output'),
+    max_attempts: { type: 'integer', minimum: 1, maximum: 5, description: 'Repair prompts per generation (default 2)' }
+  }),
+  generation: section('Sampling and persona overrides; unset values fall back to the provider defaults', {
+    temperature: { type: 'number', minimum: 0, maximum: 2, description: 'Sampling temperature (0-2)' },
+    top_p: { type: 'number', minimum: 0, maximum: 1, description: 'Nucleus sampling probability (0-1)' },
+    max_tokens: { type: 'integer', minimum: 1, description: 'Maximum completion tokens' },
+    system_persona: text('System prompt sent with every request'),
+    stop_sequences: textList('Sequences that end generation')
+  })
+})
+
+export interface LogicValidationResult {
+  valid: boolean
+  errors: string[]
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  if (typeof value === 'number' && !Number.isFinite(value)) return String(value)
+  return typeof value
+}
+
+function nodeTypeLabel(node: LogicSchemaNode): string {
+  if ('anyOf' in node) return node.anyOf.map(nodeTypeLabel).join(' or ')
+  if (node.type === 'array') return `array of ${nodeTypeLabel(node.items)}s`
+  return node.type
+}
+
+function validateNode(node: LogicSchemaNode, value: unknown, path: string, errors: string[]): void {
+  const at = path || '(root)'
+
+  if ('anyOf' in node) {
+    const matches = node.anyOf.some(option => {
+      const optionErrors: string[] = []
+      validateNode(option, value, path, optionErrors)
+      return optionErrors.length === 0
+    })
+    if (!matches) {
+      errors.push(`${at}: expected ${nodeTypeLabel(node)}, got ${describeValue(value)}`)
+    }
+    return
+  }
+
+  switch (node.type) {
+    case 'boolean':
+      if (typeof value !== 'boolean') errors.push(`${at}: expected boolean, got ${describeValue(value)}`)
+      return
+    case 'string':
+      if (typeof value !== 'string') {
+        errors.push(`${at}: expected string, got ${describeValue(value)}`)
+      } else if (node.enum && !node.enum.includes(value)) {
+        errors.push(`${at}: must be one of ${node.enum.map(option => `"${option}"`).join(', ')}`)
+      }
+      return
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isFinite(value) || (node.type === 'integer' && !Number.isInteger(value))) {
+        errors.push(`${at}: expected ${node.type}, got ${describeValue(value)}`)
+      } else if (node.minimum !== undefined && value < node.minimum) {
+        errors.push(`${at}: must be at least ${node.minimum}`)
+      } else if (node.maximum !== undefined && value > node.maximum) {
+        errors.push(`${at}: must be at most ${node.maximum}`)
+      }
+      return
+    case 'array':
+      if (!Array.isArray(value)) {
+        errors.push(`${at}: expected ${nodeTypeLabel(node)}, got ${describeValue(value)}`)
+        return
+      }
+      value.forEach((item, index) => validateNode(node.items, item, `${path}[${index}]`, errors))
+      return
+    case 'object':
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        errors.push(`${at}: expected object, got ${describeValue(value)}`)
+        return
+      }
+      for (const [key, child] of Object.entries(value)) {
+        const childPath = path ? `${path}.${key}` : key
+        // Pending editor changes mark deleted keys with undefined
+        if (child === undefined) continue
+        const childNode = node.properties[key]
+        if (!childNode) {
+          errors.push(`${childPath}: unknown key`)
+          continue
+        }
+        validateNode(childNode, child, childPath, errors)
+      }
+      return
+  }
+}
+
+/**
+ * Checks logic (or a delta of it) against the schema.
+ * Errors name the offending path, e.g. "impression.exclude_by_default[2]: expected string, got number".
+ */
+export function validateAgentLogic(logic: unknown): LogicValidationResult {
+  const errors: string[] = []
+  validateNode(AGENT_LOGIC_SCHEMA, logic, '', errors)
+  return { valid: errors.length === 0, errors }
+}
+
+/**
+ * Schema node at a path such as ['impression', 'exclude_by_default'], or undefined if the path is not in the schema
+ */
+export function getLogicSchemaNode(path: string[]): LogicSchemaNode | undefined {
+  let node: LogicSchemaNode | undefined = AGENT_LOGIC_SCHEMA
+  for (const key of path) {
+    if (!node || !('type' in node) || node.type !== 'object') return undefined
+    node = node.properties[key]
+  }
+  return node
+}
+
+function toJsonSchemaNode(node: LogicSchemaNode): Record<string, any> {
+  if ('anyOf' in node) {
+    return { ...node, anyOf: node.anyOf.map(toJsonSchemaNode) }
+  }
+  switch (node.type) {
+    case 'array':
+      return { ...node, items: toJsonSchemaNode(node.items) }
+    case 'object':
+      return {
+        ...node,
+        properties: Object.fromEntries(Object.entries(node.properties).map(([key, child]) => [key, toJsonSchemaNode(child)])),
+        additionalProperties: false
+      }
+    default:
+      return { ...node }
+  }
+}
+
+/**
+ * JSON Schema (draft-07) for agent_logic; written to agent/agentLogic.schema.json by `npm run logic:schema`
+ */
+export function toJsonSchema(): Record<string, any> {
+  return {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    title: 'AgentLogic',
+    ...toJsonSchemaNode(AGENT_LOGIC_SCHEMA)
+  }
+}
+
+/**
+ * Compact key listing for prompts, one line per top-level section; non-boolean keys carry their type
+ */
+export function describeLogicSchema(): string {
+  const describe = (node: LogicSchemaNode): string => {
+    if ('type' in node && node.type === 'object') {
+      return `{ ${Object.entries(node.properties).map(([key, child]) => {
+        if ('type' in child && child.type === 'object') return `${key}: ${describe(child)}`
+        if ('type' in child && child.type === 'boolean') return key
+        return `${key} (${nodeTypeLabel(child)})`
+      }).join(', ')} }`
+    }
+    return nodeTypeLabel(node)
+  }
+
+  return Object.entries(AGENT_LOGIC_SCHEMA.properties)
+    .map(([key, node]) => {
+      const shape = 'type' in node && node.type === 'array' && 'type' in node.items && node.items.type === 'object'
+        ? `array of ${describe(node.items)}`
+        : describe(node)
+      return `- ${key}: ${shape}`
+    })
+    .join('\n')
+}
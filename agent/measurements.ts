@@ -0,0 +1,228 @@
+import { convertNumberWords } from '../src/utils/dictationUtils'
+
+/**
+ * Measurement cross-checking between dictated findings and the generated report.
+ * Sizes, dimensions and other numbers are parsed from both texts; every findings measurement
+ * must reach the report with its values and units unchanged, and the report must not
+ * introduce numbers the findings (or template, or other trusted text) never gave.
+ * A new bare integer is only a warning, since counts ("3 loose bodies") are often fine.
+ */
+
+export type MeasurementUnit = 'mm' | 'cm' | 'ml' | 'hu' | 'degrees' | '%'
+
+export interface Measurement {
+  // Measurement as written after number words and "by" are normalized, e.g. "2.1 x 3 cm"
+  raw: string
+  values: number[]
+  unit?: MeasurementUnit
+  // Offset in the normalized text
+  index: number
+}
+
+export type MeasurementIssueKind = 'missing' | 'changed' | 'converted' | 'new-measurement' | 'new-number'
+
+export interface MeasurementIssue {
+  kind: MeasurementIssueKind
+  severity: 'violation' | 'warning'
+  message: string
+  findings?: Measurement
+  report?: Measurement
+}
+
+export interface MeasurementCheck {
+  findings: Measurement[]
+  report: Measurement[]
+  issues: MeasurementIssue[]
+}
+
+const NUMBER = '\\d+(?:\\.\\d+)?'
+const UNIT = '(?:millimet(?:er|re)s?|centimet(?:er|re)s?|milliliters?|mm|cm|ml|cc|hu|degrees?|deg|°|%|percent)'
+
+// Numbers glued to letters, slashes or colons (T2, L4-5, 10/12, 4:00) are labels, dates or times, not measurements
+const BEFORE = '(?<![\\w.:/-])'
+const AFTER = '(?![\\w:/]|\\.\\d|-\\d)'
+
+const MEASUREMENT_PATTERN = new RegExp(
+  `${BEFORE}${NUMBER}(?:\\s*${UNIT})?(?:\\s*[x×]\\s*${NUMBER}(?:\\s*${UNIT})?)+${AFTER}|${BEFORE}${NUMBER}\\s*${UNIT}(?![\\w:/])`,
+  'gi'
+)
+const NUMBER_PATTERN = new RegExp(`${BEFORE}${NUMBER}${AFTER}`, 'g')
+const UNIT_PATTERN = new RegExp(UNIT, 'gi')
+const LIST_MARKER = /^(\s*)\d+[.)](?=\s)/gm
+// Image references such as "series 3 image 45" point into the study and are not findings
+const IMAGE_REFERENCE = /\b(?:series|se|images?|im|img|slices?)\s*#?\s*\d+(?:\s*(?:-|–|to|and)\s*\d+)?/gi
+const YEAR = /^(?:19|20)\d{2}$/
+const MONTH = '(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\b\\.?'
+// Written dates such as "March 1, 2026", "Mar 1" or "1 March 2026" (day first only with a year, so "3 may" stays a number)
+const WRITTEN_DATE = new RegExp(
+  `\\b${MONTH}\\s+\\d{1,2}(?:st|nd|rd|th)?\\b(?:,?\\s*\\d{4})?|\\b\\d{1,2}(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH},?\\s*\\d{4}`,
+  'gi'
+)
+
+const UNIT_ALIASES: Record<string, MeasurementUnit> = {
+  mm: 'mm', millimeter: 'mm', millimeters: 'mm', millimetre: 'mm', millimetres: 'mm',
+  cm: 'cm', centimeter: 'cm', centimeters: 'cm', centimetre: 'cm', centimetres: 'cm',
+  ml: 'ml', cc: 'ml', milliliter: 'ml', milliliters: 'ml',
+  hu: 'hu',
+  degree: 'degrees', degrees: 'degrees', deg: 'degrees', '°': 'degrees',
+  '%': '%', percent: '%'
+}
+
+// Units that measure the same thing and the factor to a common base
+const UNIT_SCALE: Partial<Record<MeasurementUnit, number>> = { mm: 1, cm: 10 }
+
+/**
+ * Number words and "by" turned into digits and "x" the way dictation is cleaned up
+ */
+export function normalizeMeasurementText(text: string): string {
+  return convertNumberWords(text)
+}
+
+/**
+ * Every size, dimension and unit-bearing value in the text
+ */
+export function extractMeasurements(text: string): Measurement[] {
+  const normalized = normalizeMeasurementText(text)
+  const measurements: Measurement[] = []
+
+  for (const match of normalized.matchAll(MEASUREMENT_PATTERN)) {
+    const raw = match[0]
+    const units = raw.match(UNIT_PATTERN) || []
+    const unit = units.length > 0 ? UNIT_ALIASES[units[units.length - 1].toLowerCase()] : undefined
+    const values = (raw.match(/\d+(?:\.\d+)?/g) || []).map(Number)
+    measurements.push({ raw, values, unit, index: match.index! })
+  }
+
+  return measurements
+}
+
+/**
+ * Numbers outside any measurement; list numbering ("1."), years, written dates and image references are skipped
+ */
+export function extractStandaloneNumbers(text: string): number[] {
+  const normalized = normalizeMeasurementText(text)
+    .replace(MEASUREMENT_PATTERN, match => ' '.repeat(match.length))
+    .replace(LIST_MARKER, (match, indent) => indent + ' '.repeat(match.length - indent.length))
+    .replace(IMAGE_REFERENCE, match => ' '.repeat(match.length))
+    .replace(WRITTEN_DATE, match => ' '.repeat(match.length))
+  return (normalized.match(NUMBER_PATTERN) || []).filter(number => !YEAR.test(number)).map(Number)
+}
+
+function sameValues(a: number[], b: number[], scale = 1): boolean {
+  return a.length === b.length && a.every((value, index) => Math.abs(value * scale - b[index]) < 1e-9)
+}
+
+function unitsCompatible(a: Measurement, b: Measurement): boolean {
+  // A measurement dictated without a unit matches the same values with any unit
+  return !a.unit || !b.unit || a.unit === b.unit
+}
+
+function matches(a: Measurement, b: Measurement): boolean {
+  return unitsCompatible(a, b) && sameValues(a.values, b.values)
+}
+
+function convertedTo(from: Measurement, to: Measurement): boolean {
+  if (!from.unit || !to.unit || from.unit === to.unit) return false
+  const fromScale = UNIT_SCALE[from.unit]
+  const toScale = UNIT_SCALE[to.unit]
+  if (fromScale === undefined || toScale === undefined) return false
+  return sameValues(from.values, to.values, fromScale / toScale)
+}
+
+function sameKind(a: Measurement, b: Measurement): boolean {
+  return unitsCompatible(a, b) && a.values.length === b.values.length
+}
+
+/**
+ * Compares the measurements in the findings with those in the report.
+ * Template text counts as a source too, so its normal values may appear in the report, as do
+ * trusted sources the caller adds (a prior report, guideline recommendations, calculator results).
+ */
+export function crossCheckMeasurements(findings: string, report: string, template: string = '', trustedSources: string[] = []): MeasurementCheck {
+  const sources = [template, ...trustedSources]
+  const findingsMeasurements = extractMeasurements(findings)
+  const sourceMeasurements = sources.flatMap(extractMeasurements)
+  const reportMeasurements = extractMeasurements(report)
+  const issues: MeasurementIssue[] = []
+
+  const accounted = new Set<Measurement>()
+  const unresolved: Measurement[] = []
+
+  for (const source of findingsMeasurements) {
+    const kept = reportMeasurements.filter(candidate => matches(source, candidate))
+    if (kept.length > 0) {
+      kept.forEach(candidate => accounted.add(candidate))
+      continue
+    }
+
+    const converted = reportMeasurements.find(candidate => convertedTo(source, candidate))
+    if (converted) {
+      accounted.add(converted)
+      issues.push({
+        kind: 'converted',
+        severity: 'violation',
+        message: `"${source.raw}" from the findings was converted to "${converted.raw}"; keep the dictated units.`,
+        findings: source,
+        report: converted
+      })
+      continue
+    }
+
+    unresolved.push(source)
+  }
+
+  for (const candidate of reportMeasurements) {
+    if (sourceMeasurements.some(source => matches(source, candidate))) accounted.add(candidate)
+  }
+
+  // A findings measurement with no match pairs with the next unexplained report measurement of the same kind
+  for (const source of unresolved) {
+    const changed = reportMeasurements.find(candidate => !accounted.has(candidate) && sameKind(source, candidate))
+    if (changed) {
+      accounted.add(changed)
+      issues.push({
+        kind: 'changed',
+        severity: 'violation',
+        message: `"${source.raw}" from the findings was changed to "${changed.raw}" in the report.`,
+        findings: source,
+        report: changed
+      })
+    } else {
+      issues.push({
+        kind: 'missing',
+        severity: 'violation',
+        message: `"${source.raw}" from the findings is missing from the report.`,
+        findings: source
+      })
+    }
+  }
+
+  for (const candidate of reportMeasurements) {
+    if (accounted.has(candidate)) continue
+    issues.push({
+      kind: 'new-measurement',
+      severity: 'violation',
+      message: `"${candidate.raw}" in the report does not appear in the findings.`,
+      report: candidate
+    })
+  }
+
+  const knownNumbers = new Set([
+    ...findingsMeasurements.flatMap(measurement => measurement.values),
+    ...sourceMeasurements.flatMap(measurement => measurement.values),
+    ...extractStandaloneNumbers(findings),
+    ...sources.flatMap(extractStandaloneNumbers)
+  ])
+  const reported = new Set<number>()
+  for (const value of extractStandaloneNumbers(report)) {
+    if (knownNumbers.has(value) || reported.has(value)) continue
+    reported.add(value)
+    issues.push({
+      kind: 'new-number',
+      severity: Number.isInteger(value) ? 'warning' : 'violation',
+      message: `The number ${value} in the report does not appear in the findings.`
+    })
+  }
+
+  return { findings: findingsMeasurements, report: reportMeasurements, issues }
+}
@@ -1,27 +1,12 @@
+import { resolveProviderEntry } from '../src/providers/registry'
+import { DEFAULT_PROVIDER_ID } from '../src/providers/catalog'
+
 /**
  * Maps RadPal UI model selection to callModel function parameters
+ * Provider ids come from electron/providerCatalog.json and are passed through unchanged
  */
 export function mapRadPalModelToAgent(apiProvider: string): string {
-  switch (apiProvider) {
-    case 'openai':
-      return 'gpt-4'
-    case 'gpt-5':
-      return 'gpt-5'
-    case 'claude-sonnet':
-      return 'claude-3-sonnet'
-    case 'claude-opus':
-      return 'claude-3-opus'
-    case 'claude-opus-4.1':
-      return 'claude-opus-4.1'
-    case 'gemini':
-      return 'gemini-2.5-flash'
-    case 'kimi':
-      return 'kimi-k2-0711-preview'
-    case 'mistral-local':
-      return 'mistral-local'
-    default:
-      return 'gpt-4' // Default fallback
-  }
+  return resolveProviderEntry(apiProvider)?.id ?? DEFAULT_PROVIDER_ID
 }
 
 /**
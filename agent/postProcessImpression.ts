@@ -1,81 +1,36 @@
+import { AgentLogic } from './types'
+import { applyRulePostProcessors } from './ruleRegistry'
+import { ImpressionRemoval, isExcludedFinding, resolveExclusionRules } from './exclusions'
+
 /**
  * Post-process generated impression to enforce exclusion rules
  * This ensures that excluded items are removed even if the AI includes them
+ * (the post-processors themselves live in the rule registry)
  */
 export function postProcessImpression(
   generatedText: string,
-  agentLogic: Record<string, any>
+  agentLogic: AgentLogic
 ): string {
-  if (!agentLogic?.impression?.exclude_by_default || !Array.isArray(agentLogic.impression.exclude_by_default)) {
-    return generatedText
+  return postProcessImpressionWithLog(generatedText, agentLogic).text
+}
+
+/**
+ * Same as postProcessImpression, also returning what was removed and which rule removed it
+ */
+export function postProcessImpressionWithLog(
+  generatedText: string,
+  agentLogic: AgentLogic
+): { text: string; removed: ImpressionRemoval[] } {
+  const { text, applied, removed } = applyRulePostProcessors(generatedText, agentLogic || {})
+  if (applied.length === 0 || removed.length === 0) {
+    return { text: generatedText, removed: [] }
   }
   
-  let processedText = generatedText
-  const excludeList = agentLogic.impression.exclude_by_default
-  
-  // Convert exclusion list to patterns to match
-  const exclusionPatterns: RegExp[] = []
-  
-  excludeList.forEach((exclusion: string) => {
-    // Convert snake_case to various formats
-    const readable = exclusion.replace(/_/g, ' ').toLowerCase()
-    const variants = [
-      readable,
-      readable.replace(/'/g, ''),  // Remove apostrophes
-      readable.replace(/s$/, ''),   // Remove plural
-      readable + 's'                 // Add plural
-    ]
-    
-    // Create regex patterns for each variant
-    variants.forEach(variant => {
-      // Create pattern that matches the phrase in various contexts
-      // Look for the phrase followed by punctuation, newline, or end of string
-      const pattern = new RegExp(
-        `\\b${variant.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}(?=[.,;\\n]|$)`,
-        'gi'
-      )
-      exclusionPatterns.push(pattern)
-    })
+  removed.forEach(removal => {
+    console.log(`🚫 Post-processing: Removing "${removal.removed}" (${removal.rule}: ${removal.reason})`)
   })
   
-  // Special handling for specific exclusions
-  if (excludeList.some((e: string) => e.toLowerCase().includes('baker'))) {
-    // More aggressive patterns for Baker's cyst
-    exclusionPatterns.push(
-      /\bsmall\s+baker'?s?\s+cysts?\b/gi,
-      /\bbaker'?s?\s+cysts?,?\s+small\b/gi,
-      /\d+\.\s*Small\s+Baker'?s?\s+cysts?\.?/gi  // Numbered list item
-    )
-  }
-  
-  if (excludeList.some((e: string) => e.toLowerCase().includes('effusion'))) {
-    exclusionPatterns.push(
-      /\bsmall\s+(?:joint\s+)?effusions?\b/gi,
-      /\btrace\s+(?:joint\s+)?effusions?\b/gi,
-      /\d+\.\s*Small\s+joint\s+effusions?\.?/gi  // Numbered list item
-    )
-  }
-  
-  // Apply exclusion patterns
-  exclusionPatterns.forEach(pattern => {
-    const matches = processedText.match(pattern)
-    if (matches) {
-      console.log(`🚫 Post-processing: Removing excluded item "${matches[0]}"`)
-      
-      // Remove the entire line if it's a numbered list item
-      const numberedLinePattern = new RegExp(
-        `^\\d+\\.\\s*.*${pattern.source}.*$`,
-        'gim'
-      )
-      
-      if (numberedLinePattern.test(processedText)) {
-        processedText = processedText.replace(numberedLinePattern, '')
-      } else {
-        // Just remove the phrase
-        processedText = processedText.replace(pattern, '')
-      }
-    }
-  })
+  let processedText = text
   
   // Clean up any resulting formatting issues
   // Remove empty numbered list items
@@ -102,7 +57,7 @@ export function postProcessImpression(
   // Trim whitespace
   processedText = processedText.trim()
   
-  return processedText
+  return { text: processedText, removed }
 }
 
 /**
@@ -110,37 +65,13 @@ export function postProcessImpression(
  */
 export function shouldExcludeFinding(
   finding: string,
-  agentLogic: Record<string, any>
+  agentLogic: AgentLogic
 ): boolean {
-  if (!agentLogic?.impression?.exclude_by_default) {
-    return false
-  }
-  
-  const excludeList = agentLogic.impression.exclude_by_default
   const findingLower = finding.toLowerCase()
   
-  // Check each exclusion rule
-  for (const exclusion of excludeList) {
-    const exclusionLower = exclusion.replace(/_/g, ' ').toLowerCase()
-    
-    // Check for exact match or close variations
-    if (findingLower.includes(exclusionLower)) {
-      return true
-    }
-    
-    // Special checks for common variations
-    if (exclusion.includes('baker')) {
-      if (/small\s+baker'?s?\s+cysts?/i.test(finding)) {
-        return true
-      }
-    }
-    
-    if (exclusion.includes('effusion')) {
-      if (/small\s+(?:joint\s+)?effusions?/i.test(finding) ||
-          /trace\s+(?:joint\s+)?effusions?/i.test(finding)) {
-        return true
-      }
-    }
+  // Check the exclusion rules (concept, synonyms and severity)
+  if (isExcludedFinding(finding, resolveExclusionRules(agentLogic))) {
+    return true
   }
   
   // Check muscle atrophy rules
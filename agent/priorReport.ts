@@ -0,0 +1,196 @@
+import { ExtractedFinding, extractFindings } from './conceptExtraction'
+import { extractMeasurements } from './measurements'
+import { ReportSection, extractSectionHeaders, extractSections } from './validateSectionHeaders'
+
+/**
+ * Prior report ingestion.
+ * A pasted prior report is split into sections with the current template's headers, and the findings
+ * of both studies are aligned by structure, finding and side: sized findings are compared by their
+ * largest dimension, the rest are marked new, resolved (only when the current findings say so) or persistent.
+ */
+
+export type IntervalChangeKind = 'increased' | 'decreased' | 'stable' | 'persistent' | 'new' | 'resolved'
+
+export interface IntervalChange {
+  kind: IntervalChangeKind
+  // What changed, e.g. "right adrenal gland nodule"
+  label: string
+  // Largest dimension in mm on each study
+  priorSizeMm?: number
+  currentSizeMm?: number
+  // Unit the current findings measured in, used when stating both sizes
+  unit?: 'mm' | 'cm'
+  prior?: string
+  current?: string
+  // Prompt line, e.g. "Right adrenal gland nodule: increased from 8 to 12 mm since 2026-03-01."
+  text: string
+}
+
+export interface PriorReportSections {
+  sections: ReportSection[]
+  // Descriptive sections joined (everything but impression, technique, history and comparison)
+  findings: string
+  impression: string
+}
+
+interface Observation {
+  finding: ExtractedFinding
+  sizeMm?: number
+  unit?: 'mm' | 'cm'
+}
+
+export const INTERVAL_CHANGE_PREFIX = 'INTERVAL CHANGE:'
+
+// Changes in the largest dimension below this are measurement noise
+const STABLE_TOLERANCE_MM = 1
+
+// Findings whose size is tracked between studies
+const SIZED_PATHOLOGIES = new Set(['nodule', 'mass', 'lesion', 'cyst', 'adenoma', 'baker cyst'])
+
+const NON_FINDINGS_SECTION = /\b(?:IMPRESSION|TECHNIQUE|COMPARISON|HISTORY|INDICATION|CLINICAL|PROCEDURE|EXAM(?:INATION)?|PROTOCOL)\b/i
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+/**
+ * Splits a prior report on the template's headers (any case); reports without them fall back to any capitalized header
+ */
+export function splitPriorReport(prior: string, template: string = ''): PriorReportSections {
+  const headers = extractSectionHeaders(template)
+  let sections: ReportSection[] = []
+
+  if (headers.length > 0) {
+    const pattern = new RegExp(`^[ \\t]*(${headers.map(header => escapeRegExp(header.slice(0, -1)).replace(/\s+/g, '\\s+')).join('|')})[ \\t]*:`, 'gim')
+    const matches = [...prior.matchAll(pattern)]
+    sections = matches.map((match, i) => ({
+      header: headers.find(header => header.slice(0, -1).toLowerCase() === match[1].replace(/\s+/g, ' ').toLowerCase()) || match[1].toUpperCase() + ':',
+      content: prior.slice(match.index! + match[0].length, i + 1 < matches.length ? matches[i + 1].index! : prior.length).trim(),
+      index: match.index!
+    }))
+  }
+  if (sections.length === 0) sections = extractSections(prior)
+
+  if (sections.length === 0) return { sections, findings: prior.trim(), impression: '' }
+  return {
+    sections,
+    findings: sections.filter(section => !NON_FINDINGS_SECTION.test(section.header)).map(section => section.content).join('\n'),
+    impression: sections.filter(section => /\bIMPRESSION\b/i.test(section.header)).map(section => section.content).join('\n')
+  }
+}
+
+function observe(text: string): Observation[] {
+  return extractFindings(text)
+    .filter(finding => finding.pathology)
+    .map(finding => {
+      if (!SIZED_PATHOLOGIES.has(finding.pathology!)) return { finding }
+      // Largest dimension in the sentence, in mm
+      const sizes = extractMeasurements(finding.text)
+        .filter(measurement => measurement.unit === 'mm' || measurement.unit === 'cm')
+        .map(measurement => ({ mm: Math.max(...measurement.values) * (measurement.unit === 'cm' ? 10 : 1), unit: measurement.unit as 'mm' | 'cm' }))
+      if (sizes.length === 0) return { finding }
+      const largest = sizes.reduce((a, b) => (b.mm > a.mm ? b : a))
+      return { finding, sizeMm: largest.mm, unit: largest.unit }
+    })
+}
+
+function sameObservation(a: ExtractedFinding, b: ExtractedFinding): boolean {
+  return a.pathology === b.pathology && a.anatomy === b.anatomy &&
+    (!a.laterality || !b.laterality || a.laterality === b.laterality)
+}
+
+function labelOf(finding: ExtractedFinding): string {
+  return [finding.laterality, finding.anatomy, finding.pathology].filter(Boolean).join(' ')
+}
+
+function formatSize(mm: number, unit: 'mm' | 'cm'): string {
+  return String(Number((unit === 'cm' ? mm / 10 : mm).toFixed(1)))
+}
+
+function describe(change: Omit<IntervalChange, 'text'>, comparisonDate?: string): string {
+  const since = comparisonDate ? `since ${comparisonDate}` : 'since the prior study'
+  const label = change.label.charAt(0).toUpperCase() + change.label.slice(1)
+  const unit = change.unit || 'mm'
+  switch (change.kind) {
+    case 'increased':
+    case 'decreased':
+      return `${label}: ${change.kind} from ${formatSize(change.priorSizeMm!, unit)} to ${formatSize(change.currentSizeMm!, unit)} ${unit} ${since}.`
+    case 'stable':
+      return `${label}: stable at ${formatSize(change.currentSizeMm!, unit)} ${unit} ${since}.`
+    case 'persistent':
+      return `${label}: also described on the prior study; state whether it has changed only if the findings say so.`
+    case 'new':
+      return `${label}: new ${since}.`
+    case 'resolved':
+      return `${label}: resolved ${since}.`
+  }
+}
+
+/**
+ * Aligns the prior report's findings with the current findings
+ */
+export function alignPriorReport(currentFindings: string, priorReport: string, template: string = '', comparisonDate?: string): IntervalChange[] {
+  const prior = observe(splitPriorReport(priorReport, template).findings).filter(observation => observation.finding.status === 'present')
+  const current = observe(currentFindings)
+  const presentNow = current.filter(observation => observation.finding.status === 'present')
+  const absentNow = current.filter(observation => observation.finding.status === 'absent')
+  const changes: Omit<IntervalChange, 'text'>[] = []
+  const matched = new Set<Observation>()
+
+  for (const now of presentNow) {
+    const before = prior.find(candidate => !matched.has(candidate) && sameObservation(candidate.finding, now.finding))
+    const label = labelOf(now.finding)
+    if (!before) {
+      // Several mentions of one finding in the current text count once
+      if (!changes.some(change => change.kind === 'new' && change.label === label)) {
+        changes.push({ kind: 'new', label, current: now.finding.text })
+      }
+      continue
+    }
+    matched.add(before)
+
+    if (now.sizeMm === undefined || before.sizeMm === undefined) {
+      changes.push({ kind: 'persistent', label, prior: before.finding.text, current: now.finding.text })
+      continue
+    }
+    const difference = now.sizeMm - before.sizeMm
+    changes.push({
+      kind: Math.abs(difference) < STABLE_TOLERANCE_MM ? 'stable' : difference > 0 ? 'increased' : 'decreased',
+      label,
+      priorSizeMm: before.sizeMm,
+      currentSizeMm: now.sizeMm,
+      unit: now.unit,
+      prior: before.finding.text,
+      current: now.finding.text
+    })
+  }
+
+  // A prior finding is resolved only when the current findings deny it; silence is not resolution
+  for (const before of prior.filter(candidate => !matched.has(candidate))) {
+    const denied = absentNow.find(now => now.finding.pathology === before.finding.pathology &&
+      (!now.finding.anatomy || now.finding.anatomy === before.finding.anatomy))
+    if (denied) {
+      changes.push({ kind: 'resolved', label: labelOf(before.finding), prior: before.finding.text, current: denied.finding.text })
+    }
+  }
+
+  return changes.map(change => ({ ...change, text: describe(change, comparisonDate) }))
+}
+
+/**
+ * Size changes the report leaves out; the prior size must be stated in either unit
+ */
+export function checkIntervalChanges(report: string, changes: IntervalChange[]): string[] {
+  const reportSizes = extractMeasurements(report)
+    .filter(measurement => measurement.unit === 'mm' || measurement.unit === 'cm' || !measurement.unit)
+    .flatMap(measurement => measurement.values.map(value => value * (measurement.unit === 'cm' ? 10 : 1)))
+  // "from 8 to 12 mm" gives the 8 without a unit
+  const bareNumbers = [...report.matchAll(/\bfrom\s+(\d+(?:\.\d+)?)\s+to\b/gi)].map(match => Number(match[1]))
+
+  return changes
+    .filter(change => change.kind === 'increased' || change.kind === 'decreased')
+    .filter(change => {
+      const priorMm = change.priorSizeMm!
+      return !reportSizes.some(size => Math.abs(size - priorMm) < 1e-9) &&
+        !bareNumbers.some(value => Math.abs(value - priorMm) < 1e-9 || Math.abs(value * 10 - priorMm) < 1e-9)
+    })
+    .map(change => `${INTERVAL_CHANGE_PREFIX} Report does not state that the ${change.label} ${change.kind} from ${formatSize(change.priorSizeMm!, change.unit || 'mm')} ${change.unit || 'mm'}.`)
+}
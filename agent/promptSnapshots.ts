@@ -0,0 +1,81 @@
+import fs from 'node:fs'
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+import buildPrompt from './buildPrompt'
+import buildEnhancedPrompt from './buildEnhancedPrompt'
+import buildImpressionPrompt from './buildImpressionPrompt'
+import buildEnhancedImpressionPrompt from './buildEnhancedImpressionPrompt'
+import { deepMergeAgentLogic, getDefaultAgentLogic } from '../src/utils/logicMerge'
+
+/**
+ * Golden-prompt fixtures shared by the snapshot tests and scripts/prompt-snapshot.js.
+ * Node-only: reads fixture and golden files from agent/__tests__/prompts.
+ */
+
+export const PROMPT_BUILDERS = {
+  buildPrompt,
+  buildEnhancedPrompt,
+  buildImpressionPrompt,
+  buildEnhancedImpressionPrompt
+}
+
+export type PromptBuilderName = keyof typeof PROMPT_BUILDERS
+
+export const PROMPT_BUILDER_NAMES = Object.keys(PROMPT_BUILDERS) as PromptBuilderName[]
+
+export interface PromptFixture {
+  description?: string
+  template: string
+  findings: string
+  agent_logic: Record<string, any>
+  // Layer agent_logic over getDefaultAgentLogic(), as fetch-template-for-generation does
+  merge_with_defaults?: boolean
+}
+
+const PROMPTS_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '__tests__', 'prompts')
+export const PROMPT_FIXTURE_DIR = path.join(PROMPTS_DIR, 'fixtures')
+export const GOLDEN_PROMPT_DIR = path.join(PROMPTS_DIR, 'golden')
+
+export function listPromptFixtures(): string[] {
+  return fs.readdirSync(PROMPT_FIXTURE_DIR)
+    .filter(file => file.endsWith('.json'))
+    .map(file => file.replace(/\.json$/, ''))
+    .sort()
+}
+
+export function loadPromptFixture(nameOrPath: string): PromptFixture {
+  const file = nameOrPath.endsWith('.json') ? path.resolve(nameOrPath) : path.join(PROMPT_FIXTURE_DIR, `${nameOrPath}.json`)
+  return JSON.parse(fs.readFileSync(file, 'utf-8'))
+}
+
+/**
+ * Renders a fixture with one builder; the builders' and merge's debug logging is suppressed
+ */
+export function renderPrompt(fixture: PromptFixture, builder: PromptBuilderName): string {
+  const log = console.log
+  console.log = () => {}
+  try {
+    const logic = fixture.merge_with_defaults
+      ? deepMergeAgentLogic(getDefaultAgentLogic(), fixture.agent_logic || {})
+      : fixture.agent_logic || {}
+    return PROMPT_BUILDERS[builder](fixture.findings, fixture.template, logic)
+  } finally {
+    console.log = log
+  }
+}
+
+export function goldenPromptPath(fixtureName: string, builder: PromptBuilderName): string {
+  return path.join(GOLDEN_PROMPT_DIR, fixtureName, `${builder}.txt`)
+}
+
+// Line endings are normalized so goldens survive a CRLF checkout on Windows
+export function readGoldenPrompt(fixtureName: string, builder: PromptBuilderName): string | undefined {
+  const file = goldenPromptPath(fixtureName, builder)
+  return fs.existsSync(file) ? fs.readFileSync(file, 'utf-8').replace(/\r\n/g, '\n') : undefined
+}
+
+export function writeGoldenPrompt(fixtureName: string, builder: PromptBuilderName, prompt: string): void {
+  const file = goldenPromptPath(fixtureName, builder)
+  fs.mkdirSync(path.dirname(file), { recursive: true })
+  fs.writeFileSync(file, prompt)
+}
@@ -0,0 +1,197 @@
+/**
+ * Sentence-level provenance for generated reports.
+ * Each report sentence is matched back to the findings lines and template lines whose
+ * content words cover it; sentences that no source supports are flagged as possibly invented.
+ */
+
+export interface ProvenanceSource {
+  kind: 'findings' | 'template'
+  // 1-based line number in the findings or template text
+  line: number
+  text: string
+}
+
+export interface SentenceProvenance {
+  text: string
+  // Character offsets of the sentence in the report
+  start: number
+  end: number
+  supported: boolean
+  // Share of the sentence's content words found in its sources (0-1)
+  coverage: number
+  sources: ProvenanceSource[]
+  // Content words and numbers no source contains
+  unsupportedTerms: string[]
+}
+
+export interface ReportProvenance {
+  sentences: SentenceProvenance[]
+  unsupported: SentenceProvenance[]
+}
+
+// Sentences with less coverage than this are reported as unsupported
+export const SUPPORTED_COVERAGE = 0.6
+
+// Sources combined to cover one sentence (e.g. a template label plus a findings line)
+const MAX_SOURCES_PER_SENTENCE = 3
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'of', 'and', 'or', 'is', 'are', 'was', 'were', 'be', 'been', 'with', 'without',
+  'in', 'on', 'at', 'to', 'for', 'from', 'by', 'as', 'there', 'this', 'that', 'these', 'those', 'which',
+  'it', 'its', 'also', 'noted', 'seen', 'identified', 'demonstrated', 'present', 'appears', 'within',
+  'consistent', 'compatible', 'findings', 'finding', 'evidence', 'involving', 'along'
+])
+
+// Common abbreviations expanded so "ACL" in the findings supports "anterior cruciate ligament" in the report
+const ABBREVIATIONS: Record<string, string> = {
+  acl: 'anterior cruciate ligament',
+  pcl: 'posterior cruciate ligament',
+  mcl: 'medial collateral ligament',
+  lcl: 'lateral collateral ligament',
+  mpfl: 'medial patellofemoral ligament',
+  atfl: 'anterior talofibular ligament',
+  cfl: 'calcaneofibular ligament',
+  tfcc: 'triangular fibrocartilage complex',
+  itb: 'iliotibial band',
+  bme: 'bone marrow edema',
+  mri: 'magnetic resonance imaging'
+}
+
+// Irregular forms folded onto one stem
+const EQUIVALENTS: Record<string, string> = {
+  torn: 'tear',
+  tears: 'tear',
+  tearing: 'tear',
+  oedema: 'edema',
+  effusions: 'effusion'
+}
+
+// A period only ends a sentence before whitespace, so decimals like 1.2 stay intact
+const SENTENCE_PATTERN = /\S.*?(?:[.!?]+(?=\s|$)|$)/g
+const HEADER_PATTERN = /^\s*[A-Z][A-Z \t/]+:/
+const LIST_MARKER = /^\s*(?:\d+[.)]|[•\-*])\s+/
+
+function stem(word: string): string {
+  const folded = EQUIVALENTS[word] || word
+  // Prefix stemming is crude but keeps "complete"/"completely" and "degenerative"/"degeneration" together
+  return /^\d/.test(folded) ? folded : folded.slice(0, 6)
+}
+
+/**
+ * Normalized content words of a text; numbers are kept whole so "1.2" never matches "12"
+ */
+export function contentTerms(text: string): string[] {
+  const words = text
+    .toLowerCase()
+    .replace(/(\d)\s*[x×]\s*(?=\d)/g, '$1 ')
+    .match(/\d+(?:\.\d+)?|[a-z]+/g) || []
+
+  const terms: string[] = []
+  for (const word of words) {
+    const expanded = ABBREVIATIONS[word]
+    for (const part of expanded ? expanded.split(' ') : [word]) {
+      if (STOP_WORDS.has(part) || (part.length < 2 && !/^\d/.test(part))) continue
+      const term = stem(part)
+      if (!terms.includes(term)) terms.push(term)
+    }
+  }
+  return terms
+}
+
+/**
+ * Splits text into sentences with offsets, skipping header-only lines and list markers
+ */
+export function splitSentences(text: string): Array<{ text: string; start: number; end: number }> {
+  const sentences: Array<{ text: string; start: number; end: number }> = []
+  let lineStart = 0
+
+  for (const line of text.split('\n')) {
+    let content = line
+    let offset = lineStart
+
+    const header = content.match(HEADER_PATTERN)
+    if (header) {
+      content = content.slice(header[0].length)
+      offset += header[0].length
+    }
+    const marker = content.match(LIST_MARKER)
+    if (marker) {
+      content = content.slice(marker[0].length)
+      offset += marker[0].length
+    }
+
+    for (const match of content.matchAll(SENTENCE_PATTERN)) {
+      const raw = match[0]
+      const leading = raw.length - raw.trimStart().length
+      const trimmed = raw.trim()
+      if (!trimmed) continue
+      const start = offset + match.index! + leading
+      sentences.push({ text: trimmed, start, end: start + trimmed.length })
+    }
+
+    lineStart += line.length + 1
+  }
+
+  return sentences
+}
+
+interface IndexedSource extends ProvenanceSource {
+  terms: Set<string>
+}
+
+function indexSources(text: string, kind: ProvenanceSource['kind']): IndexedSource[] {
+  return text.split('\n')
+    .map((line, index) => ({ kind, line: index + 1, text: line.trim(), terms: new Set(contentTerms(line)) }))
+    .filter(source => source.terms.size > 0)
+}
+
+function traceSentence(sentence: { text: string; start: number; end: number }, sources: IndexedSource[]): SentenceProvenance {
+  const terms = contentTerms(sentence.text)
+  if (terms.length === 0) {
+    return { ...sentence, supported: true, coverage: 1, sources: [], unsupportedTerms: [] }
+  }
+
+  // Greedily add the source that covers the most still-uncovered words
+  const chosen: IndexedSource[] = []
+  let uncovered = [...terms]
+  while (uncovered.length > 0 && chosen.length < MAX_SOURCES_PER_SENTENCE) {
+    let best: IndexedSource | undefined
+    let bestCount = 0
+    for (const source of sources) {
+      if (chosen.includes(source)) continue
+      const count = uncovered.filter(term => source.terms.has(term)).length
+      if (count > bestCount) {
+        best = source
+        bestCount = count
+      }
+    }
+    if (!best) break
+    chosen.push(best)
+    uncovered = uncovered.filter(term => !best!.terms.has(term))
+  }
+
+  const coverage = (terms.length - uncovered.length) / terms.length
+  // A number that appears in no source is never supported, whatever the word coverage
+  const unsupportedNumbers = uncovered.filter(term => /^\d/.test(term))
+
+  return {
+    ...sentence,
+    supported: coverage >= SUPPORTED_COVERAGE && unsupportedNumbers.length === 0,
+    coverage: Math.round(coverage * 100) / 100,
+    sources: chosen.map(({ kind, line, text }) => ({ kind, line, text })),
+    unsupportedTerms: uncovered
+  }
+}
+
+/**
+ * Maps every report sentence to the findings and template lines that support it
+ */
+export function traceReportProvenance(report: string, findings: string, template: string = ''): ReportProvenance {
+  const sources = [...indexSources(findings, 'findings'), ...indexSources(template, 'template')]
+  const sentences = splitSentences(report).map(sentence => traceSentence(sentence, sources))
+
+  return {
+    sentences,
+    unsupported: sentences.filter(sentence => !sentence.supported)
+  }
+}
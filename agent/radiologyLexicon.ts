@@ -0,0 +1,390 @@
+/**
+ * Radiology lexicon behind agent/conceptExtraction.ts.
+ * Plain data, so terms can be added without touching the extractor: anatomy and pathology map a
+ * canonical key to the phrases that name it, severity words carry a rank on a shared scale, and
+ * negation and normal cues decide whether a finding is present or absent. Terms are matched as
+ * whole words, case-insensitively; list every inflection that should count.
+ */
+
+export interface AnatomyEntry {
+  key: string
+  terms: string[]
+  // Broader structure this one belongs to, so "meniscal tear" matches a medial meniscus tear
+  parent?: string
+}
+
+export type Laterality = 'left' | 'right' | 'bilateral'
+
+export interface RadiologyLexicon {
+  anatomy: AnatomyEntry[]
+  // Canonical finding -> phrases naming it
+  pathology: Record<string, string[]>
+  // Severity word -> rank (1 trace/minimal, 2 small/mild, 3 moderate, 4 large/severe)
+  severity: Record<string, number>
+  laterality: Record<Laterality, string[]>
+  // Cues that negate the findings after them ("no", "without")
+  negation: string[]
+  // Words describing a structure as normal ("intact", "unremarkable")
+  normal: string[]
+  // Study type -> terms that suggest it; multi-word terms weigh more
+  studyTypes: Record<string, string[]>
+}
+
+export const RADIOLOGY_LEXICON: RadiologyLexicon = {
+  anatomy: [
+    { key: 'anterior cruciate ligament', terms: ['acl', 'anterior cruciate', 'anterior cruciate ligament'] },
+    { key: 'posterior cruciate ligament', terms: ['pcl', 'posterior cruciate', 'posterior cruciate ligament'] },
+    { key: 'medial collateral ligament', terms: ['mcl', 'medial collateral', 'medial collateral ligament'] },
+    { key: 'lateral collateral ligament', terms: ['lcl', 'lateral collateral', 'lateral collateral ligament', 'fibular collateral', 'fibular collateral ligament'] },
+    { key: 'medial meniscus', terms: ['medial meniscus', 'medial meniscal', 'medial menisci'], parent: 'meniscus' },
+    { key: 'lateral meniscus', terms: ['lateral meniscus', 'lateral meniscal', 'lateral menisci'], parent: 'meniscus' },
+    { key: 'meniscus', terms: ['meniscus', 'meniscal', 'menisci'] },
+    { key: 'patellar tendon', terms: ['patellar tendon'] },
+    { key: 'quadriceps tendon', terms: ['quadriceps tendon'] },
+    { key: 'supraspinatus tendon', terms: ['supraspinatus', 'supraspinatus tendon'], parent: 'rotator cuff' },
+    { key: 'infraspinatus tendon', terms: ['infraspinatus', 'infraspinatus tendon'], parent: 'rotator cuff' },
+    { key: 'subscapularis tendon', terms: ['subscapularis', 'subscapularis tendon'], parent: 'rotator cuff' },
+    { key: 'rotator cuff', terms: ['rotator cuff'] },
+    { key: 'labrum', terms: ['labrum', 'labral'] },
+    { key: 'biceps tendon', terms: ['biceps', 'biceps tendon'] },
+    { key: 'achilles tendon', terms: ['achilles', 'achilles tendon'] },
+    { key: 'anterior talofibular ligament', terms: ['atfl', 'anterior talofibular', 'anterior talofibular ligament'] },
+    { key: 'triangular fibrocartilage complex', terms: ['tfcc', 'triangular fibrocartilage', 'triangular fibrocartilage complex'] },
+    { key: 'cartilage', terms: ['cartilage', 'articular cartilage'] },
+    { key: 'lung', terms: ['lung', 'lungs', 'pulmonary', 'right upper lobe', 'right middle lobe', 'right lower lobe', 'left upper lobe', 'left lower lobe', 'lingula', 'upper lobe', 'middle lobe', 'lower lobe'] },
+    { key: 'adrenal gland', terms: ['adrenal', 'adrenals', 'adrenal gland', 'adrenal glands'] },
+    { key: 'kidney', terms: ['kidney', 'kidneys', 'renal'] },
+    { key: 'thyroid', terms: ['thyroid', 'thyroid gland', 'thyroid lobe'] }
+  ],
+  pathology: {
+    tear: ['tear', 'tears', 'torn', 'tearing', 'rupture', 'ruptured', 'disruption', 'disrupted'],
+    sprain: ['sprain'],
+    strain: ['strain'],
+    fracture: ['fracture', 'fractures', 'fractured'],
+    contusion: ['contusion', 'contusions', 'bruise'],
+    edema: ['edema', 'oedema'],
+    'bone marrow edema': ['bone marrow edema', 'marrow edema', 'bone marrow oedema', 'marrow oedema', 'edema-like marrow signal'],
+    effusion: ['effusion', 'effusions', 'joint effusion', 'joint effusions', 'joint fluid', 'fluid in the joint', 'fluid within the joint', 'intra-articular fluid', 'intraarticular fluid'],
+    'baker cyst': ["baker's cyst", "baker's cysts", 'bakers cyst', 'bakers cysts', 'baker cyst', 'baker cysts', 'popliteal cyst', 'popliteal cysts'],
+    tendinosis: ['tendinosis', 'tendinopathy', 'tendon degeneration'],
+    tenosynovitis: ['tenosynovitis'],
+    degeneration: ['degeneration', 'degenerative', 'degenerative change', 'degenerative changes'],
+    chondrosis: ['chondromalacia', 'chondrosis', 'fissuring'],
+    dislocation: ['dislocation', 'dislocated'],
+    subluxation: ['subluxation'],
+    avulsion: ['avulsion'],
+    cyst: ['cyst', 'cysts'],
+    mass: ['mass', 'masses'],
+    lesion: ['lesion', 'lesions'],
+    nodule: ['nodule', 'nodules'],
+    adenoma: ['adenoma', 'adenomas'],
+    defect: ['defect'],
+    bursitis: ['bursitis', 'bursal fluid', 'bursal distension'],
+    synovitis: ['synovitis', 'synovial thickening'],
+    impingement: ['impingement'],
+    osteoarthritis: ['osteoarthritis', 'arthrosis'],
+    abnormality: ['abnormal', 'abnormality']
+  },
+  severity: {
+    trace: 1, minimal: 1, tiny: 1, minute: 1,
+    small: 2, mild: 2, slight: 2, mildly: 2,
+    moderate: 3, moderately: 3,
+    large: 4, severe: 4, severely: 4, marked: 4, extensive: 4, massive: 4
+  },
+  laterality: {
+    left: ['left'],
+    right: ['right'],
+    bilateral: ['bilateral', 'bilaterally']
+  },
+  negation: ['no', 'not', 'without', 'negative for', 'absent', 'free of', 'ruled out', 'resolved'],
+  normal: ['intact', 'normal', 'unremarkable', 'preserved', 'maintained'],
+  studyTypes: {
+    'MRI Ankle': [
+      // Basic anatomy
+      'ankle', 'talus', 'calcaneus', 'fibula', 'tibia', 'malleolus', 'posterior talus',
+      // Joints
+      'tibiotalar', 'tibiotalar joint', 'subtalar', 'subtalar joint', 'midfoot joints',
+      // Ligaments - comprehensive ankle ligament list
+      'anterior talofibular ligament', 'atfl', 'talofibular ligament', 'talofibular', 
+      'posterior talofibular ligament', 'ptfl', 'calcaneofibular ligament', 'cfl',
+      'tibiofibular ligament', 'syndesmosis', 'anterior tibiofibular ligament', 
+      'posterior tibiofibular ligament', 'interosseous ligament',
+      'deltoid ligament', 'deltoid', 'deltoid ligament superficial', 'deltoid ligament deep',
+      'spring ligament', 'bifurcate ligament',
+      // Tendons - medial
+      'posterior tibial tendon', 'flexor digitorum longus', 'flexor hallucis longus', 'fhl',
+      // Tendons - lateral
+      'peroneus longus', 'peroneus brevis', 'peroneal tendon', 'peroneus',
+      // Tendons - anterior
+      'anterior tibial tendon', 'extensor hallucis longus', 'ehl', 
+      'extensor digitorum longus',
+      // Tendons - posterior
+      'achilles tendon', 'achilles',
+      // Other structures
+      'plantar fascia', 'tarsal tunnel', 'sinus tarsi',
+      // Common conditions
+      'ankle sprain', 'lateral ankle sprain', 'medial ankle sprain', 'high ankle sprain',
+      'ankle instability', 'ankle impingement'
+    ],
+    'MRI Foot': [
+      'foot', 'forefoot', 'midfoot', 'hindfoot', 'rearfoot',
+      // Bones
+      'metatarsal', 'metatarsals', 'phalanx', 'phalanges', 'navicular', 'cuboid', 'cuneiform',
+      'tarsals', 'first ray', 'second ray', 'third ray', 'fourth ray', 'fifth ray',
+      // Toes and hallux
+      'toe', 'big toe', 'great toe', 'hallux', 'lesser toes',
+      'hallux-sesamoid complex', 'sesamoid',
+      // Joints
+      'metatarsophalangeal joint', 'mtp joint', '1st mtp', '2nd mtp', '3rd mtp', '4th mtp', '5th mtp',
+      // Ligaments and specific structures
+      'lisfranc ligament', 'lisfranc injury', 'lisfranc joint', 'chopart joint',
+      'plantar fascia', 'plantar plate',
+      // Neuromas
+      'morton neuroma', 'morton', 'interdigital neuroma',
+      // Tendons
+      'flexor tendons', 'extensor tendons', 'flexor tendons of toes', 'extensor tendons of toes',
+      // Common conditions
+      'hallux valgus', 'bunion', 'hammer toe', 'claw toe', 'mallet toe', 'jones fracture',
+      'rays'
+    ],
+    'MRI Knee': [
+      'knee', 'patella', 'patellar', 'femoral condyle', 'tibial plateau', 'intercondylar notch',
+      // Ligaments
+      'anterior cruciate ligament', 'acl', 'posterior cruciate ligament', 'pcl',
+      'medial collateral ligament', 'mcl', 'lateral collateral ligament', 'lcl', 'llc',
+      'cruciate', 'collateral ligament', 'patellar ligament', 'quadriceps tendon',
+      'patellar tendon', 'popliteus tendon', 'popliteofibular ligament',
+      // Meniscus
+      'meniscus', 'medial meniscus', 'lateral meniscus', 'meniscal tear', 'meniscal',
+      // Joints and cartilage
+      'proximal tibiofibular joint', 'trochlea cartilage', 'plica',
+      // Other structures
+      'baker cyst', 'popliteal', 'patellofemoral', 'chondromalacia', 'runner knee',
+      'jumper knee', 'iliotibial band', 'itb', 'pes anserine', 'hoffa fat pad',
+      'intercondylar', 'compartments'
+    ],
+    'MRI Hip': [
+      'hip', 'hip joint', 'femoral head', 'femoral neck', 'acetabulum', 'acetabular',
+      // Impingement and morphology
+      'femoroacetabular impingement', 'fai', 'cam lesion', 'pincer lesion', 
+      'cam impingement', 'pincer impingement', 'os acetabulare',
+      'dysplasia', 'acetabular retroversion', 'head-neck angle',
+      // Labrum and cartilage
+      'labrum', 'labral', 'labral tear', 'femoral cartilage', 'acetabular cartilage',
+      // Muscles and soft tissues
+      'capsule', 'gluteus maximus', 'hamstring origin', 'abductors', 'adductors',
+      'short external rotators', 'iliopsoas', 'psoas', 'gluteal', 'gluteus',
+      'piriformis', 'piriformis syndrome',
+      // Nerves and joints
+      'sciatic nerve', 'femoral nerve', 'sacroiliac joint', 'pubic symphysis',
+      // Trochanters and conditions
+      'trochanter', 'greater trochanter', 'lesser trochanter', 'trochanteric',
+      'trochanteric bursitis', 'fibrocystic lesion',
+      'hip dysplasia', 'avascular necrosis', 'avn', 'osteonecrosis', 'snapping hip'
+    ],
+    'MRI Shoulder': [
+      'shoulder', 'glenohumeral', 'glenohumeral joint', 'glenoid', 'humeral head',
+      // Rotator cuff
+      'rotator cuff', 'supraspinatus', 'infraspinatus', 'subscapularis', 'teres minor',
+      'rotator cuff tear', 'cuff tear', 'impingement', 'subacromial impingement',
+      // Labrum and ligaments
+      'labrum', 'labral', 'slap tear', 'bankart lesion', 'hill sachs lesion',
+      'glenohumeral ligaments',
+      // Acromion and AC joint
+      'acromion', 'subacromial spur', 'lateral downsloping', 'acromial arch',
+      'acromioclavicular', 'acromioclavicular joint', 'ac joint',
+      // Biceps and bursa
+      'biceps tendon', 'long head biceps', 'long head of biceps tendon', 'bicipital anchor',
+      'subacromial-subdeltoid bursa', 'subdeltoid bursa',
+      // Cartilage and other structures
+      'humeral head cartilage',
+      'frozen shoulder', 'adhesive capsulitis', 'shoulder instability', 'dislocation'
+    ],
+    'MRI Elbow': [
+      'elbow', 'elbow joint', 'humerus', 'radius', 'ulna',
+      // Epicondyles and prominences
+      'lateral epicondyle', 'medial epicondyle', 'olecranon', 'radial head',
+      // Ligaments
+      'ulnar collateral ligament', 'ucl', 'radial collateral ligament',
+      'lateral ulnar collateral ligament',
+      // Tendons
+      'common flexor tendon', 'common extensor tendon', 'triceps tendon',
+      'biceps tendon', 'brachialis',
+      // Joints and bursa
+      'radio-capitellar joint', 'ulno-humeral joint', 'proximal radioulnar joint',
+      'bicipitoradial bursa',
+      // Nerve and tunnel
+      'ulnar nerve', 'cubital tunnel', 'cubital tunnel syndrome',
+      // Common conditions
+      'tennis elbow', 'lateral epicondylitis', 'golfer elbow', 'medial epicondylitis',
+      'intra-articular bodies'
+    ],
+    'MRI Wrist': [
+      'wrist', 'wrist joint', 'radiocarpal', 'midcarpal',
+      // Joints
+      'distal radioulnar joint', 'druj', 'pisiform-triquetral joint', 
+      'scaphotrapezotrapezoidal joint', 'stt joint', 'thumb carpometacarpal joint',
+      // Carpal bones
+      'carpal', 'carpus', 'carpal bones', 'scaphoid', 'lunate', 'triquetrum', 'pisiform', 
+      'hamate', 'capitate', 'trapezoid', 'trapezium',
+      // Ligaments and TFCC
+      'tfcc', 'triangular fibrocartilage', 'triangular fibrocartilage complex',
+      'scapholunate ligament', 'lunotriquetral ligament',
+      // Compartments and tendons
+      'extensor compartments', 'extensor compartment i', 'extensor compartment ii',
+      'extensor compartment iii', 'extensor compartment iv', 'extensor compartment v',
+      'extensor compartment vi', 'flexor tendons', 'flexor retinaculum',
+      // Tunnels and nerves
+      'carpal tunnel', 'carpal tunnel syndrome', 'median nerve',
+      'guyon canal',
+      // Conditions
+      'de quervain', 'kienbock disease', 'scaphoid fracture'
+    ],
+    'MRI Hand': [
+      'hand', 'finger', 'thumb', 'digits',
+      'metacarpal', 'phalanges', 'phalanx', 'proximal phalanx', 'middle phalanx', 'distal phalanx',
+      'mcp joint', 'pip joint', 'dip joint', 'metacarpophalangeal', 'interphalangeal',
+      'flexor tendon', 'extensor tendon', 'trigger finger', 'trigger thumb',
+      'mallet finger', 'swan neck deformity', 'boutonniere deformity',
+      'dupuytren contracture', 'ganglion cyst'
+    ],
+    'MRI Cervical Spine': [
+      'cervical', 'cervical spine', 'c-spine', 'c spine', 'neck',
+      'c1', 'c2', 'c3', 'c4', 'c5', 'c6', 'c7', 'atlas', 'axis',
+      'cervical disc', 'cervical stenosis', 'cervical radiculopathy', 'cervical myelopathy',
+      'neck pain', 'whiplash', 'torticollis', 'cervical spondylosis'
+    ],
+    'MRI Thoracic Spine': [
+      'thoracic', 'thoracic spine', 't-spine', 't spine', 'mid back', 'middle back',
+      't1', 't2', 't3', 't4', 't5', 't6', 't7', 't8', 't9', 't10', 't11', 't12',
+      'thoracic disc', 'thoracic stenosis', 'thoracic radiculopathy',
+      'thoracolumbar', 'kyphosis', 'thoracic kyphosis'
+    ],
+    'MRI Lumbar Spine': [
+      'lumbar', 'lumbar spine', 'l-spine', 'l spine', 'lower back', 'low back',
+      'l1', 'l2', 'l3', 'l4', 'l5', 's1', 'lumbosacral',
+      'lumbar disc', 'disc herniation', 'herniated disc', 'bulging disc', 'disc protrusion',
+      'lumbar stenosis', 'spinal stenosis', 'canal stenosis', 'foraminal stenosis',
+      'sciatica', 'radiculopathy', 'nerve root', 'nerve root compression',
+      'facet joint', 'facet arthropathy', 'spondylolisthesis', 'spondylolysis',
+      'lumbar spondylosis', 'degenerative disc disease', 'ddd'
+    ],
+    'MRI Total Spine': ['total spine', 'whole spine', 'entire spine', 'full spine', 'complete spine'],
+    'CT Abdomen Pelvis': [
+      // Liver and biliary
+      'liver', 'hepatic', 'biliary', 'intrahepatic ductal dilatation',
+      'gallbladder', 'gallstones', 'common bile duct',
+      // Other organs
+      'spleen', 'splenic',
+      'pancreas', 'peripancreatic',
+      'adrenal glands',
+      // Genitourinary
+      'kidneys', 'renal', 'ureters', 'hydronephrosis', 'nephrolithiasis',
+      'bladder',
+      // GI tract
+      'bowel', 'small bowel', 'large bowel', 'obstruction',
+      // Vascular
+      'abdominal aorta', 'aneurysm', 'dissection',
+      // Other structures
+      'retroperitoneum', 'lymph nodes', 'lymphadenopathy',
+      // Lung bases
+      'lungs (bases)', 'consolidation', 'effusion', 'nodule',
+      // Legacy keywords
+      'abdomen', 'pelvis', 'appendix', 'ovary', 'uterus', 'prostate', 'colon', 'intestine'
+    ],
+    'CT Chest': [
+      // Lungs and airways
+      'lungs', 'pulmonary', 'airways', 'consolidation', 'pneumothorax',
+      'pulmonary nodule', 'bronchial obstruction', 'endobronchial lesion',
+      // Pleura and chest wall
+      'pleural effusion', 'pleura', 'chest wall',
+      // Heart and vessels
+      'heart', 'great vessels', 'aorta', 'dissection', 'aneurysm', 'pulmonary embolism',
+      // Mediastinum
+      'mediastinum', 'hilar lymph nodes', 'mediastinal lymphadenopathy',
+      // Other
+      'upper abdomen (visualized)',
+      'fracture', 'dislocation', 'aggressive osseous lesion',
+      'subcutaneous tissues',
+      // Legacy keywords
+      'chest', 'lung', 'pleural', 'thorax', 'bronchi', 'pneumonia', 'nodule', 'embolism'
+    ],
+    'CT Head': [
+      // Brain parenchyma
+      'brain parenchyma', 'hemorrhage', 'intracranial hemorrhage',
+      // Mass effect and anatomy
+      'mass effect', 'herniation', 'gray-white differentiation',
+      // Ventricles and fluid
+      'white matter', 'ventricles', 'extra-axial', 'hydrocephalus', 'fluid collections',
+      // Extracranial
+      'extracranial structures', 'fracture', 'paranasal sinuses', 'mastoids',
+      // Pathology
+      'large territorial infarct',
+      // Legacy keywords
+      'head', 'brain', 'skull', 'intracranial', 'stroke', 'subdural', 'subarachnoid', 'ventricle', 'sinuses'
+    ],
+    'CT Pulmonary Embolism': [
+      // Main distinguishing features
+      'pulmonary arteries', 'main pulmonary artery', 'pulmonary embolism', 'pe',
+      // Lung findings
+      'lungs', 'consolidation', 'pneumothorax', 'pulmonary nodule',
+      'bronchial obstruction', 'endobronchial lesion',
+      // Pleura and chest wall
+      'pleural effusion', 'pleura', 'chest wall',
+      // Heart and vessels
+      'heart', 'aorta', 'dissection', 'aneurysm',
+      // Mediastinum
+      'mediastinum', 'hilar lymph nodes',
+      // Other
+      'upper abdomen (visualized)',
+      'fracture', 'dislocation', 'aggressive osseous lesion',
+      'subcutaneous tissues',
+      // Legacy keywords
+      'pe protocol', 'pulmonary artery', 'embolus', 'thrombosis', 'ctpa'
+    ],
+    'DEXA': ['dexa', 'bone density', 'osteoporosis', 'osteopenia', 't-score', 'z-score', 'bmd', 'fracture risk'],
+    'MRI Generic': ['mri', 'magnetic resonance'],
+    'CT Generic': ['ct', 'computed tomography', 'cat scan'],
+    'MSK MRI Generic': [
+      // Common findings
+      'fracture', 'traumatic malalignment', 'bone marrow edema', 'marrow signal',
+      'osteoarthritis', 'joint effusion',
+      // Anatomical structures
+      'ligaments', 'tendons', 'muscles', 'atrophy', 'muscle atrophy',
+      'neurovascular structures', 'neurovascular structures intact',
+      'subcutaneous tissues', 'soft tissues',
+      // Common descriptors
+      'unremarkable'
+    ]
+  }
+}
+
+/**
+ * A copy of a lexicon with extra terms; entries for an existing key add to its terms
+ */
+export function extendLexicon(base: RadiologyLexicon, additions: Partial<RadiologyLexicon>): RadiologyLexicon {
+  const mergeTerms = <K extends string>(a: Record<K, string[]>, b: Partial<Record<K, string[]>> = {}) => {
+    const merged = { ...a }
+    for (const [key, terms] of Object.entries(b) as Array<[K, string[]]>) {
+      merged[key] = [...new Set([...(merged[key] || []), ...terms])]
+    }
+    return merged
+  }
+
+  const anatomy = base.anatomy.map(entry => ({ ...entry, terms: [...entry.terms] }))
+  for (const entry of additions.anatomy || []) {
+    const existing = anatomy.find(candidate => candidate.key === entry.key)
+    if (existing) existing.terms = [...new Set([...existing.terms, ...entry.terms])]
+    else anatomy.push({ ...entry })
+  }
+
+  return {
+    anatomy,
+    pathology: mergeTerms(base.pathology, additions.pathology),
+    severity: { ...base.severity, ...additions.severity },
+    laterality: mergeTerms(base.laterality, additions.laterality),
+    negation: [...new Set([...base.negation, ...(additions.negation || [])])],
+    normal: [...new Set([...base.normal, ...(additions.normal || [])])],
+    studyTypes: mergeTerms(base.studyTypes, additions.studyTypes)
+  }
+}
@@ -0,0 +1,273 @@
+import { ExtractedFinding, extractFindings } from './conceptExtraction'
+import { extractMeasurements } from './measurements'
+import { splitSentences } from './provenance'
+
+/**
+ * Deterministic follow-up recommendations for incidental findings.
+ * Findings are read with the concept extractor, sized from their measurements and run through
+ * guideline tables (Fleischner pulmonary nodules, ACR incidental adrenal, renal and thyroid findings).
+ * Each recommendation is the exact impression text, citing the guideline and its version;
+ * checkRecommendations flags impression recommendations that disagree with it.
+ */
+
+export interface PatientContext {
+  age?: number
+  // Fleischner high risk: smoking history, family history of lung cancer, other exposures
+  highRisk?: boolean
+  // Known malignancy; Fleischner does not apply and adrenal masses are worked up differently
+  cancerHistory?: boolean
+}
+
+export interface FollowUpRecommendation {
+  guideline: string
+  // Guideline name and version, e.g. "Fleischner Society 2017"
+  citation: string
+  // Findings sentence the recommendation is for
+  finding: string
+  // Structure the finding is in, e.g. "lung"
+  anatomy: string
+  sizeMm?: number
+  // What to do, e.g. "CT at 6-12 months, then consider CT at 18-24 months"
+  action: string
+  followUp: boolean
+  // Exact impression text
+  text: string
+}
+
+export interface RecommendationCheck {
+  violations: string[]
+  warnings: string[]
+}
+
+interface GuidelineInput {
+  finding: ExtractedFinding
+  sentence: string
+  sizeMm?: number
+  patient: PatientContext
+}
+
+interface GuidelineAdvice {
+  label: string
+  action: string
+  followUp: boolean
+}
+
+interface Guideline {
+  id: string
+  citation: string
+  anatomy: string
+  pathologies: string[]
+  recommend: (input: GuidelineInput) => GuidelineAdvice | null
+}
+
+export const RECOMMENDATION_PREFIX = 'FOLLOW-UP RECOMMENDATION:'
+
+const NO_FOLLOW_UP = 'No follow-up imaging is recommended'
+
+// Two actions for when the deciding patient detail is unknown
+const either = (first: string, firstWhen: string, second: string, secondWhen: string) =>
+  first === second ? first : `${first} if ${firstWhen}; ${second} if ${secondWhen}`
+
+const sizeLabel = (sizeMm: number) => `${sizeMm} mm`
+
+const side = (finding: ExtractedFinding) =>
+  finding.laterality && finding.laterality !== 'bilateral' ? `${finding.laterality.charAt(0).toUpperCase()}${finding.laterality.slice(1)} ` : ''
+
+/**
+ * Fleischner Society 2017, incidental pulmonary nodules in adults 35 and older
+ */
+function fleischner({ sentence, sizeMm, patient }: GuidelineInput): GuidelineAdvice | null {
+  if (sizeMm === undefined || patient.cancerHistory || (patient.age !== undefined && patient.age < 35)) return null
+
+  const multiple = /\b(?:nodules|multiple|several|numerous)\b/i.test(sentence)
+  const type = /\bpart[- ]?solid\b/i.test(sentence) ? 'part-solid'
+    : /\b(?:ground[- ]?glass|non-?solid|subsolid)\b/i.test(sentence) ? 'ground-glass'
+    : 'solid'
+  const label = `${type === 'solid' ? 'Solid' : type === 'part-solid' ? 'Part-solid' : 'Ground-glass'} pulmonary nodule${multiple ? 's' : ''} (${sizeLabel(sizeMm)})`
+
+  if (type !== 'solid') {
+    // Multiple subsolid nodules are managed together, whatever their type
+    if (multiple) {
+      return sizeMm < 6
+        ? { label, action: 'CT at 3-6 months; if stable, consider CT at 2 and 4 years', followUp: true }
+        : { label, action: 'CT at 3-6 months; subsequent management based on the most suspicious nodule(s)', followUp: true }
+    }
+    if (sizeMm < 6) return { label, action: NO_FOLLOW_UP, followUp: false }
+    return type === 'ground-glass'
+      ? { label, action: 'CT at 6-12 months to confirm persistence, then CT every 2 years until 5 years', followUp: true }
+      : { label, action: 'CT at 3-6 months to confirm persistence; if unchanged and the solid component remains under 6 mm, annual CT for 5 years', followUp: true }
+  }
+
+  const byRisk = (low: string, high: string) =>
+    patient.highRisk === undefined ? either(low, 'low risk', high, 'high risk') : patient.highRisk ? high : low
+
+  if (sizeMm < 6) {
+    const action = byRisk(NO_FOLLOW_UP, 'Optional CT at 12 months')
+    return { label, action, followUp: action !== NO_FOLLOW_UP }
+  }
+  if (sizeMm <= 8) {
+    return multiple
+      ? { label, action: byRisk('CT at 3-6 months, then consider CT at 18-24 months', 'CT at 3-6 months, then CT at 18-24 months'), followUp: true }
+      : { label, action: byRisk('CT at 6-12 months, then consider CT at 18-24 months', 'CT at 6-12 months, then CT at 18-24 months'), followUp: true }
+  }
+  return multiple
+    ? { label, action: 'CT at 3-6 months, then consider CT at 18-24 months', followUp: true }
+    : { label, action: 'Consider CT at 3 months, PET/CT or tissue sampling', followUp: true }
+}
+
+/**
+ * ACR Incidental Findings Committee white paper on adrenal masses (2017)
+ */
+function acrAdrenal({ finding, sentence, sizeMm, patient }: GuidelineInput): GuidelineAdvice | null {
+  if (sizeMm === undefined) return null
+  const label = `${side(finding)}adrenal nodule (${sizeLabel(sizeMm)})`
+  const attenuation = extractMeasurements(sentence).find(measurement => measurement.unit === 'hu')?.values[0]
+  const benign = (attenuation !== undefined && attenuation <= 10) || /\b(?:macroscopic fat|myelolipoma)\b/i.test(sentence)
+
+  if (sizeMm < 10 || benign) return { label, action: NO_FOLLOW_UP, followUp: false }
+  if (sizeMm < 40) return { label, action: 'Adrenal protocol CT or chemical-shift MRI', followUp: true }
+  const action = patient.cancerHistory === undefined
+    ? either('Consider resection', 'there is no history of cancer', 'PET/CT or biopsy', 'there is a history of cancer')
+    : patient.cancerHistory ? 'PET/CT or biopsy' : 'Consider resection'
+  return { label, action, followUp: true }
+}
+
+/**
+ * ACR Incidental Findings Committee white paper on renal masses (2018)
+ */
+function acrRenal({ finding, sentence, sizeMm }: GuidelineInput): GuidelineAdvice | null {
+  const complex = /\b(?:complex|septat\w*|enhanc\w*|solid|nodular|thick\w*)\b/i.test(sentence)
+  const cyst = finding.pathology === 'cyst'
+  const label = `${side(finding)}renal ${cyst ? 'cyst' : 'mass'}${sizeMm !== undefined ? ` (${sizeLabel(sizeMm)})` : ''}`
+
+  if (cyst && !complex) return { label, action: NO_FOLLOW_UP, followUp: false }
+  if (sizeMm === undefined) return null
+  if (sizeMm < 10) return { label, action: 'Renal mass protocol CT or MRI in 6-12 months', followUp: true }
+  return { label, action: 'Renal mass protocol CT or MRI', followUp: true }
+}
+
+/**
+ * ACR Incidental Findings Committee white paper on thyroid nodules seen on CT or MRI (2015)
+ */
+function acrThyroid({ finding, sentence, sizeMm, patient }: GuidelineInput): GuidelineAdvice | null {
+  if (sizeMm === undefined) return null
+  const label = `${side(finding)}thyroid nodule (${sizeLabel(sizeMm)})`
+  const ultrasound = 'Thyroid ultrasound'
+
+  if (/\b(?:invasi\w*|abnormal lymph nodes?|suspicious lymph nodes?)\b/i.test(sentence)) return { label, action: ultrasound, followUp: true }
+  const threshold = (age: number) => (age < 35 ? 10 : 15)
+  if (patient.age === undefined && sizeMm >= 10 && sizeMm < 15) {
+    return { label, action: either(ultrasound, 'under 35', NO_FOLLOW_UP, '35 or older'), followUp: true }
+  }
+  return sizeMm >= threshold(patient.age ?? 35)
+    ? { label, action: ultrasound, followUp: true }
+    : { label, action: NO_FOLLOW_UP, followUp: false }
+}
+
+const GUIDELINES: Guideline[] = [
+  { id: 'fleischner', citation: 'Fleischner Society 2017', anatomy: 'lung', pathologies: ['nodule'], recommend: fleischner },
+  { id: 'acr-adrenal', citation: 'ACR Incidental Findings 2017', anatomy: 'adrenal gland', pathologies: ['nodule', 'mass', 'adenoma', 'lesion'], recommend: acrAdrenal },
+  { id: 'acr-renal', citation: 'ACR Incidental Findings 2018', anatomy: 'kidney', pathologies: ['mass', 'lesion', 'nodule', 'cyst'], recommend: acrRenal },
+  { id: 'acr-thyroid', citation: 'ACR Incidental Findings 2015', anatomy: 'thyroid', pathologies: ['nodule'], recommend: acrThyroid }
+]
+
+/**
+ * Size in millimeters; Fleischner uses the mean of long and short axis, the others the long axis
+ */
+function sizeOf(sentence: string, guideline: Guideline): number | undefined {
+  const measurement = extractMeasurements(sentence).find(candidate => candidate.unit === 'mm' || candidate.unit === 'cm')
+  if (!measurement) return undefined
+  const values = measurement.values.map(value => (measurement.unit === 'cm' ? value * 10 : value))
+  const size = guideline.id === 'fleischner'
+    ? (values[0] + (values[1] ?? values[0])) / 2
+    : Math.max(...values)
+  return Math.round(size)
+}
+
+/**
+ * Guideline recommendations for the incidental findings in a findings text
+ */
+export function recommendFollowUp(findings: string, patient: PatientContext = {}): FollowUpRecommendation[] {
+  const recommendations: FollowUpRecommendation[] = []
+
+  for (const finding of extractFindings(findings)) {
+    if (finding.status !== 'present' || !finding.anatomy || !finding.pathology) continue
+    const guideline = GUIDELINES.find(candidate => candidate.anatomy === finding.anatomy && candidate.pathologies.includes(finding.pathology!))
+    if (!guideline) continue
+    // One recommendation per findings sentence
+    if (recommendations.some(existing => existing.finding === finding.text && existing.guideline === guideline.id)) continue
+
+    const sizeMm = sizeOf(finding.text, guideline)
+    const advice = guideline.recommend({ finding, sentence: finding.text, sizeMm, patient })
+    if (!advice) continue
+    recommendations.push({
+      guideline: guideline.id,
+      citation: guideline.citation,
+      finding: finding.text,
+      anatomy: guideline.anatomy,
+      ...(sizeMm !== undefined ? { sizeMm } : {}),
+      action: advice.action,
+      followUp: advice.followUp,
+      text: `${advice.label.charAt(0).toUpperCase()}${advice.label.slice(1)}: ${advice.action} (${guideline.citation}).`
+    })
+  }
+
+  return recommendations
+}
+
+// Intervals as [min, max] months, e.g. "6-12 months" -> [6, 12], "2 years" -> [24, 24]
+function intervalsOf(text: string): Array<[number, number]> {
+  return [...text.matchAll(/(\d+)(?:\s*(?:-|–|to)\s*(\d+))?\s*(months?|years?)/gi)].map(match => {
+    const scale = /^year/i.test(match[3]) ? 12 : 1
+    return [Number(match[1]) * scale, Number(match[2] ?? match[1]) * scale]
+  })
+}
+
+// Modality names alone ("seen on CT") don't make a sentence a recommendation
+const RECOMMENDS = /\b(?:recommend\w*|follow-?up|consider|suggest\w*|advise\w*|warrant\w*|further evaluation|biopsy|resection|sampling)\b/i
+const DECLINES = /\b(?:no (?:further |routine |additional )?(?:follow-?up|imaging|evaluation|workup)|not (?:recommended|needed|required|necessary))\b/i
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim()
+
+/**
+ * Compares the recommendations written in an impression with the guideline recommendations
+ */
+export function checkRecommendations(impression: string, recommendations: FollowUpRecommendation[]): RecommendationCheck {
+  const violations: string[] = []
+  const warnings: string[] = []
+  const impressionItems = impression.split('\n').filter(line => line.trim())
+
+  for (const recommendation of recommendations) {
+    if (normalize(impression).includes(normalize(recommendation.text))) continue
+    if (normalize(impression).includes(normalize(recommendation.action))) continue
+
+    // Recommendation sentences in the impression items about the same structure
+    const written = impressionItems
+      .filter(item => extractFindings(item).some(finding => finding.anatomy === recommendation.anatomy))
+      .flatMap(item => splitSentences(item).map(sentence => sentence.text))
+      .filter(sentence => RECOMMENDS.test(sentence) || DECLINES.test(sentence) || intervalsOf(sentence).length > 0)
+
+    if (written.length === 0) {
+      if (recommendation.followUp) {
+        warnings.push(`${RECOMMENDATION_PREFIX} No recommendation given for "${recommendation.finding}"; ${recommendation.citation} recommends: ${recommendation.action}.`)
+      }
+      continue
+    }
+
+    const expected = intervalsOf(recommendation.action)
+    // Declining is fine when some branch of the guideline needs nothing, or imaging is optional
+    const allowsNone = !recommendation.followUp || recommendation.action.includes(NO_FOLLOW_UP) || /\boptional\b/i.test(recommendation.action)
+    for (const sentence of written) {
+      const declines = DECLINES.test(sentence)
+      const stated = intervalsOf(sentence)
+      const disagrees = declines
+        ? !allowsNone
+        : !recommendation.followUp || stated.some(([min, max]) => !expected.some(([low, high]) => min >= low && max <= high))
+      if (disagrees) {
+        violations.push(`${RECOMMENDATION_PREFIX} Impression says "${sentence}" but ${recommendation.citation} recommends: ${recommendation.action}.`)
+      }
+    }
+  }
+
+  return { violations, warnings }
+}
@@ -0,0 +1,1012 @@
+import { AgentLogic } from './types'
+import { LogicSchemaNode, getLogicSchemaNode } from './logicSchema'
+import { ReportProvenance, traceReportProvenance } from './provenance'
+import { evaluateCustomValidations } from './customValidations'
+import { ExclusionRule, ImpressionRemoval, applyExclusions, describeExclusion, parseExclusionRules, parseLegacyExclusions } from './exclusions'
+import { PatientContext, checkRecommendations, recommendFollowUp } from './recommendations'
+import { checkScoringCategories, getScoringCalculator, scoreFindings } from './scoring'
+import { ExamContext, INTERVAL_CHANGE, mentionsDate, toPatientContext } from './examContext'
+import { extractFindings } from './conceptExtraction'
+import { alignPriorReport, checkIntervalChanges } from './priorReport'
+
+/**
+ * Rule registry: one entry per agent_logic key that shapes generation.
+ * Each rule names its logic path (and so its schema node), the instruction it contributes to
+ * each prompt builder, the validator that checks generated output against it and an optional
+ * impression post-processor. The prompt builders, validateRules and postProcessImpression are
+ * all driven from RULE_REGISTRY, so a rule is prompted and enforced the same way everywhere.
+ */
+
+export type PromptTarget = 'report' | 'enhancedReport' | 'impression' | 'enhancedImpression'
+
+// Enhanced builders group instructions by tier; the plain builders list them in registry order
+export type InstructionTier = 'critical' | 'formatting' | 'content'
+
+export interface PromptLine {
+  tier: InstructionTier
+  text: string
+}
+
+// What a prompt builder knows about the case besides its logic
+export interface PromptContext {
+  findings?: string
+  template?: string
+  patient?: PatientContext
+  exam?: ExamContext
+}
+
+export type PromptRenderer = (value: any, logic: AgentLogic, context: PromptContext) => PromptLine[]
+
+export interface RuleValidationContext {
+  report: string
+  findings: string
+  logic: AgentLogic
+  // Impression text, and the units exclusions are checked against (structured items, or the whole impression)
+  impressionText: string
+  impressionUnits: string[]
+  // Set when the impression came back as structured items, which are numbered on render
+  impressionItems?: string[]
+  template?: string
+  patient?: PatientContext
+  exam?: ExamContext
+}
+
+export interface RuleCheckResult {
+  violations?: string[]
+  warnings?: string[]
+  provenance?: ReportProvenance
+  // Text the rule put in the prompt verbatim; its numbers are not counted as invented by the measurement check
+  trustedText?: string[]
+}
+
+export interface RuleDefinition {
+  // Dotted logic path, e.g. "impression.numerically_itemized"
+  id: string
+  path: string[]
+  schema: LogicSchemaNode
+  prompts: Partial<Record<PromptTarget, PromptRenderer>>
+  // Values the renderers act on, for text keys that behave like enums
+  values?: readonly string[]
+  // Called only when the rule's value is set (not undefined, false or an empty list)
+  validate?: (value: any, context: RuleValidationContext) => RuleCheckResult | void
+  // Applied to generated impressions before validation; records what it removed in removed
+  postProcess?: (text: string, value: any, logic: AgentLogic, removed: ImpressionRemoval[]) => string
+}
+
+export const critical = (...texts: string[]): PromptLine[] => texts.map(text => ({ tier: 'critical', text }))
+export const formatting = (...texts: string[]): PromptLine[] => texts.map(text => ({ tier: 'formatting', text }))
+export const content = (...texts: string[]): PromptLine[] => texts.map(text => ({ tier: 'content', text }))
+
+type RuleOptions = Omit<RuleDefinition, 'id' | 'path' | 'schema' | 'prompts'> & {
+  prompts: Partial<Record<PromptTarget, PromptRenderer | string | PromptLine[]>>
+}
+
+function defineRule(id: string, { prompts, ...rest }: RuleOptions): RuleDefinition {
+  const path = id.split('.')
+  const schema = getLogicSchemaNode(path)
+  if (!schema) {
+    throw new Error(`Rule ${id} is not in the agent_logic schema`)
+  }
+
+  // A plain string or fixed lines are emitted whenever the flag is on
+  const renderers: Partial<Record<PromptTarget, PromptRenderer>> = {}
+  for (const [target, prompt] of Object.entries(prompts) as Array<[PromptTarget, PromptRenderer | string | PromptLine[]]>) {
+    renderers[target] = typeof prompt === 'function'
+      ? prompt
+      : (value: any) => (value ? (typeof prompt === 'string' ? content(prompt) : prompt) : [])
+  }
+
+  return { id, path, schema, prompts: renderers, ...rest }
+}
+
+export function getLogicValue(logic: AgentLogic | undefined, path: string[]): any {
+  let current: any = logic
+  for (const key of path) {
+    if (!current || typeof current !== 'object') return undefined
+    current = current[key]
+  }
+  return current
+}
+
+export function isRuleValueSet(value: unknown): boolean {
+  if (value === undefined || value === null || value === false || value === '') return false
+  if (Array.isArray(value)) return value.length > 0
+  return true
+}
+
+function asList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.filter((item): item is string => typeof item === 'string')
+  return typeof value === 'string' && value ? [value] : []
+}
+
+function readable(item: string): string {
+  return item.replace(/_/g, ' ').toLowerCase()
+}
+
+const ATROPHY_LEVELS: Record<string, string[]> = {
+  // Severity words that must not appear with muscle atrophy under each threshold
+  moderate_or_severe: ['mild'],
+  severe: ['mild', 'moderate'],
+  never: []
+}
+
+function mentionsMuscleAtrophy(text: string): boolean {
+  const lower = text.toLowerCase()
+  return lower.includes('muscle') && (lower.includes('atrophy') || lower.includes('atrophic'))
+}
+
+function atrophyBelowThreshold(text: string, threshold: string): boolean {
+  if (!(threshold in ATROPHY_LEVELS) || !mentionsMuscleAtrophy(text)) return false
+  if (threshold === 'never') return true
+  const lower = text.toLowerCase()
+  return ATROPHY_LEVELS[threshold].some(level => lower.includes(level))
+}
+
+// Acronyms the expand_acronyms_to_full_terms rules check for
+const ACRONYMS: Record<string, string> = {
+  ACL: 'anterior cruciate ligament',
+  PCL: 'posterior cruciate ligament',
+  MCL: 'medial collateral ligament',
+  LCL: 'lateral collateral ligament',
+  MPFL: 'medial patellofemoral ligament',
+  ATFL: 'anterior talofibular ligament',
+  TFCC: 'triangular fibrocartilage complex'
+}
+
+function unexpandedAcronyms(text: string): string[] {
+  const lower = text.toLowerCase()
+  return Object.entries(ACRONYMS)
+    .filter(([acronym, expansion]) => new RegExp(`\\b${acronym}\\b`).test(text) && !lower.includes(expansion))
+    .map(([acronym]) => acronym)
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+/**
+ * Guideline recommendations for the findings, as lines asking for them verbatim
+ */
+// Explicit patient details win over those read from the exam context
+function guidelineRecommendationLines({ findings, patient, exam }: PromptContext, tier: (...texts: string[]) => PromptLine[]): PromptLine[] {
+  const recommendations = findings ? recommendFollowUp(findings, patient ?? toPatientContext(exam)) : []
+  if (recommendations.length === 0) return []
+  return tier(
+    'FOLLOW-UP RECOMMENDATIONS: Include each of these guideline recommendations in the impression exactly as written:',
+    ...recommendations.map(recommendation => `- ${recommendation.text}`)
+  )
+}
+
+function indicationLines(exam: ExamContext | undefined): string[] {
+  return exam?.indication?.trim() ? [`The clinical indication is: ${exam.indication.trim()}`] : []
+}
+
+/**
+ * Prior report findings aligned with the current findings, as lines asking for each change verbatim
+ */
+function intervalChangeLines({ findings, template, exam }: PromptContext, tier: (...texts: string[]) => PromptLine[]): PromptLine[] {
+  const changes = findings && exam?.priorReport?.trim() ? alignPriorReport(findings, exam.priorReport, template, exam.comparisonDate) : []
+  if (changes.length === 0) return []
+  return tier(
+    'INTERVAL CHANGE: Compared with the prior report, describe these changes in the findings and impression exactly as stated:',
+    ...changes.map(change => `- ${change.text}`)
+  )
+}
+
+function symptomLines(exam: ExamContext | undefined): string[] {
+  return exam?.indication?.trim() || exam?.history?.trim() ? ['The symptoms and relevant history are listed under CLINICAL CONTEXT.'] : []
+}
+
+const INDICATION_STOPWORDS = new Set(['evaluate', 'evaluation', 'assess', 'rule', 'history', 'status', 'post', 'with', 'without', 'right', 'left', 'patient', 'concern', 'question', 'possible', 'suspected'])
+
+// Shared structures or findings, or failing that a shared significant word ("pain" and "painful")
+function addressesIndication(item: string, indication: string): boolean {
+  const concepts = (text: string) => new Set(extractFindings(text).flatMap(finding => [finding.anatomy, finding.pathology]).filter(Boolean))
+  const itemConcepts = concepts(item)
+  if ([...concepts(indication)].some(concept => itemConcepts.has(concept))) return true
+  const stems = (text: string) => new Set((text.toLowerCase().match(/[a-z]{4,}/g) || []).filter(word => !INDICATION_STOPWORDS.has(word)).map(word => word.slice(0, 5)))
+  const itemStems = stems(item)
+  return [...stems(indication)].some(stem => itemStems.has(stem))
+}
+
+function scoringLines(systems: unknown, findings: string | undefined, tier: (...texts: string[]) => PromptLine[]): PromptLine[] {
+  const ids = asList(systems)
+  const names = ids.map(id => getScoringCalculator(id)?.name).filter(Boolean)
+  if (names.length === 0) return []
+  const results = findings ? scoreFindings(findings, ids) : []
+  return [
+    ...content(`Only assign ${names.join(', ')} categories stated in the findings or given by the calculator results below; never assign them from memory.`),
+    ...(results.length > 0 ? tier(
+      'SCORING: Include each of these calculator results in the impression exactly as written:',
+      ...results.map(result => `- ${result.text}`)
+    ) : [])
+  ]
+}
+
+/**
+ * Runs exclusion rules over the postProcess text, adding their removals to the log
+ */
+function pruneExclusions(text: string, rules: ExclusionRule[], removed: ImpressionRemoval[]): string {
+  const result = applyExclusions(text, rules)
+  removed.push(...result.removed)
+  return result.text
+}
+
+export const RULE_REGISTRY: RuleDefinition[] = [
+  // Impression rules come first; the enhanced builders treat them as the highest priority
+  defineRule('impression.numerically_itemized', {
+    prompts: {
+      report: value => value ? content('IMPRESSION FORMAT: Write the impression section as a numbered list (1, 2, 3, etc.).') : [],
+      enhancedReport: (value, logic) => {
+        if (!logic.impression) return []
+        if (value) {
+          return critical(
+            'IMPRESSION FORMATTING: The impression section MUST be formatted as a numbered list (1, 2, 3, etc.). This is non-negotiable.',
+            'IMPRESSION SPACING: Separate each numbered item with a double line break.'
+          )
+        }
+        if (logic.formatting?.use_bullet_points) {
+          return critical(
+            'IMPRESSION FORMATTING: The impression section MUST be formatted as a bullet point list using • symbols.',
+            'IMPRESSION SPACING: Separate each bullet point with a double line break.',
+            'BULLET FORMAT: Start each item with "• " followed by the diagnosis/finding.'
+          )
+        }
+        return formatting('IMPRESSION SPACING: Write the impression as separate statements, each separated by a double line break.')
+      },
+      impression: value => value ? content('Write the impression as a numbered list.') : [],
+      enhancedImpression: (value, logic) => {
+        if (!logic.impression) return []
+        if (value) {
+          return critical(
+            'IMPRESSION FORMAT: Write the impression as a numbered list (1, 2, 3, etc.).',
+            'SPACING: Separate each numbered item with a double line break.'
+          )
+        }
+        if (logic.formatting?.use_bullet_points) {
+          return critical(
+            'IMPRESSION FORMAT: Write the impression as a bullet point list using • symbols.',
+            'SPACING: Separate each bullet point with a double line break.',
+            'BULLET FORMAT: Start each item with "• " followed by the diagnosis/finding.'
+          )
+        }
+        return formatting('Write the impression as separate statements, each separated by a double line break.')
+      }
+    },
+    validate: (_value, { impressionText, impressionItems }) => {
+      // Structured items are numbered when rendered
+      if (impressionItems) return
+      const hasNumberedList = /^\s*\d+\./.test(impressionText) || /\n\s*\d+\./.test(impressionText)
+      if (!hasNumberedList) {
+        return { violations: ['IMPRESSION FORMATTING: Report should use numbered list format (1, 2, 3, etc.) but does not.'] }
+      }
+    }
+  }),
+
+  defineRule('impression.exclude_by_default', {
+    prompts: {
+      report: value => {
+        const list = asList(value)
+        if (list.length === 0) return []
+        return content(`Do not include the following EXACT phrases unless clinically relevant: ${list.join(', ')}. Note: Only exclude the EXACT phrases listed - similar but different findings should still be included.`)
+      },
+      enhancedReport: value => {
+        const exclusions = asList(value).map(readable)
+        if (exclusions.length === 0) return []
+        return critical(
+          '════════════════════════════════════════════',
+          '⚠️ MANDATORY EXCLUSION RULES FOR IMPRESSION:',
+          ...exclusions.map(exclusion => `❌ DO NOT include "${exclusion}" in the impression section`),
+          ...(exclusions.some(e => e.includes('baker')) ? ['❌ SPECIFICALLY: Never mention "Small Baker\'s cyst" or any small Baker cyst in the impression'] : []),
+          '════════════════════════════════════════════',
+          'These exclusions are MANDATORY unless causing active symptoms.'
+        )
+      },
+      impression: value => {
+        const list = asList(value)
+        if (list.length === 0) return []
+        return content(`Do not include the following EXACT phrases unless clinically relevant: ${list.join(', ')}. Note: Only exclude the EXACT phrases listed - similar but different findings should still be included.`)
+      },
+      enhancedImpression: value => {
+        const exclusions = asList(value).map(readable)
+        if (exclusions.length === 0) return []
+        return critical(
+          '═══════════════════════════════════════════',
+          '⚠️ STRICT EXCLUSION RULES - MUST FOLLOW:',
+          '═══════════════════════════════════════════',
+          ...exclusions.map(exclusion => `❌ EXCLUDE: "${exclusion}" - Do NOT mention this in the impression`),
+          ...(exclusions.some(e => e.includes('baker')) ? ['❌ SPECIFICALLY: Do NOT mention "Small Baker\'s cyst" or "Small Baker cyst" or any variation'] : []),
+          ...(exclusions.some(e => e.includes('effusion')) ? ['❌ SPECIFICALLY: Do NOT mention "Small joint effusion" or "Trace joint effusion"'] : []),
+          '═══════════════════════════════════════════',
+          'IMPORTANT: These exclusions are MANDATORY unless the finding is causing symptoms or requires immediate treatment.',
+          'Before including ANY finding, check if it matches the exclusion list above.'
+        )
+      }
+    },
+    validate: (value, { impressionUnits }) => {
+      const violations: string[] = []
+      for (const excludedItem of asList(value)) {
+        // Word boundary matching on the exact phrase
+        const exactMatchPattern = new RegExp('\\b' + escapeRegExp(excludedItem.toLowerCase().trim()) + '\\b', 'i')
+
+        const violatingUnit = impressionUnits.find(unit => {
+          if (!exactMatchPattern.test(unit)) return false
+          // Check if it seems clinically relevant (this is a heuristic)
+          const unitLower = unit.toLowerCase()
+          const hasSignificanceIndicators = ['significant', 'severe', 'moderate', 'concerning', 'large', 'extensive']
+            .some(indicator => unitLower.includes(indicator))
+          return !hasSignificanceIndicators
+        })
+
+        if (violatingUnit !== undefined) {
+          violations.push(`EXCLUSION RULE VIOLATION: "${excludedItem}" appears in impression but should be excluded unless clinically relevant.`)
+        }
+      }
+      return { violations }
+    },
+    postProcess: (text, value, _logic, removed) => pruneExclusions(text, parseLegacyExclusions(asList(value)), removed)
+  }),
+
+  defineRule('impression.exclusion_rules', {
+    prompts: {
+      report: value => {
+        const rules = parseExclusionRules(value)
+        if (rules.length === 0) return []
+        return content(`Leave the following findings out of the impression, however they are worded, unless they are new, increasing or symptomatic: ${rules.map(describeExclusion).join(', ')}.`)
+      },
+      enhancedReport: value => critical(
+        ...parseExclusionRules(value).map(rule => `❌ DO NOT include ${describeExclusion(rule)} in the impression section, however it is worded, unless it is new, increasing or symptomatic`)
+      ),
+      impression: value => {
+        const rules = parseExclusionRules(value)
+        if (rules.length === 0) return []
+        return content(`Leave the following findings out of the impression, however they are worded, unless they are new, increasing or symptomatic: ${rules.map(describeExclusion).join(', ')}.`)
+      },
+      enhancedImpression: value => critical(
+        ...parseExclusionRules(value).map(rule => `❌ EXCLUDE: ${describeExclusion(rule)} - Do NOT mention this in the impression, including paraphrases, unless it is new, increasing or symptomatic`)
+      )
+    },
+    validate: (value, { impressionUnits }) => {
+      const rules = parseExclusionRules(value)
+      const violations = new Set<string>()
+      const warnings = new Set<string>()
+      for (const unit of impressionUnits) {
+        const { removed, kept } = applyExclusions(unit, rules)
+        for (const removal of removed) {
+          violations.add(`EXCLUSION RULE VIOLATION: "${removal.removed}" appears in impression but ${removal.reason}.`)
+        }
+        for (const removal of kept) {
+          warnings.add(`EXCLUSION RULE: "${removal.removed}" was left in the impression because its sentence also reports other findings; ${removal.reason}.`)
+        }
+      }
+      return { violations: [...violations], warnings: [...warnings] }
+    },
+    postProcess: (text, value, _logic, removed) => pruneExclusions(text, parseExclusionRules(value), removed)
+  }),
+
+  defineRule('impression.first_item_should_address_clinical_concern', {
+    prompts: {
+      report: (value, _logic, { exam }) => value ? content('The first impression item should address the clinical concern.', ...indicationLines(exam)) : [],
+      enhancedReport: (value, _logic, { exam }) => value
+        ? critical('CLINICAL FOCUS: The first item in the impression MUST directly address the primary clinical concern or indication.', ...indicationLines(exam))
+        : [],
+      impression: (value, _logic, { exam }) => value ? content('The first impression item should address the clinical concern.', ...indicationLines(exam)) : [],
+      enhancedImpression: (value, _logic, { exam }) => value
+        ? critical('CLINICAL FOCUS: The first item MUST directly address the primary clinical concern or indication.', ...indicationLines(exam))
+        : []
+    },
+    // Only checkable when the indication is known
+    validate: (_value, { report, impressionText, impressionItems, exam }) => {
+      if (!exam?.indication?.trim()) return
+      const impression = impressionText || (/^\s*IMPRESSION\b/im.test(report) ? '' : report)
+      const firstItem = (impressionItems?.[0] ?? impression.split('\n').find(line => line.trim()) ?? '').replace(/^\s*(?:\d+[.)]|[-•*])\s*/, '').trim()
+      if (firstItem && !addressesIndication(firstItem, exam.indication)) {
+        return { warnings: [`CLINICAL FOCUS: First impression item "${firstItem}" does not address the indication "${exam.indication.trim()}".`] }
+      }
+    }
+  }),
+
+  defineRule('impression.omit_minor_or_incidental_findings_unless_relevant', {
+    prompts: {
+      report: 'In the impression, omit mild or incidental findings unless relevant to the clinical history.',
+      enhancedReport: content('Focus the impression on clinically significant findings. Omit mild or incidental findings unless they relate to the clinical history.'),
+      impression: 'Omit mild or incidental findings unless relevant to the clinical history.',
+      enhancedImpression: content('Focus on clinically significant findings. Omit mild or incidental findings unless they relate to the clinical history.')
+    }
+  }),
+
+  defineRule('impression.concise_summary', {
+    prompts: {
+      report: 'Keep the impression concise, focusing on clinically significant findings.',
+      enhancedReport: content('Keep the impression concise and focused on the most important findings.'),
+      impression: 'Keep the impression concise, focusing only on clinically significant findings.',
+      enhancedImpression: content('Keep the impression concise and focused on the most important findings.')
+    }
+  }),
+
+  defineRule('impression.include_recommendations', {
+    prompts: {
+      report: (value, _logic, context) => value ? [
+        ...content('Include follow-up recommendations when appropriate.'),
+        ...guidelineRecommendationLines(context, content)
+      ] : [],
+      enhancedReport: (value, _logic, context) => value ? [
+        ...content('Include specific follow-up recommendations when clinically appropriate.'),
+        ...guidelineRecommendationLines(context, critical)
+      ] : [],
+      impression: (value, _logic, context) => value ? [
+        ...content('Include follow-up recommendations when appropriate.'),
+        ...guidelineRecommendationLines(context, content)
+      ] : [],
+      enhancedImpression: (value, _logic, context) => value ? [
+        ...content('Include specific follow-up recommendations when clinically appropriate.'),
+        ...guidelineRecommendationLines(context, critical)
+      ] : []
+    },
+    // Model-written recommendations must agree with the guideline tables
+    validate: (_value, { report, findings, impressionText, patient, exam }) => {
+      // Impression-only output has no IMPRESSION header to extract from
+      const impression = impressionText || (/^\s*IMPRESSION\b/im.test(report) ? '' : report)
+      const recommendations = recommendFollowUp(findings, patient ?? toPatientContext(exam))
+      return { ...checkRecommendations(impression, recommendations), trustedText: recommendations.map(recommendation => recommendation.text) }
+    }
+  }),
+
+  defineRule('impression.differential_diagnosis', {
+    prompts: {
+      report: 'Provide differential diagnoses for significant findings when appropriate.',
+      enhancedReport: content('Provide differential diagnoses for significant findings when appropriate.'),
+      impression: 'Provide differential diagnoses for significant findings when appropriate.',
+      enhancedImpression: content('Provide differential diagnoses for significant findings when appropriate.')
+    },
+    validate: (_value, { impressionText }) => {
+      // Only lesions and masses call for a differential; hedged or comparative wording counts as one
+      const needsDifferential = /\b(?:mass|lesion|nodule|tumou?r)\b/i.test(impressionText)
+      const hasDifferential = /\b(?:differential|versus|vs\.?|considerations?|favou?r(?:ed|s)?|likely|possibly|include[sd]?)\b/i.test(impressionText)
+      if (needsDifferential && !hasDifferential) {
+        return { warnings: ['DIFFERENTIAL DIAGNOSIS: Impression describes a lesion or mass without a differential diagnosis.'] }
+      }
+    }
+  }),
+
+  defineRule('impression.severity_classification', {
+    prompts: {
+      impression: 'Classify findings by severity (mild, moderate, severe) when applicable.'
+    }
+  }),
+
+  defineRule('impression.prioritize_by_urgency', {
+    prompts: {
+      impression: 'List findings in order of clinical urgency, most urgent first.'
+    }
+  }),
+
+  defineRule('impression.mention_muscle_atrophy_if', {
+    values: ['any', 'moderate_or_severe', 'severe', 'never'],
+    prompts: {
+      report: value => {
+        if (value === 'moderate_or_severe') return content('Only mention muscle atrophy if it is moderate or severe.')
+        if (value === 'severe') return content('Only mention muscle atrophy if it is severe.')
+        if (value === 'never') return content('Do not mention muscle atrophy.')
+        return []
+      },
+      enhancedReport: value => {
+        if (value === 'moderate_or_severe') return critical('MUSCLE ATROPHY RULE: Only mention muscle atrophy if it is explicitly described as moderate or severe. Do not mention mild muscle atrophy.')
+        if (value === 'severe') return critical('MUSCLE ATROPHY RULE: Only mention muscle atrophy if it is explicitly described as severe. Do not mention mild or moderate muscle atrophy.')
+        if (value === 'never') return critical('MUSCLE ATROPHY RULE: Do NOT mention muscle atrophy regardless of severity.')
+        // 'any' intentionally adds nothing to avoid unwanted muscle atrophy mentions
+        return []
+      },
+      impression: value => {
+        if (value === 'moderate_or_severe') return content('Only mention muscle atrophy if it is moderate or severe.')
+        if (value === 'severe') return content('Only mention muscle atrophy if it is severe.')
+        if (value === 'never') return content('Do not mention muscle atrophy.')
+        if (value === 'any') return content('Mention muscle atrophy regardless of severity.')
+        return []
+      },
+      enhancedImpression: value => {
+        if (value === 'moderate_or_severe') return critical('MUSCLE ATROPHY: Only mention muscle atrophy if it is explicitly described as moderate or severe. Do NOT mention mild muscle atrophy.')
+        if (value === 'severe') return critical('MUSCLE ATROPHY: Only mention muscle atrophy if it is explicitly described as severe. Do NOT mention mild or moderate muscle atrophy.')
+        if (value === 'never') return critical('MUSCLE ATROPHY: Do NOT mention muscle atrophy regardless of severity.')
+        return []
+      }
+    },
+    validate: (value, { impressionText }) => {
+      if (!atrophyBelowThreshold(impressionText, value)) return
+      if (value === 'never') {
+        return { violations: ['MUSCLE ATROPHY RULE VIOLATION: Muscle atrophy mentioned but rule specifies it should never be included.'] }
+      }
+      if (value === 'moderate_or_severe') {
+        return { violations: ['MUSCLE ATROPHY RULE VIOLATION: Mild muscle atrophy mentioned but rule specifies only moderate/severe should be included.'] }
+      }
+      return { violations: ['MUSCLE ATROPHY RULE VIOLATION: Mild/moderate muscle atrophy mentioned but rule specifies only severe should be included.'] }
+    },
+    // Drops numbered impression items that fall below the threshold
+    postProcess: (text, value, _logic, removed) => text
+      .split('\n')
+      .filter(line => {
+        if (!(/^\s*\d+\./.test(line) && atrophyBelowThreshold(line, value))) return true
+        const item = line.replace(/^\s*\d+\.\s*/, '')
+        removed.push({ item, removed: item, rule: 'impression.mention_muscle_atrophy_if', reason: `muscle atrophy is only mentioned when ${readable(value)}` })
+        return false
+      })
+      .join('\n')
+  }),
+
+  defineRule('impression.combine_compartments', {
+    prompts: {
+      impression: 'Combine meniscus and cartilage findings by compartment (e.g., medial/lateral) in the impression.'
+    }
+  }),
+
+  defineRule('impression.exclude_unless_surgical', {
+    prompts: {
+      impression: value => {
+        const list = asList(value)
+        return list.length > 0 ? content(`Exclude the following findings unless they require surgical intervention: ${list.join(', ')}.`) : []
+      }
+    }
+  }),
+
+  defineRule('impression.expand_acronyms_to_full_terms', {
+    prompts: {
+      impression: 'Spell out acronyms (e.g., ACL, MCL) as full anatomic terms in the impression.',
+      enhancedImpression: formatting('Spell out acronyms (e.g., ACL, MCL) as full anatomic terms in the impression.'),
+      report: 'Spell out acronyms (e.g., ACL, MCL) as full anatomic terms in the impression.',
+      enhancedReport: formatting('Spell out acronyms (e.g., ACL, MCL) as full anatomic terms in the impression.')
+    },
+    validate: (_value, { impressionText }) => {
+      const acronyms = unexpandedAcronyms(impressionText)
+      if (acronyms.length > 0) {
+        return { violations: [`ACRONYM RULE VIOLATION: Impression uses ${acronyms.join(', ')} without spelling ${acronyms.length === 1 ? 'it' : 'them'} out.`] }
+      }
+    }
+  }),
+
+  defineRule('formatting.preserve_template_punctuation', {
+    prompts: {
+      report: 'Preserve all punctuation and formatting exactly as shown in the template.',
+      enhancedReport: critical('CRITICAL: Preserve ALL punctuation, spacing, and formatting EXACTLY as shown in the template. This includes spaces after colons (e.g., "Section: Content" not "Section:Content"), proper line breaks, and all other spacing.')
+    }
+  }),
+
+  defineRule('formatting.use_bullet_points', {
+    prompts: {
+      report: 'Use bullet points for listing multiple findings within each section.',
+      enhancedReport: formatting('Use bullet points for listing multiple findings within each section.'),
+      impression: 'Use bullet points when listing multiple diagnoses or findings.'
+    }
+  }),
+
+  defineRule('formatting.capitalize_sections', {
+    prompts: {
+      report: 'Ensure all section headers are in UPPERCASE.',
+      enhancedReport: formatting('Ensure all section headers are in UPPERCASE.')
+    }
+  }),
+
+  defineRule('formatting.capitalize_diagnoses', {
+    prompts: {
+      impression: 'Capitalize the first letter of each diagnosis or major finding.'
+    }
+  }),
+
+  defineRule('report.no_hallucinated_findings', {
+    prompts: {
+      report: 'Do not invent findings. Only report what is explicitly stated in the findings.',
+      enhancedReport: critical('ACCURACY RULE: Do not invent, assume, or hallucinate any findings. Only report what is explicitly stated in the provided findings.'),
+      impression: 'Do not invent findings. Only summarize what is explicitly stated in the findings.',
+      enhancedImpression: critical('ACCURACY: Do not invent, assume, or hallucinate any findings. Only summarize what is explicitly stated in the provided findings.')
+    },
+    validate: (_value, { report, findings, template }) => {
+      const warnings: string[] = []
+
+      // Very specific measurements or grades that are not in the findings
+      const suspiciousPatterns = [/\d+\.\d+ cm/g, /\d+\.\d+ mm/g, /grade [IV]+/gi]
+
+      // This is a warning rather than violation since it's hard to definitively detect hallucination
+      for (const pattern of suspiciousPatterns) {
+        if (pattern.test(report) && !pattern.test(findings)) {
+          warnings.push('POTENTIAL HALLUCINATION: Report contains specific details that may not be in original findings.')
+          break
+        }
+      }
+
+      // Every sentence should trace back to a findings line or the template text
+      let provenance: ReportProvenance | undefined
+      if (findings.trim()) {
+        provenance = traceReportProvenance(report, findings, template)
+        for (const sentence of provenance.unsupported) {
+          warnings.push(`UNSUPPORTED STATEMENT: "${sentence.text}" is not supported by the findings or template.`)
+        }
+      }
+
+      return { warnings, provenance }
+    }
+  }),
+
+  defineRule('report.include_technique_section', {
+    prompts: {
+      report: 'Include a TECHNIQUE section describing the imaging protocol used.'
+    }
+  }),
+
+  defineRule('report.include_comparison', {
+    prompts: {
+      report: (value, _logic, { exam }) => {
+        if (!value) return []
+        if (exam?.comparisonDate) return content(`Include a COMPARISON section citing the prior study dated ${exam.comparisonDate}.`)
+        if (exam?.noComparison) return content('Include a COMPARISON section stating "None." - no prior imaging is available.')
+        return content('Include a COMPARISON section if prior imaging is mentioned.')
+      }
+    },
+    validate: (_value, { report, exam }) => {
+      // Impression-only output has no sections to cite the study in
+      if (!/^\s*(?:FINDINGS|COMPARISON)\b/im.test(report)) return
+      if (exam?.comparisonDate && !mentionsDate(report, exam.comparisonDate)) {
+        return { violations: [`COMPARISON: Report does not cite the comparison study dated ${exam.comparisonDate}.`] }
+      }
+    }
+  }),
+
+  defineRule('report.use_medical_abbreviations', {
+    prompts: {
+      report: 'Use standard medical abbreviations where appropriate.'
+    }
+  }),
+
+  defineRule('report.expand_acronyms_to_full_terms', {
+    prompts: {
+      report: 'Spell out acronyms (e.g., ACL, MCL) as full anatomic terms in the report body.',
+      enhancedReport: formatting('Spell out acronyms (e.g., ACL, MCL) as full anatomic terms in the report body.')
+    },
+    validate: (_value, { report, impressionText }) => {
+      const body = impressionText ? report.replace(impressionText, '') : report
+      const acronyms = unexpandedAcronyms(body)
+      if (acronyms.length > 0) {
+        return { violations: [`ACRONYM RULE VIOLATION: Report uses ${acronyms.join(', ')} without spelling ${acronyms.length === 1 ? 'it' : 'them'} out.`] }
+      }
+    }
+  }),
+
+  defineRule('report.expand_lesions', {
+    prompts: {
+      report: 'For each lesion, describe location, size, morphology, and enhancement characteristics.',
+      enhancedReport: content('For each lesion, describe location, size, morphology, and enhancement characteristics when available.')
+    }
+  }),
+
+  defineRule('report.cartilage_placement.trochlear_cartilage_in_patellofemoral', {
+    prompts: {
+      report: 'Ensure trochlear cartilage findings are included in the patellofemoral compartment.',
+      enhancedReport: critical('CARTILAGE PLACEMENT: Trochlear cartilage findings MUST be described within the patellofemoral compartment section.')
+    }
+  }),
+
+  defineRule('report.cartilage_placement.mention_patellar_if_trochlear_defect_present', {
+    prompts: {
+      report: 'If a trochlear defect is present, confirm that the patellar cartilage is explicitly stated as intact or abnormal.',
+      enhancedReport: critical('CARTILAGE CORRELATION: If any trochlear defect is present, you MUST explicitly state the condition of the patellar cartilage (intact or abnormal).')
+    },
+    validate: (_value, { report }) => {
+      const reportLower = report.toLowerCase()
+      const hasTrochlearDefect = reportLower.includes('trochlear') &&
+        (reportLower.includes('defect') || reportLower.includes('tear') || reportLower.includes('lesion'))
+      if (hasTrochlearDefect && !reportLower.includes('patellar')) {
+        return { violations: ['CARTILAGE PLACEMENT RULE VIOLATION: Trochlear defect mentioned but patellar cartilage status not addressed.'] }
+      }
+    }
+  }),
+
+  defineRule('report.cartilage_placement.group_cartilage_by_compartment_in_impression', {
+    prompts: {
+      impression: 'Group cartilage findings by compartment (medial, lateral, patellofemoral) in the impression.'
+    }
+  }),
+
+  defineRule('report.cartilage_placement.mention_grade_in_impression', {
+    prompts: {
+      impression: 'Include cartilage defect grades in the impression when available.'
+    }
+  }),
+
+  defineRule('report.anatomic_routing_rules.loose_bodies', {
+    values: ['joints'],
+    prompts: {
+      report: value => value === 'joints' ? content('Describe loose bodies under the joints section.') : []
+    }
+  }),
+
+  defineRule('report.anatomic_routing_rules.bone_contusions', {
+    values: ['ossea_or_bone_marrow'],
+    prompts: {
+      report: value => value === 'ossea_or_bone_marrow' ? content('Describe bone contusions under the osseous structures or bone marrow section.') : []
+    }
+  }),
+
+  defineRule('report.anatomic_routing_rules.joint_effusions', {
+    values: ['joint_space'],
+    prompts: {
+      report: value => value === 'joint_space' ? content('Describe joint effusions under the joint space section.') : []
+    }
+  }),
+
+  defineRule('report.anatomic_routing_rules.impression_order', {
+    prompts: {
+      impression: value => typeof value === 'string' && value ? content(`Organize impression findings in this order: ${value}.`) : []
+    }
+  }),
+
+  defineRule('report.anatomic_routing_rules.group_pathology_by_type', {
+    prompts: {
+      impression: 'Group similar pathology together in the impression (e.g., all ligament tears, all cartilage defects).'
+    }
+  }),
+
+  defineRule('clinical.correlate_with_symptoms', {
+    prompts: {
+      report: (value, _logic, { exam }) => value ? content('Correlate findings with clinical symptoms when provided.', ...symptomLines(exam)) : [],
+      enhancedReport: (value, _logic, { exam }) => value ? content('Correlate findings with clinical symptoms when clinical history is provided.', ...symptomLines(exam)) : [],
+      impression: (value, _logic, { exam }) => value ? content('Correlate impression with clinical symptoms when provided.', ...symptomLines(exam)) : [],
+      enhancedImpression: (value, _logic, { exam }) => value ? content('Correlate impression with clinical symptoms when clinical history is provided.', ...symptomLines(exam)) : []
+    }
+  }),
+
+  defineRule('clinical.mention_clinical_significance', {
+    prompts: {
+      report: 'Comment on the clinical significance of major findings.',
+      enhancedReport: content('Comment on the clinical significance of major findings.'),
+      impression: 'Comment on the clinical significance of findings.',
+      enhancedImpression: content('Comment on the clinical significance of findings.')
+    }
+  }),
+
+  defineRule('clinical.suggest_follow_up', {
+    prompts: {
+      impression: 'Suggest appropriate follow-up when indicated.'
+    }
+  }),
+
+  defineRule('clinical.include_acuity', {
+    prompts: {
+      impression: 'Specify whether findings are acute, chronic, or acute-on-chronic when determinable.'
+    }
+  }),
+
+  defineRule('clinical.management_implications', {
+    prompts: {
+      impression: 'Include management implications for significant findings.'
+    }
+  }),
+
+  defineRule('measurements.include_all_measurements', {
+    prompts: {
+      report: 'Include all measurements mentioned in the findings.',
+      enhancedReport: formatting('Include all measurements mentioned in the findings.')
+    }
+  }),
+
+  defineRule('measurements.include_key_measurements_only', {
+    prompts: {
+      impression: 'Include only the most clinically relevant measurements in the impression.'
+    }
+  }),
+
+  defineRule('measurements.use_metric_system', {
+    prompts: {
+      report: 'Use metric system (mm, cm) for all measurements.',
+      enhancedReport: formatting('Use metric system (mm, cm) for all measurements.')
+    }
+  }),
+
+  defineRule('measurements.describe_change_from_prior', {
+    prompts: {
+      report: (value, _logic, context) => value ? [
+        ...content('When prior measurements are available, describe interval change.'),
+        ...(context.exam?.priorImpression?.trim() ? content('Describe interval change relative to the prior impression under CLINICAL CONTEXT.') : []),
+        ...intervalChangeLines(context, content)
+      ] : [],
+      // Enhanced prompts only speak up when a prior report gives them something to compare
+      enhancedReport: (value, _logic, context) => value ? intervalChangeLines(context, critical) : [],
+      impression: (value, _logic, context) => value ? [
+        ...content('When prior studies are mentioned, describe interval change.'),
+        ...(context.exam?.priorImpression?.trim() ? content('Describe interval change relative to the prior impression under CLINICAL CONTEXT.') : []),
+        ...intervalChangeLines(context, content)
+      ] : [],
+      enhancedImpression: (value, _logic, context) => value ? intervalChangeLines(context, critical) : []
+    },
+    validate: (_value, { report, findings, template, exam }) => {
+      const changes = exam?.priorReport?.trim() ? alignPriorReport(findings, exam.priorReport, template, exam.comparisonDate) : []
+      const trustedText = changes.map(change => change.text)
+      const hasPrior = exam?.priorImpression?.trim() || exam?.priorReport?.trim()
+      if (hasPrior && !INTERVAL_CHANGE.test(report) && !/\b(?:new|stable)\b/i.test(report)) {
+        return { warnings: ['INTERVAL CHANGE: Prior findings were provided but the report does not describe interval change.'], trustedText }
+      }
+      // Measured changes must reach the report with the prior size
+      return { warnings: checkIntervalChanges(report, changes), trustedText }
+    }
+  }),
+
+  defineRule('anatomy.combine_meniscus_and_cartilage_findings', {
+    prompts: {
+      report: 'Combine meniscus and cartilage findings in the same section for better organization.',
+      enhancedReport: content('Combine meniscus and cartilage findings in the same section for better organization.')
+    }
+  }),
+
+  defineRule('anatomy.group_by_anatomic_region', {
+    prompts: {
+      report: 'Group findings by anatomic region (e.g., anterior, posterior, medial, lateral).',
+      enhancedReport: content('Group findings by anatomic region (e.g., anterior, posterior, medial, lateral).')
+    }
+  }),
+
+  defineRule('anatomy.group_related_findings', {
+    prompts: {
+      impression: 'Group related anatomical findings together in the impression.'
+    }
+  }),
+
+  defineRule('anatomy.mention_normal_variants', {
+    prompts: {
+      impression: 'Briefly mention significant normal variants that may cause confusion.'
+    }
+  }),
+
+  defineRule('anatomy.describe_bilateral_structures', {
+    prompts: {
+      report: 'For bilateral structures, describe each side separately and note any asymmetry.'
+    }
+  }),
+
+  defineRule('severity.use_standard_grading', {
+    prompts: {
+      report: 'Use standard grading systems (e.g., mild/moderate/severe) consistently.',
+      enhancedReport: formatting('Use standard grading systems (e.g., mild/moderate/severe) consistently.')
+    }
+  }),
+
+  defineRule('severity.scoring_systems', {
+    prompts: {
+      report: (value, _logic, { findings }) => scoringLines(value, findings, content),
+      enhancedReport: (value, _logic, { findings }) => scoringLines(value, findings, critical),
+      impression: (value, _logic, { findings }) => scoringLines(value, findings, content),
+      enhancedImpression: (value, _logic, { findings }) => scoringLines(value, findings, critical)
+    },
+    // Stated categories must match what the calculators compute from the findings
+    validate: (value, { report, findings }) => {
+      const systems = asList(value)
+      return checkScoringCategories(report, findings, scoreFindings(findings, systems), systems)
+    }
+  }),
+
+  defineRule('severity.avoid_vague_terms', {
+    prompts: {
+      report: 'Avoid vague terms like "some" or "several" - be specific.',
+      enhancedReport: formatting('Avoid vague terms like "some" or "several" - be specific.')
+    }
+  }),
+
+  defineRule('severity.highlight_urgent_findings', {
+    prompts: {
+      impression: 'Highlight any urgent or emergent findings at the beginning of the impression.'
+    }
+  }),
+
+  defineRule('severity.use_standard_terminology', {
+    prompts: {
+      impression: 'Use standardized terminology for describing severity and urgency.'
+    }
+  }),
+
+  defineRule('style.definitive_statements', {
+    prompts: {
+      impression: 'Use definitive statements when findings are clear, avoid excessive hedging.'
+    }
+  }),
+
+  defineRule('style.active_voice', {
+    prompts: {
+      report: 'Use active voice when describing findings.',
+      enhancedReport: content('Use active voice when describing findings.'),
+      impression: 'Use active voice when possible.'
+    }
+  }),
+
+  defineRule('style.avoid_hedging', {
+    prompts: {
+      report: 'Avoid excessive hedging language unless uncertainty is clinically relevant.'
+    }
+  }),
+
+  defineRule('style.professional_tone', {
+    prompts: {
+      report: 'Maintain a professional, objective tone throughout.',
+      enhancedReport: content('Maintain a professional, objective tone throughout.'),
+      impression: 'Maintain a professional, objective tone.'
+    }
+  }),
+
+  defineRule('custom_instructions', {
+    prompts: {
+      report: value => content(...asList(value)),
+      enhancedReport: value => critical(...asList(value).map(instruction => `CUSTOM RULE: ${instruction}`)),
+      enhancedImpression: value => critical(...asList(value).map(instruction => `CUSTOM RULE: ${instruction}`))
+    },
+    validate: (value, { report }) => {
+      const warnings: string[] = []
+      const reportLower = report.toLowerCase()
+      for (const instruction of asList(value)) {
+        // Key terms give a rough signal of whether the instruction was followed
+        const keyTerms = instruction.toLowerCase().match(/\b(acl|pcl|meniscus|cartilage|ligament|integrity|status)\b/g) || []
+        if (keyTerms.length > 0 && !keyTerms.some(term => reportLower.includes(term))) {
+          warnings.push(`CUSTOM INSTRUCTION: May not be followed - "${instruction.substring(0, 50)}..."`)
+        }
+      }
+      return { warnings }
+    }
+  }),
+
+  defineRule('custom_impression_instructions', {
+    prompts: {
+      impression: value => content(...asList(value)),
+      enhancedImpression: value => critical(...asList(value).map(instruction => `CUSTOM RULE: ${instruction}`))
+    }
+  }),
+
+  defineRule('validations', {
+    prompts: {},
+    validate: (value, { report, findings, impressionItems }) => evaluateCustomValidations(report, findings, value, { impressionItems })
+  })
+]
+
+export function getRule(id: string): RuleDefinition | undefined {
+  return RULE_REGISTRY.find(rule => rule.id === id)
+}
+
+/**
+ * Instructions every registered rule contributes to one prompt builder, in registry order
+ */
+export function buildRuleInstructions(target: PromptTarget, logic: AgentLogic, context: PromptContext = {}): PromptLine[] {
+  return RULE_REGISTRY.flatMap(rule => {
+    const render = rule.prompts[target]
+    return render ? render(getLogicValue(logic, rule.path), logic, context) : []
+  })
+}
+
+/**
+ * Runs the validator of every rule whose value is set
+ */
+export function runRuleValidators(context: RuleValidationContext): Required<Omit<RuleCheckResult, 'provenance'>> & Pick<RuleCheckResult, 'provenance'> {
+  const violations: string[] = []
+  const warnings: string[] = []
+  const trustedText: string[] = []
+  let provenance: ReportProvenance | undefined
+
+  for (const rule of RULE_REGISTRY) {
+    const value = getLogicValue(context.logic, rule.path)
+    if (!rule.validate || !isRuleValueSet(value)) continue
+    const result = rule.validate(value, context)
+    if (!result) continue
+    violations.push(...(result.violations || []))
+    warnings.push(...(result.warnings || []))
+    trustedText.push(...(result.trustedText || []))
+    provenance = result.provenance || provenance
+  }
+
+  return { violations, warnings, trustedText, provenance }
+}
+
+/**
+ * Applies the post-processor of every rule whose value is set, in registry order
+ */
+export function applyRulePostProcessors(text: string, logic: AgentLogic): { text: string; applied: string[]; removed: ImpressionRemoval[] } {
+  let result = text
+  const applied: string[] = []
+  const removed: ImpressionRemoval[] = []
+  for (const rule of RULE_REGISTRY) {
+    const value = getLogicValue(logic, rule.path)
+    if (!rule.postProcess || !isRuleValueSet(value)) continue
+    result = rule.postProcess(result, value, logic, removed)
+    applied.push(rule.id)
+  }
+  return { text: result, applied, removed }
+}
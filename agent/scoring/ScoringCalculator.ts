@@ -0,0 +1,100 @@
+import { extractMeasurements } from '../measurements'
+
+export type ScoringInputValue = string | number | string[]
+
+// Field id -> value; missing fields are left out
+export type ScoringInputs = Record<string, ScoringInputValue | undefined>
+
+export interface ScoringOption {
+  value: string
+  label: string
+}
+
+export interface ScoringField {
+  id: string
+  label: string
+  // select: one option, multi: any number of options, number: a value in unit
+  type: 'select' | 'multi' | 'number'
+  options?: ScoringOption[]
+  unit?: string
+}
+
+// What a calculator decides from its inputs
+export interface ScoringAssessment {
+  // Category as written in reports, e.g. "TR4", "IIF", "LR-5", "4"
+  category: string
+  // What the category means, e.g. "moderately suspicious"
+  description: string
+  points?: number
+  // Category-specific management, e.g. "Fine-needle aspiration is recommended"
+  management: string
+}
+
+export interface ScoringResult extends ScoringAssessment {
+  calculator: string
+  // Category with its system name, e.g. "ACR TI-RADS TR4"
+  label: string
+  // System name and version, e.g. "ACR TI-RADS 2017"
+  citation: string
+  // Findings sentence the inputs were read from; unset for form input
+  finding?: string
+  // Exact report text
+  text: string
+}
+
+export interface ScoringCalculator {
+  id: string
+  name: string
+  citation: string
+  fields: ScoringField[]
+  // Inputs a findings sentence describes, or null when the sentence isn't about this system's lesion
+  extract: (sentence: string) => ScoringInputs | null
+  // Null when the inputs don't determine a category
+  compute: (inputs: ScoringInputs) => ScoringAssessment | null
+  // Category with the system name, e.g. "4" -> "Outerbridge grade 4"
+  label: (category: string) => string
+  // Categories of this system a text states, normalized to compute()'s form
+  statedCategories: (text: string) => string[]
+}
+
+const NEGATION_BEFORE = /\b(?:no|without|negative for|absent|absence of|not)\b[^,;.]*$/i
+
+/**
+ * Whether a sentence mentions a feature without negating it ("no extrathyroidal extension" does not count)
+ */
+export function affirms(sentence: string, pattern: RegExp): boolean {
+  const flags = pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`
+  for (const match of sentence.matchAll(new RegExp(pattern.source, flags))) {
+    if (!NEGATION_BEFORE.test(sentence.slice(0, match.index))) return true
+  }
+  return false
+}
+
+/**
+ * Largest dimension in the sentence in millimeters
+ */
+export function largestSizeMm(sentence: string): number | undefined {
+  const sizes = extractMeasurements(sentence)
+    .filter(measurement => measurement.unit === 'mm' || measurement.unit === 'cm')
+    .flatMap(measurement => measurement.values.map(value => (measurement.unit === 'cm' ? value * 10 : value)))
+  return sizes.length > 0 ? Math.round(Math.max(...sizes) * 10) / 10 : undefined
+}
+
+export const formatCm = (sizeMm: number) => `${Number((sizeMm / 10).toFixed(1))} cm`
+
+export const ROMAN_NUMERALS: Record<string, string> = { I: '1', II: '2', III: '3', IV: '4' }
+
+export const optionValue = (inputs: ScoringInputs, id: string): string | undefined => {
+  const value = inputs[id]
+  return typeof value === 'string' && value ? value : undefined
+}
+
+export const numberValue = (inputs: ScoringInputs, id: string): number | undefined => {
+  const value = inputs[id]
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined
+}
+
+export const listValue = (inputs: ScoringInputs, id: string): string[] => {
+  const value = inputs[id]
+  return Array.isArray(value) ? value : typeof value === 'string' && value ? [value] : []
+}
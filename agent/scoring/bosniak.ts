@@ -0,0 +1,119 @@
+import { ROMAN_NUMERALS, ScoringAssessment, ScoringCalculator, ScoringInputs, affirms, numberValue, optionValue } from './ScoringCalculator'
+
+/**
+ * Bosniak classification of cystic renal masses, version 2019 (CT).
+ * Enhancing nodules make a mass class IV, thick or irregular walls and septa class III,
+ * minimally thickened or many septa class IIF; homogeneous masses are classed by attenuation.
+ */
+
+interface BosniakClass {
+  description: string
+  management: string
+}
+
+const CLASSES: Record<string, BosniakClass> = {
+  I: { description: 'simple cyst', management: 'No follow-up is recommended' },
+  II: { description: 'benign cyst', management: 'No follow-up is recommended' },
+  IIF: { description: 'probably benign', management: 'Follow-up CT or MRI at 6 and 12 months, then annually for 5 years' },
+  III: { description: 'indeterminate', management: 'Urology referral; surgical excision or active surveillance' },
+  IV: { description: 'probably malignant', management: 'Urology referral; surgical excision or ablation' }
+}
+
+const THICK = ['thick', 'irregular']
+
+function assess(category: string): ScoringAssessment {
+  return { category, ...CLASSES[category] }
+}
+
+function compute(inputs: ScoringInputs): ScoringAssessment | null {
+  const wall = optionValue(inputs, 'wall') || 'thin'
+  const septa = optionValue(inputs, 'septa') || 'none'
+  const nodule = optionValue(inputs, 'nodule') || 'none'
+  const attenuation = numberValue(inputs, 'attenuation')
+
+  if (nodule === 'obtuse_large' || nodule === 'acute') return assess('IV')
+  // Protrusions of 3 mm or less with obtuse margins count as irregular thickening
+  if (nodule === 'obtuse_small' || THICK.includes(wall) || THICK.includes(septa)) return assess('III')
+  if (wall === 'minimally_thickened' || septa === 'minimally_thickened' || septa === 'many_thin') return assess('IIF')
+  if (septa === 'few_thin') return assess('II')
+
+  if (attenuation === undefined) return optionValue(inputs, 'wall') ? assess('I') : null
+  if (attenuation >= -9 && attenuation <= 20) return assess('I')
+  if (attenuation >= 70) return assess('II')
+  // 21-69 HU without enhancement data could be a solid mass
+  return null
+}
+
+const RENAL_CYST = /\b(?:renal|kidneys?)\b[\s\S]*\b(?:cysts?|cystic)\b|\b(?:cysts?|cystic)\b[\s\S]*\b(?:renal|kidneys?)\b/i
+
+function extract(sentence: string): ScoringInputs | null {
+  if (!RENAL_CYST.test(sentence)) return null
+
+  const wall = affirms(sentence, /\birregular(?:ly)? (?:thick\w* )?walls?\b/i) ? 'irregular'
+    : affirms(sentence, /\bminimally thickened walls?\b/i) ? 'minimally_thickened'
+    : affirms(sentence, /\b(?:thick(?:ened)? walls?|wall thickening)\b/i) ? 'thick'
+    : affirms(sentence, /\b(?:simple|thin[- ]walled|thin walls?)\b/i) ? 'thin'
+    : undefined
+  const septa = affirms(sentence, /\birregular septa(?:tions?)?\b/i) ? 'irregular'
+    : affirms(sentence, /\bminimally thickened septa(?:tions?)?\b/i) ? 'minimally_thickened'
+    : affirms(sentence, /\bthick(?:ened)? septa(?:tions?)?\b/i) ? 'thick'
+    : affirms(sentence, /\b(?:(?:[4-9]|\d{2,}|four|five|six|many|multiple|numerous|innumerable) (?:thin )?septa(?:tions)?|multiseptated)\b/i) ? 'many_thin'
+    : affirms(sentence, /\b(?:thin )?(?:septa(?:tions?)?|septum|septated)\b/i) ? 'few_thin'
+    : undefined
+  const nodule = affirms(sentence, /\b(?:enhancing )?(?:mural |soft tissue )?nodul(?:e|es|arity)\b/i)
+    ? (affirms(sentence, /\b(?:[1-3](?:\.\d)? mm|tiny|small) (?:obtuse )?(?:protrusions?|nodul\w*)\b/i) ? 'obtuse_small' : 'acute')
+    : undefined
+  const attenuation = (/(-?\d+(?:\.\d+)?)\s*(?:HU|Hounsfield)/i.exec(sentence) || [])[1]
+
+  // A cyst mentioned without any described feature can't be classed
+  if (!wall && !septa && !nodule && attenuation === undefined) return null
+  return {
+    ...(wall ? { wall } : {}),
+    ...(septa ? { septa } : {}),
+    ...(nodule ? { nodule } : {}),
+    ...(attenuation !== undefined ? { attenuation: Number(attenuation) } : {})
+  }
+}
+
+export const BOSNIAK_CALCULATOR: ScoringCalculator = {
+  id: 'bosniak',
+  name: 'Bosniak',
+  citation: 'Bosniak 2019',
+  fields: [
+    {
+      id: 'wall', label: 'Wall', type: 'select', options: [
+        { value: 'thin', label: 'Thin (2 mm or less) and smooth' },
+        { value: 'minimally_thickened', label: 'Smooth, minimally thickened (3 mm)' },
+        { value: 'thick', label: 'Thick (4 mm or more)' },
+        { value: 'irregular', label: 'Irregular' }
+      ]
+    },
+    {
+      id: 'septa', label: 'Septa', type: 'select', options: [
+        { value: 'none', label: 'None' },
+        { value: 'few_thin', label: '1-3 thin septa' },
+        { value: 'many_thin', label: '4 or more thin septa' },
+        { value: 'minimally_thickened', label: 'Minimally thickened (3 mm)' },
+        { value: 'thick', label: 'Thick (4 mm or more)' },
+        { value: 'irregular', label: 'Irregular' }
+      ]
+    },
+    {
+      id: 'nodule', label: 'Enhancing nodule', type: 'select', options: [
+        { value: 'none', label: 'None' },
+        { value: 'obtuse_small', label: '3 mm or less with obtuse margins' },
+        { value: 'obtuse_large', label: '4 mm or more with obtuse margins' },
+        { value: 'acute', label: 'Any size with acute margins' }
+      ]
+    },
+    { id: 'attenuation', label: 'Unenhanced attenuation (homogeneous masses)', type: 'number', unit: 'HU' }
+  ],
+  extract,
+  compute,
+  label: category => `Bosniak ${category}`,
+  statedCategories: text => [...text.matchAll(/\bBosniak\s*(?:class|category|type)?\s*(IIF|II-F|2F|IV|III|II|I|[1-4])(?![\w-])/gi)].map(match => {
+    const stated = match[1].toUpperCase().replace('-', '')
+    if (stated === '2F') return 'IIF'
+    return Object.keys(ROMAN_NUMERALS).find(numeral => ROMAN_NUMERALS[numeral] === stated) || stated
+  })
+}
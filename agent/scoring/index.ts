@@ -0,0 +1,152 @@
+import { AgentLogic } from '../types'
+import { compileTerms } from '../conceptExtraction'
+import { splitSentences } from '../provenance'
+import { RADIOLOGY_LEXICON } from '../radiologyLexicon'
+import { ScoringCalculator, ScoringInputs, ScoringResult } from './ScoringCalculator'
+import { BOSNIAK_CALCULATOR } from './bosniak'
+import { LIRADS_CALCULATOR } from './lirads'
+import { OUTERBRIDGE_CALCULATOR } from './outerbridge'
+import { TIRADS_CALCULATOR } from './tirads'
+
+export * from './ScoringCalculator'
+
+/**
+ * Scoring system calculators.
+ * Each calculator turns structured inputs (from the scoring form, or read off a findings sentence)
+ * into a category deterministically. Results carry the exact report text, category-specific
+ * management included, and checkScoringCategories flags report categories that disagree.
+ */
+
+export const SCORING_CALCULATORS: ScoringCalculator[] = [
+  TIRADS_CALCULATOR,
+  BOSNIAK_CALCULATOR,
+  LIRADS_CALCULATOR,
+  OUTERBRIDGE_CALCULATOR
+]
+
+export type ScoringSystemId = NonNullable<NonNullable<AgentLogic['severity']>['scoring_systems']>[number]
+
+export const SCORING_PREFIX = 'SCORING CATEGORY:'
+
+export interface ScoringCheck {
+  violations: string[]
+  warnings: string[]
+}
+
+export function getScoringCalculator(id: string): ScoringCalculator | undefined {
+  return SCORING_CALCULATORS.find(calculator => calculator.id === id)
+}
+
+/**
+ * Runs a calculator on its inputs; null when the inputs don't determine a category
+ */
+export function scoreInputs(calculator: ScoringCalculator, inputs: ScoringInputs, finding?: string): ScoringResult | null {
+  const assessment = calculator.compute(inputs)
+  if (!assessment) return null
+  const label = calculator.label(assessment.category)
+  const points = assessment.points !== undefined ? `, ${assessment.points} point${assessment.points === 1 ? '' : 's'}` : ''
+  return {
+    ...assessment,
+    calculator: calculator.id,
+    label,
+    citation: calculator.citation,
+    ...(finding ? { finding } : {}),
+    text: `${label} (${assessment.description}${points}): ${assessment.management} (${calculator.citation}).`
+  }
+}
+
+/**
+ * Calculator results for every scorable findings sentence; systems limits which calculators run
+ */
+export function scoreFindings(findings: string, systems?: string[]): ScoringResult[] {
+  const calculators = systems ? SCORING_CALCULATORS.filter(calculator => systems.includes(calculator.id)) : SCORING_CALCULATORS
+  const results: ScoringResult[] = []
+
+  for (const { text: sentence } of splitSentences(findings)) {
+    for (const calculator of calculators) {
+      const inputs = calculator.extract(sentence)
+      const result = inputs && scoreInputs(calculator, inputs, sentence)
+      if (result) results.push(result)
+    }
+  }
+
+  return results
+}
+
+/**
+ * Report lines holding a calculator result, recognized by the calculator's citation;
+ * their points, thresholds and intervals come from the calculator rather than the findings
+ */
+export function findCalculatorOutput(report: string): string[] {
+  return report.split('\n').filter(line => SCORING_CALCULATORS.some(calculator => line.includes(`(${calculator.citation})`)))
+}
+
+const ANATOMY = compileTerms(Object.fromEntries(RADIOLOGY_LEXICON.anatomy.map(entry => [entry.key, entry.terms])))
+const SIDES = compileTerms(RADIOLOGY_LEXICON.laterality)
+
+// Structures and side a sentence is about, to pair report sentences with findings sentences
+function subjectOf(sentence: string): { anatomy: Set<string>; side?: string } {
+  return { anatomy: new Set(ANATOMY.find(sentence).map(match => match.key)), side: SIDES.find(sentence)[0]?.key }
+}
+
+function sameSubject(a: string, b: string): boolean {
+  const first = subjectOf(a)
+  const second = subjectOf(b)
+  if (first.side && second.side && first.side !== second.side) return false
+  return [...first.anatomy].some(key => second.anatomy.has(key))
+}
+
+/**
+ * Compares the categories a report states with the calculator results for its findings.
+ * Categories the findings state themselves (e.g. inserted from the scoring form) are accepted as well.
+ */
+export function checkScoringCategories(report: string, findings: string, results: ScoringResult[], systems?: string[]): ScoringCheck {
+  const violations: string[] = []
+  const warnings: string[] = []
+  const calculators = systems ? SCORING_CALCULATORS.filter(calculator => systems.includes(calculator.id)) : SCORING_CALCULATORS
+
+  for (const calculator of calculators) {
+    const fromFindings = new Set(calculator.statedCategories(findings))
+    const computed = results.filter(result => result.calculator === calculator.id)
+
+    for (const { text: sentence } of splitSentences(report)) {
+      for (const stated of new Set(calculator.statedCategories(sentence))) {
+        if (fromFindings.has(stated)) continue
+        if (computed.length === 0) {
+          warnings.push(`${SCORING_PREFIX} Report states ${calculator.label(stated)} ("${sentence}") but the findings don't describe enough features for the ${calculator.citation} calculator.`)
+          continue
+        }
+        // Results for the same structure when there is more than one lesion
+        const paired = computed.filter(result => result.finding && sameSubject(result.finding, sentence))
+        const expected = paired.length > 0 ? paired : computed
+        if (expected.some(result => result.category === stated)) continue
+        const calculated = [...new Set(expected.map(result => result.label))].join(' or ')
+        violations.push(`${SCORING_PREFIX} Report states ${calculator.label(stated)} ("${sentence}") but the ${calculator.citation} calculator gives ${calculated}${expected.length === 1 && expected[0].finding ? ` for "${expected[0].finding}"` : '.'}`)
+      }
+    }
+  }
+
+  return { violations, warnings }
+}
+
+/**
+ * Adds a calculator result to the end of the report's impression, continuing its numbering;
+ * without an IMPRESSION section the result goes at the end
+ */
+export function insertScoringResult(report: string, text: string): string {
+  const lines = report.replace(/\s+$/, '').split('\n')
+  const header = lines.findIndex(line => /^\s*IMPRESSION\b/i.test(line))
+  if (header === -1) return report.trim() ? `${lines.join('\n')}\n\n${text}` : text
+
+  // The impression runs to the next section header or the end of the report
+  let end = lines.findIndex((line, index) => index > header && /^[A-Z][A-Z\s]*:\s*$/.test(line.trim()))
+  if (end === -1) end = lines.length
+  while (end > header + 1 && !lines[end - 1].trim()) end--
+
+  const numbers = lines.slice(header, end)
+    .map(line => line.replace(/^\s*IMPRESSION:?/i, '').match(/^\s*(\d+)[.)]\s/))
+    .filter((match): match is RegExpMatchArray => match !== null)
+  const item = numbers.length > 0 ? `${Number(numbers[numbers.length - 1][1]) + 1}. ${text}` : text
+  lines.splice(end, 0, item)
+  return lines.join('\n')
+}
@@ -0,0 +1,110 @@
+import { ScoringAssessment, ScoringCalculator, ScoringInputs, affirms, largestSizeMm, listValue, numberValue, optionValue } from './ScoringCalculator'
+
+/**
+ * LI-RADS v2018 CT/MRI diagnostic categories for liver observations in patients at risk for HCC.
+ * Arterial phase hyperenhancement, size and the count of additional major features
+ * (nonperipheral washout, enhancing capsule, threshold growth) are read off the diagnostic table.
+ */
+
+const CATEGORIES: Record<string, Omit<ScoringAssessment, 'category'>> = {
+  'LR-1': { description: 'definitely benign', management: 'Return to routine surveillance in 6 months' },
+  'LR-2': { description: 'probably benign', management: 'Return to routine surveillance in 6 months; consider repeat diagnostic imaging in 6 months or less' },
+  'LR-3': { description: 'intermediate probability of malignancy', management: 'Repeat or alternative diagnostic imaging in 3-6 months' },
+  'LR-4': { description: 'probably HCC', management: 'Multidisciplinary discussion for tailored workup, which may include biopsy or repeat imaging in 3 months or less' },
+  'LR-5': { description: 'definitely HCC', management: 'Multidisciplinary discussion for consensus management; biopsy is not needed for diagnosis' },
+  'LR-M': { description: 'probably or definitely malignant, not HCC specific', management: 'Multidisciplinary discussion; biopsy is often needed' },
+  'LR-TIV': { description: 'tumor in vein', management: 'Multidisciplinary discussion for consensus management' }
+}
+
+const assess = (category: string): ScoringAssessment => ({ category, ...CATEGORIES[category] })
+
+// Diagnostic table rows by additional major feature count (0, 1, 2 or more)
+function tableCategory(aphe: string, sizeMm: number, features: string[]): string {
+  const count = Math.min(features.length, 2)
+  if (aphe === 'none') {
+    if (sizeMm < 20) return ['LR-3', 'LR-3', 'LR-4'][count]
+    return ['LR-3', 'LR-4', 'LR-4'][count]
+  }
+  if (sizeMm < 10) return ['LR-3', 'LR-4', 'LR-4'][count]
+  if (sizeMm < 20) {
+    // A lone capsule stays LR-4; lone washout or threshold growth is enough for LR-5
+    if (count === 1) return features.includes('capsule') ? 'LR-4' : 'LR-5'
+    return ['LR-3', 'LR-5', 'LR-5'][count]
+  }
+  return ['LR-4', 'LR-5', 'LR-5'][count]
+}
+
+function compute(inputs: ScoringInputs): ScoringAssessment | null {
+  const special = optionValue(inputs, 'special')
+  if (special === 'tumor_in_vein') return assess('LR-TIV')
+  if (special === 'malignant_not_hcc') return assess('LR-M')
+  if (special === 'definitely_benign') return assess('LR-1')
+  if (special === 'probably_benign') return assess('LR-2')
+
+  const aphe = optionValue(inputs, 'aphe')
+  if (aphe === 'rim') return assess('LR-M')
+  const sizeMm = numberValue(inputs, 'sizeMm')
+  if (!aphe || sizeMm === undefined) return null
+  return assess(tableCategory(aphe, sizeMm, listValue(inputs, 'features')))
+}
+
+const LIVER_OBSERVATION = /\b(?:liver|hepatic|segment\s*[1-8IVX]+)\b[\s\S]*\b(?:observations?|lesions?|mass(?:es)?|nodules?)\b|\b(?:observations?|lesions?|mass(?:es)?|nodules?)\b[\s\S]*\b(?:liver|hepatic|segment\s*[1-8IVX]+)\b/i
+const APHE = /\b(?:APHE|arterial(?: phase)? hyper-?enhanc\w*)\b/i
+
+function extract(sentence: string): ScoringInputs | null {
+  if (!LIVER_OBSERVATION.test(sentence) || !APHE.test(sentence)) return null
+
+  const aphe = affirms(sentence, /\brim (?:APHE|arterial(?: phase)? hyper-?enhanc\w*)\b/i) ? 'rim'
+    : affirms(sentence, APHE) ? 'nonrim'
+    : 'none'
+  const features = [
+    // Peripheral washout is an LR-M feature, not a major feature
+    affirms(sentence, /\b(?<!peripheral )(?:nonperipheral )?wash-?out\b/i) && 'washout',
+    affirms(sentence, /\b(?:enhancing )?(?:pseudo)?capsule\b/i) && 'capsule',
+    affirms(sentence, /\bthreshold growth\b/i) && 'growth'
+  ].filter((feature): feature is string => Boolean(feature))
+
+  return {
+    aphe,
+    features,
+    sizeMm: largestSizeMm(sentence),
+    ...(affirms(sentence, /\btumou?r in (?:the )?(?:portal |hepatic )?veins?\b/i) ? { special: 'tumor_in_vein' } : {})
+  }
+}
+
+export const LIRADS_CALCULATOR: ScoringCalculator = {
+  id: 'lirads',
+  name: 'LI-RADS',
+  citation: 'LI-RADS v2018',
+  fields: [
+    {
+      id: 'aphe', label: 'Arterial phase hyperenhancement', type: 'select', options: [
+        { value: 'none', label: 'None' },
+        { value: 'nonrim', label: 'Nonrim' },
+        { value: 'rim', label: 'Rim' }
+      ]
+    },
+    { id: 'sizeMm', label: 'Size', type: 'number', unit: 'mm' },
+    {
+      id: 'features', label: 'Additional major features', type: 'multi', options: [
+        { value: 'washout', label: 'Nonperipheral washout' },
+        { value: 'capsule', label: 'Enhancing capsule' },
+        { value: 'growth', label: 'Threshold growth' }
+      ]
+    },
+    {
+      id: 'special', label: 'Overriding category', type: 'select', options: [
+        { value: 'none', label: 'None' },
+        { value: 'definitely_benign', label: 'Definitely benign (LR-1)' },
+        { value: 'probably_benign', label: 'Probably benign (LR-2)' },
+        { value: 'malignant_not_hcc', label: 'Targetoid or other LR-M features' },
+        { value: 'tumor_in_vein', label: 'Tumor in vein' }
+      ]
+    }
+  ],
+  extract,
+  compute,
+  label: category => `LI-RADS ${category}`,
+  statedCategories: text => [...text.matchAll(/\b(?:LI-?RADS\s*(?:category\s*)?(?:LR-?)?|LR-?)\s*(TIV|[1-5M])(?![\w-])/gi)]
+    .map(match => `LR-${match[1].toUpperCase()}`)
+}
@@ -0,0 +1,64 @@
+import { ROMAN_NUMERALS, ScoringAssessment, ScoringCalculator, ScoringInputs, affirms, optionValue } from './ScoringCalculator'
+
+/**
+ * Modified Outerbridge grading of articular cartilage on MRI.
+ * The grade follows the depth of the worst defect: signal change, partial thickness under or
+ * over half the cartilage thickness, or full thickness down to subchondral bone.
+ */
+
+const GRADES: Record<string, Omit<ScoringAssessment, 'category'>> = {
+  normal: { description: 'normal cartilage', management: 'No cartilage-directed management is needed' },
+  signal: { description: 'signal change or softening with intact surface', management: 'No cartilage-directed management is needed' },
+  partial: { description: 'partial-thickness defect less than 50% of cartilage thickness', management: 'Conservative management' },
+  deep: { description: 'partial-thickness defect more than 50% of cartilage thickness', management: 'Orthopedic correlation if symptomatic' },
+  full: { description: 'full-thickness defect with exposed subchondral bone', management: 'Orthopedic correlation for cartilage repair options if symptomatic' }
+}
+
+const DEPTHS = ['normal', 'signal', 'partial', 'deep', 'full']
+
+function compute(inputs: ScoringInputs): ScoringAssessment | null {
+  const depth = optionValue(inputs, 'depth')
+  if (!depth || !GRADES[depth]) return null
+  return { category: String(DEPTHS.indexOf(depth)), ...GRADES[depth] }
+}
+
+const CARTILAGE = /\b(?:cartilage|chondral|chondrosis|chondromalacia|osteochondral)\b/i
+
+function extract(sentence: string): ScoringInputs | null {
+  if (!CARTILAGE.test(sentence)) return null
+
+  // Worst defect in the sentence
+  const depth = affirms(sentence, /\b(?:full[- ]thickness|exposed (?:subchondral )?bone|denuded|bone[- ]on[- ]bone)\b/i) ? 'full'
+    : affirms(sentence, /\b(?:high[- ]grade partial|deep partial|(?:greater|more) than (?:50%|half)|>\s*50%)/i) ? 'deep'
+    : affirms(sentence, /\b(?:partial[- ]thickness|low[- ]grade partial|(?:less|fewer) than (?:50%|half)|<\s*50%|superficial|fissur\w*|fibrillation)/i) ? 'partial'
+    : affirms(sentence, /\b(?:signal (?:change|alteration|abnormality|heterogeneity)|softening|swelling|blister\w*)\b/i) ? 'signal'
+    : undefined
+  // Normal cartilage is not worth a grade
+  return depth ? { depth } : null
+}
+
+export const OUTERBRIDGE_CALCULATOR: ScoringCalculator = {
+  id: 'outerbridge',
+  name: 'Outerbridge',
+  citation: 'Modified Outerbridge (MRI)',
+  fields: [
+    {
+      id: 'depth', label: 'Deepest cartilage defect', type: 'select', options: [
+        { value: 'normal', label: 'Normal' },
+        { value: 'signal', label: 'Signal change or softening, intact surface' },
+        { value: 'partial', label: 'Partial thickness, less than 50%' },
+        { value: 'deep', label: 'Partial thickness, more than 50%' },
+        { value: 'full', label: 'Full thickness, exposed subchondral bone' }
+      ]
+    }
+  ],
+  extract,
+  compute,
+  label: category => `Outerbridge grade ${category}`,
+  // A bare "grade 2" only counts in a sentence about cartilage (ligament sprains are graded too)
+  statedCategories: text => text.split(/(?<=[.!?])\s+|\n/)
+    .flatMap(sentence => {
+      const pattern = CARTILAGE.test(sentence) ? /\b(?:Outerbridge\s+)?grade\s*(IV|III|II|I|[0-4])(?![\w-])/gi : /\bOuterbridge\s+(?:grade\s*)?(IV|III|II|I|[0-4])(?![\w-])/gi
+      return [...sentence.matchAll(pattern)].map(match => ROMAN_NUMERALS[match[1].toUpperCase()] || match[1])
+    })
+}
@@ -0,0 +1,164 @@
+import { ScoringAssessment, ScoringCalculator, ScoringInputs, affirms, formatCm, largestSizeMm, listValue, numberValue, optionValue } from './ScoringCalculator'
+
+/**
+ * ACR TI-RADS (2017) for thyroid nodules on ultrasound.
+ * Points from composition, echogenicity, shape, margin and echogenic foci give the TR level;
+ * the TR level and the nodule's largest dimension decide between FNA, follow-up and nothing.
+ */
+
+const POINTS: Record<string, Record<string, number>> = {
+  composition: { cystic: 0, spongiform: 0, mixed: 1, solid: 2 },
+  echogenicity: { anechoic: 0, hyperechoic: 1, isoechoic: 1, hypoechoic: 2, very_hypoechoic: 3 },
+  shape: { wider_than_tall: 0, taller_than_wide: 3 },
+  margin: { smooth: 0, ill_defined: 0, lobulated_irregular: 2, extrathyroidal_extension: 3 },
+  foci: { none: 0, comet_tail: 0, macrocalcifications: 1, peripheral: 2, punctate: 3 }
+}
+
+interface TiradsLevel {
+  category: string
+  description: string
+  // Size thresholds in mm; unset when the level never needs them
+  fnaMm?: number
+  followUpMm?: number
+  followUpSchedule?: string
+}
+
+const LEVELS: TiradsLevel[] = [
+  { category: 'TR1', description: 'benign' },
+  { category: 'TR2', description: 'not suspicious' },
+  { category: 'TR3', description: 'mildly suspicious', fnaMm: 25, followUpMm: 15, followUpSchedule: 'at 1, 3 and 5 years' },
+  { category: 'TR4', description: 'moderately suspicious', fnaMm: 15, followUpMm: 10, followUpSchedule: 'at 1, 2, 3 and 5 years' },
+  { category: 'TR5', description: 'highly suspicious', fnaMm: 10, followUpMm: 5, followUpSchedule: 'annually for up to 5 years' }
+]
+
+function levelFor(points: number): TiradsLevel {
+  if (points >= 7) return LEVELS[4]
+  if (points >= 4) return LEVELS[3]
+  if (points === 3) return LEVELS[2]
+  if (points === 2) return LEVELS[1]
+  return LEVELS[0]
+}
+
+function management(level: TiradsLevel, sizeMm: number | undefined): string {
+  if (level.fnaMm === undefined || level.followUpMm === undefined) return 'No FNA is recommended'
+  if (sizeMm === undefined) {
+    return `FNA if ${formatCm(level.fnaMm)} or larger; follow-up ultrasound ${level.followUpSchedule} if ${formatCm(level.followUpMm)} or larger`
+  }
+  if (sizeMm >= level.fnaMm) return `FNA is recommended (${formatCm(sizeMm)}; threshold ${formatCm(level.fnaMm)})`
+  if (sizeMm >= level.followUpMm) return `Follow-up ultrasound ${level.followUpSchedule} (${formatCm(sizeMm)}; FNA threshold ${formatCm(level.fnaMm)})`
+  return `No FNA or follow-up is recommended (${formatCm(sizeMm)})`
+}
+
+function compute(inputs: ScoringInputs): ScoringAssessment | null {
+  const composition = optionValue(inputs, 'composition')
+  const echogenicity = optionValue(inputs, 'echogenicity')
+  if (!composition) return null
+  const sizeMm = numberValue(inputs, 'sizeMm')
+
+  // Spongiform nodules are benign whatever else is seen
+  if (composition === 'spongiform') {
+    return { category: 'TR1', description: LEVELS[0].description, points: 0, management: management(LEVELS[0], sizeMm) }
+  }
+  // Only cystic nodules can go without an echogenicity
+  if (!echogenicity && composition !== 'cystic') return null
+
+  const points = POINTS.composition[composition] +
+    (echogenicity ? POINTS.echogenicity[echogenicity] ?? 0 : 0) +
+    (POINTS.shape[optionValue(inputs, 'shape') || 'wider_than_tall'] ?? 0) +
+    (POINTS.margin[optionValue(inputs, 'margin') || 'smooth'] ?? 0) +
+    listValue(inputs, 'foci').reduce((total, focus) => total + (POINTS.foci[focus] ?? 0), 0)
+  const level = levelFor(points)
+  return { category: level.category, description: level.description, points, management: management(level, sizeMm) }
+}
+
+const THYROID_NODULE = /\b(?:thyroid|isthmus|isthmic)\b[\s\S]*\bnodules?\b|\bnodules?\b[\s\S]*\b(?:thyroid|isthmus|isthmic)\b/i
+
+function extract(sentence: string): ScoringInputs | null {
+  if (!THYROID_NODULE.test(sentence)) return null
+
+  const composition = /\bspongiform\b/i.test(sentence) ? 'spongiform'
+    : /\b(?:mixed (?:cystic and solid|solid and cystic)|partially cystic|complex cystic)\b/i.test(sentence) ? 'mixed'
+    : /\bsolid\b/i.test(sentence) ? 'solid'
+    : /\b(?:cystic|cyst)\b/i.test(sentence) ? 'cystic'
+    : undefined
+  const echogenicity = /\b(?:very|markedly) hypoechoic\b/i.test(sentence) ? 'very_hypoechoic'
+    : /\bhypoechoic\b/i.test(sentence) ? 'hypoechoic'
+    : /\bisoechoic\b/i.test(sentence) ? 'isoechoic'
+    : /\bhyperechoic\b/i.test(sentence) ? 'hyperechoic'
+    : /\banechoic\b/i.test(sentence) ? 'anechoic'
+    : undefined
+  // Ultrasound features are what make a sentence scorable; CT and MRI mentions have none
+  if (!composition || (!echogenicity && composition !== 'cystic' && composition !== 'spongiform')) return null
+
+  const margin = affirms(sentence, /\bextra-?thyroidal (?:extension|invasion)\b/i) ? 'extrathyroidal_extension'
+    : affirms(sentence, /\b(?:lobulated|irregular)\b/i) ? 'lobulated_irregular'
+    : affirms(sentence, /\bill-?defined\b/i) ? 'ill_defined'
+    : 'smooth'
+  const foci = [
+    affirms(sentence, /\b(?:punctate echogenic foci|microcalcifications?)\b/i) && 'punctate',
+    affirms(sentence, /\b(?:peripheral|rim|eggshell) calcifications?\b/i) && 'peripheral',
+    affirms(sentence, /\b(?:macrocalcifications?|coarse calcifications?)\b/i) && 'macrocalcifications',
+    affirms(sentence, /\bcomet[- ]tail\b/i) && 'comet_tail'
+  ].filter((focus): focus is string => Boolean(focus))
+
+  return {
+    composition,
+    echogenicity,
+    shape: affirms(sentence, /\btaller[- ]than[- ]wide\b/i) ? 'taller_than_wide' : 'wider_than_tall',
+    margin,
+    foci,
+    sizeMm: largestSizeMm(sentence)
+  }
+}
+
+export const TIRADS_CALCULATOR: ScoringCalculator = {
+  id: 'tirads',
+  name: 'ACR TI-RADS',
+  citation: 'ACR TI-RADS 2017',
+  fields: [
+    {
+      id: 'composition', label: 'Composition', type: 'select', options: [
+        { value: 'cystic', label: 'Cystic or almost completely cystic' },
+        { value: 'spongiform', label: 'Spongiform' },
+        { value: 'mixed', label: 'Mixed cystic and solid' },
+        { value: 'solid', label: 'Solid or almost completely solid' }
+      ]
+    },
+    {
+      id: 'echogenicity', label: 'Echogenicity', type: 'select', options: [
+        { value: 'anechoic', label: 'Anechoic' },
+        { value: 'hyperechoic', label: 'Hyperechoic' },
+        { value: 'isoechoic', label: 'Isoechoic' },
+        { value: 'hypoechoic', label: 'Hypoechoic' },
+        { value: 'very_hypoechoic', label: 'Very hypoechoic' }
+      ]
+    },
+    {
+      id: 'shape', label: 'Shape', type: 'select', options: [
+        { value: 'wider_than_tall', label: 'Wider-than-tall' },
+        { value: 'taller_than_wide', label: 'Taller-than-wide' }
+      ]
+    },
+    {
+      id: 'margin', label: 'Margin', type: 'select', options: [
+        { value: 'smooth', label: 'Smooth' },
+        { value: 'ill_defined', label: 'Ill-defined' },
+        { value: 'lobulated_irregular', label: 'Lobulated or irregular' },
+        { value: 'extrathyroidal_extension', label: 'Extrathyroidal extension' }
+      ]
+    },
+    {
+      id: 'foci', label: 'Echogenic foci', type: 'multi', options: [
+        { value: 'comet_tail', label: 'Large comet-tail artifacts' },
+        { value: 'macrocalcifications', label: 'Macrocalcifications' },
+        { value: 'peripheral', label: 'Peripheral (rim) calcifications' },
+        { value: 'punctate', label: 'Punctate echogenic foci' }
+      ]
+    },
+    { id: 'sizeMm', label: 'Largest dimension', type: 'number', unit: 'mm' }
+  ],
+  extract,
+  compute,
+  label: category => `ACR TI-RADS ${category}`,
+  statedCategories: text => [...text.matchAll(/\b(?:TI-?RADS\s*(?:category\s*|level\s*)?(?:TR)?|TR)\s*-?\s*([1-5])\b/gi)].map(match => `TR${match[1]}`)
+}
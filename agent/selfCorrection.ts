@@ -0,0 +1,197 @@
+import { AgentLogic } from './types'
+import { ReportProvenance } from './provenance'
+import { LateralityResult } from './laterality'
+import { MeasurementCheck } from './measurements'
+import { ModelCallResponse } from './callModel'
+import validateRules, { ValidationContext } from './validateRules'
+import { validateSectionHeaders, ensureSectionHeaders } from './validateSectionHeaders'
+import { applyStructuredOutput, isStructuredOutputEnabled } from './structuredReport'
+import { fillFieldDefaults } from './templateFields'
+
+/**
+ * Automatic repair pass (self_correction in agent_logic).
+ * When a generated report breaks rules, the model is re-prompted with the specific
+ * violations and its previous output until they are resolved or the attempts run out.
+ */
+
+export const DEFAULT_MAX_REPAIR_ATTEMPTS = 2
+
+export interface ReportEvaluation {
+  // Report text after structured rendering or header repair
+  text: string
+  impressionItems?: string[]
+  // Set in structured output mode: whether the model's JSON parsed
+  structured?: boolean
+  structuredError?: string
+  headers: { valid: boolean; missing: string[]; extra: string[] }
+  violations: string[]
+  warnings: string[]
+  provenance?: ReportProvenance
+  laterality?: LateralityResult
+  measurements?: MeasurementCheck
+}
+
+export interface SelfCorrectionSummary {
+  // Repair prompts sent (0 when the first output passed)
+  attempts: number
+  fixed: string[]
+  remaining: string[]
+  // Why repairing stopped early when a repair call failed
+  error?: string
+}
+
+export interface SelfCorrectionResult extends SelfCorrectionSummary {
+  // Raw model output and evaluation of the best attempt
+  output: string
+  evaluation: ReportEvaluation
+  tokens: { input: number; output: number; total: number }
+}
+
+export interface SelfCorrectionOptions {
+  prompt: string
+  output: string
+  evaluation: ReportEvaluation
+  maxAttempts: number
+  evaluate: (output: string) => ReportEvaluation
+  regenerate: (prompt: string) => Promise<ModelCallResponse>
+  onAttempt?: (attempt: number, violations: string[]) => void
+}
+
+/**
+ * Number of repair attempts configured for the logic; 0 when self-correction is off
+ */
+export function getMaxRepairAttempts(agentLogic: AgentLogic | undefined): number {
+  const settings = agentLogic?.self_correction
+  if (!settings?.enabled) return 0
+  const attempts = settings.max_attempts
+  return Number.isInteger(attempts) && (attempts as number) > 0 ? (attempts as number) : DEFAULT_MAX_REPAIR_ATTEMPTS
+}
+
+/**
+ * Validates one model output the way generation does: structured rendering or header repair,
+ * then the logic rules against the resulting text
+ */
+export function evaluateReport(
+  output: string,
+  template: string,
+  findings: string,
+  agentLogic: AgentLogic,
+  context: Pick<ValidationContext, 'studyType' | 'examSide' | 'patient' | 'exam'> = {}
+): ReportEvaluation {
+  // Template fields the model left alone take their defaults
+  const filled = fillFieldDefaults(output)
+  
+  if (isStructuredOutputEnabled(agentLogic)) {
+    const structured = applyStructuredOutput(filled, template, agentLogic)
+    const rules = validateRules(structured.text, findings, agentLogic, { ...context, impressionItems: structured.impressionItems, template })
+    return {
+      text: structured.text,
+      impressionItems: structured.impressionItems,
+      structured: structured.structured,
+      structuredError: structured.error,
+      headers: {
+        valid: structured.structured && structured.missing.length === 0 && structured.extra.length === 0,
+        missing: structured.missing,
+        extra: structured.extra
+      },
+      violations: rules.violations,
+      warnings: rules.warnings,
+      provenance: rules.provenance,
+      laterality: rules.laterality,
+      measurements: rules.measurements
+    }
+  }
+
+  const headers = validateSectionHeaders(template, filled)
+  const text = headers.valid ? filled : ensureSectionHeaders(template, filled)
+  const rules = validateRules(text, findings, agentLogic, { ...context, template })
+  return { text, headers, violations: rules.violations, warnings: rules.warnings, provenance: rules.provenance, laterality: rules.laterality, measurements: rules.measurements }
+}
+
+/**
+ * Rule violations plus header and structured-format problems, phrased for the repair prompt
+ */
+export function collectRepairViolations(evaluation: ReportEvaluation): string[] {
+  const violations: string[] = []
+  if (evaluation.structuredError) {
+    violations.push(`STRUCTURED OUTPUT: ${evaluation.structuredError}. Return only the JSON object described in the output format.`)
+  }
+  if (evaluation.headers.missing.length > 0) {
+    violations.push(`SECTION HEADERS: Missing template headers ${evaluation.headers.missing.join(', ')}.`)
+  }
+  if (evaluation.headers.extra.length > 0) {
+    violations.push(`SECTION HEADERS: Headers not in the template ${evaluation.headers.extra.join(', ')}.`)
+  }
+  return [...violations, ...evaluation.violations]
+}
+
+export function buildRepairPrompt(prompt: string, previousOutput: string, violations: string[]): string {
+  let repairPrompt = prompt.trimEnd() + '\n\n'
+  repairPrompt += '=== PREVIOUS OUTPUT ===\n'
+  repairPrompt += previousOutput.trim() + '\n\n'
+  repairPrompt += '=== RULE VIOLATIONS TO FIX ===\n'
+  violations.forEach((violation, index) => {
+    repairPrompt += `${index + 1}. ${violation}\n`
+  })
+  repairPrompt += '\nRewrite the previous output so every violation above is resolved. '
+  repairPrompt += 'Keep all other content unchanged, do not add findings that were not provided, '
+  repairPrompt += 'and return only the complete corrected report in the same format.\n'
+  return repairPrompt
+}
+
+/**
+ * Re-prompts until no repairable violations remain or maxAttempts is reached.
+ * An attempt that leaves more violations than the best so far is discarded, and a failed
+ * repair call (rate limit, network, cancel) ends the pass with the best output so far.
+ */
+export async function runSelfCorrection({
+  prompt,
+  output,
+  evaluation,
+  maxAttempts,
+  evaluate,
+  regenerate,
+  onAttempt
+}: SelfCorrectionOptions): Promise<SelfCorrectionResult> {
+  const initial = collectRepairViolations(evaluation)
+  const tokens = { input: 0, output: 0, total: 0 }
+  let best = { output, evaluation, violations: initial }
+  let attempts = 0
+  let error: string | undefined
+
+  while (best.violations.length > 0 && attempts < maxAttempts) {
+    attempts++
+    onAttempt?.(attempts, best.violations)
+    console.log(`🔧 Self-correction attempt ${attempts}/${maxAttempts} for ${best.violations.length} violations`)
+
+    let response: ModelCallResponse
+    try {
+      response = await regenerate(buildRepairPrompt(prompt, best.output, best.violations))
+    } catch (err) {
+      error = err instanceof Error ? err.message : String(err)
+      console.warn(`⚠️ Self-correction attempt ${attempts} failed, keeping the best output so far:`, error)
+      break
+    }
+    if (response.tokens) {
+      tokens.input += response.tokens.input
+      tokens.output += response.tokens.output
+      tokens.total += response.tokens.total
+    }
+
+    const candidate = evaluate(response.text)
+    const violations = collectRepairViolations(candidate)
+    if (violations.length <= best.violations.length) {
+      best = { output: response.text, evaluation: candidate, violations }
+    }
+  }
+
+  return {
+    output: best.output,
+    evaluation: best.evaluation,
+    attempts,
+    fixed: initial.filter(violation => !best.violations.includes(violation)),
+    remaining: best.violations,
+    error,
+    tokens
+  }
+}
@@ -0,0 +1,219 @@
+import { AgentLogic } from './types'
+import { extractSectionHeaders, ensureSectionHeaders } from './validateSectionHeaders'
+
+/**
+ * Structured report output mode (formatting.structured_output).
+ * The model returns JSON keyed by the template's section headers plus an array of
+ * impression items; RadPal renders that back into the template text, so header
+ * enforcement and impression handling no longer depend on re-parsing free text.
+ */
+
+export interface StructuredReport {
+  // Section bodies keyed by header name without the trailing colon (e.g. "FINDINGS")
+  sections: Record<string, string>
+  impression: string[]
+}
+
+export interface StructuredParseResult {
+  report: StructuredReport | null
+  // Template headers (with colon) the model left out
+  missing: string[]
+  // Keys the model returned that are not template headers
+  extra: string[]
+  error?: string
+}
+
+export interface StructuredOutputResult {
+  text: string
+  // Exact impression items when the output parsed; undefined when it fell back to free text
+  impressionItems?: string[]
+  structured: boolean
+  missing: string[]
+  extra: string[]
+  error?: string
+}
+
+const IMPRESSION_HEADER = /^IMPRESSIONS?:?$/
+
+export function isStructuredOutputEnabled(agentLogic: AgentLogic | undefined): boolean {
+  return !!agentLogic?.formatting?.structured_output
+}
+
+function headerName(header: string): string {
+  return header.trim().replace(/:$/, '').trim().toUpperCase()
+}
+
+function isImpressionHeader(header: string): boolean {
+  return IMPRESSION_HEADER.test(headerName(header))
+}
+
+function bodySections(template: string): string[] {
+  return extractSectionHeaders(template).filter(header => !isImpressionHeader(header))
+}
+
+/**
+ * Output instructions appended to the report prompt in structured mode
+ */
+export function buildStructuredOutputInstructions(template: string): string {
+  const sections = bodySections(template).map(headerName)
+  const shape = {
+    sections: Object.fromEntries(sections.map(name => [name, `<${name.toLowerCase()} section text>`])),
+    impression: ['<first impression item>', '<second impression item>']
+  }
+
+  let instructions = 'OUTPUT FORMAT (STRUCTURED JSON):\n'
+  instructions += 'Return ONLY a JSON object, with no markdown fences or commentary, in exactly this shape:\n'
+  instructions += `${JSON.stringify(shape, null, 2)}\n`
+  instructions += `- "sections" must contain exactly these keys: ${sections.length ? sections.map(name => `"${name}"`).join(', ') : '(none)'}\n`
+  instructions += '- Each section value is the complete text for that section, without the header itself\n'
+  instructions += '- "impression" is an array with one string per impression item, in order, without numbering or bullet symbols\n'
+  instructions += '\nGenerate the structured radiology report now.\n'
+  return instructions
+}
+
+// Tolerates ```json fences and leading/trailing prose around the object
+function extractJsonObject(text: string): string | null {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i)
+  const candidate = fenced ? fenced[1] : text
+  const start = candidate.indexOf('{')
+  const end = candidate.lastIndexOf('}')
+  return start !== -1 && end > start ? candidate.slice(start, end + 1) : null
+}
+
+function toImpressionItems(value: unknown): string[] | null {
+  const items = Array.isArray(value)
+    ? value
+    : typeof value === 'string'
+      ? value.split(/\n+/)
+      : null
+  if (!items || !items.every(item => typeof item === 'string')) return null
+
+  return (items as string[])
+    .map(item => item.replace(/^\s*(?:\d+[.)]|[•\-*])\s*/, '').trim())
+    .filter(Boolean)
+}
+
+/**
+ * Parses model output in the structured shape and checks its keys against the template headers
+ */
+export function parseStructuredReport(output: string, template: string): StructuredParseResult {
+  const expected = bodySections(template)
+  const json = extractJsonObject(output)
+  if (!json) {
+    return { report: null, missing: expected, extra: [], error: 'Output does not contain a JSON object' }
+  }
+
+  let parsed: any
+  try {
+    parsed = JSON.parse(json)
+  } catch (error) {
+    return { report: null, missing: expected, extra: [], error: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` }
+  }
+
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed) || !parsed.sections || typeof parsed.sections !== 'object' || Array.isArray(parsed.sections)) {
+    return { report: null, missing: expected, extra: [], error: 'Expected an object with a "sections" object' }
+  }
+
+  const sections: Record<string, string> = {}
+  const extra: string[] = []
+  let impressionFallback: unknown
+
+  for (const [key, value] of Object.entries(parsed.sections)) {
+    const name = headerName(key)
+    if (IMPRESSION_HEADER.test(name)) {
+      impressionFallback = value
+    } else if (!expected.some(header => headerName(header) === name)) {
+      extra.push(`${name}:`)
+    } else if (typeof value === 'string') {
+      sections[name] = value.trim()
+    } else {
+      return { report: null, missing: expected, extra, error: `Section "${name}" must be a string` }
+    }
+  }
+
+  const impression = toImpressionItems(parsed.impression !== undefined ? parsed.impression : impressionFallback ?? [])
+  if (!impression) {
+    return { report: null, missing: expected, extra, error: '"impression" must be an array of strings' }
+  }
+
+  return {
+    report: { sections, impression },
+    missing: expected.filter(header => sections[headerName(header)] === undefined),
+    extra
+  }
+}
+
+/**
+ * Formats impression items the way the report prompt asks for free-text impressions
+ */
+export function formatImpressionItems(items: string[], agentLogic: AgentLogic): string {
+  if (agentLogic.impression?.numerically_itemized) {
+    return items.map((item, index) => `${index + 1}. ${item}`).join('\n\n')
+  }
+  if (agentLogic.formatting?.use_bullet_points) {
+    return items.map(item => `• ${item}`).join('\n\n')
+  }
+  return items.join('\n\n')
+}
+
+/**
+ * Renders a structured report into the template's section order.
+ * Text before the first header is kept; sections the model omitted keep their template text.
+ */
+export function renderStructuredReport(template: string, report: StructuredReport, agentLogic: AgentLogic): string {
+  // Same single-line header pattern as extractSectionHeaders
+  const headerRegex = /^([A-Z][A-Z \t/]+):/gm
+  const matches = [...template.matchAll(headerRegex)]
+  if (matches.length === 0) {
+    const body = Object.values(report.sections).join('\n\n')
+    const impression = formatImpressionItems(report.impression, agentLogic)
+    return [body, impression ? `IMPRESSION:\n${impression}` : ''].filter(Boolean).join('\n\n')
+  }
+
+  const preamble = template.slice(0, matches[0].index).trim()
+  const blocks = matches.map((match, index) => {
+    const header = `${match[1]}:`
+    const name = headerName(header)
+    const bodyStart = match.index! + match[0].length
+    const bodyEnd = index + 1 < matches.length ? matches[index + 1].index! : template.length
+    const templateBody = template.slice(bodyStart, bodyEnd).trim()
+
+    const body = isImpressionHeader(header)
+      ? formatImpressionItems(report.impression, agentLogic)
+      : report.sections[name] ?? templateBody
+    return body ? `${header}\n${body}` : header
+  })
+
+  // Templates without an impression header still get the impression items
+  if (!matches.some(match => isImpressionHeader(match[1])) && report.impression.length > 0) {
+    blocks.push(`IMPRESSION:\n${formatImpressionItems(report.impression, agentLogic)}`)
+  }
+
+  return [preamble, ...blocks].filter(Boolean).join('\n\n')
+}
+
+/**
+ * Turns structured model output into report text; output that does not parse is
+ * kept as free text with the usual header repair so generation never fails on format
+ */
+export function applyStructuredOutput(output: string, template: string, agentLogic: AgentLogic): StructuredOutputResult {
+  const parsed = parseStructuredReport(output, template)
+  if (!parsed.report) {
+    console.warn('⚠️ Structured output could not be parsed, using free text:', parsed.error)
+    return {
+      text: ensureSectionHeaders(template, output),
+      structured: false,
+      missing: parsed.missing,
+      extra: parsed.extra,
+      error: parsed.error
+    }
+  }
+
+  return {
+    text: renderStructuredReport(template, parsed.report, agentLogic),
+    impressionItems: parsed.report.impression,
+    structured: true,
+    missing: parsed.missing,
+    extra: parsed.extra
+  }
+}
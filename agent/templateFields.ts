@@ -0,0 +1,84 @@
+/**
+ * Template fill-in fields.
+ * Templates mark the spots a report fills in with double braces:
+ *   {{Size}}                         free text, must be filled
+ *   {{Effusion=None}}                free text with a default
+ *   {{Menisci|Intact|*Degenerated}}  picklist; the option marked * is the default
+ * The generator fills fields from the findings, defaults fill the rest, and whatever is left
+ * is navigated to in the editor and flagged at copy-out.
+ */
+
+export type TemplateFieldKind = 'text' | 'picklist'
+
+export interface TemplateField {
+  label: string
+  kind: TemplateFieldKind
+  defaultValue?: string
+  // Picklist options without the default marker
+  options: string[]
+  // Markup as written, e.g. "{{Effusion=None}}"
+  raw: string
+  index: number
+  end: number
+}
+
+export const TEMPLATE_FIELD_PREFIX = 'TEMPLATE FIELD:'
+
+const FIELD_PATTERN = /\{\{\s*([^{}=|]*?[^{}=|\s])\s*(?:=([^{}]*)|\|([^{}]*))?\}\}/g
+
+/**
+ * Every field written in the text, in order
+ */
+export function parseTemplateFields(text: string): TemplateField[] {
+  return [...text.matchAll(FIELD_PATTERN)].map(match => {
+    const base = { label: match[1], raw: match[0], index: match.index!, end: match.index! + match[0].length }
+    if (match[3] === undefined) {
+      const defaultValue = match[2]?.trim()
+      return { ...base, kind: 'text' as const, options: [], ...(defaultValue ? { defaultValue } : {}) }
+    }
+    const entries = match[3].split('|').map(option => option.trim()).filter(Boolean)
+    const marked = entries.find(option => option.startsWith('*'))
+    return {
+      ...base,
+      kind: 'picklist' as const,
+      options: entries.map(option => option.replace(/^\*\s*/, '')),
+      ...(marked ? { defaultValue: marked.replace(/^\*\s*/, '') } : {})
+    }
+  })
+}
+
+export function hasTemplateFields(text: string): boolean {
+  return parseTemplateFields(text).length > 0
+}
+
+/**
+ * Replaces fields that have a default with it; fields without one stay for the radiologist
+ */
+export function fillFieldDefaults(text: string): string {
+  return text.replace(FIELD_PATTERN, raw => parseTemplateFields(raw)[0]?.defaultValue ?? raw)
+}
+
+/**
+ * Instructions for filling the template's fields; empty when the template has none
+ */
+export function formatTemplateFieldInstructions(template: string): string {
+  const fields = parseTemplateFields(template)
+  if (fields.length === 0) return ''
+  const picklists = fields.filter(field => field.kind === 'picklist')
+  const lines = [
+    'TEMPLATE FIELDS: The template contains fill-in fields written in double braces: {{label}} is free text, {{label=default}} has a default, and {{label|option|option}} is a picklist.',
+    'Replace each field, braces included, with text supported by the findings. A picklist field must be replaced by one of its options, written exactly as listed.',
+    'If the findings do not cover a field, leave it exactly as written, braces included; defaults are filled in afterwards and the radiologist completes the rest.'
+  ]
+  if (picklists.length > 0) {
+    lines.push(...picklists.map(field => `- ${field.label}: ${field.options.join(' | ')}`))
+  }
+  return lines.join('\n')
+}
+
+/**
+ * Fields the report still contains, one message each
+ */
+export function checkUnfilledFields(report: string): string[] {
+  return parseTemplateFields(report).map(field => `${TEMPLATE_FIELD_PREFIX} "${field.label}" was left unfilled.`)
+}
@@ -1,62 +1,10 @@
-export interface AgentLogic {
-  version?: string
-  instructions?: string
-  steps?: Array<{
-    name: string
-    description?: string
-    prompt?: string
-  }>
-  context?: Record<string, any>
-  examples?: Array<{
-    input: string
-    output: string
-  }>
-  reportSpecific?: {
-    includeAllSections?: boolean
-    sectionOrder?: string[]
-    customSections?: Record<string, string>
-  }
-  impressionSpecific?: {
-    style?: 'concise' | 'detailed' | 'structured'
-    includeRecommendations?: boolean
-    maxLength?: number
-  }
-  report?: {
-    no_hallucinated_findings?: boolean
-    include_technique_section?: boolean
-    include_comparison?: boolean
-    use_medical_abbreviations?: boolean
-    expand_lesions?: boolean
-    cartilage_placement?: {
-      trochlear_cartilage_in_patellofemoral?: boolean
-      mention_patellar_if_trochlear_defect_present?: boolean
-    }
-    anatomic_routing_rules?: {
-      loose_bodies?: string
-      bone_contusions?: string
-      joint_effusions?: string
-    }
-  }
-  impression?: {
-    numerically_itemized?: boolean
-    omit_minor_or_incidental_findings_unless_relevant?: boolean
-    concise_summary?: boolean
-    include_recommendations?: boolean
-    differential_diagnosis?: boolean
-    severity_classification?: boolean
-    prioritize_by_urgency?: boolean
-    first_item_should_address_clinical_concern?: boolean
-    exclude_by_default?: string[]
-    mention_muscle_atrophy_if?: string
-    combine_compartments?: boolean
-    exclude_unless_surgical?: string[]
-  }
-  formatting?: {
-    preserve_template_punctuation?: boolean
-    use_bullet_points?: boolean
-    capitalize_sections?: boolean
-  }
-}
+import type { InferLogicSchema, AGENT_LOGIC_SCHEMA } from './logicSchema'
+
+// Derived from AGENT_LOGIC_SCHEMA so the type, JSON Schema and validation cannot drift apart
+export type AgentLogic = InferLogicSchema<typeof AGENT_LOGIC_SCHEMA>
+
+// Sampling and persona overrides; unset values fall back to the provider defaults
+export type GenerationSettings = NonNullable<AgentLogic['generation']>
 
 export interface ModelResponse {
   text: string
@@ -1,16 +1,53 @@
+import { AgentLogic } from './types'
+import { ReportProvenance } from './provenance'
+import { LateralityResult, Side, checkLaterality } from './laterality'
+import { MeasurementCheck, crossCheckMeasurements } from './measurements'
+import { ConsistencyResult, CONTRADICTION_PREFIX, ORPHAN_PREFIX, checkImpressionConsistency } from './impressionConsistency'
+import { runRuleValidators } from './ruleRegistry'
+import { extractFindings } from './conceptExtraction'
+import { PatientContext } from './recommendations'
+import { ExamContext, checkExamContext, formatExamContext } from './examContext'
+import { checkUnfilledFields } from './templateFields'
+import { findCalculatorOutput } from './scoring'
+
 interface ValidationResult {
   passed: boolean
   violations: string[]
   warnings: string[]
+  // Sentence-to-source mapping, computed when no_hallucinated_findings is on
+  provenance?: ReportProvenance
+  laterality: LateralityResult
+  // Findings measurements compared with the report, computed when findings are present
+  measurements?: MeasurementCheck
+  // Impression items checked against the findings section
+  consistency: ConsistencyResult
+}
+
+export interface ValidationContext {
+  // Exact impression items from structured output; the impression is parsed from the text otherwise
+  impressionItems?: string[]
+  // Template the report was generated from; its text counts as support for report sentences
+  template?: string
+  // Study type name and exam side, used to work out which side the report must describe
+  studyType?: string
+  examSide?: Side
+  // Patient details the follow-up recommendation tables depend on
+  patient?: PatientContext
+  // Indication, contrast, comparison study and prior impression entered for the case
+  exam?: ExamContext
+  // Set for impression-only output, which leaves minor and excluded findings out on purpose
+  impressionOnly?: boolean
 }
 
 export default function validateRules(
   generatedReport: string,
   originalFindings: string,
-  agentLogic: Record<string, any>
+  agentLogic: AgentLogic,
+  context: ValidationContext = {}
 ): ValidationResult {
   const violations: string[] = []
   const warnings: string[] = []
+  const { impressionItems } = context
   
   console.log('🔍 Validating generated report against logic rules...')
   
@@ -20,122 +57,81 @@ export default function validateRules(
     return impressionMatch ? impressionMatch[1].trim() : ''
   }
   
-  const impressionText = getImpressionSection(generatedReport)
+  const impressionText = impressionItems ? impressionItems.join('\n') : getImpressionSection(generatedReport)
   console.log('📝 Extracted impression:', impressionText.substring(0, 200) + '...')
+  // Structured items are checked one at a time so one item's qualifiers don't excuse another
+  const impressionUnits = impressionItems || [impressionText]
   
-  // Validate impression formatting
-  if (agentLogic.impression?.numerically_itemized) {
-    const hasNumberedList = /^\s*\d+\./.test(impressionText) || /\n\s*\d+\./.test(impressionText)
-    if (!hasNumberedList) {
-      violations.push('IMPRESSION FORMATTING: Report should use numbered list format (1, 2, 3, etc.) but does not.')
-    }
-  }
-  
-  // Validate exclude_by_default rules with exact phrase matching
-  if (agentLogic.impression?.exclude_by_default && Array.isArray(agentLogic.impression.exclude_by_default)) {
-    for (const excludedItem of agentLogic.impression.exclude_by_default) {
-      // Create a more precise pattern to match the exact phrase
-      const excludedLower = excludedItem.toLowerCase().trim()
-      const impressionLower = impressionText.toLowerCase()
-      
-      // Use word boundary matching to find exact phrases
-      const exactMatchPattern = new RegExp('\\b' + excludedLower.replace(/[.*+?^${}()|[\]\\]/g, '\\$&') + '\\b', 'i')
-      
-      if (exactMatchPattern.test(impressionText)) {
-        // Check if it seems clinically relevant (this is a heuristic)
-        const hasSignificanceIndicators = impressionLower.includes('significant') ||
-                                        impressionLower.includes('severe') ||
-                                        impressionLower.includes('moderate') ||
-                                        impressionLower.includes('concerning') ||
-                                        impressionLower.includes('large') ||
-                                        impressionLower.includes('extensive')
-        
-        if (!hasSignificanceIndicators) {
-          violations.push(`EXCLUSION RULE VIOLATION: "${excludedItem}" appears in impression but should be excluded unless clinically relevant.`)
-        }
-      }
-    }
-  }
+  // Logic-driven checks come from the rule registry
+  const ruleChecks = runRuleValidators({
+    report: generatedReport,
+    findings: originalFindings,
+    logic: agentLogic,
+    impressionText,
+    impressionUnits,
+    impressionItems,
+    template: context.template,
+    patient: context.patient,
+    exam: context.exam
+  })
+  violations.push(...ruleChecks.violations)
+  warnings.push(...ruleChecks.warnings)
+  const provenance = ruleChecks.provenance
   
-  // Validate muscle atrophy rules
-  if (agentLogic.impression?.mention_muscle_atrophy_if) {
-    const hasMuscleMention = impressionText.toLowerCase().includes('muscle') && 
-                           (impressionText.toLowerCase().includes('atrophy') || impressionText.toLowerCase().includes('atrophic'))
+  // Validate findings incorporation: every finding dictated as present should be named in the full report (synonyms count)
+  if (!context.impressionOnly) {
+    const dictatedFindings = extractFindings(originalFindings)
+      .filter(finding => finding.status === 'present' && finding.pathology)
+      .map(finding => finding.pathology!)
+    const reportedFindings = new Set(extractFindings(generatedReport).map(finding => finding.pathology))
     
-    if (hasMuscleMention) {
-      if (agentLogic.impression.mention_muscle_atrophy_if === 'moderate_or_severe') {
-        const hasMild = impressionText.toLowerCase().includes('mild') && 
-                       impressionText.toLowerCase().includes('muscle')
-        if (hasMild) {
-          violations.push('MUSCLE ATROPHY RULE VIOLATION: Mild muscle atrophy mentioned but rule specifies only moderate/severe should be included.')
-        }
-      } else if (agentLogic.impression.mention_muscle_atrophy_if === 'severe') {
-        const hasMildOrModerate = (impressionText.toLowerCase().includes('mild') || 
-                                  impressionText.toLowerCase().includes('moderate')) && 
-                                 impressionText.toLowerCase().includes('muscle')
-        if (hasMildOrModerate) {
-          violations.push('MUSCLE ATROPHY RULE VIOLATION: Mild/moderate muscle atrophy mentioned but rule specifies only severe should be included.')
-        }
+    for (const pathology of [...new Set(dictatedFindings)]) {
+      if (!reportedFindings.has(pathology)) {
+        violations.push(`FINDINGS INCORPORATION: Important finding "${pathology}" from original findings may not be incorporated into report.`)
       }
     }
   }
   
-  // Validate no hallucinated findings rule
-  if (agentLogic.report?.no_hallucinated_findings) {
-    // This is a heuristic check - look for very specific measurements or findings that seem unlikely to be in original
-    const suspiciousPatterns = [
-      /\d+\.\d+ cm/g,  // Very specific measurements
-      /\d+\.\d+ mm/g,
-      /grade [IV]+/gi,  // Specific grading that might not be in findings
-    ]
-    
-    // This is a warning rather than violation since it's hard to definitively detect hallucination
-    for (const pattern of suspiciousPatterns) {
-      if (pattern.test(generatedReport) && !pattern.test(originalFindings)) {
-        warnings.push('POTENTIAL HALLUCINATION: Report contains specific details that may not be in original findings.')
-        break
-      }
-    }
+  // Left/right mix-ups are always checked, whatever the logic says
+  const laterality = checkLaterality({
+    report: generatedReport,
+    findings: originalFindings,
+    template: context.template,
+    studyType: context.studyType,
+    examSide: context.examSide
+  })
+  for (const conflict of laterality.conflicts) {
+    violations.push(`LATERALITY: ${conflict.message}`)
   }
   
-  // Validate findings incorporation
-  const importantFindingKeywords = originalFindings.toLowerCase().match(/\b(tear|defect|lesion|edema|effusion|contusion|sprain|strain|fracture|abnormal|mass|cyst)\b/g) || []
-  const reportLower = generatedReport.toLowerCase()
+  // Contrast, patient sex and the comparison study must match what was entered for the case
+  violations.push(...checkExamContext(generatedReport, context.exam))
   
-  for (const keyword of [...new Set(importantFindingKeywords)]) {
-    if (!reportLower.includes(keyword)) {
-      violations.push(`FINDINGS INCORPORATION: Important finding "${keyword}" from original findings may not be incorporated into report.`)
-    }
-  }
+  // Template fields without a default are left for the radiologist, who is reminded here and at copy-out
+  warnings.push(...checkUnfilledFields(generatedReport))
   
-  // Validate cartilage placement rules
-  if (agentLogic.report?.cartilage_placement?.mention_patellar_if_trochlear_defect_present) {
-    const hasTrochlearDefect = generatedReport.toLowerCase().includes('trochlear') && 
-                              (generatedReport.toLowerCase().includes('defect') || 
-                               generatedReport.toLowerCase().includes('tear') ||
-                               generatedReport.toLowerCase().includes('lesion'))
-    
-    if (hasTrochlearDefect) {
-      const mentionsPatellar = generatedReport.toLowerCase().includes('patellar')
-      if (!mentionsPatellar) {
-        violations.push('CARTILAGE PLACEMENT RULE VIOLATION: Trochlear defect mentioned but patellar cartilage status not addressed.')
-      }
+  // Sizes and numbers must reach the report exactly as dictated; text the rules asked for verbatim,
+  // calculator results (generated or inserted from the scoring form), the exam context and the prior study are sources too
+  let measurements: MeasurementCheck | undefined
+  if (originalFindings.trim()) {
+    const trustedText = [
+      ...ruleChecks.trustedText,
+      ...findCalculatorOutput(generatedReport),
+      context.exam?.priorReport || '',
+      context.exam?.priorImpression || '',
+      context.exam?.comparisonDate || '',
+      formatExamContext(context.exam)
+    ]
+    measurements = crossCheckMeasurements(originalFindings, generatedReport, context.template, trustedText)
+    for (const issue of measurements.issues) {
+      (issue.severity === 'warning' ? warnings : violations).push(`MEASUREMENT: ${issue.message}`)
     }
   }
   
-  // Validate custom instructions (basic keyword matching)
-  if (agentLogic.custom_instructions && Array.isArray(agentLogic.custom_instructions)) {
-    for (const instruction of agentLogic.custom_instructions) {
-      // Extract key terms from instruction for basic validation
-      const keyTerms = instruction.toLowerCase().match(/\b(acl|pcl|meniscus|cartilage|ligament|integrity|status)\b/g) || []
-      
-      if (keyTerms.length > 0) {
-        const hasKeyTerms = keyTerms.some(term => generatedReport.toLowerCase().includes(term))
-        if (!hasKeyTerms) {
-          warnings.push(`CUSTOM INSTRUCTION: May not be followed - "${instruction.substring(0, 50)}..."`)
-        }
-      }
-    }
+  // The impression must agree with the findings it summarizes
+  const consistency = checkImpressionConsistency(generatedReport, { sourceFindings: originalFindings, impressionItems })
+  for (const issue of consistency.issues) {
+    violations.push(`${issue.kind === 'contradiction' ? CONTRADICTION_PREFIX : ORPHAN_PREFIX} ${issue.message}`)
   }
   
   const passed = violations.length === 0
@@ -146,6 +142,10 @@ export default function validateRules(
   return {
     passed,
     violations,
-    warnings
+    warnings,
+    provenance,
+    laterality,
+    measurements,
+    consistency
   }
 }
\ No newline at end of file
@@ -2,7 +2,8 @@
 export function extractSectionHeaders(template: string): string[] {
   // Match section headers that end with a colon
   // Common patterns: FINDINGS:, IMPRESSION:, TECHNIQUE:, etc.
-  const headerRegex = /^([A-Z][A-Z\s/]+):/gm
+  // Headers stay on one line so a title line above a header is not merged into it
+  const headerRegex = /^([A-Z][A-Z \t/]+):/gm
   const headers: string[] = []
   
   let match
@@ -13,6 +14,31 @@ export function extractSectionHeaders(template: string): string[] {
   return headers
 }
 
+export interface ReportSection {
+  // Header with its colon, e.g. "FINDINGS:"
+  header: string
+  // Text after the header up to the next header, trimmed
+  content: string
+  // Offset of the header in the report
+  index: number
+}
+
+// Function to split a report into its sections using the same header pattern
+export function extractSections(report: string): ReportSection[] {
+  const headerRegex = /^([A-Z][A-Z \t/]+):/gm
+  const matches = [...report.matchAll(headerRegex)]
+  
+  return matches.map((match, i) => {
+    const contentStart = match.index! + match[0].length
+    const contentEnd = i + 1 < matches.length ? matches[i + 1].index! : report.length
+    return {
+      header: match[1] + ':',
+      content: report.slice(contentStart, contentEnd).trim(),
+      index: match.index!
+    }
+  })
+}
+
 // Function to validate that all required headers are present in generated report
 export function validateSectionHeaders(
   template: string, 
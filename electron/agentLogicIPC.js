@@ -5,6 +5,7 @@
 
 const { ipcMain } = require('electron');
 const { createClient } = require('@supabase/supabase-js');
+const { migrateAgentLogic } = require('./logicMigrations');
 
 // Initialize Supabase client (will be set from main.js)
 let supabase = null;
@@ -107,6 +108,45 @@ function deepMergeLogic(target, source) {
   return result;
 }
 
+// Upgrades stored base/study layers to the current logic version and writes upgraded layers back,
+// so each migration runs once and its record (migration_history) is stored with the logic
+async function migrateStoredLayers(supabase, userId, studyType, baseLogic, studyLogic) {
+  const base = migrateAgentLogic(baseLogic);
+  const study = migrateAgentLogic(studyLogic);
+
+  for (const [label, result] of [['base', base], ['study', study]]) {
+    if (result.unsupportedVersion) {
+      console.warn(`⚠️ No migration path for ${label} logic version ${result.unsupportedVersion}`);
+    }
+  }
+
+  if (base.applied.length > 0) {
+    console.log('🔄 Migrated base logic:', base.applied.map(step => step.id).join(', '));
+    // Base logic is copied onto every template of the user
+    const { error } = await supabase
+      .from('templates')
+      .update({ default_agent_logic: base.logic })
+      .eq('user_id', userId);
+    if (error) console.error('❌ Failed to save migrated base logic:', error);
+  }
+
+  if (study.applied.length > 0) {
+    console.log('🔄 Migrated study logic:', study.applied.map(step => step.id).join(', '));
+    const { error } = await supabase
+      .from('templates')
+      .update({ agent_logic: study.logic })
+      .eq('user_id', userId)
+      .eq('study_type', studyType);
+    if (error) console.error('❌ Failed to save migrated study logic:', error);
+  }
+
+  return {
+    baseLogic: base.logic,
+    studyLogic: study.logic,
+    migrations: { base: base.applied, study: study.applied }
+  };
+}
+
 // Register IPC handlers
 function registerHandlers() {
   // Fetch merged logic for report generation
@@ -137,24 +177,29 @@ function registerHandlers() {
         .limit(1)
         .single();
       
+      const { baseLogic, studyLogic, migrations } = await migrateStoredLayers(
+        supabase, userId, studyType, baseTemplate?.default_agent_logic, template?.agent_logic
+      );
+      
       // Start with system default
       let mergedLogic = getDefaultAgentLogic();
       
       // Apply user's base logic if exists
-      if (baseTemplate?.default_agent_logic) {
-        mergedLogic = deepMergeLogic(mergedLogic, baseTemplate.default_agent_logic);
+      if (baseLogic) {
+        mergedLogic = deepMergeLogic(mergedLogic, baseLogic);
       }
       
       // Apply study-specific logic if exists
-      if (template?.agent_logic) {
-        mergedLogic = deepMergeLogic(mergedLogic, template.agent_logic);
+      if (studyLogic) {
+        mergedLogic = deepMergeLogic(mergedLogic, studyLogic);
       }
       
       return {
         success: true,
         mergedLogic,
-        hasBaseLogic: !!baseTemplate?.default_agent_logic,
-        hasStudyLogic: !!template?.agent_logic
+        hasBaseLogic: !!baseLogic,
+        hasStudyLogic: !!studyLogic,
+        migrations
       };
     } catch (error) {
       console.error('Error fetching merged logic:', error);
@@ -241,11 +286,16 @@ function registerHandlers() {
         .limit(1)
         .single();
       
+      const { baseLogic, studyLogic, migrations } = await migrateStoredLayers(
+        supabase, userId, studyType, baseTemplate?.default_agent_logic, template?.agent_logic
+      );
+      
       return {
         success: true,
         defaultLogic: getDefaultAgentLogic(),
-        baseLogic: baseTemplate?.default_agent_logic || null,
-        studyLogic: template?.agent_logic || null,
+        baseLogic: baseLogic || null,
+        studyLogic: studyLogic || null,
+        migrations,
         lastUpdated: {
           base: baseTemplate?.default_agent_logic_updated_at,
           study: template?.agent_logic_updated_at
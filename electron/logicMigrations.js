@@ -0,0 +1,163 @@
+/**
+ * Agent logic version migrations for the main process
+ * Mirrors agent/logicMigrations.ts: stored logic is upgraded one version at a time
+ * and every applied step is appended to migration_history
+ */
+
+const CURRENT_LOGIC_VERSION = '2.0';
+
+function createFallbackLogicFromPrompt(generatePrompt) {
+  const text = generatePrompt.toLowerCase();
+  return {
+    version: '1.0',
+    formatting: {
+      preserve_template_punctuation: true,
+      use_bullet_points: text.includes('bullet'),
+      capitalize_sections: true
+    },
+    report: {
+      no_hallucinated_findings: true,
+      include_technique_section: text.includes('technique'),
+      expand_lesions: text.includes('expand')
+    },
+    impression: {
+      numerically_itemized: text.includes('number'),
+      concise_summary: text.includes('concise'),
+      include_recommendations: text.includes('recommend')
+    }
+  };
+}
+
+// Section-level merge: values already in the logic win over derived ones
+function mergeSections(derived, logic) {
+  const result = { ...derived };
+  for (const [key, value] of Object.entries(logic)) {
+    const base = result[key];
+    result[key] = value && typeof value === 'object' && !Array.isArray(value) && base && typeof base === 'object' && !Array.isArray(base)
+      ? { ...base, ...value }
+      : value;
+  }
+  return result;
+}
+
+function splitList(value) {
+  if (typeof value !== 'string') return value;
+  return value.split(/[\n,]/).map(item => item.trim()).filter(Boolean);
+}
+
+function toInstructionList(value) {
+  if (Array.isArray(value)) return [...value];
+  return typeof value === 'string' && value.trim() ? [value] : [];
+}
+
+const LOGIC_MIGRATIONS = [
+  {
+    id: 'fallback-prompt-to-structured',
+    from: '1.0_fallback',
+    to: '1.0',
+    description: 'Convert legacy generate_prompt instructions into structured rules',
+    migrate: (logic) => {
+      const { instructions, ...rest } = logic;
+      return mergeSections(createFallbackLogicFromPrompt(typeof instructions === 'string' ? instructions : ''), rest);
+    }
+  },
+  {
+    id: 'legacy-sections-to-v2',
+    from: '1.0',
+    to: '2.0',
+    description: 'Fold camelCase reportSpecific/impressionSpecific/steps into the v2 sections',
+    migrate: (logic) => {
+      const { reportSpecific, impressionSpecific, steps, context, ...rest } = logic;
+      const report = { ...rest.report };
+      const impression = { ...rest.impression };
+      const customInstructions = toInstructionList(rest.custom_instructions);
+
+      if (reportSpecific) {
+        if (reportSpecific.includeAllSections !== undefined) {
+          report.preserve_section_structure = !!reportSpecific.includeAllSections;
+        }
+        if (Array.isArray(reportSpecific.sectionOrder) && reportSpecific.sectionOrder.length > 0) {
+          customInstructions.push(`Order the report sections as: ${reportSpecific.sectionOrder.join(', ')}`);
+        }
+        for (const [name, description] of Object.entries(reportSpecific.customSections || {})) {
+          customInstructions.push(`Include a "${name}" section: ${description}`);
+        }
+      }
+
+      if (impressionSpecific) {
+        if (impressionSpecific.style === 'concise') impression.concise_summary = true;
+        if (impressionSpecific.style === 'detailed') impression.concise_summary = false;
+        if (impressionSpecific.style === 'structured') impression.numerically_itemized = true;
+        if (impressionSpecific.includeRecommendations !== undefined) {
+          impression.include_recommendations = !!impressionSpecific.includeRecommendations;
+        }
+        if (impressionSpecific.maxLength) impression.concise_summary = true;
+      }
+
+      if (Array.isArray(steps)) {
+        steps.forEach((step) => {
+          const instruction = step?.prompt || step?.description;
+          if (instruction) customInstructions.push(instruction);
+        });
+      }
+
+      // v1 editors stored exclusion lists as comma or newline separated text
+      if (impression.exclude_by_default !== undefined) impression.exclude_by_default = splitList(impression.exclude_by_default);
+      if (impression.exclude_unless_surgical !== undefined) impression.exclude_unless_surgical = splitList(impression.exclude_unless_surgical);
+
+      const migrated = { ...rest };
+      if (Object.keys(report).length > 0) migrated.report = report;
+      if (Object.keys(impression).length > 0) migrated.impression = impression;
+      if (customInstructions.length > 0 || rest.custom_instructions !== undefined) {
+        migrated.custom_instructions = customInstructions;
+      }
+      return migrated;
+    }
+  }
+];
+
+function normalizeLogicVersion(version) {
+  if (typeof version === 'number' && Number.isFinite(version)) return version.toFixed(1);
+  if (typeof version !== 'string' || !version.trim()) return undefined;
+  const trimmed = version.trim();
+  return /^\d+$/.test(trimmed) ? `${trimmed}.0` : trimmed;
+}
+
+function migrateAgentLogic(logic, now = new Date()) {
+  if (!logic || typeof logic !== 'object' || Array.isArray(logic)) {
+    return { logic, applied: [] };
+  }
+
+  let version = normalizeLogicVersion(logic.version);
+  if (!version) {
+    return { logic, applied: [] };
+  }
+
+  let current = version === logic.version ? logic : { ...logic, version };
+  const applied = [];
+
+  while (version !== CURRENT_LOGIC_VERSION) {
+    const step = LOGIC_MIGRATIONS.find(migration => migration.from === version);
+    if (!step) {
+      return { logic: current, applied, unsupportedVersion: version };
+    }
+
+    current = { ...step.migrate(current), version: step.to };
+    applied.push({ id: step.id, from: step.from, to: step.to, applied_at: now.toISOString() });
+    version = step.to;
+  }
+
+  if (applied.length > 0) {
+    current.migration_history = [...(Array.isArray(logic.migration_history) ? logic.migration_history : []), ...applied];
+  }
+
+  return { logic: current, applied };
+}
+
+module.exports = {
+  CURRENT_LOGIC_VERSION,
+  LOGIC_MIGRATIONS,
+  createFallbackLogicFromPrompt,
+  normalizeLogicVersion,
+  migrateAgentLogic
+};
@@ -51,6 +51,7 @@ const { screen } = require('electron');
 const DeepgramDictationManager = require('./deepgram-dictation');
 const { createClient } = require('@supabase/supabase-js');
 const { initSupabase: initAgentLogicSupabase, registerHandlers: registerAgentLogicHandlers } = require('./agentLogicIPCSeparateTable');
+const { EMPTY_TOKENS, getProviderEntry, requestCompletion, streamCompletion, checkHealth, formatProviderError } = require('./modelProviders');
 
 // Track original window dimensions for reset
 let originalBounds = null;
@@ -1189,8 +1190,8 @@ function loadWindowSettings() {
       templateViewerBounds = settings.templateViewerBounds || null;
       global.textboxSizes = settings.textboxSizes || {};
       global.tokenUsage = settings.tokenUsage || {};
-      // Default to 'openai' (GPT-4o) if no preference is saved
-      apiProvider = settings.apiProvider || 'openai';
+      // Default to 'openai' (GPT-4o) if no preference is saved; RADPAL_API_PROVIDER overrides it
+      apiProvider = process.env.RADPAL_API_PROVIDER || settings.apiProvider || 'openai';
       console.log('📁 Loaded window settings from disk');
     }
   } catch (err) {
@@ -1405,6 +1406,20 @@ async function isTokenLimitExceeded() {
   return global.tokenUsage.totalTokens >= tokenLimit;
 }
 
+/**
+ * Failed generation result for a provider call blocked by the daily token limit
+ * 403 rather than 429 so the renderer doesn't retry: the quota won't reset between attempts
+ */
+async function tokenLimitResponse(providerId) {
+  const tokenLimit = await getUserTokenLimit();
+  const message = `Daily token limit exceeded (${tokenLimit.toLocaleString()} tokens). Limit resets daily at 9pm Pacific.`;
+  return {
+    text: `❌ ${message}`,
+    tokens: { ...EMPTY_TOKENS },
+    error: { provider: providerId, message, status: 403 }
+  };
+}
+
 // Helper function to get main window position for popup positioning
 function getMainWindowPosition() {
   if (mainWindow && !mainWindow.isDestroyed()) {
@@ -2044,7 +2059,10 @@ ipcMain.handle('get-findings', async (_event, target) => {
 
 
 // Store API preference
-let apiProvider = 'openai'; // default to GPT-4o
+let apiProvider = process.env.RADPAL_API_PROVIDER || 'openai'; // default to GPT-4o
+
+// The offline mock provider is offered in development builds or when selected through the environment
+const mockProviderAvailable = isDev || process.env.RADPAL_API_PROVIDER === 'mock';
 
 ipcMain.handle('set-api-provider', async (event, provider) => {
   apiProvider = provider;
@@ -2095,572 +2113,116 @@ ipcMain.handle('get-api-provider', async () => {
   return apiProvider;
 });
 
-ipcMain.handle('generate-report', async (event, prompt) => {
+ipcMain.handle('is-mock-provider-available', async () => {
+  return mockProviderAvailable;
+});
+
+ipcMain.handle('generate-report', async (event, prompt, options) => {
+  return generateReportWithProvider(prompt, apiProvider, options);
+});
+
+/**
+ * Runs a single non-streaming completion against a catalog provider
+ * Local providers don't count against the daily token quota
+ * options carries the study's generation settings (persona, temperature, etc.)
+ */
+async function generateReportWithProvider(prompt, providerId, options = {}) {
+  // Check token limit before making API call
+  if (await isTokenLimitExceeded()) {
+    return tokenLimitResponse(providerId);
+  }
+
+  const entry = getProviderEntry(providerId);
+
   try {
-    // Check token limit before making API call
-    if (await isTokenLimitExceeded()) {
-      const tokenLimit = await getUserTokenLimit();
-      return {
-        text: `❌ Daily token limit exceeded (${tokenLimit.toLocaleString()} tokens). Limit resets daily at 9pm Pacific.`,
-        tokens: { input: 0, output: 0, total: 0 }
-      };
-    }
-    // Check for Mistral Local first
-    if (apiProvider === 'local-ai' || apiProvider === 'mistral-local') {
-      // Use local llama.cpp server
-      console.log('🏠 Using local Mistral model via llama.cpp');
-      console.log('Prompt length:', prompt.length, 'characters');
-      console.log('Prompt preview:', prompt.substring(0, 200) + '...');
-      
-      try {
-        const response = await fetch('http://127.0.0.1:8080/v1/chat/completions', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json'
-          },
-          body: JSON.stringify({
-            model: 'mistral-7b-instruct',
-            messages: [
-              { role: 'user', content: prompt }
-            ],
-            temperature: 0.3,  // Lower = faster, more deterministic
-            max_tokens: 500,   // Limit output length for speed
-            top_p: 0.9,        // Reduce sampling complexity
-            repeat_penalty: 1.1 // Prevent repetition
-          })
-        });
-        
-        if (!response.ok) {
-          throw new Error(`Local AI server error: ${response.status}`);
-        }
-        
-        const data = await response.json();
-        console.log('📥 Response from local Mistral:', JSON.stringify(data));
-        
-        const text = data.choices[0]?.message?.content || '❌ Local AI output missing';
-        const totalTokens = data.usage?.total_tokens || 0;
-        const inputTokens = data.usage?.prompt_tokens || 0;
-        const outputTokens = data.usage?.completion_tokens || 0;
-        
-        // Track token usage (local models don't count against quota)
-        console.log(`🔢 Local model tokens: ${totalTokens} (not counted against quota)`);
-        
-        return {
-          text: text,
-          tokens: {
-            input: inputTokens,
-            output: outputTokens,
-            total: totalTokens
-          }
-        };
-      } catch (error) {
-        console.error('❌ Local AI error:', error);
-        return {
-          text: `❌ Local AI server error: ${error.message}. Make sure the llama.cpp server is running.`,
-          tokens: { input: 0, output: 0, total: 0 }
-        };
-      }
-    } else if (apiProvider === 'claude-sonnet' || apiProvider === 'claude-opus' || apiProvider === 'claude-opus-4.1') {
-      // Use the correct Claude 4 model names
-      let model;
-      let maxTokens;
-      if (apiProvider === 'claude-opus-4.1') {
-        // Claude Opus 4.1
-        model = 'claude-opus-4-1-20250805';
-        maxTokens = 8192; // Higher token limit for Opus 4.1
-      } else if (apiProvider === 'claude-opus') {
-        // Claude 4 Opus
-        model = 'claude-opus-4-20250514';
-        maxTokens = 8192; // Higher token limit for Opus
-      } else {
-        // Claude 4 Sonnet
-        model = 'claude-sonnet-4-20250514';
-        maxTokens = 4096; // Standard token limit
-      }
-      
-      console.log(`📤 Sending prompt to Claude API (${apiProvider}) using model: ${model}`);
-      console.log('API Provider check:', apiProvider, 'Model selected:', model);
-      console.log('Prompt length:', prompt.length, 'characters');
-      console.log('Prompt preview:', prompt.substring(0, 200) + '...');
-      const response = await fetch('https://api.anthropic.com/v1/messages', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-key': config.ANTHROPIC_API_KEY || process.env.ANTHROPIC_API_KEY,
-          'anthropic-version': '2023-06-01'
-        },
-        body: JSON.stringify({
-          model: model,
-          max_tokens: maxTokens,
-          messages: [
-            {
-              role: 'user',
-              content: prompt
-            }
-          ]
-        })
-      });
-      
-      console.log('Claude API Response Status:', response.status);
-      
-      if (!response.ok) {
-        const error = await response.text();
-        console.log('❌ Claude API error:', error);
-        console.log('❌ Response status:', response.status);
-        console.log('❌ Response headers:', response.headers);
-        try {
-          const errorJson = JSON.parse(error);
-          console.log('❌ Parsed error:', errorJson);
-        } catch (e) {
-          console.log('❌ Could not parse error as JSON');
-        }
-        return {
-          text: '❌ Claude API failed: ' + error,
-          tokens: { input: 0, output: 0, total: 0 }
-        };
-      }
-      
-      const data = await response.json();
-      console.log('📥 Response from Claude:', JSON.stringify(data, null, 2));
-      
-      // Extract token usage from Claude response
-      const inputTokens = data.usage?.input_tokens || 0;
-      const outputTokens = data.usage?.output_tokens || 0;
-      const totalTokens = inputTokens + outputTokens;
-      
-      let text = '';
-      // Claude returns content as an array with objects containing 'text'
-      if (data.content && Array.isArray(data.content) && data.content.length > 0) {
-        text = data.content[0].text || '❌ Claude output missing';
-      } else {
-        // Fallback for different response structures
-        text = data.content || data.text || '❌ Claude output missing';
-      }
-      
-      // Track token usage
-      await addTokenUsage(totalTokens);
-      
-      return {
-        text: text,
-        tokens: {
-          input: inputTokens,
-          output: outputTokens,
-          total: totalTokens
-        }
-      };
-    } else if (apiProvider === 'gemini') {
-      // Use Google Gemini 2.5 Flash
-      console.log('📤 Sending prompt to Gemini 2.5 Flash');
-      console.log('Prompt length:', prompt.length, 'characters');
-      console.log('Prompt preview:', prompt.substring(0, 200) + '...');
-      
-      // Get Gemini API key from environment
-      const geminiApiKey = config.GEMINI_API_KEY || process.env.GEMINI_API_KEY;
-      if (!geminiApiKey) {
-        console.error('❌ GEMINI_API_KEY not found in environment variables');
-        return {
-          text: '❌ Gemini API key not configured',
-          tokens: { input: 0, output: 0, total: 0 }
-        };
-      }
-      
-      const response = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash:generateContent?key=${geminiApiKey}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          contents: [{
-            parts: [{
-              text: prompt
-            }]
-          }],
-          generationConfig: {
-            temperature: 0.7,
-            maxOutputTokens: 4096,
-          }
-        })
-      });
-      
-      console.log('Gemini API Response Status:', response.status);
-      
-      if (!response.ok) {
-        const error = await response.text();
-        console.error('❌ Gemini API error:', error);
-        return {
-          text: '❌ Gemini API failed: ' + error,
-          tokens: { input: 0, output: 0, total: 0 }
-        };
-      }
-      
-      const data = await response.json();
-      console.log('📥 Response from Gemini:', JSON.stringify(data));
-      
-      // Extract token usage from Gemini response
-      const inputTokens = data.usageMetadata?.promptTokenCount || 0;
-      const outputTokens = data.usageMetadata?.candidatesTokenCount || 0;
-      const totalTokens = data.usageMetadata?.totalTokenCount || inputTokens + outputTokens;
-      
-      // Extract text from Gemini response structure
-      let text = '';
-      if (data.candidates && data.candidates[0] && data.candidates[0].content && data.candidates[0].content.parts) {
-        text = data.candidates[0].content.parts[0]?.text || '❌ Gemini output missing';
-      } else {
-        text = '❌ Gemini output missing';
-      }
-      
-      // Track token usage
-      await addTokenUsage(totalTokens);
-      
-      return {
-        text: text,
-        tokens: {
-          input: inputTokens,
-          output: outputTokens,
-          total: totalTokens
-        }
-      };
-    } else if (apiProvider === 'kimi') {
-      // Use Kimi v2 (Moonshot API)
-      console.log('📤 Sending prompt to Kimi v2 (Moonshot API)');
-      console.log('Prompt length:', prompt.length, 'characters');
-      console.log('Prompt preview:', prompt.substring(0, 200) + '...');
-      
-      // Get Moonshot API key from environment
-      const moonshotApiKey = config.MOONSHOT_API_KEY || process.env.MOONSHOT_API_KEY;
-      if (!moonshotApiKey) {
-        console.error('❌ MOONSHOT_API_KEY not found in environment variables');
-        return {
-          text: '❌ Moonshot API key not configured',
-          tokens: { input: 0, output: 0, total: 0 }
-        };
-      }
-      
-      const response = await fetch('https://api.moonshot.ai/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${moonshotApiKey}`
-        },
-        body: JSON.stringify({
-          model: 'kimi-k2-0711-preview',
-          messages: [
-            {
-              role: 'system',
-              content: 'You are a helpful radiology assistant.'
-            },
-            {
-              role: 'user',
-              content: prompt
-            }
-          ],
-          temperature: 0.7,
-          stream: false
-        })
-      });
-      
-      console.log('Kimi API Response Status:', response.status);
-      
-      if (!response.ok) {
-        const error = await response.text();
-        console.error('❌ Kimi API error:', error);
-        return {
-          text: '❌ Kimi API failed: ' + error,
-          tokens: { input: 0, output: 0, total: 0 }
-        };
-      }
-      
-      const data = await response.json();
-      console.log('📥 Response from Kimi:', JSON.stringify(data));
-      
-      // Extract token usage from Kimi response
-      const inputTokens = data.usage?.prompt_tokens || 0;
-      const outputTokens = data.usage?.completion_tokens || 0;
-      const totalTokens = data.usage?.total_tokens || inputTokens + outputTokens;
-      
-      const text = data.choices[0]?.message?.content || '❌ Kimi output missing';
-      
-      // Track token usage
-      await addTokenUsage(totalTokens);
-      
-      return {
-        text: text,
-        tokens: {
-          input: inputTokens,
-          output: outputTokens,
-          total: totalTokens
-        }
-      };
+    console.log(`📤 Sending prompt to ${entry.displayName} (${entry.model})`);
+    console.log('Prompt length:', prompt.length, 'characters');
+    console.log('Prompt preview:', prompt.substring(0, 200) + '...');
+
+    const result = await requestCompletion(entry, prompt, config, fetch, undefined, options);
+    console.log(`📥 Response from ${entry.displayName}: ${result.text.length} characters, ${result.tokens.total} tokens`);
+
+    // Track token usage (local models don't count against quota)
+    if (entry.local) {
+      console.log(`🔢 Local model tokens: ${result.tokens.total} (not counted against quota)`);
     } else {
-      // OpenAI API handling - GPT-4o or GPT-5
-      const isGPT5 = apiProvider === 'gpt-5';
-      const modelName = isGPT5 ? 'gpt-5' : 'gpt-4o';
-      const maxTokens = isGPT5 ? 8192 : 4096; // GPT-5 gets higher token limit
-      
-      console.log(`📤 Sending prompt to OpenAI ${modelName} directly`);
-      console.log('Prompt length:', prompt.length, 'characters');
-      console.log('Prompt preview:', prompt.substring(0, 200) + '...');
-      
-      // Get OpenAI API key from environment
-      const openaiApiKey = config.OPENAI_API_KEY || process.env.OPENAI_API_KEY;
-      if (!openaiApiKey) {
-        console.error('❌ OPENAI_API_KEY not found in environment variables');
-        return {
-          text: '❌ OpenAI API key not configured',
-          tokens: { input: 0, output: 0, total: 0 }
-        };
-      }
-      
-      // Build request body based on model
-      const requestBody = {
-        model: modelName,
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a helpful radiology assistant.'
-          },
-          {
-            role: 'user', 
-            content: prompt
-          }
-        ]
-      };
-      
-      // GPT-5 uses max_completion_tokens, older models use max_tokens
-      if (isGPT5) {
-        requestBody.max_completion_tokens = maxTokens;
-      } else {
-        requestBody.max_tokens = maxTokens;
-      }
-      
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: { 
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${openaiApiKey}`
-        },
-        body: JSON.stringify(requestBody)
-      });
-      
-      if (!response.ok) {
-        const error = await response.text();
-        console.error('❌ OpenAI API error:', error);
-        return {
-          text: '❌ OpenAI API failed: ' + error,
-          tokens: { input: 0, output: 0, total: 0 }
-        };
-      }
-      
-      const data = await response.json();
-      console.log(`📥 Response from OpenAI ${modelName}:`, JSON.stringify(data));
-      
-      // Extract token usage from OpenAI response
-      const inputTokens = data.usage?.prompt_tokens || 0;
-      const outputTokens = data.usage?.completion_tokens || 0;
-      const totalTokens = data.usage?.total_tokens || inputTokens + outputTokens;
-      
-      const text = data.choices[0]?.message?.content || '❌ GPT output missing';
-      
-      // Track token usage
-      await addTokenUsage(totalTokens);
-      
-      return {
-        text: text,
-        tokens: {
-          input: inputTokens,
-          output: outputTokens,
-          total: totalTokens
-        }
-      };
+      await addTokenUsage(result.tokens.total);
     }
+
+    return {
+      text: result.text || `❌ ${entry.displayName} output missing`,
+      tokens: result.tokens
+    };
   } catch (err) {
-    console.error('❌ API error:', err);
+    console.error(`❌ ${entry.displayName} error:`, err);
     return {
-      text: '❌ API failed: ' + err.toString(),
-      tokens: { input: 0, output: 0, total: 0 }
+      text: formatProviderError(entry, err),
+      tokens: { ...EMPTY_TOKENS },
+      // Structured failure so the renderer can decide whether to fail over
+      error: { provider: entry.id, message: err.message, status: err.status }
     };
   }
-});
+}
 
 // IPC handler for generate-report with specific provider (for LogicEditorChat)
-ipcMain.handle('generate-report-with-provider', async (event, prompt, forceProvider) => {
-  // Store current provider
-  const originalProvider = apiProvider;
-  
+ipcMain.handle('generate-report-with-provider', async (event, prompt, forceProvider, options) => {
+  // One-off call; the stored apiProvider preference is left unchanged
+  return generateReportWithProvider(prompt, forceProvider || apiProvider, options);
+});
+
+ipcMain.handle('check-provider-health', async (event, providerId) => {
+  return checkHealth(getProviderEntry(providerId), config, fetch);
+});
+
+// Streaming report generation - chunks are pushed to the renderer as they arrive
+const activeReportStreams = new Map();
+
+ipcMain.handle('generate-report-stream', async (event, prompt, requestId, providerId, options) => {
+  // Check token limit before making API call
+  if (await isTokenLimitExceeded()) {
+    return tokenLimitResponse(providerId || apiProvider);
+  }
+
+  const entry = getProviderEntry(providerId || apiProvider);
+  const controller = new AbortController();
+  activeReportStreams.set(requestId, controller);
+
   try {
-    // Temporarily set the provider for this call
-    const targetProvider = forceProvider || originalProvider;
-    
-    // Check token limit before making API call
-    if (await isTokenLimitExceeded()) {
-      const tokenLimit = await getUserTokenLimit();
-      return {
-        text: `❌ Daily token limit exceeded (${tokenLimit.toLocaleString()} tokens). Limit resets daily at 9pm Pacific.`,
-        tokens: { input: 0, output: 0, total: 0 }
-      };
-    }
-    
-    if (targetProvider === 'claude-sonnet' || targetProvider === 'claude-opus' || targetProvider === 'claude-opus-4.1') {
-      // Use the correct Claude 4 model names
-      let model;
-      let maxTokens;
-      if (targetProvider === 'claude-opus-4.1') {
-        // Claude Opus 4.1
-        model = 'claude-opus-4-1-20250805';
-        maxTokens = 8192; // Higher token limit for Opus 4.1
-      } else if (targetProvider === 'claude-opus') {
-        // Claude 4 Opus
-        model = 'claude-opus-4-20250514';
-        maxTokens = 8192; // Higher token limit for Opus
-      } else {
-        // Claude 4 Sonnet
-        model = 'claude-sonnet-4-20250514';
-        maxTokens = 4096; // Standard token limit
-      }
-      
-      console.log(`📤 Logic Editor: Sending prompt to Claude API (${targetProvider}) using model: ${model}`);
-      const response = await fetch('https://api.anthropic.com/v1/messages', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-key': config.ANTHROPIC_API_KEY || process.env.ANTHROPIC_API_KEY,
-          'anthropic-version': '2023-06-01'
-        },
-        body: JSON.stringify({
-          model: model,
-          max_tokens: maxTokens,
-          messages: [
-            {
-              role: 'user',
-              content: prompt
-            }
-          ]
-        })
-      });
-      
-      if (!response.ok) {
-        const error = await response.text();
-        console.log('❌ Claude API error:', error);
-        return {
-          text: '❌ Claude API failed: ' + error,
-          tokens: { input: 0, output: 0, total: 0 }
-        };
-      }
-      
-      const data = await response.json();
-      
-      // Extract token usage from Claude response
-      const inputTokens = data.usage?.input_tokens || 0;
-      const outputTokens = data.usage?.output_tokens || 0;
-      const totalTokens = inputTokens + outputTokens;
-      
-      let text = '';
-      // Claude returns content as an array with objects containing 'text'
-      if (data.content && Array.isArray(data.content) && data.content.length > 0) {
-        text = data.content[0].text || '❌ Claude output missing';
-      } else {
-        // Fallback for different response structures
-        text = data.content || data.text || '❌ Claude output missing';
-      }
-      
-      // Track token usage
-      await addTokenUsage(totalTokens);
-      
-      return {
-        text: text,
-        tokens: {
-          input: inputTokens,
-          output: outputTokens,
-          total: totalTokens
-        }
-      };
-    } else {
-      // Handle OpenAI providers (openai, gpt-5, gemini, kimi) directly
-      const isGPT5 = targetProvider === 'gpt-5';
-      const modelName = isGPT5 ? 'gpt-5' : 'gpt-4o';
-      const maxTokens = isGPT5 ? 8192 : 4096;
-      
-      console.log(`📤 Logic Editor: Sending prompt to OpenAI ${modelName} directly`);
-      
-      // Get OpenAI API key from environment
-      const openaiApiKey = config.OPENAI_API_KEY || process.env.OPENAI_API_KEY;
-      if (!openaiApiKey) {
-        console.error('❌ OPENAI_API_KEY not found in environment variables');
-        return {
-          text: '❌ OpenAI API key not configured',
-          tokens: { input: 0, output: 0, total: 0 }
-        };
-      }
-      
-      // Build request body based on model
-      const requestBody = {
-        model: modelName,
-        messages: [
-          {
-            role: 'system',
-            content: 'You are a helpful radiology assistant.'
-          },
-          {
-            role: 'user', 
-            content: prompt
-          }
-        ]
-      };
-      
-      // GPT-5 uses max_completion_tokens, older models use max_tokens
-      if (isGPT5) {
-        requestBody.max_completion_tokens = maxTokens;
-      } else {
-        requestBody.max_tokens = maxTokens;
-      }
-      
-      const response = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: { 
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${openaiApiKey}`
-        },
-        body: JSON.stringify(requestBody)
-      });
-      
-      if (!response.ok) {
-        const error = await response.text();
-        console.error('❌ OpenAI API error:', error);
-        return {
-          text: '❌ OpenAI API failed: ' + error,
-          tokens: { input: 0, output: 0, total: 0 }
-        };
+    console.log(`📡 Streaming prompt to ${entry.displayName} (${prompt.length} characters)`);
+
+    const result = await streamCompletion(entry, prompt, config, fetch, controller.signal, (chunk) => {
+      if (!event.sender.isDestroyed()) {
+        event.sender.send('report-stream-chunk', { requestId, chunk });
       }
-      
-      const data = await response.json();
-      
-      // Extract token usage from OpenAI response
-      const inputTokens = data.usage?.prompt_tokens || 0;
-      const outputTokens = data.usage?.completion_tokens || 0;
-      const totalTokens = data.usage?.total_tokens || inputTokens + outputTokens;
-      
-      const text = data.choices[0]?.message?.content || '❌ GPT output missing';
-      
-      // Track token usage
-      await addTokenUsage(totalTokens);
-      
-      return {
-        text: text,
-        tokens: {
-          input: inputTokens,
-          output: outputTokens,
-          total: totalTokens
-        }
-      };
+    }, options);
+
+    // Track token usage (local models don't count against quota)
+    if (!entry.local) {
+      await addTokenUsage(result.tokens.total);
     }
+
+    return result;
   } catch (err) {
-    console.error('❌ API error:', err);
+    if (controller.signal.aborted) {
+      console.log(`⏹️ Report stream ${requestId} cancelled`);
+      return { text: '', tokens: { input: 0, output: 0, total: 0 }, cancelled: true };
+    }
+    console.error(`❌ ${entry.displayName} streaming error:`, err);
     return {
-      text: '❌ API failed: ' + err.toString(),
-      tokens: { input: 0, output: 0, total: 0 }
+      text: formatProviderError(entry, err),
+      tokens: { ...EMPTY_TOKENS },
+      error: { provider: entry.id, message: err.message, status: err.status }
     };
+  } finally {
+    activeReportStreams.delete(requestId);
   }
-  // Note: We don't restore originalProvider because this is a one-off call
+});
+
+ipcMain.handle('cancel-report-stream', async (_event, requestId) => {
+  const controller = activeReportStreams.get(requestId);
+  if (!controller) return false;
+  controller.abort();
+  return true;
 });
 
 // IPC handlers for textbox sizes
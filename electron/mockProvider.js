@@ -0,0 +1,263 @@
+/**
+ * Offline "mock" provider for the main process
+ * Mirrors src/providers/mockCompletions.ts: completions are derived from the prompt
+ * (template, findings, exclusions) or from a fixture file, with no network access
+ *
+ * Environment:
+ *   RADPAL_MOCK_SCENARIO  - report | violation | malformed-headers | error | rate-limit | empty
+ *   RADPAL_MOCK_FIXTURES  - path to a JSON fixture file ({ "fixtures": [...] } or an array)
+ *   RADPAL_MOCK_DELAY_MS  - delay between streamed chunks (default 0)
+ */
+
+const fs = require('fs');
+
+const MOCK_SCENARIOS = ['report', 'violation', 'malformed-headers', 'error', 'rate-limit', 'empty'];
+
+// Typing [[mock:violation]] into the findings selects a scenario for that request only
+const DIRECTIVE_PATTERN = /\[\[mock:([a-z-]+)\]\]/i;
+const HEADER_PATTERN = /^([A-Z][A-Z\s/]+):/;
+const FABRICATED_FINDING = 'Incidental 4.2 mm nodule.';
+
+let cachedFixtures = null;
+
+function loadFixtures() {
+  const fixturePath = process.env.RADPAL_MOCK_FIXTURES;
+  if (!fixturePath) return [];
+  if (cachedFixtures && cachedFixtures.path === fixturePath) return cachedFixtures.fixtures;
+
+  try {
+    const data = JSON.parse(fs.readFileSync(fixturePath, 'utf-8'));
+    const fixtures = Array.isArray(data) ? data : data.fixtures || [];
+    cachedFixtures = { path: fixturePath, fixtures };
+    console.log(`🧪 Loaded ${fixtures.length} mock fixtures from ${fixturePath}`);
+    return fixtures;
+  } catch (err) {
+    console.warn(`⚠️ Could not load mock fixtures from ${fixturePath}:`, err.message);
+    return [];
+  }
+}
+
+/**
+ * Picks the completion for a prompt: directive, then first matching fixture, then the configured scenario
+ * @param {string} rawPrompt - Prompt as sent to the provider
+ * @param {{ scenario?: string, fixtures?: Array }} [settings] - Defaults to the RADPAL_MOCK_* environment
+ * @returns {{ text: string, scenario: string, error?: { status: number, message: string } }}
+ */
+function resolveMockCompletion(rawPrompt, settings = {}) {
+  const prompt = unwrapChatPrompt(rawPrompt);
+  const fixtures = settings.fixtures || loadFixtures();
+  const directive = (prompt.match(DIRECTIVE_PATTERN)?.[1] || '').toLowerCase();
+
+  if (!MOCK_SCENARIOS.includes(directive)) {
+    const fixture = fixtures.find(candidate => {
+      try {
+        return new RegExp(candidate.match, 'i').test(prompt);
+      } catch {
+        return false;
+      }
+    });
+
+    if (fixture?.error) {
+      return {
+        text: '',
+        scenario: 'fixture',
+        error: { status: fixture.error.status, message: fixture.error.message || `Mock fixture "${fixture.name || fixture.match}" failed` }
+      };
+    }
+    if (fixture?.text !== undefined) {
+      return { text: fixture.text, scenario: 'fixture' };
+    }
+    if (fixture?.scenario) {
+      return buildScenario(prompt, fixture.scenario);
+    }
+  }
+
+  const configured = settings.scenario || process.env.RADPAL_MOCK_SCENARIO;
+  const scenario = MOCK_SCENARIOS.includes(directive)
+    ? directive
+    : MOCK_SCENARIOS.includes(configured) ? configured : 'report';
+  return buildScenario(prompt.replace(DIRECTIVE_PATTERN, ''), scenario);
+}
+
+function buildScenario(prompt, scenario) {
+  switch (scenario) {
+    case 'error':
+      return { text: '', scenario, error: { status: 500, message: 'Mock provider error (scenario: error)' } };
+    case 'rate-limit':
+      return { text: '', scenario, error: { status: 429, message: 'Mock provider rate limit (scenario: rate-limit)' } };
+    case 'empty':
+      return { text: '', scenario };
+    default:
+      return { text: buildText(prompt, scenario), scenario };
+  }
+}
+
+function buildText(prompt, scenario) {
+  const refinement = prompt.match(/<<<REPORT_START\n([\s\S]*?)\nREPORT_END>>>/);
+  if (refinement) {
+    return refineWording(refinement[1]);
+  }
+
+  const findings = splitSentences(extractFindings(prompt));
+  const exclusions = [...prompt.matchAll(/❌ (?:DO NOT include|EXCLUDE:) "([^"]+)"/g)].map(match => match[1]);
+  // A well-behaved impression leaves out findings the logic excludes
+  const impressionItems = findings
+    .filter(sentence => !exclusions.some(exclusion => sentence.toLowerCase().includes(exclusion.toLowerCase())))
+    .slice(0, 5);
+
+  if (scenario === 'violation') {
+    // Excluded item leads the impression (where validation looks first), plus a measurement not in the findings
+    if (exclusions.length > 0) impressionItems.unshift(`Small ${exclusions[0]}.`);
+    impressionItems.push(FABRICATED_FINDING);
+    findings.push(FABRICATED_FINDING);
+  }
+
+  const impression = formatImpression(impressionItems);
+
+  // Impression-only prompts don't carry the template structure
+  if (/generating a concise, well-formatted radiology impression/.test(prompt)) {
+    return `IMPRESSION:\n${impression}`;
+  }
+
+  const template = prompt.match(/TEMPLATE STRUCTURE - MANDATORY COMPLIANCE:\n\n([\s\S]*?)\n\nCRITICAL: Preserve/)?.[1];
+  if (template === undefined) {
+    if (findings.length === 0) {
+      return `Mock response: ${prompt.trim().slice(0, 200)}`;
+    }
+    return applyHeaderStyle(`FINDINGS:\n${findings.join(' ')}\n\nIMPRESSION:\n${impression}`, scenario);
+  }
+
+  return applyHeaderStyle(fillTemplate(template, findings, impression), scenario);
+}
+
+function fillTemplate(template, findings, impression) {
+  const output = [];
+  let placedFindings = false;
+
+  for (const line of template.split('\n')) {
+    const header = line.match(HEADER_PATTERN)?.[1]?.trim();
+    if (header === 'IMPRESSION') {
+      output.push('IMPRESSION:', impression);
+      continue;
+    }
+    output.push(line);
+    if (header === 'FINDINGS' && !placedFindings && findings.length > 0) {
+      output.push(findings.join(' '));
+      placedFindings = true;
+    }
+  }
+
+  if (!placedFindings && findings.length > 0) {
+    output.push('', findings.join(' '));
+  }
+  return output.join('\n');
+}
+
+function applyHeaderStyle(report, scenario) {
+  if (scenario !== 'malformed-headers') return report;
+
+  // Title-cased headers no longer match the template's uppercase headers
+  return report
+    .split('\n')
+    .map(line => line.replace(HEADER_PATTERN, (_match, header) => `${header.charAt(0)}${header.slice(1).toLowerCase()}:`))
+    .join('\n');
+}
+
+function extractFindings(prompt) {
+  const report = prompt.match(/=== FINDINGS TO INCORPORATE ===\n([\s\S]*?)\n=== END OF FINDINGS ===/);
+  if (report) return report[1];
+  const impression = prompt.match(/📋 FINDINGS TO SUMMARIZE:\n([\s\S]*?)\n\n(?:🚨|📐|📝|🎯)/);
+  return impression ? impression[1] : '';
+}
+
+function splitSentences(text) {
+  return text
+    .split(/\n+|(?<=\.)\s+/)
+    .map(sentence => sentence.trim())
+    .filter(Boolean)
+    .map(sentence => (/[.!?]$/.test(sentence) ? sentence : `${sentence}.`));
+}
+
+function formatImpression(items) {
+  if (items.length === 0) return '1. No acute abnormality.';
+  return items.map((item, index) => `${index + 1}. ${item}`).join('\n\n');
+}
+
+function refineWording(report) {
+  return report
+    .split('\n')
+    .map(line => line
+      .replace(/[ \t]{2,}/g, ' ')
+      .replace(/\bThere is no evidence of\b/g, 'No')
+      .replace(/\bthere is no evidence of\b/g, 'no')
+      .trimEnd())
+    .join('\n');
+}
+
+// The chat fallback sends JSON.stringify({ messages }) as the prompt; use the last user message
+function unwrapChatPrompt(prompt) {
+  if (!prompt.trimStart().startsWith('{')) return prompt;
+  try {
+    const parsed = JSON.parse(prompt);
+    const messages = Array.isArray(parsed?.messages) ? parsed.messages : [];
+    const lastUser = [...messages].reverse().find(message => message.role === 'user');
+    return lastUser?.content ?? prompt;
+  } catch {
+    return prompt;
+  }
+}
+
+// Rough 4-characters-per-token estimate so token accounting paths still get numbers
+function estimateTokens(prompt, text) {
+  const input = Math.ceil(prompt.length / 4);
+  const output = Math.ceil(text.length / 4);
+  return { input, output, total: input + output };
+}
+
+/**
+ * Runs a mock completion, throwing scripted errors the same way HTTP providers do
+ * @param {Object} entry - Catalog entry
+ * @param {string} prompt - Full prompt
+ * @returns {{ text: string, tokens: { input: number, output: number, total: number } }}
+ */
+function mockCompletion(entry, prompt) {
+  const completion = resolveMockCompletion(prompt);
+  if (completion.error) {
+    const err = new Error(`${entry.displayName} API error ${completion.error.status}: ${completion.error.message}`);
+    err.status = completion.error.status;
+    throw err;
+  }
+  return { text: completion.text, tokens: estimateTokens(prompt, completion.text) };
+}
+
+/**
+ * Streams a mock completion in word-sized chunks
+ * @param {Object} entry - Catalog entry
+ * @param {string} prompt - Full prompt
+ * @param {AbortSignal} [signal] - Stops streaming when aborted
+ * @param {Function} onChunk - Receives each text delta
+ */
+async function streamMockCompletion(entry, prompt, signal, onChunk) {
+  const result = mockCompletion(entry, prompt);
+  const delayMs = Number(process.env.RADPAL_MOCK_DELAY_MS) || 0;
+
+  for (const chunk of result.text.match(/\S+\s*|\s+/g) || []) {
+    if (signal?.aborted) {
+      const err = new Error('Generation cancelled');
+      err.name = 'AbortError';
+      throw err;
+    }
+    onChunk(chunk);
+    if (delayMs > 0) {
+      await new Promise(resolve => setTimeout(resolve, delayMs));
+    }
+  }
+  return result;
+}
+
+module.exports = {
+  MOCK_SCENARIOS,
+  resolveMockCompletion,
+  mockCompletion,
+  streamMockCompletion
+};
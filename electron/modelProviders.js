@@ -0,0 +1,208 @@
+/**
+ * Model providers for the main process
+ * Requests are built from providerCatalog.json (shared with the renderer),
+ * so adding a model on an existing backend only needs a catalog entry.
+ * Request bodies and response parsing come from providerRequests.js, generated
+ * from src/providers/requests.ts so the renderer sends exactly the same requests
+ */
+
+const { StringDecoder } = require('string_decoder');
+const catalog = require('./providerCatalog.json');
+const { mockCompletion, streamMockCompletion } = require('./mockProvider');
+const { API_KEYS, buildProviderRequest, parseCompletion, parseStreamEvent, createEventStreamParser } = require('./providerRequests');
+
+const DEFAULT_PROVIDER_ID = 'openai';
+const EMPTY_TOKENS = { input: 0, output: 0, total: 0 };
+
+const LLAMACPP_BASE = process.env.LLAMACPP_OPENAI_BASE || 'http://127.0.0.1:8080/v1';
+const OLLAMA_BASE = process.env.OLLAMA_BASE || 'http://127.0.0.1:11434';
+
+/**
+ * Resolves a stored provider id (or legacy alias) to its catalog entry
+ * Unknown values fall back to the default provider, matching the old behaviour
+ * @param {string} providerId - Provider selected in the renderer
+ * @returns {Object} Catalog entry
+ */
+function getProviderEntry(providerId) {
+  const key = String(providerId || '').toLowerCase();
+  return (
+    catalog.find(entry => entry.id === key) ||
+    catalog.find(entry => entry.aliases.includes(key)) ||
+    catalog.find(entry => entry.id === DEFAULT_PROVIDER_ID)
+  );
+}
+
+/**
+ * Builds the HTTP request for a catalog entry with the shared builder (src/providers/requests.ts)
+ * @param {Object} entry - Catalog entry
+ * @param {string} prompt - Full prompt to send
+ * @param {Object} config - Loaded config with API keys
+ * @param {boolean} stream - Request a streaming (SSE) response
+ * @param {Object} [options] - Generation overrides: { system, temperature, topP, maxTokens, stop }
+ * @returns {{ url: string, headers: Object, body: Object, format: string }}
+ */
+function buildRequest(entry, prompt, config, stream, options = {}) {
+  const key = API_KEYS[entry.backend];
+  return buildProviderRequest(entry, prompt, {
+    apiKey: key ? config[key.name] || process.env[key.name] : undefined,
+    llamacppBase: LLAMACPP_BASE,
+    ollamaBase: OLLAMA_BASE
+  }, stream, options);
+}
+
+async function sendRequest(entry, request, fetchImpl, signal) {
+  const response = await fetchImpl(request.url, {
+    method: 'POST',
+    headers: request.headers,
+    body: JSON.stringify(request.body),
+    signal
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    const err = new Error(`${entry.displayName} API error ${response.status}: ${error}`);
+    err.status = response.status;
+    throw err;
+  }
+
+  return response;
+}
+
+/**
+ * Runs a non-streaming completion
+ * @param {Object} entry - Catalog entry
+ * @param {string} prompt - Full prompt to send
+ * @param {Object} config - Loaded config with API keys
+ * @param {Function} fetchImpl - fetch implementation (node-fetch in main.js)
+ * @param {AbortSignal} [signal] - Cancels the request when aborted
+ * @param {Object} [options] - Generation overrides passed to buildRequest
+ * @returns {Promise<{ text: string, tokens: { input: number, output: number, total: number } }>}
+ */
+async function requestCompletion(entry, prompt, config, fetchImpl, signal, options = {}) {
+  if (entry.backend === 'mock') {
+    return mockCompletion(entry, prompt);
+  }
+
+  const request = buildRequest(entry, prompt, config, false, options);
+  const response = await sendRequest(entry, request, fetchImpl, signal);
+  return parseCompletion(request.format, await response.json());
+}
+
+/**
+ * Streams a completion, calling onChunk for every text delta
+ * Backends without streaming support deliver the whole completion as one chunk
+ * @param {Object} entry - Catalog entry
+ * @param {string} prompt - Full prompt to send
+ * @param {Object} config - Loaded config with API keys
+ * @param {Function} fetchImpl - fetch implementation (node-fetch in main.js)
+ * @param {AbortSignal} signal - Cancels the request when aborted
+ * @param {Function} onChunk - Receives each text delta
+ * @param {Object} [options] - Generation overrides passed to buildRequest
+ * @returns {Promise<{ text: string, tokens: { input: number, output: number, total: number } }>}
+ */
+async function streamCompletion(entry, prompt, config, fetchImpl, signal, onChunk, options = {}) {
+  if (entry.backend === 'mock') {
+    return streamMockCompletion(entry, prompt, signal, onChunk);
+  }
+
+  if (!entry.streaming) {
+    const result = await requestCompletion(entry, prompt, config, fetchImpl, signal, options);
+    if (result.text) onChunk(result.text);
+    return result;
+  }
+
+  const request = buildRequest(entry, prompt, config, true, options);
+  const response = await sendRequest(entry, request, fetchImpl, signal);
+
+  let text = '';
+  const tokens = { ...EMPTY_TOKENS };
+  const decoder = new StringDecoder('utf8');
+  const parser = createEventStreamParser((data) => {
+    const { text: delta, usage } = parseStreamEvent(request.format, data);
+    if (delta) {
+      text += delta;
+      onChunk(delta);
+    }
+    if (usage) {
+      Object.assign(tokens, usage);
+    }
+  });
+
+  // node-fetch exposes the body as a Node readable stream
+  for await (const chunk of response.body) {
+    // Stop forwarding chunks as soon as the stream is cancelled, even if the body keeps flowing
+    if (signal?.aborted) {
+      const err = new Error('Generation cancelled');
+      err.name = 'AbortError';
+      throw err;
+    }
+    parser.push(decoder.write(chunk));
+  }
+  parser.push(decoder.end());
+  parser.end();
+
+  if (!tokens.total) {
+    tokens.total = tokens.input + tokens.output;
+  }
+
+  return { text, tokens };
+}
+
+/**
+ * Checks whether a provider can currently serve requests
+ * Local servers are pinged; cloud providers only need a configured API key
+ * @param {Object} entry - Catalog entry
+ * @param {Object} config - Loaded config with API keys
+ * @param {Function} fetchImpl - fetch implementation (node-fetch in main.js)
+ * @returns {Promise<boolean>}
+ */
+async function checkHealth(entry, config, fetchImpl) {
+  if (entry.backend === 'mock') {
+    return true;
+  }
+
+  if (entry.local) {
+    const url = entry.backend === 'ollama' ? `${OLLAMA_BASE}/api/tags` : `${LLAMACPP_BASE}/models`;
+    try {
+      const response = await fetchImpl(url, { method: 'GET', timeout: 2000 });
+      return response.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  try {
+    buildRequest(entry, '', config, false);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Formats a provider failure as the error text shown in the report
+ * @param {Object} entry - Catalog entry
+ * @param {Error} error - Failure from requestCompletion/streamCompletion
+ * @returns {string}
+ */
+function formatProviderError(entry, error) {
+  if (entry.backend === 'mock') {
+    return `❌ ${entry.displayName} failed: ${error.message}`;
+  }
+  if (entry.local) {
+    return `❌ Local AI server error: ${error.message}. Make sure the ${entry.backend === 'ollama' ? 'Ollama' : 'llama.cpp'} server is running.`;
+  }
+  return `❌ ${entry.displayName} API failed: ${error.message}`;
+}
+
+module.exports = {
+  EMPTY_TOKENS,
+  getProviderEntry,
+  buildRequest,
+  parseCompletion,
+  parseStreamEvent,
+  requestCompletion,
+  streamCompletion,
+  checkHealth,
+  formatProviderError
+};
@@ -7,8 +7,16 @@ ipcRenderer.on('update-dictation-target', (_, value) => {
 });
 
 contextBridge.exposeInMainWorld('electronAPI', {
-  generateReport: (prompt) => ipcRenderer.invoke('generate-report', prompt),
-  generateReportWithProvider: (prompt, provider) => ipcRenderer.invoke('generate-report-with-provider', prompt, provider),
+  generateReport: (prompt, options) => ipcRenderer.invoke('generate-report', prompt, options),
+  generateReportWithProvider: (prompt, provider, options) => ipcRenderer.invoke('generate-report-with-provider', prompt, provider, options),
+  generateReportStream: (prompt, requestId, provider, options) => ipcRenderer.invoke('generate-report-stream', prompt, requestId, provider, options),
+  checkProviderHealth: (provider) => ipcRenderer.invoke('check-provider-health', provider),
+  cancelReportStream: (requestId) => ipcRenderer.invoke('cancel-report-stream', requestId),
+  onReportStreamChunk: (callback) => {
+    const handler = (_event, data) => callback(data);
+    ipcRenderer.on('report-stream-chunk', handler);
+    return () => ipcRenderer.removeListener('report-stream-chunk', handler);
+  },
   readPrompt: (name) => ipcRenderer.invoke('read-prompt', name),
   getFindings: () => ipcRenderer.invoke('get-findings', dictationTarget),
   onPopupContent: (callback) => {
@@ -29,6 +37,7 @@ contextBridge.exposeInMainWorld('electronAPI', {
   resetWindowSize: () => ipcRenderer.send('reset-window-size'),
   setApiProvider: (provider) => ipcRenderer.invoke('set-api-provider', provider),
   getApiProvider: () => ipcRenderer.invoke('get-api-provider'),
+  isMockProviderAvailable: () => ipcRenderer.invoke('is-mock-provider-available'),
   getTokenUsage: () => ipcRenderer.invoke('get-token-usage'),
   checkTokenLimit: () => ipcRenderer.invoke('check-token-limit'),
   getUserTier: (userId) => ipcRenderer.invoke('get-user-tier', userId),
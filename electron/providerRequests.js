@@ -0,0 +1,302 @@
+// Generated from src/providers/requests.ts by scripts/build-provider-requests.js. Do not edit.
+"use strict";
+var __defProp = Object.defineProperty;
+var __getOwnPropDesc = Object.getOwnPropertyDescriptor;
+var __getOwnPropNames = Object.getOwnPropertyNames;
+var __hasOwnProp = Object.prototype.hasOwnProperty;
+var __export = (target, all) => {
+  for (var name in all)
+    __defProp(target, name, { get: all[name], enumerable: true });
+};
+var __copyProps = (to, from, except, desc) => {
+  if (from && typeof from === "object" || typeof from === "function") {
+    for (let key of __getOwnPropNames(from))
+      if (!__hasOwnProp.call(to, key) && key !== except)
+        __defProp(to, key, { get: () => from[key], enumerable: !(desc = __getOwnPropDesc(from, key)) || desc.enumerable });
+  }
+  return to;
+};
+var __toCommonJS = (mod) => __copyProps(__defProp({}, "__esModule", { value: true }), mod);
+
+// src/providers/requests.ts
+var requests_exports = {};
+__export(requests_exports, {
+  API_KEYS: () => API_KEYS,
+  buildProviderRequest: () => buildProviderRequest,
+  createEventStreamParser: () => createEventStreamParser,
+  parseCompletion: () => parseCompletion,
+  parseStreamEvent: () => parseStreamEvent
+});
+module.exports = __toCommonJS(requests_exports);
+
+// agent/generationSettings.ts
+var DEFAULT_SYSTEM_PERSONA = "You are a helpful radiology assistant.";
+
+// src/providers/sse.ts
+function createEventStreamParser(onData) {
+  let buffer = "";
+  let eventName;
+  let dataLines = [];
+  const dispatch = () => {
+    const data = dataLines.join("\n");
+    if (data.trim() && data !== "[DONE]") {
+      onData(data, eventName);
+    }
+    dataLines = [];
+    eventName = void 0;
+  };
+  const handleLine = (rawLine) => {
+    const line = rawLine.replace(/\r$/, "");
+    if (!line) {
+      dispatch();
+      return;
+    }
+    if (line.startsWith(":"))
+      return;
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? "" : line.slice(colon + 1).replace(/^ /, "");
+    if (field === "event") {
+      eventName = value;
+    } else if (field === "data") {
+      dataLines.push(value);
+    }
+  };
+  return {
+    push(text) {
+      buffer += text;
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      lines.forEach(handleLine);
+    },
+    end() {
+      if (buffer) {
+        handleLine(buffer);
+        buffer = "";
+      }
+      dispatch();
+    }
+  };
+}
+
+// src/providers/requests.ts
+var API_KEYS = {
+  openai: { name: "OPENAI_API_KEY", label: "OpenAI" },
+  anthropic: { name: "ANTHROPIC_API_KEY", label: "Anthropic" },
+  gemini: { name: "GEMINI_API_KEY", label: "Gemini" },
+  kimi: { name: "MOONSHOT_API_KEY", label: "Moonshot" }
+};
+function requireKey(entry, apiKey) {
+  if (!apiKey) {
+    throw new Error(`${API_KEYS[entry.backend]?.label ?? entry.displayName} API key not configured`);
+  }
+  return apiKey;
+}
+function chatMessages(prompt, system) {
+  return [
+    ...system ? [{ role: "system", content: system }] : [],
+    { role: "user", content: prompt }
+  ];
+}
+function defined(values) {
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== void 0));
+}
+function resolveSettings(entry, options) {
+  const sampling = entry.samplingParams !== false;
+  return {
+    system: options.system || (entry.defaultSystemPrompt ? DEFAULT_SYSTEM_PERSONA : void 0),
+    temperature: sampling ? options.temperature ?? entry.temperature : void 0,
+    topP: sampling ? options.topP ?? entry.topP : void 0,
+    maxTokens: options.maxTokens ?? entry.maxTokens,
+    stop: sampling && options.stop?.length ? options.stop : void 0
+  };
+}
+function buildProviderRequest(entry, prompt, endpoints, stream, options = {}) {
+  const settings = resolveSettings(entry, options);
+  switch (entry.backend) {
+    case "anthropic":
+      return {
+        url: "https://api.anthropic.com/v1/messages",
+        headers: {
+          "Content-Type": "application/json",
+          "x-api-key": requireKey(entry, endpoints.apiKey),
+          "anthropic-version": "2023-06-01"
+        },
+        body: defined({
+          model: entry.model,
+          max_tokens: settings.maxTokens,
+          system: settings.system,
+          messages: [{ role: "user", content: prompt }],
+          temperature: settings.temperature,
+          top_p: settings.topP,
+          stop_sequences: settings.stop,
+          stream: stream || void 0
+        }),
+        format: "anthropic"
+      };
+    case "gemini": {
+      const apiKey = requireKey(entry, endpoints.apiKey);
+      const method = stream ? "streamGenerateContent?alt=sse&" : "generateContent?";
+      return {
+        url: `https://generativelanguage.googleapis.com/v1beta/models/${entry.model}:${method}key=${apiKey}`,
+        headers: { "Content-Type": "application/json" },
+        body: defined({
+          systemInstruction: settings.system ? { parts: [{ text: settings.system }] } : void 0,
+          contents: [{ parts: [{ text: prompt }] }],
+          generationConfig: defined({
+            temperature: settings.temperature,
+            maxOutputTokens: settings.maxTokens,
+            topP: settings.topP,
+            stopSequences: settings.stop
+          })
+        }),
+        format: "gemini"
+      };
+    }
+    case "ollama":
+      return {
+        url: `${endpoints.ollamaBase}/api/generate`,
+        headers: { "Content-Type": "application/json" },
+        body: {
+          model: endpoints.ollamaModel || entry.model,
+          prompt: settings.system ? `${settings.system}
+
+${prompt}` : prompt,
+          options: defined({
+            temperature: settings.temperature,
+            top_p: settings.topP,
+            num_predict: settings.maxTokens,
+            repeat_penalty: 1.1,
+            stop: settings.stop
+          }),
+          stream: false
+        },
+        format: "ollama"
+      };
+    case "llamacpp":
+      return {
+        url: `${endpoints.llamacppBase}/chat/completions`,
+        headers: { "Content-Type": "application/json" },
+        body: defined({
+          model: entry.model,
+          messages: chatMessages(prompt, settings.system),
+          temperature: settings.temperature,
+          max_tokens: settings.maxTokens,
+          top_p: settings.topP,
+          // Prevent repetition
+          repeat_penalty: 1.1,
+          stop: settings.stop,
+          stream: stream || void 0
+        }),
+        format: "openai"
+      };
+    case "kimi":
+      return {
+        url: "https://api.moonshot.ai/v1/chat/completions",
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${requireKey(entry, endpoints.apiKey)}`
+        },
+        body: defined({
+          model: entry.model,
+          messages: chatMessages(prompt, settings.system),
+          temperature: settings.temperature,
+          // Moonshot's own output limit applies unless a study sets one
+          max_tokens: options.maxTokens,
+          top_p: settings.topP,
+          stop: settings.stop,
+          stream
+        }),
+        format: "openai"
+      };
+    default:
+      return {
+        url: "https://api.openai.com/v1/chat/completions",
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${requireKey(entry, endpoints.apiKey)}`
+        },
+        body: defined({
+          model: entry.model,
+          messages: chatMessages(prompt, settings.system),
+          [entry.maxTokensParam || "max_tokens"]: settings.maxTokens,
+          temperature: settings.temperature,
+          top_p: settings.topP,
+          stop: settings.stop,
+          stream: stream || void 0,
+          stream_options: stream ? { include_usage: true } : void 0
+        }),
+        format: "openai"
+      };
+  }
+}
+function parseCompletion(format, data) {
+  if (format === "anthropic") {
+    const input2 = data.usage?.input_tokens || 0;
+    const output2 = data.usage?.output_tokens || 0;
+    return {
+      text: Array.isArray(data.content) ? data.content.map((part) => part.text || "").join("") : "",
+      tokens: { input: input2, output: output2, total: input2 + output2 }
+    };
+  }
+  if (format === "gemini") {
+    const input2 = data.usageMetadata?.promptTokenCount || 0;
+    const output2 = data.usageMetadata?.candidatesTokenCount || 0;
+    return {
+      text: data.candidates?.[0]?.content?.parts?.map((part) => part.text || "").join("") || "",
+      tokens: { input: input2, output: output2, total: data.usageMetadata?.totalTokenCount || input2 + output2 }
+    };
+  }
+  if (format === "ollama") {
+    const input2 = data.prompt_eval_count || 0;
+    const output2 = data.eval_count || 0;
+    return { text: data.response || "", tokens: { input: input2, output: output2, total: input2 + output2 } };
+  }
+  const input = data.usage?.prompt_tokens || 0;
+  const output = data.usage?.completion_tokens || 0;
+  return {
+    text: data.choices?.[0]?.message?.content || "",
+    tokens: { input, output, total: data.usage?.total_tokens || input + output }
+  };
+}
+function parseStreamEvent(format, data) {
+  const event = JSON.parse(data);
+  if (format === "anthropic") {
+    if (event.type === "message_start") {
+      return { text: "", usage: { input: event.message?.usage?.input_tokens || 0 } };
+    }
+    if (event.type === "content_block_delta") {
+      return { text: event.delta?.text || "", usage: null };
+    }
+    if (event.type === "message_delta") {
+      return { text: "", usage: { output: event.usage?.output_tokens || 0 } };
+    }
+    if (event.type === "error") {
+      throw new Error(event.error?.message || "Claude stream error");
+    }
+    return { text: "", usage: null };
+  }
+  if (format === "gemini") {
+    const text = event.candidates?.[0]?.content?.parts?.map((part) => part.text || "").join("") || "";
+    const usage2 = event.usageMetadata ? {
+      input: event.usageMetadata.promptTokenCount || 0,
+      output: event.usageMetadata.candidatesTokenCount || 0,
+      total: event.usageMetadata.totalTokenCount || 0
+    } : null;
+    return { text, usage: usage2 };
+  }
+  const usage = event.usage ? {
+    input: event.usage.prompt_tokens || 0,
+    output: event.usage.completion_tokens || 0,
+    total: event.usage.total_tokens || 0
+  } : null;
+  return { text: event.choices?.[0]?.delta?.content || "", usage };
+}
+// Annotate the CommonJS export names for ESM import in node:
+0 && (module.exports = {
+  API_KEYS,
+  buildProviderRequest,
+  createEventStreamParser,
+  parseCompletion,
+  parseStreamEvent
+});
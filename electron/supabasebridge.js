@@ -29,6 +29,7 @@ const { ipcMain } = require('electron')
 const { createClient } = require('@supabase/supabase-js')
 const fetch = require('node-fetch')
 const https = require('https')
+const { migrateAgentLogic } = require('./logicMigrations')
 
 // Import logic utility functions
 function deepMergeAgentLogic(target, source) {
@@ -237,16 +238,35 @@ ipcMain.handle('fetch-template-for-generation', async (_event, userId, studyType
       return { error: `No template found for user ${userId} and study type "${studyType}"` }
     }
 
+    // The user's base logic sits between the defaults and the study logic (e.g. shared generation settings)
+    const { data: userDefault, error: baseError } = await authedClient
+      .from('user_default_logic')
+      .select('default_agent_logic')
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (baseError) {
+      console.warn('⚠️ Could not load base logic for generation, using defaults:', baseError.message)
+    }
+
+    // Stored layers may predate the current logic version; agent-logic IPC persists the upgrade on load
+    const storedBaseLogic = migrateAgentLogic(userDefault?.default_agent_logic).logic
+    const storedStudyLogic = migrateAgentLogic(data.agent_logic).logic
+
+    const defaultLogic = getDefaultAgentLogic()
+    const baseLogic = storedBaseLogic
+      ? deepMergeAgentLogic(defaultLogic, storedBaseLogic)
+      : defaultLogic
+
     // Merge stored agent_logic with defaults to ensure all expected properties are present
-    if (data.agent_logic) {
-      const defaultLogic = getDefaultAgentLogic()
-      const mergedLogic = deepMergeAgentLogic(defaultLogic, data.agent_logic)
+    if (storedStudyLogic) {
+      const mergedLogic = deepMergeAgentLogic(baseLogic, storedStudyLogic)
       data.agent_logic = mergedLogic
       console.log('✅ Template found for generation with merged logic:', studyType)
       console.log('🔍 numerically_itemized in merged logic:', mergedLogic?.impression?.numerically_itemized)
     } else {
       // No stored logic, use defaults
-      data.agent_logic = getDefaultAgentLogic()
+      data.agent_logic = baseLogic
       console.log('✅ Template found for generation with default logic:', studyType)
     }
 
@@ -0,0 +1,125 @@
+#!/usr/bin/env node
+
+/**
+ * Batch report generation from CSV
+ * Runs every row through the agent prompt builder, the selected provider and the
+ * rule/header validators, then writes per-row results as JSON and CSV.
+ *
+ * Usage:
+ *   npm run batch:generate -- [options]
+ *
+ * Options:
+ *   --input <csv>         Input rows (default: phase1_msk_mri_inputs.csv)
+ *   --provider <id>       Catalog provider id (default: RADPAL_API_PROVIDER or mock)
+ *   --studies <json>      { "<study type>": { "template": "...", "agent_logic": { ... } } }
+ *   --base-logic <json>   User base logic applied under each study's logic
+ *   --out <prefix>        Output path prefix (default: batch-results/<provider>-<timestamp>)
+ *   --compare <json>      Previous results JSON to diff against
+ *   --concurrency <n>     Rows generated in parallel (default: 1)
+ *   --limit <n>           Only run the first n rows
+ *   --verbose             Keep the agent's console logging
+ */
+
+const fs = require('fs');
+const path = require('path');
+const { createServer } = require('vite');
+
+const ROOT = path.resolve(__dirname, '..');
+
+function parseArgs(argv) {
+  const args = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+    const key = arg.slice(2);
+    const value = argv[i + 1];
+    if (value === undefined || value.startsWith('--')) {
+      args[key] = true;
+    } else {
+      args[key] = value;
+      i++;
+    }
+  }
+  return args;
+}
+
+function readJson(file) {
+  return JSON.parse(fs.readFileSync(path.resolve(file), 'utf-8'));
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const input = path.resolve(args.input || path.join(ROOT, 'phase1_msk_mri_inputs.csv'));
+  const provider = args.provider || process.env.RADPAL_API_PROVIDER || 'mock';
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const outPrefix = path.resolve(args.out || path.join(ROOT, 'batch-results', `${provider}-${timestamp}`));
+
+  // Vite's SSR loader runs the TypeScript agent modules without a separate build step
+  const server = await createServer({
+    root: ROOT,
+    logLevel: 'error',
+    server: { middlewareMode: true, hmr: false },
+    appType: 'custom',
+    optimizeDeps: { disabled: true }
+  });
+
+  const originalLog = console.log;
+  try {
+    const batch = await server.ssrLoadModule('/agent/batchRunner.ts');
+
+    const rows = batch.parseBatchRows(fs.readFileSync(input, 'utf-8'));
+    const selected = args.limit ? rows.slice(0, Number(args.limit)) : rows;
+
+    originalLog(`📋 ${selected.length} rows from ${path.relative(process.cwd(), input)} → ${provider}`);
+
+    // The prompt builder and validators log every step; keep the run output readable
+    if (!args.verbose) {
+      console.log = () => {};
+    }
+
+    const results = await batch.runBatch(selected, {
+      provider,
+      studies: args.studies ? readJson(args.studies) : undefined,
+      baseLogic: args['base-logic'] ? readJson(args['base-logic']) : undefined,
+      concurrency: args.concurrency ? Number(args.concurrency) : 1,
+      onResult: (result) => {
+        const status = result.status === 'error'
+          ? `❌ ${result.error}`
+          : `${result.headersValid ? '✅' : '⚠️ headers'} ${result.violations.length} violations${result.selfCorrection?.attempts ? ` (${result.selfCorrection.fixed.length} fixed in ${result.selfCorrection.attempts} repairs)` : ''}, ${result.tokens.total} tokens, ${result.latencyMs}ms`;
+        originalLog(`  row ${result.row} (${result.studyType}): ${status}`);
+      }
+    });
+    console.log = originalLog;
+
+    fs.mkdirSync(path.dirname(outPrefix), { recursive: true });
+    const summary = batch.summarizeBatch(results);
+    fs.writeFileSync(`${outPrefix}.json`, JSON.stringify({ input, provider, summary, results }, null, 2));
+    fs.writeFileSync(`${outPrefix}.csv`, batch.resultsToCsv(results));
+
+    console.log('\n📊 Summary');
+    console.table(summary);
+    console.log(`💾 Results written to ${outPrefix}.json and ${outPrefix}.csv`);
+
+    if (args.compare) {
+      const baseline = readJson(args.compare);
+      const changes = batch.compareBatchResults(baseline.results || baseline, results);
+      console.log(`\n🔍 ${changes.length} rows changed vs ${args.compare}`);
+      changes.forEach(change => {
+        console.log(`  row ${change.row} (${change.studyType})`);
+        change.changes.forEach(line => console.log(`    ${line}`));
+      });
+    }
+
+    if (summary.errors > 0) {
+      process.exitCode = 1;
+    }
+  } finally {
+    console.log = originalLog;
+    await server.close();
+  }
+}
+
+main().catch((err) => {
+  console.error('❌ Batch run failed:', err);
+  process.exit(1);
+});
@@ -0,0 +1,55 @@
+#!/usr/bin/env node
+
+/**
+ * Builds electron/providerRequests.js (CommonJS, for the main process) from src/providers/requests.ts,
+ * so both processes send the same requests to every backend
+ *
+ * Usage:
+ *   npm run providers:build -- [--check]
+ *
+ * Options:
+ *   --check   Exit non-zero if electron/providerRequests.js is out of date instead of writing it
+ */
+
+const fs = require('fs');
+const path = require('path');
+const { build } = require('esbuild');
+
+const ROOT = path.resolve(__dirname, '..');
+const ENTRY = path.join(ROOT, 'src', 'providers', 'requests.ts');
+const OUTPUT = path.join(ROOT, 'electron', 'providerRequests.js');
+
+async function main() {
+  const check = process.argv.includes('--check');
+
+  const result = await build({
+    entryPoints: [ENTRY],
+    bundle: true,
+    platform: 'node',
+    format: 'cjs',
+    target: 'node18',
+    write: false,
+    logLevel: 'error',
+    banner: { js: '// Generated from src/providers/requests.ts by scripts/build-provider-requests.js. Do not edit.' }
+  });
+  const bundle = result.outputFiles[0].text.replace(/\r\n/g, '\n');
+  const current = fs.existsSync(OUTPUT) ? fs.readFileSync(OUTPUT, 'utf-8').replace(/\r\n/g, '\n') : '';
+
+  if (check) {
+    if (current !== bundle) {
+      console.error(`❌ ${path.relative(ROOT, OUTPUT)} is out of date. Run npm run providers:build`);
+      process.exitCode = 1;
+    } else {
+      console.log(`✅ ${path.relative(ROOT, OUTPUT)} is up to date`);
+    }
+    return;
+  }
+
+  fs.writeFileSync(OUTPUT, bundle);
+  console.log(`💾 Wrote ${path.relative(ROOT, OUTPUT)}`);
+}
+
+main().catch((err) => {
+  console.error('❌ Provider request build failed:', err);
+  process.exit(1);
+});
@@ -0,0 +1,57 @@
+#!/usr/bin/env node
+
+/**
+ * Writes the agent_logic JSON Schema generated from agent/logicSchema.ts
+ *
+ * Usage:
+ *   npm run logic:schema -- [--check]
+ *
+ * Options:
+ *   --check   Exit non-zero if agent/agentLogic.schema.json is out of date instead of writing it
+ */
+
+const fs = require('fs');
+const path = require('path');
+const { createServer } = require('vite');
+
+const ROOT = path.resolve(__dirname, '..');
+const OUTPUT = path.join(ROOT, 'agent', 'agentLogic.schema.json');
+
+async function main() {
+  const check = process.argv.includes('--check');
+
+  // Vite's SSR loader runs the TypeScript agent modules without a separate build step
+  const server = await createServer({
+    root: ROOT,
+    logLevel: 'error',
+    server: { middlewareMode: true, hmr: false },
+    appType: 'custom',
+    optimizeDeps: { disabled: true }
+  });
+
+  try {
+    const { toJsonSchema } = await server.ssrLoadModule('/agent/logicSchema.ts');
+    const schema = JSON.stringify(toJsonSchema(), null, 2) + '\n';
+    const current = fs.existsSync(OUTPUT) ? fs.readFileSync(OUTPUT, 'utf-8').replace(/\r\n/g, '\n') : '';
+
+    if (check) {
+      if (current !== schema) {
+        console.error(`❌ ${path.relative(ROOT, OUTPUT)} is out of date. Run npm run logic:schema`);
+        process.exitCode = 1;
+      } else {
+        console.log(`✅ ${path.relative(ROOT, OUTPUT)} is up to date`);
+      }
+      return;
+    }
+
+    fs.writeFileSync(OUTPUT, schema);
+    console.log(`💾 Wrote ${path.relative(ROOT, OUTPUT)}`);
+  } finally {
+    await server.close();
+  }
+}
+
+main().catch((err) => {
+  console.error('❌ Schema export failed:', err);
+  process.exit(1);
+});
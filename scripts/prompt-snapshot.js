@@ -0,0 +1,132 @@
+#!/usr/bin/env node
+
+/**
+ * Golden prompt snapshots
+ * Renders the prompt builders for agent logic fixtures and diffs them against the
+ * stored golden prompts in agent/__tests__/prompts/golden.
+ *
+ * Usage:
+ *   npm run prompt:snapshot -- [options]
+ *
+ * Options:
+ *   --fixture <name|file>  Fixture name in agent/__tests__/prompts/fixtures or a fixture JSON path (default: all)
+ *   --builder <name>       buildPrompt, buildEnhancedPrompt, buildImpressionPrompt or buildEnhancedImpressionPrompt (default: all)
+ *   --logic <json>         Render an ad-hoc agent logic file instead of a fixture
+ *   --template <file>      Template text for --logic (default: FINDINGS/IMPRESSION skeleton)
+ *   --findings <file>      Findings text for --logic
+ *   --print                Print the rendered prompt instead of diffing
+ *   --update               Overwrite golden prompts with the current output
+ */
+
+const fs = require('fs');
+const path = require('path');
+const { createServer } = require('vite');
+const { createTwoFilesPatch } = require('diff');
+
+const ROOT = path.resolve(__dirname, '..');
+
+function parseArgs(argv) {
+  const args = {};
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (!arg.startsWith('--')) continue;
+    const key = arg.slice(2);
+    const value = argv[i + 1];
+    if (value === undefined || value.startsWith('--')) {
+      args[key] = true;
+    } else {
+      args[key] = value;
+      i++;
+    }
+  }
+  return args;
+}
+
+function readText(file) {
+  return fs.readFileSync(path.resolve(file), 'utf-8');
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+
+  // Vite's SSR loader runs the TypeScript agent modules without a separate build step
+  const server = await createServer({
+    root: ROOT,
+    logLevel: 'error',
+    server: { middlewareMode: true, hmr: false },
+    appType: 'custom',
+    optimizeDeps: { disabled: true }
+  });
+
+  try {
+    const snapshots = await server.ssrLoadModule('/agent/promptSnapshots.ts');
+
+    const builders = args.builder ? [args.builder] : snapshots.PROMPT_BUILDER_NAMES;
+    const unknown = builders.filter(name => !snapshots.PROMPT_BUILDER_NAMES.includes(name));
+    if (unknown.length > 0) {
+      throw new Error(`Unknown builder "${unknown[0]}". Expected one of: ${snapshots.PROMPT_BUILDER_NAMES.join(', ')}`);
+    }
+
+    // Ad-hoc logic has no golden to compare against, so it is always printed
+    if (args.logic) {
+      const fixture = {
+        template: args.template ? readText(args.template) : 'FINDINGS:\n\nIMPRESSION:\n',
+        findings: args.findings ? readText(args.findings) : '',
+        agent_logic: JSON.parse(readText(args.logic))
+      };
+      builders.forEach(builder => {
+        console.log(`===== ${builder} =====`);
+        console.log(snapshots.renderPrompt(fixture, builder));
+      });
+      return;
+    }
+
+    const fixtures = args.fixture ? [args.fixture] : snapshots.listPromptFixtures();
+    let changed = 0;
+
+    for (const fixtureArg of fixtures) {
+      const fixture = snapshots.loadPromptFixture(fixtureArg);
+      const name = path.basename(fixtureArg).replace(/\.json$/, '');
+
+      for (const builder of builders) {
+        const prompt = snapshots.renderPrompt(fixture, builder);
+        const label = `${name}/${builder}`;
+
+        if (args.print) {
+          console.log(`===== ${label} =====`);
+          console.log(prompt);
+          continue;
+        }
+
+        const golden = snapshots.readGoldenPrompt(name, builder);
+        if (golden === prompt) {
+          console.log(`✅ ${label}`);
+          continue;
+        }
+
+        changed++;
+        if (args.update) {
+          snapshots.writeGoldenPrompt(name, builder, prompt);
+          console.log(`📝 ${label} ${golden === undefined ? 'created' : 'updated'}`);
+        } else if (golden === undefined) {
+          console.log(`❓ ${label} has no golden prompt (run with --update to create it)`);
+        } else {
+          console.log(`❌ ${label} differs from the golden prompt`);
+          console.log(createTwoFilesPatch(`golden/${label}`, `current/${label}`, golden, prompt, '', '', { context: 2 }));
+        }
+      }
+    }
+
+    if (changed > 0 && !args.update && !args.print) {
+      console.log(`\n${changed} prompt(s) changed. Re-run with --update if the changes are intended.`);
+      process.exitCode = 1;
+    }
+  } finally {
+    await server.close();
+  }
+}
+
+main().catch((err) => {
+  console.error('❌ Prompt snapshot failed:', err);
+  process.exit(1);
+});
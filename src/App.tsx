@@ -4,6 +4,12 @@ import { useAuth } from './hooks/useAuth'
 import { useGpt } from './hooks/useGpt'
 import { useAgentReport } from './hooks/useAgentReport'
 import { mapRadPalModelToAgent } from '../agent/modelMapping'
+import { isAbortError } from '../agent/callModel'
+import { suggestStudyTypes } from '../agent/conceptExtraction'
+import { insertScoringResult } from '../agent/scoring'
+import { listProviderEntries } from './providers/registry'
+import { DEFAULT_PROVIDER_ID, PROVIDER_CATALOG, type ApiProviderId } from './providers/catalog'
+import { loadFallbackChain, saveFallbackChain } from './utils/failoverSettings'
 import { useSupabaseTemplatesWithOffline } from './hooks/useSupabaseTemplatesWithOffline'
 import { useWindowResize } from './hooks/useWindowResize'
 import { useStyles } from './hooks/useStyles'
@@ -17,9 +23,18 @@ import LogicEditorChat from './components/LogicEditorChat'
 import LogicEditorDirect from './components/LogicEditorDirect'
 import LogicEditorEnhanced from './components/LogicEditorEnhanced'
 import BlurCard from './components/BlurCard'
+import FallbackChainSettings from './components/FallbackChainSettings'
 import DragTextEditor from './components/DragTextEditor'
 import AskAI from './components/AskAI'
 import AIRefinement from './components/AIRefinement'
+import RuleViolationAlert from './components/RuleViolationAlert'
+import ScoringCalculatorPanel from './components/ScoringCalculatorPanel'
+import ExamContextPanel from './components/ExamContextPanel'
+import { ExamContext, isExamContextEmpty } from '../agent/examContext'
+import { loadExamContext, loadRecentCaseIds, saveExamContext } from './utils/examContextStore'
+import { TemplateField, parseTemplateFields } from '../agent/templateFields'
+import { checkLaterality } from '../agent/laterality'
+import { markUnsupportedParts, wrapUnsupported } from './utils/provenanceHighlight'
 import RichTextEditor, { RichTextEditorHandle } from './components/RichTextEditorSimple'
 import { buttonStyles, layoutStyles } from './utils/styleConstants'
 import { debounce } from './utils/debounce'
@@ -104,7 +119,8 @@ export default React.memo(function App() {
   const findingsEditorRef = useRef<FindingsEditorHandle>(null)
   const [isRecording, setIsRecording] = useState(false)
   const [dictationError, setDictationError] = useState<string | null>(null)
-  const [picklistState, setPicklistState] = useState<{ options: string[]; position: { x: number; y: number } } | null>(null)
+  // templateField: options of a template picklist field rather than a macro
+  const [picklistState, setPicklistState] = useState<{ options: string[]; position: { x: number; y: number }; templateField?: boolean } | null>(null)
   const [macroSettings, setMacroSettings] = useState<MacroSettings>(() => loadMacroSettings())
   const [showMacroManager, setShowMacroManager] = useState(false)
   const [isCleaningUp, setIsCleaningUp] = useState(false)
@@ -182,7 +198,8 @@ export default React.memo(function App() {
   const [showLogicEditor, setShowLogicEditor] = useState(false)
   const [showOfflineDataViewer, setShowOfflineDataViewer] = useState(false)
   const [showTokenTooltip, setShowTokenTooltip] = useState(false)
-  const [apiProvider, setApiProvider] = useState<'openai' | 'claude-sonnet' | 'claude-opus' | 'claude-opus-4.1' | 'gemini' | 'kimi' | 'gpt-5' | 'mistral-local'>('openai') // Default to GPT-4o
+  const [apiProvider, setApiProvider] = useState<ApiProviderId>(DEFAULT_PROVIDER_ID) // Default to GPT-4o
+  const [mockProviderAvailable, setMockProviderAvailable] = useState(false)
   const [llamaServerStatus, setLlamaServerStatus] = useState<{ running: boolean; error?: string; external?: boolean }>({ running: false })
   const [modelDownloadStatus, setModelDownloadStatus] = useState<{
     downloading: boolean;
@@ -222,6 +239,7 @@ export default React.memo(function App() {
     generatedText: string
     generationTime: string
     tokens: { input: number, output: number, total: number }
+    provider?: string // Catalog id of the model that produced the text (may be a fallback)
     templateText?: string
     showDiff?: boolean
     diffParts?: any[] // Pre-calculated diff parts to avoid recalculation
@@ -229,6 +247,9 @@ export default React.memo(function App() {
   const [showDiffView, setShowDiffView] = useState(false)
   const [showAskAI, setShowAskAI] = useState(false)
   const [showAIRefinement, setShowAIRefinement] = useState(false)
+  const [showScoringCalculator, setShowScoringCalculator] = useState(false)
+  // Rule validation outcome of the last agent report, including what self-correction fixed
+  const [ruleAlert, setRuleAlert] = useState<{ violations: string[], warnings: string[], fixed: string[], repairAttempts: number } | null>(null)
   const [updateCheckComplete, setUpdateCheckComplete] = useState(false)
 
   // Load favorite study types from localStorage
@@ -264,6 +285,7 @@ export default React.memo(function App() {
         setApiProvider(provider);
       });
     }
+    window.electronAPI?.isMockProviderAvailable?.().then(setMockProviderAvailable);
   }, []);
   
   // Debug log for download status
@@ -493,24 +515,62 @@ export default React.memo(function App() {
   }, [user]);
 
 
-  // Model tier mapping
-  const modelTiers = {
-    // Tier 1 models (available to all)
-    'gemini': 1,
-    'kimi': 1,
-    
-    // Tier 2 models
-    'openai': 2,      // GPT-4o
-    'gpt-5': 2,
-    'claude-sonnet': 2,
-    
-    // Tier 3 models (premium)
-    'claude-opus': 3,
-    'claude-opus-4.1': 3,
-    
-    // Tier 4 models (developer only)
-    'mistral-local': 4
+  // Model tier mapping, from the provider catalog
+  const modelTiers: Record<string, number> = Object.fromEntries(
+    PROVIDER_CATALOG.map(entry => [entry.id, entry.tier])
+  );
+  // Cloud models get one button each; the local model has its own controls.
+  // The offline mock provider only appears in development builds or when chosen via RADPAL_API_PROVIDER.
+  const pickerProviderEntries = [
+    ...listProviderEntries().filter(entry => !entry.local),
+    ...(mockProviderAvailable ? PROVIDER_CATALOG.filter(entry => entry.backend === 'mock') : [])
+  ];
+  const providerDisplayName = (id?: string) => PROVIDER_CATALOG.find(entry => entry.id === id)?.displayName || id;
+
+  // Per-user fallback chain, tried in order when the selected model fails
+  const fallbackUserId = (user as { id?: string } | null)?.id;
+  const [fallbackChain, setFallbackChain] = useState<string[]>([]);
+  useEffect(() => {
+    setFallbackChain(fallbackUserId ? loadFallbackChain(fallbackUserId) : []);
+  }, [fallbackUserId]);
+
+  // Exam context (indication, history, comparison) for the current case, saved per case id
+  const [examCaseId, setExamCaseId] = useState('');
+  const [examContext, setExamContext] = useState<ExamContext>({});
+  const [recentExamCaseIds, setRecentExamCaseIds] = useState<string[]>(() => loadRecentCaseIds());
+
+  const handleExamCaseIdChange = (caseId: string) => {
+    setExamCaseId(caseId);
+    const saved = loadExamContext(caseId);
+    if (!isExamContextEmpty(saved)) {
+      setExamContext(saved);
+    } else if (caseId && !isExamContextEmpty(examContext)) {
+      // Context entered before the case id belongs to this case
+      saveExamContext(caseId, examContext);
+      setRecentExamCaseIds(loadRecentCaseIds());
+    }
+  };
+
+  const handleExamContextChange = (exam: ExamContext) => {
+    setExamContext(exam);
+    if (examCaseId) {
+      saveExamContext(examCaseId, exam);
+      setRecentExamCaseIds(loadRecentCaseIds());
+    }
+  };
+
+  const handleFallbackChainChange = (chain: string[]) => {
+    setFallbackChain(chain);
+    if (fallbackUserId) {
+      saveFallbackChain(fallbackUserId, chain);
+    }
   };
+
+  // Fallbacks the user can currently use (tier may have changed since the chain was saved)
+  const activeFallbackChain = useMemo(
+    () => fallbackChain.filter(id => id !== apiProvider && userTier >= (modelTiers[id] ?? 3)),
+    [fallbackChain, apiProvider, userTier]
+  );
   
   // Check if a model is available based on user tier
   const isModelAvailable = (modelKey: string): boolean => {
@@ -530,7 +590,7 @@ export default React.memo(function App() {
   };
 
   // Handle API provider change
-  const handleApiProviderChange = async (provider: 'openai' | 'claude-sonnet' | 'claude-opus' | 'claude-opus-4.1' | 'gemini' | 'kimi' | 'gpt-5' | 'mistral-local') => {
+  const handleApiProviderChange = async (provider: ApiProviderId) => {
     // Check if user has access to this model
     if (!isModelAvailable(provider)) {
       const requiredTier = modelTiers[provider] || 3;
@@ -550,7 +610,7 @@ export default React.memo(function App() {
     
     setApiProvider(provider);
     if (window.electronAPI?.setApiProvider) {
-      await window.electronAPI.setApiProvider(provider as any);
+      await window.electronAPI.setApiProvider(provider);
     }
   };
 
@@ -1749,10 +1809,46 @@ useEffect(() => {
   const {
     generateReportWithAgent,
     generateImpressionWithAgent,
+    cancelGeneration,
     loading: agentLoading,
     error: agentError
   } = useAgentReport()
 
+  // Progressively renders streamed model output into the editor, batching updates per animation frame
+  const createStreamingRenderer = useCallback(() => {
+    let streamedText = ''
+    let frameRequested = false
+    let stopped = false
+
+    const onToken = (chunk: string) => {
+      streamedText += chunk
+      if (frameRequested || stopped) return
+      frameRequested = true
+      requestAnimationFrame(() => {
+        frameRequested = false
+        if (stopped || !richTextEditorRef.current) return
+        const html = streamedText
+          .replace(/&/g, '&amp;')
+          .replace(/</g, '&lt;')
+          .replace(/>/g, '&gt;')
+          .replace(/\n/g, '<br>')
+        richTextEditorRef.current.setValue(html)
+      })
+    }
+
+    // Prevents a pending frame from overwriting the final formatted output
+    const stop = () => {
+      stopped = true
+    }
+
+    // Discards partial output, e.g. when a failed provider hands over to a fallback
+    const reset = () => {
+      streamedText = ''
+    }
+
+    return { onToken, stop, reset }
+  }, [])
+
   // Auto-suggest study type based on findings using local keyword matching
   const suggestStudyType = useCallback((findingsText: string) => {
     if (!findingsText.trim() || findingsText.length < 10 || selectedStudyType) {
@@ -1764,343 +1860,11 @@ useEffect(() => {
     setIsGeneratingSuggestion(true)
     
     try {
-      const lowerFindings = findingsText.toLowerCase()
-      const suggestions: Array<{type: string, confidence: number}> = []
-      
       console.log('🔍 Auto-suggest running with findings:', findingsText.substring(0, 50))
       console.log('🔍 Templates loaded:', templates ? Object.keys(templates).length : 0)
       
-      // Define keyword patterns for each study type
-      const studyTypePatterns = {
-        'MRI Ankle': [
-          // Basic anatomy
-          'ankle', 'talus', 'calcaneus', 'fibula', 'tibia', 'malleolus', 'posterior talus',
-          // Joints
-          'tibiotalar', 'tibiotalar joint', 'subtalar', 'subtalar joint', 'midfoot joints',
-          // Ligaments - comprehensive ankle ligament list
-          'anterior talofibular ligament', 'atfl', 'talofibular ligament', 'talofibular', 
-          'posterior talofibular ligament', 'ptfl', 'calcaneofibular ligament', 'cfl',
-          'tibiofibular ligament', 'syndesmosis', 'anterior tibiofibular ligament', 
-          'posterior tibiofibular ligament', 'interosseous ligament',
-          'deltoid ligament', 'deltoid', 'deltoid ligament superficial', 'deltoid ligament deep',
-          'spring ligament', 'bifurcate ligament',
-          // Tendons - medial
-          'posterior tibial tendon', 'flexor digitorum longus', 'flexor hallucis longus', 'fhl',
-          // Tendons - lateral
-          'peroneus longus', 'peroneus brevis', 'peroneal tendon', 'peroneus',
-          // Tendons - anterior
-          'anterior tibial tendon', 'extensor hallucis longus', 'ehl', 
-          'extensor digitorum longus',
-          // Tendons - posterior
-          'achilles tendon', 'achilles',
-          // Other structures
-          'plantar fascia', 'tarsal tunnel', 'sinus tarsi',
-          // Common conditions
-          'ankle sprain', 'lateral ankle sprain', 'medial ankle sprain', 'high ankle sprain',
-          'ankle instability', 'ankle impingement'
-        ],
-        'MRI Foot': [
-          'foot', 'forefoot', 'midfoot', 'hindfoot', 'rearfoot',
-          // Bones
-          'metatarsal', 'metatarsals', 'phalanx', 'phalanges', 'navicular', 'cuboid', 'cuneiform',
-          'tarsals', 'first ray', 'second ray', 'third ray', 'fourth ray', 'fifth ray',
-          // Toes and hallux
-          'toe', 'big toe', 'great toe', 'hallux', 'lesser toes',
-          'hallux-sesamoid complex', 'sesamoid',
-          // Joints
-          'metatarsophalangeal joint', 'mtp joint', '1st mtp', '2nd mtp', '3rd mtp', '4th mtp', '5th mtp',
-          // Ligaments and specific structures
-          'lisfranc ligament', 'lisfranc injury', 'lisfranc joint', 'chopart joint',
-          'plantar fascia', 'plantar plate',
-          // Neuromas
-          'morton neuroma', 'morton', 'interdigital neuroma',
-          // Tendons
-          'flexor tendons', 'extensor tendons', 'flexor tendons of toes', 'extensor tendons of toes',
-          // Common conditions
-          'hallux valgus', 'bunion', 'hammer toe', 'claw toe', 'mallet toe', 'jones fracture',
-          'rays'
-        ],
-        'MRI Knee': [
-          'knee', 'patella', 'patellar', 'femoral condyle', 'tibial plateau', 'intercondylar notch',
-          // Ligaments
-          'anterior cruciate ligament', 'acl', 'posterior cruciate ligament', 'pcl',
-          'medial collateral ligament', 'mcl', 'lateral collateral ligament', 'lcl', 'llc',
-          'cruciate', 'collateral ligament', 'patellar ligament', 'quadriceps tendon',
-          'patellar tendon', 'popliteus tendon', 'popliteofibular ligament',
-          // Meniscus
-          'meniscus', 'medial meniscus', 'lateral meniscus', 'meniscal tear', 'meniscal',
-          // Joints and cartilage
-          'proximal tibiofibular joint', 'trochlea cartilage', 'plica',
-          // Other structures
-          'baker cyst', 'popliteal', 'patellofemoral', 'chondromalacia', 'runner knee',
-          'jumper knee', 'iliotibial band', 'itb', 'pes anserine', 'hoffa fat pad',
-          'intercondylar', 'compartments'
-        ],
-        'MRI Hip': [
-          'hip', 'hip joint', 'femoral head', 'femoral neck', 'acetabulum', 'acetabular',
-          // Impingement and morphology
-          'femoroacetabular impingement', 'fai', 'cam lesion', 'pincer lesion', 
-          'cam impingement', 'pincer impingement', 'os acetabulare',
-          'dysplasia', 'acetabular retroversion', 'head-neck angle',
-          // Labrum and cartilage
-          'labrum', 'labral', 'labral tear', 'femoral cartilage', 'acetabular cartilage',
-          // Muscles and soft tissues
-          'capsule', 'gluteus maximus', 'hamstring origin', 'abductors', 'adductors',
-          'short external rotators', 'iliopsoas', 'psoas', 'gluteal', 'gluteus',
-          'piriformis', 'piriformis syndrome',
-          // Nerves and joints
-          'sciatic nerve', 'femoral nerve', 'sacroiliac joint', 'pubic symphysis',
-          // Trochanters and conditions
-          'trochanter', 'greater trochanter', 'lesser trochanter', 'trochanteric',
-          'trochanteric bursitis', 'fibrocystic lesion',
-          'hip dysplasia', 'avascular necrosis', 'avn', 'osteonecrosis', 'snapping hip'
-        ],
-        'MRI Shoulder': [
-          'shoulder', 'glenohumeral', 'glenohumeral joint', 'glenoid', 'humeral head',
-          // Rotator cuff
-          'rotator cuff', 'supraspinatus', 'infraspinatus', 'subscapularis', 'teres minor',
-          'rotator cuff tear', 'cuff tear', 'impingement', 'subacromial impingement',
-          // Labrum and ligaments
-          'labrum', 'labral', 'slap tear', 'bankart lesion', 'hill sachs lesion',
-          'glenohumeral ligaments',
-          // Acromion and AC joint
-          'acromion', 'subacromial spur', 'lateral downsloping', 'acromial arch',
-          'acromioclavicular', 'acromioclavicular joint', 'ac joint',
-          // Biceps and bursa
-          'biceps tendon', 'long head biceps', 'long head of biceps tendon', 'bicipital anchor',
-          'subacromial-subdeltoid bursa', 'subdeltoid bursa',
-          // Cartilage and other structures
-          'humeral head cartilage',
-          'frozen shoulder', 'adhesive capsulitis', 'shoulder instability', 'dislocation'
-        ],
-        'MRI Elbow': [
-          'elbow', 'elbow joint', 'humerus', 'radius', 'ulna',
-          // Epicondyles and prominences
-          'lateral epicondyle', 'medial epicondyle', 'olecranon', 'radial head',
-          // Ligaments
-          'ulnar collateral ligament', 'ucl', 'radial collateral ligament',
-          'lateral ulnar collateral ligament',
-          // Tendons
-          'common flexor tendon', 'common extensor tendon', 'triceps tendon',
-          'biceps tendon', 'brachialis',
-          // Joints and bursa
-          'radio-capitellar joint', 'ulno-humeral joint', 'proximal radioulnar joint',
-          'bicipitoradial bursa',
-          // Nerve and tunnel
-          'ulnar nerve', 'cubital tunnel', 'cubital tunnel syndrome',
-          // Common conditions
-          'tennis elbow', 'lateral epicondylitis', 'golfer elbow', 'medial epicondylitis',
-          'intra-articular bodies'
-        ],
-        'MRI Wrist': [
-          'wrist', 'wrist joint', 'radiocarpal', 'midcarpal',
-          // Joints
-          'distal radioulnar joint', 'druj', 'pisiform-triquetral joint', 
-          'scaphotrapezotrapezoidal joint', 'stt joint', 'thumb carpometacarpal joint',
-          // Carpal bones
-          'carpal', 'carpus', 'carpal bones', 'scaphoid', 'lunate', 'triquetrum', 'pisiform', 
-          'hamate', 'capitate', 'trapezoid', 'trapezium',
-          // Ligaments and TFCC
-          'tfcc', 'triangular fibrocartilage', 'triangular fibrocartilage complex',
-          'scapholunate ligament', 'lunotriquetral ligament',
-          // Compartments and tendons
-          'extensor compartments', 'extensor compartment i', 'extensor compartment ii',
-          'extensor compartment iii', 'extensor compartment iv', 'extensor compartment v',
-          'extensor compartment vi', 'flexor tendons', 'flexor retinaculum',
-          // Tunnels and nerves
-          'carpal tunnel', 'carpal tunnel syndrome', 'median nerve',
-          'guyon canal',
-          // Conditions
-          'de quervain', 'kienbock disease', 'scaphoid fracture'
-        ],
-        'MRI Hand': [
-          'hand', 'finger', 'thumb', 'digits',
-          'metacarpal', 'phalanges', 'phalanx', 'proximal phalanx', 'middle phalanx', 'distal phalanx',
-          'mcp joint', 'pip joint', 'dip joint', 'metacarpophalangeal', 'interphalangeal',
-          'flexor tendon', 'extensor tendon', 'trigger finger', 'trigger thumb',
-          'mallet finger', 'swan neck deformity', 'boutonniere deformity',
-          'dupuytren contracture', 'ganglion cyst'
-        ],
-        'MRI Cervical Spine': [
-          'cervical', 'cervical spine', 'c-spine', 'c spine', 'neck',
-          'c1', 'c2', 'c3', 'c4', 'c5', 'c6', 'c7', 'atlas', 'axis',
-          'cervical disc', 'cervical stenosis', 'cervical radiculopathy', 'cervical myelopathy',
-          'neck pain', 'whiplash', 'torticollis', 'cervical spondylosis'
-        ],
-        'MRI Thoracic Spine': [
-          'thoracic', 'thoracic spine', 't-spine', 't spine', 'mid back', 'middle back',
-          't1', 't2', 't3', 't4', 't5', 't6', 't7', 't8', 't9', 't10', 't11', 't12',
-          'thoracic disc', 'thoracic stenosis', 'thoracic radiculopathy',
-          'thoracolumbar', 'kyphosis', 'thoracic kyphosis'
-        ],
-        'MRI Lumbar Spine': [
-          'lumbar', 'lumbar spine', 'l-spine', 'l spine', 'lower back', 'low back',
-          'l1', 'l2', 'l3', 'l4', 'l5', 's1', 'lumbosacral',
-          'lumbar disc', 'disc herniation', 'herniated disc', 'bulging disc', 'disc protrusion',
-          'lumbar stenosis', 'spinal stenosis', 'canal stenosis', 'foraminal stenosis',
-          'sciatica', 'radiculopathy', 'nerve root', 'nerve root compression',
-          'facet joint', 'facet arthropathy', 'spondylolisthesis', 'spondylolysis',
-          'lumbar spondylosis', 'degenerative disc disease', 'ddd'
-        ],
-        'MRI Total Spine': ['total spine', 'whole spine', 'entire spine', 'full spine', 'complete spine'],
-        'CT Abdomen Pelvis': [
-          // Liver and biliary
-          'liver', 'hepatic', 'biliary', 'intrahepatic ductal dilatation',
-          'gallbladder', 'gallstones', 'common bile duct',
-          // Other organs
-          'spleen', 'splenic',
-          'pancreas', 'peripancreatic',
-          'adrenal glands',
-          // Genitourinary
-          'kidneys', 'renal', 'ureters', 'hydronephrosis', 'nephrolithiasis',
-          'bladder',
-          // GI tract
-          'bowel', 'small bowel', 'large bowel', 'obstruction',
-          // Vascular
-          'abdominal aorta', 'aneurysm', 'dissection',
-          // Other structures
-          'retroperitoneum', 'lymph nodes', 'lymphadenopathy',
-          // Lung bases
-          'lungs (bases)', 'consolidation', 'effusion', 'nodule',
-          // Legacy keywords
-          'abdomen', 'pelvis', 'appendix', 'ovary', 'uterus', 'prostate', 'colon', 'intestine'
-        ],
-        'CT Chest': [
-          // Lungs and airways
-          'lungs', 'pulmonary', 'airways', 'consolidation', 'pneumothorax',
-          'pulmonary nodule', 'bronchial obstruction', 'endobronchial lesion',
-          // Pleura and chest wall
-          'pleural effusion', 'pleura', 'chest wall',
-          // Heart and vessels
-          'heart', 'great vessels', 'aorta', 'dissection', 'aneurysm', 'pulmonary embolism',
-          // Mediastinum
-          'mediastinum', 'hilar lymph nodes', 'mediastinal lymphadenopathy',
-          // Other
-          'upper abdomen (visualized)',
-          'fracture', 'dislocation', 'aggressive osseous lesion',
-          'subcutaneous tissues',
-          // Legacy keywords
-          'chest', 'lung', 'pleural', 'thorax', 'bronchi', 'pneumonia', 'nodule', 'embolism'
-        ],
-        'CT Head': [
-          // Brain parenchyma
-          'brain parenchyma', 'hemorrhage', 'intracranial hemorrhage',
-          // Mass effect and anatomy
-          'mass effect', 'herniation', 'gray-white differentiation',
-          // Ventricles and fluid
-          'white matter', 'ventricles', 'extra-axial', 'hydrocephalus', 'fluid collections',
-          // Extracranial
-          'extracranial structures', 'fracture', 'paranasal sinuses', 'mastoids',
-          // Pathology
-          'large territorial infarct',
-          // Legacy keywords
-          'head', 'brain', 'skull', 'intracranial', 'stroke', 'subdural', 'subarachnoid', 'ventricle', 'sinuses'
-        ],
-        'CT Pulmonary Embolism': [
-          // Main distinguishing features
-          'pulmonary arteries', 'main pulmonary artery', 'pulmonary embolism', 'pe',
-          // Lung findings
-          'lungs', 'consolidation', 'pneumothorax', 'pulmonary nodule',
-          'bronchial obstruction', 'endobronchial lesion',
-          // Pleura and chest wall
-          'pleural effusion', 'pleura', 'chest wall',
-          // Heart and vessels
-          'heart', 'aorta', 'dissection', 'aneurysm',
-          // Mediastinum
-          'mediastinum', 'hilar lymph nodes',
-          // Other
-          'upper abdomen (visualized)',
-          'fracture', 'dislocation', 'aggressive osseous lesion',
-          'subcutaneous tissues',
-          // Legacy keywords
-          'pe protocol', 'pulmonary artery', 'embolus', 'thrombosis', 'ctpa'
-        ],
-        'DEXA': ['dexa', 'bone density', 'osteoporosis', 'osteopenia', 't-score', 'z-score', 'bmd', 'fracture risk'],
-        'MRI Generic': ['mri', 'magnetic resonance'],
-        'CT Generic': ['ct', 'computed tomography', 'cat scan'],
-        'MSK MRI Generic': [
-          // Common findings
-          'fracture', 'traumatic malalignment', 'bone marrow edema', 'marrow signal',
-          'osteoarthritis', 'joint effusion',
-          // Anatomical structures
-          'ligaments', 'tendons', 'muscles', 'atrophy', 'muscle atrophy',
-          'neurovascular structures', 'neurovascular structures intact',
-          'subcutaneous tissues', 'soft tissues',
-          // Common descriptors
-          'unremarkable'
-        ]
-      }
-      
-      // Score each study type based on keyword matches
-      // First process predefined patterns
-      for (const [studyType, keywords] of Object.entries(studyTypePatterns)) {
-        // Check if template exists OR if no templates are loaded yet (allow suggestions to work)
-        if (templates && Object.keys(templates).length > 0 && !templates[studyType]) {
-          continue // Only skip if templates are loaded AND this specific template doesn't exist
-        }
-        
-        let score = 0
-        let matchedKeywords = 0
-        
-        for (const keyword of keywords) {
-          if (lowerFindings.includes(keyword)) {
-            // Give higher weight to more specific/longer keywords
-            const weight = keyword.split(' ').length > 1 ? 3 : 1
-            score += weight
-            matchedKeywords++
-            console.log(`  ✓ Matched "${keyword}" for ${studyType} (weight: ${weight})`)
-          }
-        }
-        
-        if (score > 0) {
-          // Calculate confidence based on matched keywords
-          // Base confidence on number of matches and their weights
-          const baseConfidence = (matchedKeywords / Math.min(3, keywords.length)) * 60 // Up to 60% for matching 3 keywords
-          const scoreBonus = Math.min(35, score * 10) // Up to 35% bonus for weighted matches
-          const confidence = Math.min(95, Math.round(baseConfidence + scoreBonus))
-          
-          console.log(`  → ${studyType}: ${matchedKeywords} matches, score ${score}, confidence ${confidence}%`)
-          suggestions.push({ type: studyType, confidence })
-        }
-      }
-      
-      // Process ALL loaded templates that don't have predefined patterns
-      if (templates && Object.keys(templates).length > 0) {
-        const allTemplateNames = Object.keys(templates);
-        const patternsKeys = Object.keys(studyTypePatterns);
-        const templatesWithoutPatterns = allTemplateNames.filter(name => !patternsKeys.includes(name));
-        
-        console.log('🔍 Templates without patterns:', templatesWithoutPatterns);
-        
-        for (const studyType of templatesWithoutPatterns) {
-          // Create basic keyword matching from the template name itself
-          const templateKeywords = studyType.toLowerCase().split(/[\s_-]+/).filter(word => word.length > 2);
-          
-          let score = 0;
-          let matchedKeywords = 0;
-          
-          for (const keyword of templateKeywords) {
-            if (lowerFindings.includes(keyword)) {
-              score += keyword.length; // Weight by keyword length
-              matchedKeywords++;
-            }
-          }
-          
-          if (matchedKeywords > 0) {
-            // Lower confidence for templates without specific patterns
-            const baseConfidence = (matchedKeywords / Math.min(2, templateKeywords.length)) * 40; // Up to 40% for name matching
-            const scoreBonus = Math.min(15, score * 2); // Up to 15% bonus
-            const confidence = Math.min(60, Math.round(baseConfidence + scoreBonus)); // Max 60% for name-only matches
-            
-            console.log(`  → ${studyType} (name-based): ${matchedKeywords} matches, score ${score}, confidence ${confidence}%`);
-            suggestions.push({ type: studyType, confidence });
-          }
-        }
-      }
-      
-      // Sort by confidence and take top 3
-      suggestions.sort((a, b) => b.confidence - a.confidence)
-      const topSuggestions = suggestions.slice(0, 3).filter(s => s.confidence >= 20) // Lowered threshold
+      // Study types scored on the lexicon's terms (agent/radiologyLexicon.ts)
+      const topSuggestions = suggestStudyTypes(findingsText, { templateNames: templates ? Object.keys(templates) : [] })
       
       console.log('🔍 Local suggestions:', topSuggestions)
       
@@ -2288,21 +2052,46 @@ const handleGenerate = useCallback(async () => {
   console.log('🔍 Starting generation');
   // STEP 1: Clear any previous generation result
   setGenerationResult(null);
+  setRuleAlert(null);
 
   try {
     console.log('🔍 Starting report generation with agent');
     // STEP 2: Use new agent-based system
     const model = mapRadPalModelToAgent(apiProvider);
     const startTime = Date.now();
+    const streamingRenderer = createStreamingRenderer();
     
-    const agentResult = await generateReportWithAgent(
-      finalFindings,
-      selectedStudyType,
-      model
-    );
+    let agentResult;
+    try {
+      agentResult = await generateReportWithAgent(
+        finalFindings,
+        selectedStudyType,
+        model,
+        streamingRenderer.onToken,
+        {
+          fallbackChain: activeFallbackChain,
+          onProviderAttempt: (provider) => {
+            streamingRenderer.reset();
+            if (provider !== model) {
+              showNotification(`${providerDisplayName(model)} unavailable, trying ${providerDisplayName(provider)}`);
+            }
+          }
+        },
+        examContext
+      );
+    } finally {
+      streamingRenderer.stop();
+    }
     
     console.log('🔍 Agent result:', agentResult);
 
+    setRuleAlert({
+      violations: agentResult.ruleViolations || [],
+      warnings: agentResult.ruleWarnings || [],
+      fixed: agentResult.selfCorrection?.fixed || [],
+      repairAttempts: agentResult.selfCorrection?.attempts || 0
+    });
+
     const generationTime = ((Date.now() - startTime) / 1000).toFixed(1);
 
     // STEP 4: Update main UI with results
@@ -2316,11 +2105,18 @@ const handleGenerate = useCallback(async () => {
     const rawDiffParts = diffWordsWithSpace(templateText.trim(), generatedText.trim());
     console.log('🔍 DIFF DEBUG - Raw diff parts count:', rawDiffParts.length);
     
-    const diffParts = rawDiffParts.filter((part, i) => {
+    // Sentences the provenance check could not trace to the findings or template are highlighted
+    const leadingWhitespace = generatedText.length - generatedText.trimStart().length;
+    const unsupportedRanges = (agentResult.provenance?.unsupported || []).map(sentence => ({
+      start: sentence.start - leadingWhitespace,
+      end: sentence.end - leadingWhitespace
+    }));
+    
+    const diffParts = markUnsupportedParts(rawDiffParts.filter((part, i) => {
       // DO NOT FILTER ANYTHING - show the complete diff
       // The previous filtering was removing important spaces from the displayed text
       return true;
-    });
+    }), unsupportedRanges);
     
     console.log('🔍 DIFF DEBUG - Filtered diff parts count:', diffParts.length);
     
@@ -2331,6 +2127,7 @@ const handleGenerate = useCallback(async () => {
       generatedText: generatedText,
       generationTime,
       tokens: agentResult.tokens,
+      provider: agentResult.provider,
       showDiff: true, // Enable diff view for report generation
       diffParts: diffParts // Store pre-calculated diff
     });
@@ -2349,13 +2146,13 @@ const handleGenerate = useCallback(async () => {
         
         if (part.added) {
           // Green background for added text
-          diffHtml += `<span style="background-color: rgba(58, 188, 150, 0.3); color: #3ABC96; padding: 1px 2px; border-radius: 2px;">${partHtml}</span>`;
+          diffHtml += wrapUnsupported(part, `<span style="background-color: rgba(58, 188, 150, 0.3); color: #3ABC96; padding: 1px 2px; border-radius: 2px;">${partHtml}</span>`);
         } else if (part.removed) {
           // Red strikethrough for removed text
           diffHtml += `<span style="background-color: rgba(227, 103, 86, 0.3); color: #E36756; text-decoration: line-through; padding: 1px 2px; border-radius: 2px;">${partHtml}</span>`;
         } else {
           // Normal text
-          diffHtml += partHtml;
+          diffHtml += wrapUnsupported(part, partHtml);
         }
       });
     }
@@ -2371,6 +2168,12 @@ const handleGenerate = useCallback(async () => {
       setFindings(diffHtml);
     }
   } catch (error) {
+    if (isAbortError(error)) {
+      // Restore the dictated findings that were being streamed over
+      richTextEditorRef.current?.setValue(currentFindings);
+      showNotification('Report generation cancelled');
+      return;
+    }
     console.error('Agent report generation failed:', error);
     const errorMessage = `❌ Report generation failed: ${error.message || 'Unknown error'}`;
     const templateText = templates[selectedStudyType]?.template || '';
@@ -2400,7 +2203,7 @@ const handleGenerate = useCallback(async () => {
   showNotification(`Generation failed: ${error.message || 'Unknown error'}`);
   // Don't modify findings on error - user keeps their original text
 }
-}, [templates, generateReportWithAgent, findings, selectedStudyType, apiProvider, showNotification, saveFindingsCheckpoint]);
+}, [templates, generateReportWithAgent, createStreamingRenderer, findings, selectedStudyType, apiProvider, activeFallbackChain, examContext, showNotification, saveFindingsCheckpoint]);
 
 
 
@@ -2458,12 +2261,29 @@ const handleGenerate = useCallback(async () => {
     // STEP 2: Use new agent-based system
     const model = mapRadPalModelToAgent(apiProvider);
     const startTime = Date.now();
+    const streamingRenderer = createStreamingRenderer();
     
-    const agentResult = await generateImpressionWithAgent(
-      finalFindings,
-      selectedStudyType,
-      model
-    );
+    let agentResult;
+    try {
+      agentResult = await generateImpressionWithAgent(
+        finalFindings,
+        selectedStudyType,
+        model,
+        streamingRenderer.onToken,
+        {
+          fallbackChain: activeFallbackChain,
+          onProviderAttempt: (provider) => {
+            streamingRenderer.reset();
+            if (provider !== model) {
+              showNotification(`${providerDisplayName(model)} unavailable, trying ${providerDisplayName(provider)}`);
+            }
+          }
+        },
+        examContext
+      );
+    } finally {
+      streamingRenderer.stop();
+    }
 
     const generationTime = ((Date.now() - startTime) / 1000).toFixed(1);
 
@@ -2496,11 +2316,18 @@ const handleGenerate = useCallback(async () => {
       generatedText: impressionText,
       generationTime,
       tokens: agentResult.tokens,
+      provider: agentResult.provider,
       showDiff: false // Flag to indicate no diff should be shown
     });
     
     // Diff view is now always-on, shows changes automatically
   } catch (error) {
+    if (isAbortError(error)) {
+      // Restore the dictated findings that were being streamed over
+      richTextEditorRef.current?.setValue(currentFindings);
+      showNotification('Impression generation cancelled');
+      return;
+    }
     console.error('Agent impression generation failed:', error);
     const errorMessage = `❌ Impression generation failed: ${error.message || 'Unknown error'}`;
     setGenerationResult({
@@ -2515,7 +2342,7 @@ const handleGenerate = useCallback(async () => {
     // Don't save error to history - user can undo to get back findings
     setFindings(errorMessage, false);
   }
-}, [templates, generateImpressionWithAgent, findings, selectedStudyType, apiProvider, showNotification, saveFindingsCheckpoint])
+}, [templates, generateImpressionWithAgent, createStreamingRenderer, findings, selectedStudyType, apiProvider, activeFallbackChain, examContext, showNotification, saveFindingsCheckpoint])
 
 
 
@@ -2525,6 +2352,37 @@ const handleGenerate = useCallback(async () => {
   // console.log('🔍 Selected study type:', selectedStudyType);
   // console.log('🔍 gptLoading:', gptLoading, 'templatesLoading:', templatesLoading);
 
+  // Template picklist fields offer their options in the macro picklist
+  const handleTemplateFieldSelect = useCallback((field: TemplateField, position: { x: number; y: number }) => {
+    setPicklistState({ options: field.options, position, templateField: true });
+  }, []);
+
+  // Copy-out is where unfilled template fields are caught; cancelling selects the first one
+  const confirmCopyWithUnfilledFields = (text: string): boolean => {
+    const unfilled = parseTemplateFields(text);
+    if (unfilled.length === 0) return true;
+    const labels = unfilled.map(field => field.label).join(', ');
+    if (window.confirm(`${unfilled.length} template field${unfilled.length === 1 ? ' is' : 's are'} still unfilled: ${labels}. Copy anyway?`)) {
+      return true;
+    }
+    richTextEditorRef.current?.focus();
+    richTextEditorRef.current?.selectTemplateField('first');
+    return false;
+  };
+
+  // Left/right mix-ups in the copied text must be acknowledged, checked against the dictated findings
+  const confirmCopyWithLateralityConflicts = (text: string): boolean => {
+    const { conflicts } = checkLaterality({
+      report: text,
+      findings: generationResult?.originalFindings,
+      template: generationResult?.templateText || templates[selectedStudyType]?.template,
+      studyType: selectedStudyType
+    });
+    if (conflicts.length === 0) return true;
+    const messages = conflicts.map(conflict => `- ${conflict.message}`).join('\n');
+    return window.confirm(`Laterality check found ${conflicts.length} ${conflicts.length === 1 ? 'problem' : 'problems'}:\n${messages}\n\nCopy anyway?`);
+  };
+
   // Handle picklist selection
   const handlePicklistSelect = useCallback((value: string) => {
     // Get the current element
@@ -3317,140 +3175,29 @@ const handleGenerate = useCallback(async () => {
                     padding: 2,
                     gap: 2
                   }}>
-                    <button
-                      onClick={() => handleApiProviderChange('openai')}
-                      title={!isModelAvailable('openai') ? `Requires ${getTierLabel(modelTiers['openai'])} subscription` : 'GPT-4o'}
-                      style={{
-                        padding: '8px 12px',
-                        backgroundColor: apiProvider === 'openai' ? '#5F33FF' : 'transparent',
-                        border: '1px solid rgba(255, 255, 255, 0.1)',
-                        borderRadius: 8,
-                        color: apiProvider === 'openai' ? '#fff' : !isModelAvailable('openai') ? '#666' : '#aaa',
-                        fontSize: 13,
-                        fontFamily: 'SF Pro, -apple-system, BlinkMacSystemFont, sans-serif',
-                        cursor: isModelAvailable('openai') ? 'pointer' : 'not-allowed',
-                        transition: 'all 0.2s ease',
-                        textAlign: 'left',
-                        opacity: isModelAvailable('openai') ? 1 : 0.5,
-                        position: 'relative'
-                      }}
-                    >
-                      GPT-4o {!isModelAvailable('openai') && <span style={{ float: 'right' }}>🔒</span>}
-                    </button>
-                    <button
-                      onClick={() => handleApiProviderChange('gpt-5')}
-                      title={!isModelAvailable('gpt-5') ? `Requires ${getTierLabel(modelTiers['gpt-5'])} subscription` : 'GPT-5'}
-                      style={{
-                        padding: '8px 12px',
-                        backgroundColor: apiProvider === 'gpt-5' ? '#5F33FF' : 'transparent',
-                        border: '1px solid rgba(255, 255, 255, 0.1)',
-                        borderRadius: 8,
-                        color: apiProvider === 'gpt-5' ? '#fff' : !isModelAvailable('gpt-5') ? '#666' : '#aaa',
-                        fontSize: 13,
-                        fontFamily: 'SF Pro, -apple-system, BlinkMacSystemFont, sans-serif',
-                        cursor: isModelAvailable('gpt-5') ? 'pointer' : 'not-allowed',
-                        transition: 'all 0.2s ease',
-                        textAlign: 'left',
-                        opacity: isModelAvailable('gpt-5') ? 1 : 0.5,
-                        position: 'relative'
-                      }}
-                    >
-                      GPT-5 {!isModelAvailable('gpt-5') && <span style={{ float: 'right' }}>🔒</span>}
-                    </button>
-                    <button
-                      onClick={() => handleApiProviderChange('gemini')}
-                      style={{
-                        padding: '8px 12px',
-                        backgroundColor: apiProvider === 'gemini' ? '#5F33FF' : 'transparent',
-                        border: '1px solid rgba(255, 255, 255, 0.1)',
-                        borderRadius: 8,
-                        color: apiProvider === 'gemini' ? '#fff' : '#aaa',
-                        fontSize: 13,
-                        fontFamily: 'SF Pro, -apple-system, BlinkMacSystemFont, sans-serif',
-                        cursor: 'pointer',
-                        transition: 'all 0.2s ease',
-                        textAlign: 'left'
-                      }}
-                    >
-                      Gemini 2.5 Flash
-                    </button>
-                    <button
-                      onClick={() => handleApiProviderChange('claude-sonnet')}
-                      title={!isModelAvailable('claude-sonnet') ? `Requires ${getTierLabel(modelTiers['claude-sonnet'])} subscription` : 'Claude 4 Sonnet'}
-                      style={{
-                        padding: '8px 12px',
-                        backgroundColor: apiProvider === 'claude-sonnet' ? '#5F33FF' : 'transparent',
-                        border: '1px solid rgba(255, 255, 255, 0.1)',
-                        borderRadius: 8,
-                        color: apiProvider === 'claude-sonnet' ? '#fff' : !isModelAvailable('claude-sonnet') ? '#666' : '#aaa',
-                        fontSize: 13,
-                        fontFamily: 'SF Pro, -apple-system, BlinkMacSystemFont, sans-serif',
-                        cursor: isModelAvailable('claude-sonnet') ? 'pointer' : 'not-allowed',
-                        transition: 'all 0.2s ease',
-                        textAlign: 'left',
-                        opacity: isModelAvailable('claude-sonnet') ? 1 : 0.5,
-                        position: 'relative'
-                      }}
-                    >
-                      Claude 4 Sonnet {!isModelAvailable('claude-sonnet') && <span style={{ float: 'right' }}>🔒</span>}
-                    </button>
-                    <button
-                      onClick={() => handleApiProviderChange('claude-opus')}
-                      title={!isModelAvailable('claude-opus') ? `Requires ${getTierLabel(modelTiers['claude-opus'])} subscription` : 'Claude 4 Opus'}
-                      style={{
-                        padding: '8px 12px',
-                        backgroundColor: apiProvider === 'claude-opus' ? '#5F33FF' : 'transparent',
-                        border: '1px solid rgba(255, 255, 255, 0.1)',
-                        borderRadius: 8,
-                        color: apiProvider === 'claude-opus' ? '#fff' : !isModelAvailable('claude-opus') ? '#666' : '#aaa',
-                        fontSize: 13,
-                        fontFamily: 'SF Pro, -apple-system, BlinkMacSystemFont, sans-serif',
-                        cursor: isModelAvailable('claude-opus') ? 'pointer' : 'not-allowed',
-                        transition: 'all 0.2s ease',
-                        textAlign: 'left',
-                        opacity: isModelAvailable('claude-opus') ? 1 : 0.5,
-                        position: 'relative'
-                      }}
-                    >
-                      Claude 4 Opus {!isModelAvailable('claude-opus') && <span style={{ float: 'right' }}>🔒</span>}
-                    </button>
-                    <button
-                      onClick={() => handleApiProviderChange('claude-opus-4.1')}
-                      title={!isModelAvailable('claude-opus-4.1') ? `Requires ${getTierLabel(modelTiers['claude-opus-4.1'])} subscription` : 'Claude 4.1 Opus'}
-                      style={{
-                        padding: '8px 12px',
-                        backgroundColor: apiProvider === 'claude-opus-4.1' ? '#5F33FF' : 'transparent',
-                        border: '1px solid rgba(255, 255, 255, 0.1)',
-                        borderRadius: 8,
-                        color: apiProvider === 'claude-opus-4.1' ? '#fff' : !isModelAvailable('claude-opus-4.1') ? '#666' : '#aaa',
-                        fontSize: 13,
-                        fontFamily: 'SF Pro, -apple-system, BlinkMacSystemFont, sans-serif',
-                        cursor: isModelAvailable('claude-opus-4.1') ? 'pointer' : 'not-allowed',
-                        transition: 'all 0.2s ease',
-                        textAlign: 'left',
-                        opacity: isModelAvailable('claude-opus-4.1') ? 1 : 0.5,
-                        position: 'relative'
-                      }}
-                    >
-                      Claude 4.1 Opus {!isModelAvailable('claude-opus-4.1') && <span style={{ float: 'right' }}>🔒</span>}
-                    </button>
-                    <button
-                      onClick={() => handleApiProviderChange('kimi')}
-                      style={{
-                        padding: '8px 12px',
-                        backgroundColor: apiProvider === 'kimi' ? '#5F33FF' : 'transparent',
-                        border: '1px solid rgba(255, 255, 255, 0.1)',
-                        borderRadius: 8,
-                        color: apiProvider === 'kimi' ? '#fff' : '#aaa',
-                        fontSize: 13,
-                        fontFamily: 'SF Pro, -apple-system, BlinkMacSystemFont, sans-serif',
-                        cursor: 'pointer',
-                        transition: 'all 0.2s ease',
-                        textAlign: 'left'
-                      }}
-                    >
-                      Kimi v2
-                    </button>
+                    {pickerProviderEntries.map(entry => (
+                      <button
+                        key={entry.id}
+                        onClick={() => handleApiProviderChange(entry.id)}
+                        title={!isModelAvailable(entry.id) ? `Requires ${getTierLabel(entry.tier)} subscription` : entry.displayName}
+                        style={{
+                          padding: '8px 12px',
+                          backgroundColor: apiProvider === entry.id ? '#5F33FF' : 'transparent',
+                          border: '1px solid rgba(255, 255, 255, 0.1)',
+                          borderRadius: 8,
+                          color: apiProvider === entry.id ? '#fff' : !isModelAvailable(entry.id) ? '#666' : '#aaa',
+                          fontSize: 13,
+                          fontFamily: 'SF Pro, -apple-system, BlinkMacSystemFont, sans-serif',
+                          cursor: isModelAvailable(entry.id) ? 'pointer' : 'not-allowed',
+                          transition: 'all 0.2s ease',
+                          textAlign: 'left',
+                          opacity: isModelAvailable(entry.id) ? 1 : 0.5,
+                          position: 'relative'
+                        }}
+                      >
+                        {entry.displayName} {!isModelAvailable(entry.id) && <span style={{ float: 'right' }}>🔒</span>}
+                      </button>
+                    ))}
                     <button
                       onClick={() => handleApiProviderChange('mistral-local')}
                       title={!isModelAvailable('mistral-local') ? `Requires ${getTierLabel(modelTiers['mistral-local'])} subscription` : 'Mistral (Local)'}
@@ -3561,6 +3308,14 @@ const handleGenerate = useCallback(async () => {
                     </button>
                   </BlurCard>
                 </div>
+
+                {/* Fallback chain used when the selected model fails */}
+                <FallbackChainSettings
+                  entries={listProviderEntries().filter(entry => isModelAvailable(entry.id))}
+                  primary={apiProvider}
+                  chain={fallbackChain}
+                  onChange={handleFallbackChainChange}
+                />
                 
                 {/* Voice Macros Button */}
                 <div style={{ width: '100%', marginTop: 10 }}>
@@ -3805,6 +3560,7 @@ const handleGenerate = useCallback(async () => {
                         ref={richTextEditorRef}
                         value={findings}
                         onChange={handleRichTextChange}
+                        onTemplateFieldSelect={handleTemplateFieldSelect}
                         placeholder="Enter findings here..."
                         style={{
                           width: '100%',
@@ -3841,6 +3597,8 @@ const handleGenerate = useCallback(async () => {
                               
                               // Get text content with formatting preserved
                               const formattedText = temp.textContent || temp.innerText || ''
+                              if (!confirmCopyWithUnfilledFields(formattedText)) return
+                              if (!confirmCopyWithLateralityConflicts(formattedText)) return
                               
                               navigator.clipboard.writeText(formattedText)
                             }}
@@ -3912,10 +3670,10 @@ const handleGenerate = useCallback(async () => {
                                   
                                   if (part.added) {
                                     // Keep green background for added text
-                                    diffHtml += `<span style="background-color: rgba(58, 188, 150, 0.3); color: #3ABC96; padding: 1px 2px; border-radius: 2px;">${partHtml}</span>`;
+                                    diffHtml += wrapUnsupported(part, `<span style="background-color: rgba(58, 188, 150, 0.3); color: #3ABC96; padding: 1px 2px; border-radius: 2px;">${partHtml}</span>`);
                                   } else {
                                     // Normal text
-                                    diffHtml += partHtml;
+                                    diffHtml += wrapUnsupported(part, partHtml);
                                   }
                                 }
                               });
@@ -4031,8 +3789,25 @@ const handleGenerate = useCallback(async () => {
                     }}>
                       {agentLoading ? '🔄 Generating Report...' :
                        gptLoading ? '💭 Generating Impression...' :
-                       generationResult ? `✅ ${generationResult.type === 'report' ? 'Report' : 'Impression'} Generated${generationResult.tokens ? ` • ${generationResult.tokens.input}→${generationResult.tokens.output} tokens • ${generationResult.generationTime}s` : ''}` :
+                       generationResult ? `✅ ${generationResult.type === 'report' ? 'Report' : 'Impression'} Generated${generationResult.tokens ? ` • ${generationResult.tokens.input}→${generationResult.tokens.output} tokens • ${generationResult.generationTime}s` : ''}${generationResult.provider ? ` • ${providerDisplayName(generationResult.provider)}` : ''}` :
                        '⚡ Ready'}
+                      {agentLoading && (
+                        <button
+                          onClick={cancelGeneration}
+                          style={{
+                            marginLeft: 8,
+                            padding: '2px 8px',
+                            background: 'transparent',
+                            border: '1px solid rgba(88, 166, 255, 0.4)',
+                            borderRadius: 4,
+                            color: '#58A6FF',
+                            fontSize: 11,
+                            cursor: 'pointer'
+                          }}
+                        >
+                          Cancel
+                        </button>
+                      )}
                     </div>
                   )}
                   
@@ -4223,212 +3998,39 @@ const handleGenerate = useCallback(async () => {
                     display: 'flex', 
                     padding: 2
                   }}>
-                    <button
-                      onClick={() => handleApiProviderChange('openai')}
-                      style={{
-                        padding: '6px 12px',
-                        backgroundColor: apiProvider === 'openai' ? '#5F33FF' : 'transparent',
-                        backdropFilter: 'blur(12px) saturate(180%)',
-                        WebkitBackdropFilter: 'blur(12px) saturate(180%)',
-                        border: '1px solid rgba(255, 255, 255, 0.1)',
-                        boxShadow: apiProvider === 'openai' ? '0 4px 12px rgba(95, 51, 255, 0.3), inset 0 1px 0 rgba(255, 255, 255, 0.15)' : '0 2px 6px rgba(0, 0, 0, 0.1)',
-                        ...(apiProvider === 'openai' ? {
-                          background: 'linear-gradient(135deg, #5F33FF 0%, #4a28cc 100%)',
-                          color: '#fff',
-                          textShadow: 'none',
-                        } : {
-                          background: 'linear-gradient(to bottom, #ffffff, #999999, #333333)',
-                          WebkitBackgroundClip: 'text',
-                          WebkitTextFillColor: 'transparent',
-                          backgroundClip: 'text',
-                          textShadow: 'none',
-                        }),
-                        borderRadius: 16,
-                        fontSize: 14,
-                        fontWeight: 300,
-                        transition: 'all 0.2s ease',
-                      }}
-                    >
-                      GPT-4o
-                    </button>
-                    <button
-                      onClick={() => handleApiProviderChange('gpt-5')}
-                      title={!isModelAvailable('gpt-5') ? `Requires ${getTierLabel(modelTiers['gpt-5'])} subscription` : 'GPT-5'}
-                      style={{
-                        padding: '6px 12px',
-                        backgroundColor: apiProvider === 'gpt-5' ? '#5F33FF' : 'transparent',
-                        backdropFilter: 'blur(12px) saturate(180%)',
-                        WebkitBackdropFilter: 'blur(12px) saturate(180%)',
-                        border: '1px solid rgba(255, 255, 255, 0.1)',
-                        boxShadow: apiProvider === 'gpt-5' ? '0 4px 12px rgba(95, 51, 255, 0.3), inset 0 1px 0 rgba(255, 255, 255, 0.15)' : '0 2px 6px rgba(0, 0, 0, 0.1)',
-                        ...(apiProvider === 'gpt-5' ? {
-                          background: 'linear-gradient(135deg, #5F33FF 0%, #4a28cc 100%)',
-                          color: '#fff',
-                          textShadow: 'none',
-                        } : {
-                          background: 'linear-gradient(to bottom, #ffffff, #999999, #333333)',
-                          WebkitBackgroundClip: 'text',
-                          WebkitTextFillColor: 'transparent',
-                          backgroundClip: 'text',
-                          textShadow: 'none',
-                        }),
-                        borderRadius: 16,
-                        fontSize: 14,
-                        fontWeight: 300,
-                        fontFamily: 'SF Pro, -apple-system, BlinkMacSystemFont, sans-serif',
-                        transition: 'all 0.2s ease',
-                      }}
-                    >
-                      GPT-5
-                    </button>
-                    <button
-                      onClick={() => handleApiProviderChange('gemini')}
-                      style={{
-                        padding: '6px 12px',
-                        backgroundColor: apiProvider === 'gemini' ? '#5F33FF' : 'transparent',
-                        backdropFilter: 'blur(12px) saturate(180%)',
-                        WebkitBackdropFilter: 'blur(12px) saturate(180%)',
-                        border: '1px solid rgba(255, 255, 255, 0.1)',
-                        boxShadow: apiProvider === 'gemini' ? '0 4px 12px rgba(95, 51, 255, 0.3), inset 0 1px 0 rgba(255, 255, 255, 0.15)' : '0 2px 6px rgba(0, 0, 0, 0.1)',
-                        ...(apiProvider === 'gemini' ? {
-                          background: 'linear-gradient(135deg, #5F33FF 0%, #4a28cc 100%)',
-                          color: '#fff',
-                          textShadow: 'none',
-                        } : {
-                          background: 'linear-gradient(to bottom, #ffffff, #999999, #333333)',
-                          WebkitBackgroundClip: 'text',
-                          WebkitTextFillColor: 'transparent',
-                          backgroundClip: 'text',
-                          textShadow: 'none',
-                        }),
-                        borderRadius: 16,
-                        fontSize: 14,
-                        fontWeight: 300,
-                        fontFamily: 'SF Pro, -apple-system, BlinkMacSystemFont, sans-serif',
-                        transition: 'all 0.2s ease',
-                      }}
-                    >
-                      Gemini 2.5 Flash
-                    </button>
-                    <button
-                      onClick={() => handleApiProviderChange('claude-sonnet')}
-                      title={!isModelAvailable('claude-sonnet') ? `Requires ${getTierLabel(modelTiers['claude-sonnet'])} subscription` : 'Claude 4 Sonnet'}
-                      style={{
-                        padding: '6px 12px',
-                        backgroundColor: apiProvider === 'claude-sonnet' ? '#5F33FF' : 'transparent',
-                        backdropFilter: 'blur(12px) saturate(180%)',
-                        WebkitBackdropFilter: 'blur(12px) saturate(180%)',
-                        border: '1px solid rgba(255, 255, 255, 0.1)',
-                        boxShadow: apiProvider === 'claude-sonnet' ? '0 4px 12px rgba(95, 51, 255, 0.3), inset 0 1px 0 rgba(255, 255, 255, 0.15)' : '0 2px 6px rgba(0, 0, 0, 0.1)',
-                        ...(apiProvider === 'claude-sonnet' ? {
-                          background: 'linear-gradient(135deg, #5F33FF 0%, #4a28cc 100%)',
-                          color: '#fff',
-                          textShadow: 'none',
-                        } : {
-                          background: 'linear-gradient(to bottom, #ffffff, #999999, #333333)',
-                          WebkitBackgroundClip: 'text',
-                          WebkitTextFillColor: 'transparent',
-                          backgroundClip: 'text',
-                          textShadow: 'none',
-                        }),
-                        borderRadius: 16,
-                        fontSize: 14,
-                        fontWeight: 300,
-                        fontFamily: 'SF Pro, -apple-system, BlinkMacSystemFont, sans-serif',
-                        transition: 'all 0.2s ease',
-                      }}
-                    >
-                      Claude 4 Sonnet
-                    </button>
-                    <button
-                      onClick={() => handleApiProviderChange('claude-opus')}
-                      title={!isModelAvailable('claude-opus') ? `Requires ${getTierLabel(modelTiers['claude-opus'])} subscription` : 'Claude 4 Opus'}
-                      style={{
-                        padding: '6px 12px',
-                        backgroundColor: apiProvider === 'claude-opus' ? '#5F33FF' : 'transparent',
-                        backdropFilter: 'blur(12px) saturate(180%)',
-                        WebkitBackdropFilter: 'blur(12px) saturate(180%)',
-                        border: '1px solid rgba(255, 255, 255, 0.1)',
-                        boxShadow: apiProvider === 'claude-opus' ? '0 4px 12px rgba(95, 51, 255, 0.3), inset 0 1px 0 rgba(255, 255, 255, 0.15)' : '0 2px 6px rgba(0, 0, 0, 0.1)',
-                        ...(apiProvider === 'claude-opus' ? {
-                          background: 'linear-gradient(135deg, #5F33FF 0%, #4a28cc 100%)',
-                          color: '#fff',
-                          textShadow: 'none',
-                        } : {
-                          background: 'linear-gradient(to bottom, #ffffff, #999999, #333333)',
-                          WebkitBackgroundClip: 'text',
-                          WebkitTextFillColor: 'transparent',
-                          backgroundClip: 'text',
-                          textShadow: 'none',
-                        }),
-                        borderRadius: 16,
-                        fontSize: 14,
-                        fontWeight: 300,
-                        fontFamily: 'SF Pro, -apple-system, BlinkMacSystemFont, sans-serif',
-                        transition: 'all 0.2s ease',
-                      }}
-                    >
-                      Claude 4 Opus
-                    </button>
-                    <button
-                      onClick={() => handleApiProviderChange('claude-opus-4.1')}
-                      title={!isModelAvailable('claude-opus-4.1') ? `Requires ${getTierLabel(modelTiers['claude-opus-4.1'])} subscription` : 'Claude 4.1 Opus'}
-                      style={{
-                        padding: '6px 12px',
-                        backgroundColor: apiProvider === 'claude-opus-4.1' ? '#5F33FF' : 'transparent',
-                        backdropFilter: 'blur(12px) saturate(180%)',
-                        WebkitBackdropFilter: 'blur(12px) saturate(180%)',
-                        border: '1px solid rgba(255, 255, 255, 0.1)',
-                        boxShadow: apiProvider === 'claude-opus-4.1' ? '0 4px 12px rgba(95, 51, 255, 0.3), inset 0 1px 0 rgba(255, 255, 255, 0.15)' : '0 2px 6px rgba(0, 0, 0, 0.1)',
-                        ...(apiProvider === 'claude-opus-4.1' ? {
-                          background: 'linear-gradient(135deg, #5F33FF 0%, #4a28cc 100%)',
-                          color: '#fff',
-                          textShadow: 'none',
-                        } : {
-                          background: 'linear-gradient(to bottom, #ffffff, #999999, #333333)',
-                          WebkitBackgroundClip: 'text',
-                          WebkitTextFillColor: 'transparent',
-                          backgroundClip: 'text',
-                          textShadow: 'none',
-                        }),
-                        borderRadius: 16,
-                        fontSize: 14,
-                        fontWeight: 300,
-                        fontFamily: 'SF Pro, -apple-system, BlinkMacSystemFont, sans-serif',
-                        transition: 'all 0.2s ease',
-                      }}
-                    >
-                      Claude 4.1 Opus
-                    </button>
-                    <button
-                      onClick={() => handleApiProviderChange('kimi')}
-                      style={{
-                        padding: '6px 12px',
-                        backgroundColor: apiProvider === 'kimi' ? '#5F33FF' : 'transparent',
-                        backdropFilter: 'blur(12px) saturate(180%)',
-                        WebkitBackdropFilter: 'blur(12px) saturate(180%)',
-                        border: '1px solid rgba(255, 255, 255, 0.1)',
-                        boxShadow: apiProvider === 'kimi' ? '0 4px 12px rgba(95, 51, 255, 0.3), inset 0 1px 0 rgba(255, 255, 255, 0.15)' : '0 2px 6px rgba(0, 0, 0, 0.1)',
-                        ...(apiProvider === 'kimi' ? {
-                          background: 'linear-gradient(135deg, #5F33FF 0%, #4a28cc 100%)',
-                          color: '#fff',
-                          textShadow: 'none',
-                        } : {
-                          background: 'linear-gradient(to bottom, #ffffff, #999999, #333333)',
-                          WebkitBackgroundClip: 'text',
-                          WebkitTextFillColor: 'transparent',
-                          backgroundClip: 'text',
-                          textShadow: 'none',
-                        }),
-                        borderRadius: 16,
-                        fontSize: 14,
-                        fontWeight: 300,
-                        fontFamily: 'SF Pro, -apple-system, BlinkMacSystemFont, sans-serif',
-                        transition: 'all 0.2s ease',
-                      }}
-                    >
-                      Kimi v2
-                    </button>
+                    {pickerProviderEntries.map(entry => (
+                      <button
+                        key={entry.id}
+                        onClick={() => handleApiProviderChange(entry.id)}
+                        title={!isModelAvailable(entry.id) ? `Requires ${getTierLabel(entry.tier)} subscription` : entry.displayName}
+                        style={{
+                          padding: '6px 12px',
+                          backgroundColor: apiProvider === entry.id ? '#5F33FF' : 'transparent',
+                          backdropFilter: 'blur(12px) saturate(180%)',
+                          WebkitBackdropFilter: 'blur(12px) saturate(180%)',
+                          border: '1px solid rgba(255, 255, 255, 0.1)',
+                          boxShadow: apiProvider === entry.id ? '0 4px 12px rgba(95, 51, 255, 0.3), inset 0 1px 0 rgba(255, 255, 255, 0.15)' : '0 2px 6px rgba(0, 0, 0, 0.1)',
+                          ...(apiProvider === entry.id ? {
+                            background: 'linear-gradient(135deg, #5F33FF 0%, #4a28cc 100%)',
+                            color: '#fff',
+                            textShadow: 'none',
+                          } : {
+                            background: 'linear-gradient(to bottom, #ffffff, #999999, #333333)',
+                            WebkitBackgroundClip: 'text',
+                            WebkitTextFillColor: 'transparent',
+                            backgroundClip: 'text',
+                            textShadow: 'none',
+                          }),
+                          borderRadius: 16,
+                          fontSize: 14,
+                          fontWeight: 300,
+                          fontFamily: 'SF Pro, -apple-system, BlinkMacSystemFont, sans-serif',
+                          transition: 'all 0.2s ease',
+                        }}
+                      >
+                        {entry.displayName}
+                      </button>
+                    ))}
                     <button
                       onClick={() => handleApiProviderChange('mistral-local')}
                       title={!isModelAvailable('mistral-local') ? `Requires ${getTierLabel(modelTiers['mistral-local'])} subscription` : 'Mistral (Local)'}
@@ -4933,6 +4535,16 @@ const handleGenerate = useCallback(async () => {
                 )}
               </div>
 
+              <ExamContextPanel
+                caseId={examCaseId}
+                exam={examContext}
+                recentCaseIds={recentExamCaseIds}
+                findings={getPlainTextFromHTML(findings)}
+                template={templates[selectedStudyType]?.template || ''}
+                onCaseIdChange={handleExamCaseIdChange}
+                onChange={handleExamContextChange}
+              />
+
               {/* Findings textarea */}
               <div
                 style={{
@@ -5074,6 +4686,7 @@ const handleGenerate = useCallback(async () => {
                     ref={richTextEditorRef}
                     value={findings}
                     onChange={handleRichTextChange}
+                    onTemplateFieldSelect={handleTemplateFieldSelect}
                     style={{
                       width: '100%',
                       height: '40vh',
@@ -5284,6 +4897,8 @@ const handleGenerate = useCallback(async () => {
                         
                         // Get text content with formatting preserved
                         const formattedText = temp.textContent || temp.innerText || ''
+                        if (!confirmCopyWithUnfilledFields(formattedText)) return
+                        if (!confirmCopyWithLateralityConflicts(formattedText)) return
                         
                         navigator.clipboard.writeText(formattedText)
                       }}
@@ -5338,6 +4953,24 @@ const handleGenerate = useCallback(async () => {
                     </button>
                   </BlurCard>
 
+                  <BlurCard>
+                    <button
+                      onClick={() => setShowScoringCalculator(true)}
+                      style={{
+                        background: 'rgba(58, 188, 150, 0.2)',
+                        border: '1px solid rgba(58, 188, 150, 0.3)',
+                        borderRadius: '8px',
+                        color: '#3ABC96',
+                        cursor: 'pointer',
+                        padding: '8px 16px',
+                        fontSize: '12px',
+                        fontWeight: 500
+                      }}
+                    >
+                      🧮 Scoring
+                    </button>
+                  </BlurCard>
+
                   {/* Only show Remove Strikeout button for reports with diff */}
                   {generationResult && generationResult.showDiff && generationResult.diffParts && (
                   <BlurCard>
@@ -5360,10 +4993,10 @@ const handleGenerate = useCallback(async () => {
                             
                             if (part.added) {
                               // Keep green background for added text
-                              diffHtml += `<span style="background-color: rgba(58, 188, 150, 0.3); color: #3ABC96; padding: 1px 2px; border-radius: 2px;">${partHtml}</span>`;
+                              diffHtml += wrapUnsupported(part, `<span style="background-color: rgba(58, 188, 150, 0.3); color: #3ABC96; padding: 1px 2px; border-radius: 2px;">${partHtml}</span>`);
                             } else {
                               // Normal text
-                              diffHtml += partHtml;
+                              diffHtml += wrapUnsupported(part, partHtml);
                             }
                           }
                         });
@@ -5477,6 +5110,21 @@ const handleGenerate = useCallback(async () => {
                     <div style={{ opacity: 0.8 }}>
                       Processing findings with AI logic
                     </div>
+                    <button
+                      onClick={cancelGeneration}
+                      style={{
+                        marginTop: 6,
+                        padding: '2px 10px',
+                        background: 'transparent',
+                        border: '1px solid rgba(88, 166, 255, 0.4)',
+                        borderRadius: 4,
+                        color: '#58A6FF',
+                        fontSize: 11,
+                        cursor: 'pointer'
+                      }}
+                    >
+                      Cancel
+                    </button>
                   </div>
                 ) : gptLoading ? (
                   <div>
@@ -5496,6 +5144,7 @@ const handleGenerate = useCallback(async () => {
                       ⏱ {generationResult.generationTime}s • 
                       🎯 {generationResult.tokens.total} tokens 
                       ({generationResult.tokens.input} in, {generationResult.tokens.output} out)
+                      {generationResult.provider && <> • 🤖 {providerDisplayName(generationResult.provider)}</>}
                     </div>
                   </div>
                 ) : (
@@ -6175,6 +5824,16 @@ const handleGenerate = useCallback(async () => {
           </>
         )}
 
+        {ruleAlert && (
+          <RuleViolationAlert
+            violations={ruleAlert.violations}
+            warnings={ruleAlert.warnings}
+            fixed={ruleAlert.fixed}
+            repairAttempts={ruleAlert.repairAttempts}
+            onClose={() => setRuleAlert(null)}
+          />
+        )}
+
         {/* Ask AI Modal */}
         {showAskAI && user?.id && generationResult && (
           <AskAI
@@ -6208,6 +5867,25 @@ const handleGenerate = useCallback(async () => {
           />
         )}
 
+        {/* Scoring Calculator Modal */}
+        {showScoringCalculator && (
+          <ScoringCalculatorPanel
+            onClose={() => setShowScoringCalculator(false)}
+            onInsert={(result) => {
+              // The result joins the impression as a new item
+              const plainText = richTextEditorRef.current?.getPlainText() ?? findings
+              const formattedText = insertScoringResult(plainText, result.text)
+                .replace(/\b(FINDINGS?:)/gi, '<strong>$1</strong>')
+                .replace(/\b(IMPRESSION:)/gi, '<strong>$1</strong>')
+                .replace(/\b(LEFT|RIGHT)\b/g, '<strong>$1</strong>')
+                .replace(/\n/g, '<br>');
+              setFindings(formattedText);
+              richTextEditorRef.current?.setValue(formattedText);
+              setShowScoringCalculator(false);
+            }}
+          />
+        )}
+
         {/* Bottom Message Box */}
         {notification && (
           <div style={{
@@ -6239,7 +5917,12 @@ const handleGenerate = useCallback(async () => {
           <MacroPicklist
             options={picklistState.options}
             position={picklistState.position}
-            onSelect={handlePicklistSelect}
+            onSelect={picklistState.templateField
+              ? (value) => {
+                  richTextEditorRef.current?.fillTemplateField(value);
+                  setPicklistState(null);
+                }
+              : handlePicklistSelect}
             onCancel={() => setPicklistState(null)}
           />
         )}
@@ -13,6 +13,8 @@ interface DragTextEditorProps {
   className?: string
   style?: React.CSSProperties
   onMouseUp?: (e: React.MouseEvent<HTMLTextAreaElement>) => void
+  // Impression items from structured generation; used instead of list parsing while they still match the text
+  impressionItems?: string[]
 }
 
 export default function DragTextEditor({ 
@@ -21,7 +23,8 @@ export default function DragTextEditor({
   disabled, 
   className, 
   style, 
-  onMouseUp 
+  onMouseUp,
+  impressionItems: structuredImpressionItems
 }: DragTextEditorProps) {
   const textareaRef = useRef<HTMLTextAreaElement>(null)
   const overlayRef = useRef<HTMLDivElement>(null)
@@ -50,6 +53,19 @@ export default function DragTextEditor({
     const impressionText = impressionMatch[1].trim()
     const items: ImpressionItem[] = []
 
+    // Structured items are exact; order them by where they now appear so manual reordering is kept
+    if (structuredImpressionItems && structuredImpressionItems.length > 0) {
+      const positions = structuredImpressionItems.map(item => ({ item, position: impressionText.indexOf(item) }))
+      if (positions.every(entry => entry.position !== -1)) {
+        positions
+          .sort((a, b) => a.position - b.position)
+          .forEach((entry, index) => {
+            items.push({ id: `item-${index}`, content: entry.item, originalIndex: index })
+          })
+        return { items, hasImpression: true }
+      }
+    }
+
     // Parse numbered items
     const numberedMatches = [...impressionText.matchAll(/^(\d+)\.\s*(.*?)(?=\n\d+\.\s|\n\n|$)/gms)]
     if (numberedMatches.length > 0) {
@@ -90,7 +106,7 @@ export default function DragTextEditor({
     }
 
     return { items: [], hasImpression: true }
-  }, [])
+  }, [structuredImpressionItems])
 
   // Update impression items when text changes
   useEffect(() => {
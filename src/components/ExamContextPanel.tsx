@@ -0,0 +1,241 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react'
+import { ContrastUse, ExamContext, PatientSex, isExamContextEmpty } from '../../agent/examContext'
+import { alignPriorReport } from '../../agent/priorReport'
+
+interface ExamContextPanelProps {
+  caseId: string
+  exam: ExamContext
+  recentCaseIds: string[]
+  // Current findings and template, to preview how the prior report lines up with them
+  findings?: string
+  template?: string
+  // Called once the case id is committed (blur or Enter), not on every keystroke
+  onCaseIdChange: (caseId: string) => void
+  onChange: (exam: ExamContext) => void
+}
+
+const fieldStyle: React.CSSProperties = {
+  width: '100%',
+  boxSizing: 'border-box',
+  background: 'rgba(255, 255, 255, 0.05)',
+  border: '1px solid rgba(255, 255, 255, 0.15)',
+  borderRadius: 6,
+  color: '#fff',
+  padding: '6px 8px',
+  fontSize: 12,
+  fontFamily: 'inherit'
+}
+
+const labelStyle: React.CSSProperties = { display: 'block', color: '#aaa', fontSize: 11, marginBottom: 4 }
+
+function summarize(exam: ExamContext): string {
+  const parts = [
+    exam.indication?.trim(),
+    [exam.age !== undefined ? `${exam.age}y` : '', exam.sex ? exam.sex[0].toUpperCase() : ''].join(''),
+    exam.comparisonDate ? `prior ${exam.comparisonDate}` : exam.noComparison ? 'no prior' : ''
+  ].filter(Boolean)
+  return parts.join(' · ')
+}
+
+export default function ExamContextPanel({ caseId, exam, recentCaseIds, findings = '', template = '', onCaseIdChange, onChange }: ExamContextPanelProps) {
+  const [expanded, setExpanded] = useState(false)
+  const [caseIdDraft, setCaseIdDraft] = useState(caseId)
+  const priorFileRef = useRef<HTMLInputElement>(null)
+  useEffect(() => setCaseIdDraft(caseId), [caseId])
+
+  const intervalChanges = useMemo(
+    () => expanded && exam.priorReport?.trim() && findings.trim() ? alignPriorReport(findings, exam.priorReport, template, exam.comparisonDate) : [],
+    [expanded, exam.priorReport, exam.comparisonDate, findings, template]
+  )
+
+  const update = (changes: Partial<ExamContext>) => onChange({ ...exam, ...changes })
+  const commitCaseId = () => {
+    if (caseIdDraft.trim() !== caseId) onCaseIdChange(caseIdDraft.trim())
+  }
+  const loadPriorReport = async (file: File | undefined) => {
+    if (!file) return
+    try {
+      update({ priorReport: await file.text() })
+    } catch (error) {
+      console.error('Error reading prior report:', error)
+    }
+  }
+
+  return (
+    <div style={{
+      width: '90%',
+      marginBottom: 12,
+      border: '1px solid rgba(255, 255, 255, 0.1)',
+      borderRadius: 8,
+      backgroundColor: 'rgba(255, 255, 255, 0.03)'
+    }}>
+      <button
+        onClick={() => setExpanded(previous => !previous)}
+        style={{
+          width: '100%',
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          background: 'transparent',
+          border: 'none',
+          color: '#ddd',
+          cursor: 'pointer',
+          padding: '8px 12px',
+          fontSize: 12,
+          textAlign: 'left'
+        }}
+      >
+        <span>
+          🩺 Exam context{caseId ? ` (${caseId})` : ''}
+          {!isExamContextEmpty(exam) && <span style={{ color: '#888', marginLeft: 8 }}>{summarize(exam)}</span>}
+        </span>
+        <span style={{ color: '#888' }}>{expanded ? '▾' : '▸'}</span>
+      </button>
+
+      {expanded && (
+        <div style={{ display: 'grid', gridTemplateColumns: 'repeat(4, 1fr)', gap: 10, padding: '0 12px 12px' }}>
+          <div style={{ gridColumn: 'span 2' }}>
+            <label style={labelStyle}>Case (accession or MRN)</label>
+            <input
+              style={fieldStyle}
+              list="exam-context-recent-cases"
+              value={caseIdDraft}
+              onChange={event => setCaseIdDraft(event.target.value)}
+              onBlur={commitCaseId}
+              onKeyDown={event => {
+                if (event.key === 'Enter') commitCaseId()
+              }}
+            />
+            <datalist id="exam-context-recent-cases">
+              {recentCaseIds.map(id => <option key={id} value={id} />)}
+            </datalist>
+          </div>
+          <div>
+            <label style={labelStyle}>Age</label>
+            <input
+              type="number"
+              min={0}
+              style={fieldStyle}
+              value={exam.age ?? ''}
+              onChange={event => update({ age: event.target.value === '' ? undefined : Number(event.target.value) })}
+            />
+          </div>
+          <div>
+            <label style={labelStyle}>Sex</label>
+            <select
+              style={fieldStyle}
+              value={exam.sex || ''}
+              onChange={event => update({ sex: (event.target.value || undefined) as PatientSex | undefined })}
+            >
+              <option value="">Not specified</option>
+              <option value="female">Female</option>
+              <option value="male">Male</option>
+            </select>
+          </div>
+
+          <div style={{ gridColumn: 'span 4' }}>
+            <label style={labelStyle}>Indication</label>
+            <input
+              style={fieldStyle}
+              value={exam.indication || ''}
+              placeholder="e.g. Knee pain after twisting injury"
+              onChange={event => update({ indication: event.target.value })}
+            />
+          </div>
+          <div style={{ gridColumn: 'span 4' }}>
+            <label style={labelStyle}>Relevant history</label>
+            <input
+              style={fieldStyle}
+              value={exam.history || ''}
+              placeholder="e.g. Prior ACL reconstruction. Smoker."
+              onChange={event => update({ history: event.target.value })}
+            />
+          </div>
+
+          <div style={{ gridColumn: 'span 2' }}>
+            <label style={labelStyle}>Contrast</label>
+            <select
+              style={fieldStyle}
+              value={exam.contrast || ''}
+              onChange={event => update({ contrast: (event.target.value || undefined) as ContrastUse | undefined })}
+            >
+              <option value="">Not specified</option>
+              <option value="none">Without contrast</option>
+              <option value="with">With contrast</option>
+              <option value="with_and_without">With and without contrast</option>
+            </select>
+          </div>
+          <div>
+            <label style={labelStyle}>Comparison date</label>
+            <input
+              type="date"
+              style={fieldStyle}
+              value={exam.comparisonDate || ''}
+              disabled={exam.noComparison}
+              onChange={event => update({ comparisonDate: event.target.value || undefined })}
+            />
+          </div>
+          <div style={{ display: 'flex', alignItems: 'flex-end' }}>
+            <label style={{ color: '#ddd', fontSize: 12, paddingBottom: 6 }}>
+              <input
+                type="checkbox"
+                checked={Boolean(exam.noComparison)}
+                onChange={event => update({ noComparison: event.target.checked, ...(event.target.checked ? { comparisonDate: undefined } : {}) })}
+                style={{ marginRight: 6 }}
+              />
+              No prior available
+            </label>
+          </div>
+
+          {!exam.noComparison && (
+            <div style={{ gridColumn: 'span 4' }}>
+              <label style={labelStyle}>Prior impression</label>
+              <textarea
+                rows={3}
+                style={{ ...fieldStyle, resize: 'vertical' }}
+                value={exam.priorImpression || ''}
+                onChange={event => update({ priorImpression: event.target.value })}
+              />
+            </div>
+          )}
+
+          {!exam.noComparison && (
+            <div style={{ gridColumn: 'span 4' }}>
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline' }}>
+                <label style={labelStyle}>Prior report</label>
+                <button
+                  onClick={() => priorFileRef.current?.click()}
+                  style={{ background: 'transparent', border: 'none', color: '#3ABC96', cursor: 'pointer', fontSize: 11, padding: 0 }}
+                >
+                  Load from file
+                </button>
+                <input
+                  ref={priorFileRef}
+                  type="file"
+                  accept=".txt,text/plain"
+                  style={{ display: 'none' }}
+                  onChange={event => {
+                    loadPriorReport(event.target.files?.[0])
+                    event.target.value = ''
+                  }}
+                />
+              </div>
+              <textarea
+                rows={4}
+                style={{ ...fieldStyle, resize: 'vertical' }}
+                value={exam.priorReport || ''}
+                placeholder="Paste the prior report for the same exam"
+                onChange={event => update({ priorReport: event.target.value })}
+              />
+              {intervalChanges.length > 0 && (
+                <ul style={{ margin: '6px 0 0', paddingLeft: 18, color: '#aaa', fontSize: 11, lineHeight: 1.5 }}>
+                  {intervalChanges.map((change, index) => <li key={index}>{change.text}</li>)}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
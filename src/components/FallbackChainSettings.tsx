@@ -0,0 +1,109 @@
+import React from 'react'
+import BlurCard from './BlurCard'
+import type { ProviderCatalogEntry } from '../providers/catalog'
+
+interface FallbackChainSettingsProps {
+  // Providers the user may fall back to (already filtered by subscription tier)
+  entries: ProviderCatalogEntry[]
+  // Currently selected model; always tried first, so not offered as a fallback
+  primary: string
+  chain: string[]
+  onChange: (chain: string[]) => void
+}
+
+const rowButtonStyle: React.CSSProperties = {
+  padding: '0 6px',
+  backgroundColor: 'transparent',
+  border: 'none',
+  color: '#aaa',
+  fontSize: 12,
+  cursor: 'pointer'
+}
+
+export default function FallbackChainSettings({ entries, primary, chain, onChange }: FallbackChainSettingsProps) {
+  const nameFor = (id: string) => entries.find(entry => entry.id === id)?.displayName || id
+  const activeChain = chain.filter(id => id !== primary)
+  const addable = entries.filter(entry => entry.id !== primary && !chain.includes(entry.id))
+
+  const move = (index: number, offset: number) => {
+    const next = [...activeChain]
+    const [item] = next.splice(index, 1)
+    next.splice(index + offset, 0, item)
+    onChange(next)
+  }
+
+  return (
+    <div style={{ width: '100%', marginTop: 10 }}>
+      <div style={{
+        fontSize: 12,
+        color: '#aaa',
+        marginBottom: 8,
+        fontFamily: 'SF Pro, -apple-system, BlinkMacSystemFont, sans-serif'
+      }}>
+        Fallback Models
+      </div>
+      <BlurCard style={{
+        display: 'flex',
+        flexDirection: 'column',
+        padding: 6,
+        gap: 4,
+        fontSize: 12,
+        color: '#ccc',
+        fontFamily: 'SF Pro, -apple-system, BlinkMacSystemFont, sans-serif'
+      }}>
+        {activeChain.length === 0 && (
+          <div style={{ color: '#666', padding: '4px 6px' }}>
+            No fallbacks. Failed requests are retried on {nameFor(primary)} only.
+          </div>
+        )}
+        {activeChain.map((id, index) => (
+          <div key={id} style={{ display: 'flex', alignItems: 'center', padding: '2px 6px' }}>
+            <span style={{ flex: 1 }}>{index + 1}. {nameFor(id)}</span>
+            <button
+              style={{ ...rowButtonStyle, opacity: index === 0 ? 0.3 : 1 }}
+              disabled={index === 0}
+              onClick={() => move(index, -1)}
+              title="Try earlier"
+            >
+              ↑
+            </button>
+            <button
+              style={{ ...rowButtonStyle, opacity: index === activeChain.length - 1 ? 0.3 : 1 }}
+              disabled={index === activeChain.length - 1}
+              onClick={() => move(index, 1)}
+              title="Try later"
+            >
+              ↓
+            </button>
+            <button
+              style={rowButtonStyle}
+              onClick={() => onChange(activeChain.filter(other => other !== id))}
+              title="Remove fallback"
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+        {addable.length > 0 && (
+          <select
+            value=""
+            onChange={(e) => e.target.value && onChange([...activeChain, e.target.value])}
+            style={{
+              padding: '4px 6px',
+              backgroundColor: 'transparent',
+              border: '1px solid rgba(255, 255, 255, 0.1)',
+              borderRadius: 6,
+              color: '#aaa',
+              fontSize: 12
+            }}
+          >
+            <option value="">+ Add fallback…</option>
+            {addable.map(entry => (
+              <option key={entry.id} value={entry.id}>{entry.displayName}</option>
+            ))}
+          </select>
+        )}
+      </BlurCard>
+    </div>
+  )
+}
@@ -0,0 +1,121 @@
+import React, { useState, useEffect } from 'react'
+import type { GenerationSettings } from '../../agent/types'
+import { DEFAULT_SYSTEM_PERSONA } from '../../agent/generationSettings'
+
+interface GenerationSettingsEditorProps {
+  // Values set in the layer being edited
+  settings: GenerationSettings
+  // Values inherited from lower layers, shown as placeholders
+  inherited?: GenerationSettings
+  readOnly?: boolean
+  // undefined clears the override so the inherited/provider default applies
+  onChange: (field: keyof GenerationSettings, value: GenerationSettings[keyof GenerationSettings] | undefined) => void
+}
+
+const labelStyle: React.CSSProperties = {
+  color: '#ccc',
+  fontSize: 12,
+  marginBottom: 4,
+  display: 'block'
+}
+
+const inputStyle: React.CSSProperties = {
+  padding: '4px 8px',
+  backgroundColor: 'rgba(255, 255, 255, 0.05)',
+  border: '1px solid rgba(255, 255, 255, 0.1)',
+  borderRadius: 4,
+  color: '#fff',
+  fontSize: 12,
+  width: '100%',
+  boxSizing: 'border-box'
+}
+
+const NUMBER_FIELDS: Array<{ key: 'temperature' | 'top_p' | 'max_tokens', label: string, min: number, max?: number, step: number }> = [
+  { key: 'temperature', label: 'Temperature', min: 0, max: 2, step: 0.05 },
+  { key: 'top_p', label: 'Top P', min: 0, max: 1, step: 0.05 },
+  { key: 'max_tokens', label: 'Max Tokens', min: 1, step: 1 }
+]
+
+export default function GenerationSettingsEditor({ settings, inherited = {}, readOnly = false, onChange }: GenerationSettingsEditorProps) {
+  // Stop sequences are edited one per line and committed on blur so blank lines don't vanish mid-typing
+  const [stopDraft, setStopDraft] = useState((settings.stop_sequences || []).join('\n'))
+
+  useEffect(() => {
+    setStopDraft((settings.stop_sequences || []).join('\n'))
+  }, [settings.stop_sequences])
+
+  const handleNumberChange = (key: 'temperature' | 'top_p' | 'max_tokens', raw: string) => {
+    if (raw.trim() === '') {
+      onChange(key, undefined)
+      return
+    }
+    const value = key === 'max_tokens' ? parseInt(raw, 10) : parseFloat(raw)
+    if (!Number.isNaN(value)) {
+      onChange(key, value)
+    }
+  }
+
+  const commitStopSequences = () => {
+    const sequences = stopDraft.split('\n').filter(line => line.length > 0)
+    onChange('stop_sequences', sequences.length > 0 ? sequences : undefined)
+  }
+
+  return (
+    <div style={{
+      marginBottom: 20,
+      padding: 16,
+      backgroundColor: 'rgba(52, 152, 219, 0.05)',
+      borderRadius: 8,
+      border: '1px solid rgba(52, 152, 219, 0.2)'
+    }}>
+      <h4 style={{ color: '#3498db', fontSize: 14, marginBottom: 4, fontWeight: 600 }}>
+        Generation Settings
+      </h4>
+      <p style={{ color: '#aaa', fontSize: 11, marginBottom: 12 }}>
+        Leave a field blank to use the inherited value or the model's default.
+      </p>
+
+      <div style={{ display: 'flex', gap: 12, marginBottom: 12 }}>
+        {NUMBER_FIELDS.map(field => (
+          <div key={field.key} style={{ flex: 1 }}>
+            <label style={labelStyle}>{field.label}</label>
+            <input
+              type="number"
+              min={field.min}
+              max={field.max}
+              step={field.step}
+              value={settings[field.key] ?? ''}
+              placeholder={inherited[field.key] !== undefined ? String(inherited[field.key]) : 'default'}
+              onChange={(e) => handleNumberChange(field.key, e.target.value)}
+              disabled={readOnly}
+              style={inputStyle}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div style={{ marginBottom: 12 }}>
+        <label style={labelStyle}>System Persona</label>
+        <textarea
+          value={settings.system_persona ?? ''}
+          placeholder={inherited.system_persona || DEFAULT_SYSTEM_PERSONA}
+          onChange={(e) => onChange('system_persona', e.target.value || undefined)}
+          disabled={readOnly}
+          style={{ ...inputStyle, minHeight: 50, resize: 'vertical', fontFamily: 'inherit' }}
+        />
+      </div>
+
+      <div>
+        <label style={labelStyle}>Stop Sequences (one per line)</label>
+        <textarea
+          value={stopDraft}
+          placeholder={(inherited.stop_sequences || []).join('\n') || 'none'}
+          onChange={(e) => setStopDraft(e.target.value)}
+          onBlur={commitStopSequences}
+          disabled={readOnly}
+          style={{ ...inputStyle, minHeight: 40, resize: 'vertical', fontFamily: 'monospace' }}
+        />
+      </div>
+    </div>
+  )
+}
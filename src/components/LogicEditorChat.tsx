@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react'
 import { updateAgentLogicWithOffline, resetAgentLogicToDefaultWithOffline, getCurrentAgentLogicWithOffline } from '../supabase/updateAgentLogicWithOffline'
 import { EDIT_LOGIC_SYSTEM_PROMPT } from '../../agent/prompts/editLogicSystemPrompt'
+import { validateAgentLogic } from '../../agent/logicSchema'
 
 interface LogicEditorChatProps {
   userId: string
@@ -81,6 +82,11 @@ export default function LogicEditorChat({ userId, studyType, templates = {}, onC
     
     setIsSavingChanges(true)
     try {
+      const validation = validateAgentLogic(pendingChanges)
+      if (!validation.valid) {
+        throw new Error(`Invalid logic: ${validation.errors.join('; ')}`)
+      }
+
       const updateResult = await updateAgentLogicWithOffline(userId, selectedStudyType, pendingChanges, isOfflineMode)
       
       if (!updateResult.success) {
@@ -369,6 +375,13 @@ export default function LogicEditorChat({ userId, studyType, templates = {}, onC
         throw new Error('Invalid JSON response from AI')
       }
 
+      // Reject hallucinated keys or wrong value types before they reach the stored logic
+      const validation = validateAgentLogic(delta)
+      if (!validation.valid) {
+        console.error('❌ LogicEditorChat: Delta failed schema validation:', validation.errors)
+        throw new Error(`AI returned invalid logic changes: ${validation.errors.join('; ')}`)
+      }
+
       // Update the agent logic in Supabase
       console.log('💾 LogicEditorChat: Updating agent logic in Supabase...')
       console.log('📊 Delta to apply:', JSON.stringify(delta, null, 2))
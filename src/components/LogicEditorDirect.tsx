@@ -1,6 +1,9 @@
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useMemo } from 'react'
 import { updateAgentLogicWithOffline, resetAgentLogicToDefaultWithOffline, getCurrentAgentLogicWithOffline } from '../supabase/updateAgentLogicWithOffline'
 import { getDefaultAgentLogic } from '../utils/logicMerge'
+import { validateAgentLogic, getLogicSchemaNode } from '../../agent/logicSchema'
+import { lintAgentLogic } from '../../agent/logicLint'
+import LogicLintPanel from './LogicLintPanel'
 
 interface LogicEditorDirectProps {
   userId: string
@@ -34,6 +37,22 @@ export default function LogicEditorDirect({ userId, studyType, templates = {}, o
     return !coreSections.includes(section)
   }
 
+  // Schema keys the section doesn't have yet, offered as suggestions when adding a property
+  const getAvailableSchemaKeys = (sectionKey: string): string[] => {
+    const node = getLogicSchemaNode([sectionKey])
+    if (!node || !('type' in node) || node.type !== 'object') return []
+    return Object.keys(node.properties).filter(key => currentLogic[sectionKey]?.[key] === undefined)
+  }
+
+  // Match the type selector to the schema when a known key is picked
+  const handleNewRuleKeyChange = (sectionKey: string, key: string) => {
+    setNewRuleKey(key)
+    const node = getLogicSchemaNode([sectionKey, key])
+    if (node && 'type' in node && (node.type === 'boolean' || node.type === 'string' || node.type === 'array')) {
+      setNewRuleType(node.type)
+    }
+  }
+
   // Render a dynamic section with add/delete capabilities
   const renderDynamicSection = (sectionName: string, sectionTitle: string, icon: string) => {
     const sectionKey = sectionName.toLowerCase().replace(/\s+/g, '_')
@@ -129,8 +148,9 @@ export default function LogicEditorDirect({ userId, studyType, templates = {}, o
                 <input
                   type="text"
                   value={newRuleKey}
-                  onChange={(e) => setNewRuleKey(e.target.value.toLowerCase().replace(/\s+/g, '_').replace(/[^a-z0-9_]/g, ''))}
-                  placeholder="e.g., custom_property"
+                  onChange={(e) => handleNewRuleKeyChange(sectionKey, e.target.value.toLowerCase().replace(/\s+/g, '_').replace(/[^a-z0-9_]/g, ''))}
+                  placeholder="e.g., concise_summary"
+                  list={`logic-keys-${sectionKey}`}
                   style={{
                     width: '100%',
                     padding: '4px 6px',
@@ -143,6 +163,11 @@ export default function LogicEditorDirect({ userId, studyType, templates = {}, o
                   }}
                 />
               )}
+              <datalist id={`logic-keys-${sectionKey}`}>
+                {getAvailableSchemaKeys(sectionKey).map(key => (
+                  <option key={key} value={key} />
+                ))}
+              </datalist>
             </div>
             {sectionKey !== 'custom_instructions' && (
               <div>
@@ -177,6 +202,11 @@ export default function LogicEditorDirect({ userId, studyType, templates = {}, o
                   } else {
                     // Handle object-based sections  
                     const processedValue = newRuleType === 'boolean' ? false : newRuleType === 'array' ? [] : ''
+                    const validation = validateAgentLogic({ [sectionKey]: { [newRuleKey]: processedValue } })
+                    if (!validation.valid) {
+                      showToast('error', validation.errors.join('; '))
+                      return
+                    }
                     setCurrentLogic(prev => ({
                       ...prev,
                       [sectionKey]: {
@@ -537,6 +567,11 @@ export default function LogicEditorDirect({ userId, studyType, templates = {}, o
   const [quickAddItem, setQuickAddItem] = useState('')
   const [showQuickAdd, setShowQuickAdd] = useState<string | null>(null)
 
+  // This editor works on the study's stored logic, which sits on top of the system default
+  const lintIssues = useMemo(() => (
+    currentLogic ? lintAgentLogic({ defaultLogic: getDefaultAgentLogic(), studySpecificLogic: currentLogic }).issues : []
+  ), [currentLogic])
+
   // Load current logic when study type changes
   useEffect(() => {
     if (selectedStudyType && selectedStudyType.trim()) {
@@ -626,6 +661,10 @@ export default function LogicEditorDirect({ userId, studyType, templates = {}, o
     
     setIsSaving(true)
     try {
+      const validation = validateAgentLogic(completePendingChanges)
+      if (!validation.valid) {
+        throw new Error(`Invalid logic: ${validation.errors.join('; ')}`)
+      }
       
       const updateResult = await updateAgentLogicWithOffline(userId, selectedStudyType, completePendingChanges, isOfflineMode)
       
@@ -665,6 +704,12 @@ export default function LogicEditorDirect({ userId, studyType, templates = {}, o
                           newRuleType === 'array' ? (newRuleValue ? newRuleValue.split('\n').map(s => s.trim()).filter(s => s) : []) :
                           newRuleValue
 
+    const validation = validateAgentLogic({ [newRuleCategory]: { [newRuleKey]: processedValue } })
+    if (!validation.valid) {
+      showToast('error', validation.errors.join('; '))
+      return
+    }
+
     const newLogic = { ...currentLogic }
     
     // Create nested structure if it doesn't exist
@@ -1278,6 +1323,8 @@ export default function LogicEditorDirect({ userId, studyType, templates = {}, o
           )}
         </div>
 
+        {!isLoading && <LogicLintPanel issues={lintIssues} />}
+
         {/* Footer */}
         <div style={{
           display: 'flex',
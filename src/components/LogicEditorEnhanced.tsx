@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useMemo } from 'react'
 import { 
   fetchAgentLogic, 
   updateBaseLogic, 
@@ -8,6 +8,11 @@ import {
 } from '../supabase/agentLogicQueriesIPC'
 import { getLogicDiffSummary, getLogicSource, LogicLayers } from '../utils/logicInheritance'
 import { getDefaultAgentLogic } from '../utils/logicMerge'
+import GenerationSettingsEditor from './GenerationSettingsEditor'
+import { DEFAULT_SYSTEM_PERSONA } from '../../agent/generationSettings'
+import { validateAgentLogic } from '../../agent/logicSchema'
+import { lintAgentLogic } from '../../agent/logicLint'
+import LogicLintPanel from './LogicLintPanel'
 
 interface LogicEditorEnhancedProps {
   userId: string
@@ -32,6 +37,22 @@ const getNestedValue = (obj: any, path: string[]): any => {
   return current
 }
 
+// Builds the delta of a layer covered by the edited paths; deleted paths come out undefined
+const pickPaths = (logic: any, paths: string[][]): Record<string, any> => {
+  const delta: Record<string, any> = {}
+  for (const path of paths) {
+    let current = delta
+    for (const key of path.slice(0, -1)) {
+      if (!current[key] || typeof current[key] !== 'object') {
+        current[key] = {}
+      }
+      current = current[key]
+    }
+    current[path[path.length - 1]] = getNestedValue(logic, path)
+  }
+  return delta
+}
+
 export default function LogicEditorEnhanced({ 
   userId, 
   studyType, 
@@ -47,7 +68,8 @@ export default function LogicEditorEnhanced({
   const [studyLogic, setStudyLogic] = useState<any>(null)
   const [mergedLogic, setMergedLogic] = useState<any>(null)
   const [displayLogic, setDisplayLogic] = useState<any>(null)
-  const [pendingChanges, setPendingChanges] = useState<any>(null)
+  // Paths edited in each layer since the last save
+  const [pendingChanges, setPendingChanges] = useState<{ base?: string[][], study?: string[][] } | null>(null)
   const [showResetConfirm, setShowResetConfirm] = useState(false)
   const [toastMessage, setToastMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null)
   const [lastUpdated, setLastUpdated] = useState<{ base?: string, study?: string }>({})
@@ -65,6 +87,16 @@ export default function LogicEditorEnhanced({
   const [newArrayItem, setNewArrayItem] = useState('')
   const [showPromptPreview, setShowPromptPreview] = useState(false)
 
+  // Lint the logic this study would run with, including unsaved edits in either layer
+  const lintIssues = useMemo(() => {
+    if (!baseLogic && !studyLogic) return []
+    return lintAgentLogic({
+      defaultLogic: getDefaultAgentLogic(),
+      baseLogic,
+      studySpecificLogic: studyLogic
+    }).issues
+  }, [baseLogic, studyLogic])
+
   // Load logic when component mounts or study type changes
   useEffect(() => {
     if (selectedStudyType && selectedStudyType.trim()) {
@@ -143,12 +175,13 @@ export default function LogicEditorEnhanced({
     }
   }
 
-  const handleLogicChange = (path: string[], newValue: any) => {
+  const handleLogicChange = (path: string[], newValue: any, raw: boolean = false) => {
     // Process value (convert spaces to underscores for strings/arrays)
+    // Raw values (e.g. the system persona) are stored exactly as typed
     let processedValue = newValue
-    if (typeof newValue === 'string') {
+    if (!raw && typeof newValue === 'string') {
       processedValue = newValue.replace(/\s+/g, '_').toLowerCase()
-    } else if (Array.isArray(newValue)) {
+    } else if (!raw && Array.isArray(newValue)) {
       processedValue = newValue.map(item => 
         typeof item === 'string' ? item.replace(/\s+/g, '_').toLowerCase() : item
       )
@@ -164,7 +197,11 @@ export default function LogicEditorEnhanced({
         }
         current = current[path[i]]
       }
-      current[path[path.length - 1]] = processedValue
+      if (processedValue === undefined) {
+        delete current[path[path.length - 1]]
+      } else {
+        current[path[path.length - 1]] = processedValue
+      }
       return updatedLogic
     }
 
@@ -177,7 +214,7 @@ export default function LogicEditorEnhanced({
     // Track pending changes
     setPendingChanges(prev => ({
       ...prev,
-      [editMode]: true
+      [editMode]: [...(prev?.[editMode as 'base' | 'study'] || []), path]
     }))
   }
 
@@ -235,7 +272,7 @@ export default function LogicEditorEnhanced({
       setStudyLogic(updateLogic)
     }
     
-    setPendingChanges(prev => ({ ...prev, [editMode]: true }))
+    setPendingChanges(prev => ({ ...prev, [editMode]: [...(prev?.[editMode as 'base' | 'study'] || []), deleteConfirm.path] }))
     setDeleteConfirm(null)
     showToast('success', `${deleteConfirm.type === 'section' ? 'Section' : 'Rule'} deleted`)
   }
@@ -293,8 +330,11 @@ export default function LogicEditorEnhanced({
   const generatePromptPreview = () => {
     const logic = displayLogic || getDefaultAgentLogic()
     
+    // The system persona is sent separately from the prompt below
+    let prompt = `[SYSTEM: ${logic.generation?.system_persona || DEFAULT_SYSTEM_PERSONA}]\n\n`
+
     // This mirrors the EXACT prompt from buildEnhancedPrompt.ts
-    let prompt = 'You are an expert radiologist generating a comprehensive radiology report.\n\n'
+    prompt += 'You are an expert radiologist generating a comprehensive radiology report.\n\n'
     
     // Template section (EXACTLY as sent to API)
     const template = templates && templates[selectedStudyType] 
@@ -544,6 +584,19 @@ export default function LogicEditorEnhanced({
 
     setIsLoading(true)
     try {
+      // Validate both layers' edits before writing either so a bad study edit doesn't leave a half-saved state.
+      // Only the edited paths are checked: stored logic may hold keys added before the schema existed.
+      const layers = [
+        { label: 'Base logic', logic: baseLogic, paths: pendingChanges.base },
+        { label: 'Study logic', logic: studyLogic, paths: pendingChanges.study }
+      ]
+      for (const { label, logic, paths } of layers) {
+        const validation = logic && paths ? validateAgentLogic(pickPaths(logic, paths)) : null
+        if (validation && !validation.valid) {
+          throw new Error(`${label} is invalid: ${validation.errors.join('; ')}`)
+        }
+      }
+
       if (pendingChanges.base && baseLogic) {
         const result = await updateBaseLogic(userId, baseLogic, isOfflineMode)
         if (result.success) {
@@ -633,6 +686,9 @@ export default function LogicEditorEnhanced({
     })
 
     return Object.entries(obj).map(([key, value]) => {
+      // Generation settings have their own editor above the rule sections
+      if (path.length === 0 && key === 'generation') return null
+
       const currentPath = [...path, key]
       const formattedKey = key.replace(/_/g, ' ').replace(/\b\w/g, l => l.toUpperCase())
       
@@ -1586,6 +1642,15 @@ export default function LogicEditorEnhanced({
             </div>
           )}
           
+          {!isLoading && displayLogic && (
+            <GenerationSettingsEditor
+              settings={displayLogic.generation || {}}
+              inherited={editMode === 'study' ? baseLogic?.generation : undefined}
+              readOnly={editMode === 'preview'}
+              onChange={(field, value) => handleLogicChange(['generation', field], value, true)}
+            />
+          )}
+
           {isLoading ? (
             <div style={{ color: '#ccc', textAlign: 'center', padding: 40 }}>
               Loading logic configuration...
@@ -1599,6 +1664,8 @@ export default function LogicEditorEnhanced({
           )}
         </div>
 
+        {!isLoading && <LogicLintPanel issues={lintIssues} />}
+
         {/* Footer Actions */}
         <div style={{
           padding: '16px 20px',
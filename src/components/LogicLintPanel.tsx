@@ -0,0 +1,58 @@
+import React from 'react'
+import type { LogicLintIssue, LogicLintSeverity } from '../../agent/logicLint'
+
+interface LogicLintPanelProps {
+  issues: LogicLintIssue[]
+}
+
+const SEVERITY_COLORS: Record<LogicLintSeverity, string> = {
+  error: '#e74c3c',
+  warning: '#f39c12',
+  info: '#3498db'
+}
+
+const panelStyle: React.CSSProperties = {
+  padding: '10px 20px',
+  borderTop: '1px solid rgba(255, 255, 255, 0.1)',
+  backgroundColor: 'rgba(243, 156, 18, 0.05)',
+  maxHeight: 160,
+  overflowY: 'auto'
+}
+
+const LAYER_LABELS: Record<string, string> = {
+  default: 'System default',
+  base: 'Base logic',
+  study: 'Study logic'
+}
+
+function layerLabel(layer: string | null): string {
+  return layer ? LAYER_LABELS[layer] : 'Unknown layer'
+}
+
+export default function LogicLintPanel({ issues }: LogicLintPanelProps) {
+  if (issues.length === 0) return null
+
+  const counts = (['error', 'warning', 'info'] as const)
+    .map(severity => ({ severity, count: issues.filter(issue => issue.severity === severity).length }))
+    .filter(({ count }) => count > 0)
+
+  return (
+    <div style={panelStyle}>
+      <div style={{ color: '#f39c12', fontSize: 12, fontWeight: 600, marginBottom: 6 }}>
+        Logic check: {counts.map(({ severity, count }) => `${count} ${severity}${count === 1 ? '' : 's'}`).join(', ')}
+      </div>
+      <ul style={{ margin: 0, paddingLeft: 16, fontSize: 11, color: '#ccc' }}>
+        {issues.map((issue, index) => (
+          <li key={index} style={{ marginBottom: 4 }}>
+            <span style={{ color: SEVERITY_COLORS[issue.severity], fontWeight: 500 }}>{issue.kind}</span>
+            {' '}{issue.message}
+            <span style={{ color: '#888' }}>
+              {' '}({layerLabel(issue.layer)}
+              {issue.conflictsWith && `; ${issue.conflictsWith.path} from ${layerLabel(issue.conflictsWith.layer).toLowerCase()}`})
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
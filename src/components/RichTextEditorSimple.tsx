@@ -1,4 +1,7 @@
 import React, { useRef, useImperativeHandle, forwardRef, useCallback, useEffect } from 'react'
+import type { TemplateField } from '../../agent/templateFields'
+import { FieldNavigation, TEMPLATE_FIELD_CLASS, highlightTemplateFields, matchFieldNavigationCommand, selectTemplateField } from '../utils/templateFieldEditing'
+import { getNextFieldHotkey, getPreviousFieldHotkey, matchesHotkey, parseHotkey } from '../utils/hotkeyUtils'
 
 export interface RichTextEditorHandle {
   insertDictation: (text: string) => void
@@ -8,6 +11,10 @@ export interface RichTextEditorHandle {
   focus: () => void
   getElement: () => HTMLDivElement | null
   saveCursor: () => void
+  // Selects a template field; false when the text has none
+  selectTemplateField: (direction: FieldNavigation) => boolean
+  // Replaces the selected template field, e.g. with a picklist option
+  fillTemplateField: (text: string) => void
 }
 
 interface RichTextEditorProps {
@@ -16,14 +23,17 @@ interface RichTextEditorProps {
   placeholder?: string
   style?: React.CSSProperties
   className?: string
+  // Called when navigation lands on a picklist field, with the point to show its options at
+  onTemplateFieldSelect?: (field: TemplateField, position: { x: number; y: number }) => void
 }
 
 const RichTextEditor = forwardRef<RichTextEditorHandle, RichTextEditorProps>(
-  ({ value, onChange, placeholder, style, className }, ref) => {
+  ({ value, onChange, placeholder, style, className, onTemplateFieldSelect }, ref) => {
     const editorRef = useRef<HTMLDivElement>(null)
     const isInternalChange = useRef(false)
     const lastValue = useRef<string>('')
     const savedRange = useRef<Range | null>(null)
+    const activeField = useRef<HTMLElement | null>(null)
 
     // Convert number words to digits
     const convertNumberWords = useCallback((text: string): string => {
@@ -115,11 +125,40 @@ const RichTextEditor = forwardRef<RichTextEditorHandle, RichTextEditorProps>(
       document.execCommand('insertText', false, text)
     }, [])
 
+    // Move to the next or previous template field, offering the options of picklist fields
+    const goToField = useCallback((direction: FieldNavigation): boolean => {
+      if (!editorRef.current) return false
+      const selected = selectTemplateField(editorRef.current, direction)
+      if (!selected) return false
+
+      activeField.current = selected.element
+      const sel = window.getSelection()
+      if (sel && sel.rangeCount > 0) {
+        savedRange.current = sel.getRangeAt(0).cloneRange()
+      }
+      if (selected.field?.kind === 'picklist' && onTemplateFieldSelect) {
+        const rect = selected.element.getBoundingClientRect()
+        onTemplateFieldSelect(selected.field, { x: rect.left, y: rect.bottom })
+      }
+      return true
+    }, [onTemplateFieldSelect])
+
+    // Next/previous field hotkeys; without fields the keys keep their usual behavior
+    const handleKeyDown = useCallback((e: React.KeyboardEvent) => {
+      const direction = matchesHotkey(e.nativeEvent, parseHotkey(getNextFieldHotkey())) ? 'next'
+        : matchesHotkey(e.nativeEvent, parseHotkey(getPreviousFieldHotkey())) ? 'previous'
+        : null
+      if (direction && goToField(direction)) {
+        e.preventDefault()
+      }
+    }, [goToField])
+
     // Initialize editor
     useEffect(() => {
       if (editorRef.current && !lastValue.current) {
         const initialValue = value || ''
         editorRef.current.innerHTML = initialValue
+        highlightTemplateFields(editorRef.current)
         lastValue.current = initialValue
       }
     }, [value])
@@ -130,6 +169,7 @@ const RichTextEditor = forwardRef<RichTextEditorHandle, RichTextEditorProps>(
         const next = value || ''
         if (editorRef.current.innerHTML !== next) {
           editorRef.current.innerHTML = next
+          highlightTemplateFields(editorRef.current)
           lastValue.current = next
         }
       }
@@ -173,6 +213,13 @@ const RichTextEditor = forwardRef<RichTextEditorHandle, RichTextEditorProps>(
 
       const trimmedText = text.trim().toLowerCase()
       
+      // "Next field" and "previous field" move between template fields
+      const navigation = matchFieldNavigationCommand(trimmedText)
+      if (navigation) {
+        goToField(navigation)
+        return
+      }
+      
       // Handle special commands
       if (trimmedText === 'delete that' || trimmedText === 'scratch that') {
         const sel = window.getSelection()
@@ -316,7 +363,35 @@ const RichTextEditor = forwardRef<RichTextEditorHandle, RichTextEditorProps>(
       setTimeout(() => { 
         isInternalChange.current = false 
       }, 10)
-    }, [onChange, convertNumberWords])
+    }, [onChange, convertNumberWords, goToField])
+
+    const fillTemplateField = useCallback((text: string) => {
+      const field = activeField.current
+      if (!editorRef.current || !field || !editorRef.current.contains(field)) {
+        insertDictation(text)
+        return
+      }
+
+      isInternalChange.current = true
+      const textNode = document.createTextNode(text)
+      field.replaceWith(textNode)
+      activeField.current = null
+
+      // Caret after the filled field, ready for the next one
+      editorRef.current.focus()
+      const range = document.createRange()
+      range.setStartAfter(textNode)
+      range.collapse(true)
+      const sel = window.getSelection()
+      sel?.removeAllRanges()
+      sel?.addRange(range)
+      savedRange.current = range.cloneRange()
+
+      const newHtml = editorRef.current.innerHTML
+      lastValue.current = newHtml
+      onChange(newHtml)
+      setTimeout(() => { isInternalChange.current = false }, 10)
+    }, [insertDictation, onChange])
 
     // Expose methods via ref
     useImperativeHandle(ref, () => ({
@@ -326,8 +401,9 @@ const RichTextEditor = forwardRef<RichTextEditorHandle, RichTextEditorProps>(
       setValue: (html: string) => {
         if (editorRef.current) {
           isInternalChange.current = true
-          const formatted = formatText(html)
-          editorRef.current.innerHTML = formatted
+          editorRef.current.innerHTML = formatText(html)
+          highlightTemplateFields(editorRef.current)
+          const formatted = editorRef.current.innerHTML
           lastValue.current = formatted
           onChange(formatted)
           setTimeout(() => { isInternalChange.current = false }, 100)
@@ -338,8 +414,10 @@ const RichTextEditor = forwardRef<RichTextEditorHandle, RichTextEditorProps>(
       saveCursor: () => {
         console.log('🎯 saveCursor called explicitly from App.tsx')
         saveCursorPosition()
-      }
-    }), [insertDictation, formatText, onChange, saveCursorPosition])
+      },
+      selectTemplateField: goToField,
+      fillTemplateField
+    }), [insertDictation, formatText, onChange, saveCursorPosition, goToField, fillTemplateField])
 
     return (
       <div
@@ -352,10 +430,19 @@ const RichTextEditor = forwardRef<RichTextEditorHandle, RichTextEditorProps>(
           ...style
         }}
       >
+        <style>{`
+          .${TEMPLATE_FIELD_CLASS} {
+            background-color: rgba(58, 188, 150, 0.15);
+            border-bottom: 1px dashed rgba(58, 188, 150, 0.6);
+            border-radius: 3px;
+            color: #3ABC96;
+          }
+        `}</style>
         <div
           ref={editorRef}
           contentEditable
           onInput={handleInput}
+          onKeyDown={handleKeyDown}
           onPaste={handlePaste}
           placeholder={placeholder}
           style={{
@@ -1,13 +1,21 @@
 import React from 'react'
+import { isConsistencyViolation } from '../../agent/impressionConsistency'
 
 interface RuleViolationAlertProps {
   violations: string[]
   warnings: string[]
+  // Violations the automatic repair pass resolved, and how many repair prompts it took
+  fixed?: string[]
+  repairAttempts?: number
   onClose: () => void
 }
 
-export default function RuleViolationAlert({ violations, warnings, onClose }: RuleViolationAlertProps) {
-  if (!violations.length && !warnings.length) return null
+export default function RuleViolationAlert({ violations, warnings, fixed = [], repairAttempts = 0, onClose }: RuleViolationAlertProps) {
+  if (!violations.length && !warnings.length && !fixed.length) return null
+  const borderColor = violations.length > 0 ? '#E36756' : warnings.length > 0 ? '#ff9500' : '#3ABC96'
+  // Findings-vs-impression problems get their own group so they are not lost among formatting rules
+  const consistencyViolations = violations.filter(isConsistencyViolation)
+  const ruleViolations = violations.filter(violation => !isConsistencyViolation(violation))
 
   return (
     <div style={{
@@ -16,7 +24,7 @@ export default function RuleViolationAlert({ violations, warnings, onClose }: Ru
       right: '20px',
       maxWidth: '400px',
       backgroundColor: 'rgb(40, 44, 52)',
-      border: violations.length > 0 ? '2px solid #E36756' : '2px solid #ff9500',
+      border: `2px solid ${borderColor}`,
       borderRadius: 8,
       padding: '16px',
       zIndex: 20000,
@@ -25,11 +33,11 @@ export default function RuleViolationAlert({ violations, warnings, onClose }: Ru
       <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start', marginBottom: 12 }}>
         <h3 style={{ 
           margin: 0, 
-          color: violations.length > 0 ? '#E36756' : '#ff9500',
+          color: borderColor,
           fontSize: 14,
           fontWeight: 600
         }}>
-          {violations.length > 0 ? '🚨 Logic Rule Violations' : '⚠️ Logic Rule Warnings'}
+          {violations.length > 0 ? '🚨 Logic Rule Violations' : warnings.length > 0 ? '⚠️ Logic Rule Warnings' : '🔧 Logic Rules Auto-Corrected'}
         </h3>
         <button
           onClick={onClose}
@@ -47,12 +55,56 @@ export default function RuleViolationAlert({ violations, warnings, onClose }: Ru
         </button>
       </div>
       
-      {violations.length > 0 && (
-        <div style={{ marginBottom: warnings.length > 0 ? 16 : 0 }}>
+      {fixed.length > 0 && (
+        <div style={{ marginBottom: violations.length > 0 || warnings.length > 0 ? 16 : 0 }}>
+          <div style={{ color: '#3ABC96', fontSize: 12, fontWeight: 500, marginBottom: 8 }}>
+            Fixed Automatically ({repairAttempts} {repairAttempts === 1 ? 'repair' : 'repairs'}):
+          </div>
+          {fixed.map((violation, index) => (
+            <div key={index} style={{
+              color: '#fff',
+              fontSize: 11,
+              marginBottom: 6,
+              padding: '4px 8px',
+              backgroundColor: 'rgba(58, 188, 150, 0.1)',
+              borderRadius: 4,
+              borderLeft: '3px solid #3ABC96',
+              lineHeight: 1.4
+            }}>
+              {violation}
+            </div>
+          ))}
+        </div>
+      )}
+      
+      {ruleViolations.length > 0 && (
+        <div style={{ marginBottom: consistencyViolations.length > 0 || warnings.length > 0 ? 16 : 0 }}>
           <div style={{ color: '#E36756', fontSize: 12, fontWeight: 500, marginBottom: 8 }}>
             Critical Rule Violations:
           </div>
-          {violations.map((violation, index) => (
+          {ruleViolations.map((violation, index) => (
+            <div key={index} style={{
+              color: '#fff',
+              fontSize: 11,
+              marginBottom: 6,
+              padding: '4px 8px',
+              backgroundColor: 'rgba(227, 103, 86, 0.1)',
+              borderRadius: 4,
+              borderLeft: '3px solid #E36756',
+              lineHeight: 1.4
+            }}>
+              {violation}
+            </div>
+          ))}
+        </div>
+      )}
+      
+      {consistencyViolations.length > 0 && (
+        <div style={{ marginBottom: warnings.length > 0 ? 16 : 0 }}>
+          <div style={{ color: '#E36756', fontSize: 12, fontWeight: 500, marginBottom: 8 }}>
+            Findings vs Impression:
+          </div>
+          {consistencyViolations.map((violation, index) => (
             <div key={index} style={{
               color: '#fff',
               fontSize: 11,
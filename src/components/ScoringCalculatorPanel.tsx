@@ -0,0 +1,160 @@
+import React, { useMemo, useState } from 'react'
+import { SCORING_CALCULATORS, ScoringField, ScoringInputs, ScoringResult, getScoringCalculator, scoreInputs } from '../../agent/scoring'
+
+interface ScoringCalculatorPanelProps {
+  onInsert: (result: ScoringResult) => void
+  onClose: () => void
+}
+
+const fieldStyle: React.CSSProperties = {
+  width: '100%',
+  background: 'rgba(255, 255, 255, 0.05)',
+  border: '1px solid rgba(255, 255, 255, 0.15)',
+  borderRadius: 6,
+  color: '#fff',
+  padding: '6px 8px',
+  fontSize: 12
+}
+
+const labelStyle: React.CSSProperties = { display: 'block', color: '#aaa', fontSize: 11, marginBottom: 4 }
+
+function FieldInput({ field, value, onChange }: {
+  field: ScoringField
+  value: ScoringInputs[string]
+  onChange: (value: ScoringInputs[string]) => void
+}) {
+  if (field.type === 'number') {
+    return (
+      <input
+        type="number"
+        style={fieldStyle}
+        value={typeof value === 'number' ? value : ''}
+        placeholder={field.unit}
+        onChange={event => onChange(event.target.value === '' ? undefined : Number(event.target.value))}
+      />
+    )
+  }
+
+  if (field.type === 'multi') {
+    const selected = Array.isArray(value) ? value : []
+    return (
+      <div>
+        {field.options?.map(option => (
+          <label key={option.value} style={{ display: 'block', color: '#ddd', fontSize: 12, marginBottom: 2 }}>
+            <input
+              type="checkbox"
+              checked={selected.includes(option.value)}
+              onChange={event => onChange(event.target.checked
+                ? [...selected, option.value]
+                : selected.filter(item => item !== option.value))}
+              style={{ marginRight: 6 }}
+            />
+            {option.label}
+          </label>
+        ))}
+      </div>
+    )
+  }
+
+  return (
+    <select style={fieldStyle} value={typeof value === 'string' ? value : ''} onChange={event => onChange(event.target.value || undefined)}>
+      <option value="">Not assessed</option>
+      {field.options?.map(option => (
+        <option key={option.value} value={option.value}>{option.label}</option>
+      ))}
+    </select>
+  )
+}
+
+export default function ScoringCalculatorPanel({ onInsert, onClose }: ScoringCalculatorPanelProps) {
+  const [calculatorId, setCalculatorId] = useState(SCORING_CALCULATORS[0].id)
+  const [inputs, setInputs] = useState<ScoringInputs>({})
+  const calculator = getScoringCalculator(calculatorId)!
+  const result = useMemo(() => scoreInputs(calculator, inputs), [calculator, inputs])
+
+  return (
+    <div style={{
+      position: 'fixed',
+      top: '50%',
+      left: '50%',
+      transform: 'translate(-50%, -50%)',
+      width: 420,
+      maxHeight: '80vh',
+      overflowY: 'auto',
+      backgroundColor: 'rgb(40, 44, 52)',
+      border: '1px solid rgba(255, 255, 255, 0.15)',
+      borderRadius: 8,
+      padding: 16,
+      zIndex: 20000,
+      boxShadow: '0 4px 20px rgba(0, 0, 0, 0.3)'
+    }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: 12 }}>
+        <h3 style={{ margin: 0, color: '#fff', fontSize: 14, fontWeight: 600 }}>🧮 Scoring calculator</h3>
+        <button
+          onClick={onClose}
+          style={{ background: 'transparent', border: 'none', color: '#999', fontSize: 18, cursor: 'pointer', padding: 0, lineHeight: 1 }}
+        >
+          ×
+        </button>
+      </div>
+
+      <div style={{ marginBottom: 12 }}>
+        <label style={labelStyle}>System</label>
+        <select
+          style={fieldStyle}
+          value={calculatorId}
+          onChange={event => {
+            setCalculatorId(event.target.value)
+            setInputs({})
+          }}
+        >
+          {SCORING_CALCULATORS.map(option => (
+            <option key={option.id} value={option.id}>{option.citation}</option>
+          ))}
+        </select>
+      </div>
+
+      {calculator.fields.map(field => (
+        <div key={field.id} style={{ marginBottom: 10 }}>
+          <label style={labelStyle}>{field.label}{field.unit ? ` (${field.unit})` : ''}</label>
+          <FieldInput
+            field={field}
+            value={inputs[field.id]}
+            onChange={value => setInputs(previous => ({ ...previous, [field.id]: value }))}
+          />
+        </div>
+      ))}
+
+      <div style={{
+        marginTop: 12,
+        padding: '8px 10px',
+        borderRadius: 6,
+        backgroundColor: result ? 'rgba(58, 188, 150, 0.1)' : 'rgba(255, 255, 255, 0.04)',
+        color: result ? '#3ABC96' : '#888',
+        fontSize: 12,
+        lineHeight: 1.4
+      }}>
+        {result ? result.text : 'Not enough information for a category yet.'}
+      </div>
+
+      <button
+        disabled={!result}
+        onClick={() => result && onInsert(result)}
+        style={{
+          marginTop: 12,
+          background: 'rgba(58, 188, 150, 0.2)',
+          border: '1px solid rgba(58, 188, 150, 0.3)',
+          borderRadius: 6,
+          color: '#3ABC96',
+          cursor: result ? 'pointer' : 'not-allowed',
+          opacity: result ? 1 : 0.5,
+          padding: '6px 12px',
+          fontSize: 12,
+          fontWeight: 500
+        }}
+      >
+        Insert into report
+      </button>
+    </div>
+  )
+}
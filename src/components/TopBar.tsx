@@ -6,6 +6,7 @@ import {
   DropdownMenuItem
 } from '@/components/ui/dropdown-menu'
 import { Button } from '@/components/ui/button'
+import type { ApiProviderId } from '@/providers/catalog'
 
 export default function TopBar({
   isContracted,
@@ -20,8 +21,8 @@ export default function TopBar({
   onGenerate: () => void
   onGenerateImpression: () => void
   onOpenShortcutManager: () => void
-  apiProvider: 'openai' | 'claude-sonnet' | 'claude-opus' | 'claude-opus-4.1' | 'gemini' | 'kimi'
-  onApiProviderChange: (provider: 'openai' | 'claude-sonnet' | 'claude-opus' | 'claude-opus-4.1' | 'gemini' | 'kimi') => void
+  apiProvider: ApiProviderId
+  onApiProviderChange: (provider: ApiProviderId) => void
   isOfflineMode: boolean
 }) {
   const [showSettings, setShowSettings] = useState(false)
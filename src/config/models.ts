@@ -2,11 +2,35 @@ export interface ModelConfig {
   // llama.cpp OpenAI-compatible server
   LLAMACPP_OPENAI_BASE: string;
   LLAMACPP_MODEL: string; // informational; the server serves this
+  // Ollama server
+  OLLAMA_BASE: string;
+  OLLAMA_MODEL: string;
+  // Cloud provider API keys (only available outside the renderer)
+  OPENAI_API_KEY?: string;
+  ANTHROPIC_API_KEY?: string;
+  GEMINI_API_KEY?: string;
+  MOONSHOT_API_KEY?: string;
+  // Provider used by agent calls that don't name one (e.g. "mock" for offline runs)
+  RADPAL_API_PROVIDER?: string;
+  // Mock provider: default scenario and optional fixture file (JSON)
+  RADPAL_MOCK_SCENARIO?: string;
+  RADPAL_MOCK_FIXTURES?: string;
 }
 
 export function getConfig(): ModelConfig {
+  // The renderer has no process.env; fall back to defaults there
+  const env: Record<string, string | undefined> = typeof process !== 'undefined' ? process.env : {};
   return {
-    LLAMACPP_OPENAI_BASE: process.env.LLAMACPP_OPENAI_BASE || 'http://127.0.0.1:8080/v1',
-    LLAMACPP_MODEL: process.env.LLAMACPP_MODEL || 'mistral-7b-instruct-q4_k_m.gguf'
+    LLAMACPP_OPENAI_BASE: env.LLAMACPP_OPENAI_BASE || 'http://127.0.0.1:8080/v1',
+    LLAMACPP_MODEL: env.LLAMACPP_MODEL || 'mistral-7b-instruct-q4_k_m.gguf',
+    OLLAMA_BASE: env.OLLAMA_BASE || 'http://127.0.0.1:11434',
+    OLLAMA_MODEL: env.OLLAMA_MODEL || 'mistral',
+    OPENAI_API_KEY: env.OPENAI_API_KEY,
+    ANTHROPIC_API_KEY: env.ANTHROPIC_API_KEY,
+    GEMINI_API_KEY: env.GEMINI_API_KEY,
+    MOONSHOT_API_KEY: env.MOONSHOT_API_KEY,
+    RADPAL_API_PROVIDER: env.RADPAL_API_PROVIDER,
+    RADPAL_MOCK_SCENARIO: env.RADPAL_MOCK_SCENARIO,
+    RADPAL_MOCK_FIXTURES: env.RADPAL_MOCK_FIXTURES
   };
-}
\ No newline at end of file
+}
@@ -1,34 +1,74 @@
-import { useState } from 'react'
+import { useState, useRef, useCallback } from 'react'
 import { generateReport, generateImpression } from '../../agent'
+import type { ModelCallResponse } from '../../agent/callModel'
+import type { ExamContext } from '../../agent/examContext'
 import { useAuth } from './useAuth'
 
+interface FailoverSettings {
+  // Providers to fall back to, in order, when the selected model fails
+  fallbackChain?: string[]
+  // Called before each provider is tried; streamed output should be reset
+  onProviderAttempt?: (provider: string) => void
+}
+
 export function useAgentReport() {
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const { user } = useAuth()
+  const abortControllerRef = useRef<AbortController | null>(null)
+
+  // Aborts the in-flight streaming generation, if any
+  const cancelGeneration = useCallback(() => {
+    abortControllerRef.current?.abort()
+  }, [])
 
   const generateReportWithAgent = async (
     findings: string,
     studyType: string,
-    model?: string
-  ): Promise<{ text: string; tokens: { input: number; output: number; total: number } }> => {
+    model?: string,
+    onToken?: (chunk: string) => void,
+    failover: FailoverSettings = {},
+    exam?: ExamContext
+  ): Promise<{
+    text: string
+    tokens: { input: number; output: number; total: number }
+    provider?: string
+    impressionItems?: string[]
+    ruleViolations?: string[]
+    ruleWarnings?: string[]
+    selfCorrection?: ModelCallResponse['selfCorrection']
+    provenance?: ModelCallResponse['provenance']
+  }> => {
     if (!user?.id) {
       throw new Error('User not authenticated')
     }
 
     setLoading(true)
     setError(null)
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
 
     try {
       const reportResponse = await generateReport({
         userId: user.id,
         studyType,
         findings,
-        model
+        model,
+        fallbackChain: failover.fallbackChain,
+        onProviderAttempt: failover.onProviderAttempt,
+        exam,
+        onToken,
+        signal: abortController.signal
       })
 
       return {
         text: reportResponse.text,
+        provider: reportResponse.provider,
+        impressionItems: reportResponse.impressionItems,
+        ruleViolations: reportResponse.ruleViolations,
+        ruleWarnings: reportResponse.ruleWarnings,
+        selfCorrection: reportResponse.selfCorrection,
+        provenance: reportResponse.provenance,
         tokens: reportResponse.tokens || {
           input: 0,
           output: 0,
@@ -40,6 +80,9 @@ export function useAgentReport() {
       setError(errorMessage)
       throw err
     } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null
+      }
       setLoading(false)
     }
   }
@@ -47,25 +90,36 @@ export function useAgentReport() {
   const generateImpressionWithAgent = async (
     findings: string,
     studyType: string,
-    model?: string
-  ): Promise<{ text: string; tokens: { input: number; output: number; total: number } }> => {
+    model?: string,
+    onToken?: (chunk: string) => void,
+    failover: FailoverSettings = {},
+    exam?: ExamContext
+  ): Promise<{ text: string; tokens: { input: number; output: number; total: number }; provider?: string }> => {
     if (!user?.id) {
       throw new Error('User not authenticated')
     }
 
     setLoading(true)
     setError(null)
+    const abortController = new AbortController()
+    abortControllerRef.current = abortController
 
     try {
       const impressionResponse = await generateImpression({
         userId: user.id,
         studyType,
         findings,
-        model
+        model,
+        fallbackChain: failover.fallbackChain,
+        onProviderAttempt: failover.onProviderAttempt,
+        exam,
+        onToken,
+        signal: abortController.signal
       })
 
       return {
         text: impressionResponse.text,
+        provider: impressionResponse.provider,
         tokens: impressionResponse.tokens || {
           input: 0,
           output: 0,
@@ -77,6 +131,9 @@ export function useAgentReport() {
       setError(errorMessage)
       throw err
     } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null
+      }
       setLoading(false)
     }
   }
@@ -84,6 +141,7 @@ export function useAgentReport() {
   return {
     generateReportWithAgent,
     generateImpressionWithAgent,
+    cancelGeneration,
     loading,
     error
   }
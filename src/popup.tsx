@@ -21,6 +21,8 @@ function App() {
   const { user, loading: authLoading } = useUser()
   const [shouldUseSupabase, setShouldUseSupabase] = useState(false)
   const [editedOutput, setEditedOutput] = useState('')
+  // Exact impression items when the report came from structured output
+  const [impressionItems, setImpressionItems] = useState<string[] | undefined>(undefined)
   // Removed diffGranularity state - now always uses 'words' mode
   const [notification, setNotification] = useState<{message: string, type: 'success' | 'error'} | null>(null)
   
@@ -533,6 +535,7 @@ function App() {
     setMode('report-only')
     setResultText(data.result || '')
     setEditedOutput(data.result || '')
+    setImpressionItems(data.impressionItems)
   } else if (data?.mode === 'template-viewer') {
     setMode('template-viewer')
     setStudyType(data.studyType || '')
@@ -547,6 +550,7 @@ function App() {
     setTemplateText(data.template)
     setResultText(data.result)
     setEditedOutput(data.result)
+    setImpressionItems(data.impressionItems)
   } else if (data?.type === 'loading') {
   setMode('loading')
 }
@@ -1358,6 +1362,7 @@ saveTemplate(studyType, t, p, i)
         <DragTextEditor
           text={isRefining ? '⟳ Generating...' : editedOutput}
           onChange={(newText) => setEditedOutput(newText)}
+          impressionItems={impressionItems}
           disabled={isRefining}
           className="popup-output-textarea"
           style={{
@@ -0,0 +1,51 @@
+import type {
+  ModelProvider,
+  ProviderCapabilities,
+  ProviderGenerateOptions,
+  ProviderResult,
+  ProviderStreamOptions
+} from "./ModelProvider";
+import type { ProviderCatalogEntry } from "./catalog";
+import { getApiKey, requestCompletion, streamCompletion } from "./http";
+
+const ANTHROPIC_BASE = "https://api.anthropic.com/v1";
+const ANTHROPIC_VERSION = "2023-06-01";
+
+export class AnthropicProvider implements ModelProvider {
+  id: string;
+  name: string;
+  capabilities: ProviderCapabilities;
+
+  constructor(private entry: ProviderCatalogEntry) {
+    this.id = entry.id;
+    this.name = entry.displayName;
+    this.capabilities = {
+      streaming: entry.streaming,
+      maxTokens: entry.maxTokens,
+      reportsTokens: entry.reportsTokens
+    };
+  }
+
+  async health(): Promise<boolean> {
+    const apiKey = getApiKey(this.entry);
+    if (!apiKey) return false;
+    try {
+      const r = await fetch(`${ANTHROPIC_BASE}/models`, {
+        method: "GET",
+        headers: { "x-api-key": apiKey, "anthropic-version": ANTHROPIC_VERSION },
+        signal: AbortSignal.timeout(2000)
+      });
+      return r.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  async generate(opts: ProviderGenerateOptions): Promise<ProviderResult> {
+    return requestCompletion(this.entry, opts);
+  }
+
+  async stream(opts: ProviderGenerateOptions, streamOpts: ProviderStreamOptions): Promise<ProviderResult> {
+    return streamCompletion(this.entry, opts, streamOpts);
+  }
+}
@@ -0,0 +1,49 @@
+import type {
+  ModelProvider,
+  ProviderCapabilities,
+  ProviderGenerateOptions,
+  ProviderResult,
+  ProviderStreamOptions
+} from "./ModelProvider";
+import type { ProviderCatalogEntry } from "./catalog";
+import { getApiKey, requestCompletion, streamCompletion } from "./http";
+
+const GEMINI_BASE = "https://generativelanguage.googleapis.com/v1beta";
+
+export class GeminiProvider implements ModelProvider {
+  id: string;
+  name: string;
+  capabilities: ProviderCapabilities;
+
+  constructor(private entry: ProviderCatalogEntry) {
+    this.id = entry.id;
+    this.name = entry.displayName;
+    this.capabilities = {
+      streaming: entry.streaming,
+      maxTokens: entry.maxTokens,
+      reportsTokens: entry.reportsTokens
+    };
+  }
+
+  async health(): Promise<boolean> {
+    const apiKey = getApiKey(this.entry);
+    if (!apiKey) return false;
+    try {
+      const r = await fetch(`${GEMINI_BASE}/models?key=${apiKey}`, {
+        method: "GET",
+        signal: AbortSignal.timeout(2000)
+      });
+      return r.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  async generate(opts: ProviderGenerateOptions): Promise<ProviderResult> {
+    return requestCompletion(this.entry, opts);
+  }
+
+  async stream(opts: ProviderGenerateOptions, streamOpts: ProviderStreamOptions): Promise<ProviderResult> {
+    return streamCompletion(this.entry, opts, streamOpts);
+  }
+}
@@ -0,0 +1,8 @@
+import { OpenAIProvider } from "./OpenAIProvider";
+
+// Moonshot's Kimi API is OpenAI-compatible; the request differences live in ./requests
+export class KimiProvider extends OpenAIProvider {
+  protected get baseUrl(): string {
+    return "https://api.moonshot.ai/v1";
+  }
+}
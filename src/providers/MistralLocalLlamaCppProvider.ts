@@ -1,9 +1,28 @@
-import type { ModelProvider } from "./ModelProvider";
+import type {
+  ModelProvider,
+  ProviderCapabilities,
+  ProviderGenerateOptions,
+  ProviderResult,
+  ProviderStreamOptions
+} from "./ModelProvider";
+import type { ProviderCatalogEntry } from "./catalog";
 import { getConfig } from "../config/models";
+import { requestCompletion, streamCompletion } from "./http";
 
 export class MistralLocalLlamaCppProvider implements ModelProvider {
-  name = "Mistral (Local - llama.cpp)";
-  supportsStreaming = false;
+  id: string;
+  name: string;
+  capabilities: ProviderCapabilities;
+
+  constructor(private entry: ProviderCatalogEntry) {
+    this.id = entry.id;
+    this.name = entry.displayName;
+    this.capabilities = {
+      streaming: entry.streaming,
+      maxTokens: entry.maxTokens,
+      reportsTokens: entry.reportsTokens
+    };
+  }
 
   async health(): Promise<boolean> {
     const { LLAMACPP_OPENAI_BASE } = getConfig();
@@ -18,48 +37,19 @@ export class MistralLocalLlamaCppProvider implements ModelProvider {
     }
   }
 
-  async generate(opts: { 
-    system?: string; 
-    prompt: string; 
-    maxTokens?: number; 
-    temperature?: number; 
-    topP?: number; 
-    stop?: string[] 
-  }): Promise<string> {
-    const { LLAMACPP_OPENAI_BASE } = getConfig();
-    const body = {
-      model: "local-llamacpp", // server ignores/uses served model
-      messages: [
-        ...(opts.system ? [{ role: "system", content: opts.system }] : []),
-        { role: "user", content: opts.prompt }
-      ],
-      temperature: opts.temperature ?? 0.25,
-      top_p: opts.topP ?? 0.9,
-      max_tokens: opts.maxTokens ?? 1200,
-      stop: opts.stop ?? [],
-      // Low repetition penalty for better report generation
-      frequency_penalty: 0.1,
-      presence_penalty: 0.1
-    };
-    
-    const res = await fetch(`${LLAMACPP_OPENAI_BASE}/chat/completions`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(body)
-    });
-    
-    if (!res.ok) {
-      const errorText = await res.text();
-      throw new Error(`llama.cpp error: ${res.status} ${res.statusText} - ${errorText}`);
+  async generate(opts: ProviderGenerateOptions): Promise<ProviderResult> {
+    const result = await requestCompletion(this.entry, opts);
+    if (!result.text) {
+      throw new Error("llama.cpp returned empty content");
     }
-    
-    const data = await res.json();
-    const text = data?.choices?.[0]?.message?.content ?? "";
-    
-    if (!text) {
+    return result;
+  }
+
+  async stream(opts: ProviderGenerateOptions, streamOpts: ProviderStreamOptions): Promise<ProviderResult> {
+    const result = await streamCompletion(this.entry, opts, streamOpts);
+    if (!result.text) {
       throw new Error("llama.cpp returned empty content");
     }
-    
-    return text;
+    return result;
   }
-}
\ No newline at end of file
+}
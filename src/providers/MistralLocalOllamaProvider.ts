@@ -1,9 +1,27 @@
-import type { ModelProvider } from "./ModelProvider";
+import type {
+  ModelProvider,
+  ProviderCapabilities,
+  ProviderGenerateOptions,
+  ProviderResult
+} from "./ModelProvider";
+import type { ProviderCatalogEntry } from "./catalog";
 import { getConfig } from "../config/models";
+import { requestCompletion } from "./http";
 
 export class MistralLocalOllamaProvider implements ModelProvider {
-  name = "Mistral (Local - Ollama)";
-  supportsStreaming = false;
+  id: string;
+  name: string;
+  capabilities: ProviderCapabilities;
+
+  constructor(private entry: ProviderCatalogEntry) {
+    this.id = entry.id;
+    this.name = entry.displayName;
+    this.capabilities = {
+      streaming: entry.streaming,
+      maxTokens: entry.maxTokens,
+      reportsTokens: entry.reportsTokens
+    };
+  }
 
   async health(): Promise<boolean> {
     const { OLLAMA_BASE, OLLAMA_MODEL } = getConfig();
@@ -20,51 +38,12 @@ export class MistralLocalOllamaProvider implements ModelProvider {
     }
   }
 
-  async generate(opts: { 
-    system?: string; 
-    prompt: string; 
-    maxTokens?: number; 
-    temperature?: number; 
-    topP?: number; 
-    stop?: string[] 
-  }): Promise<string> {
-    const { OLLAMA_BASE, OLLAMA_MODEL } = getConfig();
-    
-    // Non-streaming generate endpoint
-    const prompt = opts.system ? `${opts.system}\n\n${opts.prompt}` : opts.prompt;
-    const body = {
-      model: OLLAMA_MODEL,
-      prompt,
-      options: {
-        temperature: opts.temperature ?? 0.25,
-        top_p: opts.topP ?? 0.9,
-        num_predict: opts.maxTokens ?? 1200,
-        stop: opts.stop ?? [],
-        // Low repetition penalty for better report generation
-        repeat_penalty: 1.1,
-        repeat_last_n: 64
-      },
-      stream: false
-    };
-    
-    const res = await fetch(`${OLLAMA_BASE}/api/generate`, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(body)
-    });
-    
-    if (!res.ok) {
-      const errorText = await res.text();
-      throw new Error(`Ollama error: ${res.status} ${res.statusText} - ${errorText}`);
-    }
-    
-    const data = await res.json();
-    const text = data?.response ?? "";
-    
-    if (!text) {
+  // Non-streaming generate endpoint
+  async generate(opts: ProviderGenerateOptions): Promise<ProviderResult> {
+    const result = await requestCompletion(this.entry, opts);
+    if (!result.text) {
       throw new Error("Ollama returned empty content");
     }
-    
-    return text;
+    return result;
   }
-}
\ No newline at end of file
+}
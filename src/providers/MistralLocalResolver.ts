@@ -1,8 +1,8 @@
-import { MistralLocalLlamaCppProvider } from "./MistralLocalLlamaCppProvider";
 import type { ModelProvider } from "./ModelProvider";
+import { getProvider } from "./registry";
 
 export async function resolveMistralLocal(): Promise<ModelProvider> {
-  const llama = new MistralLocalLlamaCppProvider();
+  const llama = getProvider("mistral-local")!;
   
   // Check if llama.cpp server is running
   if (await llama.health()) {
@@ -17,4 +17,4 @@ export async function resolveMistralLocal(): Promise<ModelProvider> {
     "2. Run: npm run llama:serve\n\n" +
     "The server must be running for local AI to work."
   );
-}
\ No newline at end of file
+}
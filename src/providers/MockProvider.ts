@@ -0,0 +1,87 @@
+import type {
+  ModelProvider,
+  ProviderCapabilities,
+  ProviderGenerateOptions,
+  ProviderResult,
+  ProviderStreamOptions,
+  ProviderUsage
+} from "./ModelProvider";
+import { createHttpError } from "./ModelProvider";
+import type { ProviderCatalogEntry } from "./catalog";
+import { getConfig } from "../config/models";
+import { resolveMockCompletion, isMockScenario, type MockFixture, type MockSettings } from "./mockCompletions";
+
+/**
+ * Offline provider that answers from scripted scenarios or fixtures instead of a model.
+ * Used to exercise generation, validation and diffing without network access or API keys.
+ */
+export class MockProvider implements ModelProvider {
+  id: string;
+  name: string;
+  capabilities: ProviderCapabilities;
+  private fixtures?: MockFixture[];
+
+  constructor(entry: ProviderCatalogEntry) {
+    this.id = entry.id;
+    this.name = entry.displayName;
+    this.capabilities = {
+      streaming: entry.streaming,
+      maxTokens: entry.maxTokens,
+      reportsTokens: entry.reportsTokens
+    };
+  }
+
+  async health(): Promise<boolean> {
+    return true;
+  }
+
+  // Overrides RADPAL_MOCK_FIXTURES, mainly for tests
+  setFixtures(fixtures: MockFixture[] | undefined): void {
+    this.fixtures = fixtures;
+  }
+
+  async generate(opts: ProviderGenerateOptions): Promise<ProviderResult> {
+    const completion = resolveMockCompletion(opts.prompt, await this.loadSettings());
+    if (completion.error) {
+      throw createHttpError(`${this.name} error ${completion.error.status}: ${completion.error.message}`, completion.error.status);
+    }
+    return { text: completion.text, tokens: estimateUsage(opts.prompt, completion.text) };
+  }
+
+  async stream(opts: ProviderGenerateOptions, { onToken, signal }: ProviderStreamOptions): Promise<ProviderResult> {
+    const result = await this.generate(opts);
+
+    // Word-sized chunks so streaming renderers see progressive output
+    for (const chunk of result.text.match(/\S+\s*|\s+/g) || []) {
+      if (signal?.aborted) {
+        const error = new Error("Generation cancelled");
+        error.name = "AbortError";
+        throw error;
+      }
+      onToken(chunk);
+    }
+    return result;
+  }
+
+  private async loadSettings(): Promise<MockSettings> {
+    const { RADPAL_MOCK_SCENARIO, RADPAL_MOCK_FIXTURES } = getConfig();
+    const scenario = isMockScenario(RADPAL_MOCK_SCENARIO) ? RADPAL_MOCK_SCENARIO : undefined;
+
+    if (this.fixtures === undefined && RADPAL_MOCK_FIXTURES) {
+      // Specifier kept out of the bundle graph; fixture files are only read under Node
+      const fsModule = "node:fs/promises";
+      const { readFile } = await import(/* @vite-ignore */ fsModule);
+      const data = JSON.parse(await readFile(RADPAL_MOCK_FIXTURES, "utf-8"));
+      this.fixtures = Array.isArray(data) ? data : data.fixtures || [];
+    }
+
+    return { scenario, fixtures: this.fixtures };
+  }
+}
+
+// Rough 4-characters-per-token estimate so token accounting paths still get numbers
+function estimateUsage(prompt: string, text: string): ProviderUsage {
+  const input = Math.ceil(prompt.length / 4);
+  const output = Math.ceil(text.length / 4);
+  return { input, output, total: input + output };
+}
@@ -1,12 +1,57 @@
+export interface ProviderGenerateOptions {
+  system?: string;
+  prompt: string;
+  maxTokens?: number;
+  temperature?: number;
+  topP?: number;
+  stop?: string[];
+}
+
+export interface ProviderStreamOptions {
+  // Called with each text delta as it arrives from the backend
+  onToken: (chunk: string) => void;
+  signal?: AbortSignal;
+}
+
+export interface ProviderUsage {
+  input: number;
+  output: number;
+  total: number;
+}
+
+export interface ProviderResult {
+  text: string;
+  tokens?: ProviderUsage;
+}
+
+export interface ProviderCapabilities {
+  streaming: boolean;
+  maxTokens: number;
+  // Whether the backend returns real token counts (local servers may not)
+  reportsTokens: boolean;
+}
+
 export interface ModelProvider {
+  id: string;
   name: string;
-  supportsStreaming: boolean;
-  generate(opts: {
-    system?: string;
-    prompt: string;
-    maxTokens?: number;
-    temperature?: number;
-    topP?: number;
-    stop?: string[];
-  }): Promise<string>;
-}
\ No newline at end of file
+  capabilities: ProviderCapabilities;
+  health(): Promise<boolean>;
+  generate(opts: ProviderGenerateOptions): Promise<ProviderResult>;
+  // Only implemented by providers with capabilities.streaming = true.
+  // Resolves with the full result once the stream completes.
+  stream?(opts: ProviderGenerateOptions, streamOpts: ProviderStreamOptions): Promise<ProviderResult>;
+}
+
+export const EMPTY_USAGE: ProviderUsage = { input: 0, output: 0, total: 0 };
+
+export interface ProviderHttpError extends Error {
+  status: number;
+}
+
+// Attaches the HTTP status so callers (e.g. failover) can tell rate limits and outages from bad requests
+export function createHttpError(message: string, status: number): ProviderHttpError {
+  const error = new Error(message) as ProviderHttpError;
+  error.name = "ProviderHttpError";
+  error.status = status;
+  return error;
+}
@@ -0,0 +1,56 @@
+import type {
+  ModelProvider,
+  ProviderCapabilities,
+  ProviderGenerateOptions,
+  ProviderResult,
+  ProviderStreamOptions
+} from "./ModelProvider";
+import type { ProviderCatalogEntry } from "./catalog";
+import { getApiKey, requestCompletion, streamCompletion } from "./http";
+
+/**
+ * OpenAI chat completions backend. Kimi extends this since Moonshot
+ * exposes the same OpenAI-compatible API.
+ */
+export class OpenAIProvider implements ModelProvider {
+  id: string;
+  name: string;
+  capabilities: ProviderCapabilities;
+
+  constructor(protected entry: ProviderCatalogEntry) {
+    this.id = entry.id;
+    this.name = entry.displayName;
+    this.capabilities = {
+      streaming: entry.streaming,
+      maxTokens: entry.maxTokens,
+      reportsTokens: entry.reportsTokens
+    };
+  }
+
+  protected get baseUrl(): string {
+    return "https://api.openai.com/v1";
+  }
+
+  async health(): Promise<boolean> {
+    const apiKey = getApiKey(this.entry);
+    if (!apiKey) return false;
+    try {
+      const r = await fetch(`${this.baseUrl}/models`, {
+        method: "GET",
+        headers: { "Authorization": `Bearer ${apiKey}` },
+        signal: AbortSignal.timeout(2000)
+      });
+      return r.ok;
+    } catch {
+      return false;
+    }
+  }
+
+  async generate(opts: ProviderGenerateOptions): Promise<ProviderResult> {
+    return requestCompletion(this.entry, opts);
+  }
+
+  async stream(opts: ProviderGenerateOptions, streamOpts: ProviderStreamOptions): Promise<ProviderResult> {
+    return streamCompletion(this.entry, opts, streamOpts);
+  }
+}
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createRequire } from 'module';
+import buildEnhancedPrompt from '../../../agent/buildEnhancedPrompt';
+import buildEnhancedImpressionPrompt from '../../../agent/buildEnhancedImpressionPrompt';
+import validateRules from '../../../agent/validateRules';
+import { validateSectionHeaders } from '../../../agent/validateSectionHeaders';
+import { resolveMockCompletion } from '../mockCompletions';
+import { getProvider } from '../registry';
+import type { MockProvider } from '../MockProvider';
+
+// Main-process mirror of the mock engine; both must produce the same output
+const electronMock = createRequire(import.meta.url)('../../../electron/mockProvider.js');
+
+const template = 'EXAM: MRI knee\n\nFINDINGS:\nMenisci: Intact.\nLigaments: Intact.\n\nIMPRESSION:\n';
+const findings = 'Complete tear of the ACL. Small joint effusion.';
+const logic = {
+  impression: { numerically_itemized: true, exclude_by_default: ['effusion'] },
+  report: { no_hallucinated_findings: true }
+};
+
+describe('mock provider', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('fills the template with the findings and passes validation by default', () => {
+    const prompt = buildEnhancedPrompt(findings, template, logic);
+    const { text } = resolveMockCompletion(prompt);
+
+    expect(text).toContain('FINDINGS:\nComplete tear of the ACL. Small joint effusion.');
+    expect(text).toContain('IMPRESSION:\n1. Complete tear of the ACL.');
+    expect(validateSectionHeaders(template, text).valid).toBe(true);
+    expect(validateRules(text, findings, logic).passed).toBe(true);
+  });
+
+  it('breaks exclusion and hallucination rules in the violation scenario', () => {
+    const prompt = buildEnhancedPrompt(`${findings} [[mock:violation]]`, template, logic);
+    const { text } = resolveMockCompletion(prompt);
+    const result = validateRules(text, findings, logic);
+
+    expect(result.violations.some(v => v.startsWith('EXCLUSION RULE VIOLATION'))).toBe(true);
+    expect(result.warnings.some(w => w.startsWith('POTENTIAL HALLUCINATION'))).toBe(true);
+  });
+
+  it('mangles section headers in the malformed-headers scenario', () => {
+    const prompt = buildEnhancedPrompt(findings, template, logic);
+    const { text } = resolveMockCompletion(prompt, { scenario: 'malformed-headers' });
+
+    expect(validateSectionHeaders(template, text).valid).toBe(false);
+  });
+
+  it('returns an impression only for impression prompts', () => {
+    const prompt = buildEnhancedImpressionPrompt(findings, template, logic);
+    const { text } = resolveMockCompletion(prompt);
+
+    expect(text).toBe('IMPRESSION:\n1. Complete tear of the ACL.');
+  });
+
+  it('prefers a prompt directive over fixtures, and fixtures over the configured scenario', () => {
+    const fixtures = [{ match: 'tear of the acl', text: 'fixture text' }];
+    const prompt = buildEnhancedPrompt(findings, template, logic);
+
+    expect(resolveMockCompletion(prompt, { scenario: 'error', fixtures }).text).toBe('fixture text');
+    expect(resolveMockCompletion(`${prompt}[[mock:empty]]`, { fixtures })).toEqual({ text: '', scenario: 'empty' });
+  });
+
+  it('throws scripted errors with the HTTP status so failover can react', async () => {
+    const provider = getProvider('mock') as MockProvider;
+    provider.setFixtures([{ match: 'overloaded', error: { status: 503 } }]);
+
+    await expect(provider.generate({ prompt: 'overloaded' })).rejects.toMatchObject({ status: 503 });
+    await expect(provider.generate({ prompt: '[[mock:rate-limit]]' })).rejects.toMatchObject({ status: 429 });
+    provider.setFixtures(undefined);
+  });
+
+  it('streams the same text it returns', async () => {
+    const provider = getProvider('mock')!;
+    const chunks: string[] = [];
+    const result = await provider.stream!(
+      { prompt: buildEnhancedPrompt(findings, template, logic) },
+      { onToken: chunk => chunks.push(chunk) }
+    );
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.join('')).toBe(result.text);
+  });
+
+  it('matches the main-process implementation', () => {
+    const prompts = [
+      buildEnhancedPrompt(findings, template, logic),
+      buildEnhancedPrompt(`${findings} [[mock:violation]]`, template, logic),
+      buildEnhancedImpressionPrompt(findings, template, logic),
+      JSON.stringify({ messages: [{ role: 'user', content: '<<<REPORT_START\nThere is no evidence of  fracture.\nREPORT_END>>>' }] })
+    ];
+
+    for (const prompt of prompts) {
+      for (const scenario of ['report', 'malformed-headers'] as const) {
+        expect(electronMock.resolveMockCompletion(prompt, { scenario, fixtures: [] }))
+          .toEqual(resolveMockCompletion(prompt, { scenario }));
+      }
+    }
+  });
+});
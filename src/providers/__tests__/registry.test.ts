@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { getProvider, resolveProvider, resolveProviderEntry, listProviderEntries, getProviderTier } from '../registry';
+import { PROVIDER_CATALOG } from '../catalog';
+
+describe('provider registry', () => {
+  it('resolves every catalog id to a provider with matching capabilities', () => {
+    for (const entry of PROVIDER_CATALOG) {
+      const provider = getProvider(entry.id);
+      expect(provider?.id).toBe(entry.id);
+      expect(provider?.capabilities.maxTokens).toBe(entry.maxTokens);
+      expect(provider?.capabilities.streaming).toBe(entry.streaming);
+    }
+  });
+
+  it('resolves legacy model strings through aliases', () => {
+    expect(resolveProvider('gpt-4')?.id).toBe('openai');
+    expect(resolveProvider('claude-3-opus')?.id).toBe('claude-opus');
+    expect(resolveProvider('kimi-k2-0711-preview')?.id).toBe('kimi');
+    expect(resolveProvider('local-ai')?.id).toBe('mistral-local');
+  });
+
+  it('does not match on substrings', () => {
+    expect(resolveProviderEntry('gpt-4-turbo-mistral-local')).toBeUndefined();
+    expect(resolveProviderEntry('claude-opus-4.1')?.id).toBe('claude-opus-4.1');
+  });
+
+  it('hides hidden entries from the picker', () => {
+    const ids = listProviderEntries().map(entry => entry.id);
+    expect(ids).toContain('mistral-local');
+    expect(ids).not.toContain('mistral-local-ollama');
+  });
+
+  it('reads tiers from the catalog', () => {
+    expect(getProviderTier('gemini')).toBe(1);
+    expect(getProviderTier('claude-opus')).toBe(3);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createRequire } from 'module';
+import { PROVIDER_CATALOG } from '../catalog';
+import { getProvider } from '../registry';
+import type { ProviderRequestOptions } from '../requests';
+
+// Main-process provider module, which loads the build of ../requests
+const electronProviders = createRequire(import.meta.url)('../../../electron/modelProviders.js');
+
+const HTTP_ENTRIES = PROVIDER_CATALOG.filter(entry => entry.backend !== 'mock');
+const OVERRIDES: ProviderRequestOptions = { system: 'Study persona.', temperature: 0.1, topP: 0.5, maxTokens: 100, stop: ['END'] };
+
+// One body every response parser can read text from
+const COMPLETION = {
+  choices: [{ message: { content: 'ok' } }],
+  content: [{ text: 'ok' }],
+  candidates: [{ content: { parts: [{ text: 'ok' }] } }],
+  response: 'ok'
+};
+
+function mainRequest(id: string, stream: boolean, options: ProviderRequestOptions = {}) {
+  const { url, headers, body } = electronProviders.buildRequest(electronProviders.getProviderEntry(id), 'Findings.', {}, stream, options);
+  return { url, headers, body };
+}
+
+async function rendererRequest(id: string, stream: boolean, options: ProviderRequestOptions = {}) {
+  const fetchMock = vi.fn(async () => stream
+    ? new Response('data: {"choices":[{"delta":{"content":"ok"}}]}\n\n')
+    : new Response(JSON.stringify(COMPLETION)));
+  vi.stubGlobal('fetch', fetchMock);
+
+  const provider = getProvider(id)!;
+  if (stream) {
+    await provider.stream!({ ...options, prompt: 'Findings.' }, { onToken: () => {} });
+  } else {
+    await provider.generate({ ...options, prompt: 'Findings.' });
+  }
+
+  const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+  return { url, headers: init.headers, body: JSON.parse(init.body as string) };
+}
+
+describe('provider requests', () => {
+  beforeEach(() => {
+    for (const name of ['OPENAI_API_KEY', 'ANTHROPIC_API_KEY', 'GEMINI_API_KEY', 'MOONSHOT_API_KEY']) {
+      vi.stubEnv(name, 'test-key');
+    }
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  it('sends the same request from the main process and the renderer for every backend', async () => {
+    for (const entry of HTTP_ENTRIES) {
+      for (const options of [{}, OVERRIDES]) {
+        expect(await rendererRequest(entry.id, false, options)).toEqual(mainRequest(entry.id, false, options));
+        if (entry.streaming) {
+          expect(await rendererRequest(entry.id, true, options)).toEqual(mainRequest(entry.id, true, options));
+        }
+      }
+    }
+  });
+
+  it('sends the default persona only to backends that had one', () => {
+    expect(mainRequest('openai', false).body.messages[0]).toEqual({ role: 'system', content: 'You are a helpful radiology assistant.' });
+    expect(mainRequest('kimi', false).body.messages[0].role).toBe('system');
+    expect(mainRequest('claude-sonnet', false).body).not.toHaveProperty('system');
+    expect(mainRequest('gemini', false).body).not.toHaveProperty('systemInstruction');
+    expect(mainRequest('mistral-local', false).body.messages).toEqual([{ role: 'user', content: 'Findings.' }]);
+    expect(mainRequest('claude-sonnet', false, OVERRIDES).body.system).toBe('Study persona.');
+  });
+
+  it('leaves sampling overrides out for models that reject them', () => {
+    const gpt5 = mainRequest('gpt-5', true, OVERRIDES).body;
+    expect(gpt5).not.toHaveProperty('temperature');
+    expect(gpt5).not.toHaveProperty('top_p');
+    expect(gpt5).not.toHaveProperty('stop');
+    expect(gpt5).toMatchObject({ max_completion_tokens: 100, messages: [{ role: 'system', content: 'Study persona.' }, { role: 'user', content: 'Findings.' }] });
+    expect(mainRequest('openai', false, OVERRIDES).body).toMatchObject({ temperature: 0.1, top_p: 0.5, stop: ['END'] });
+  });
+
+  it('keeps the local llama.cpp sampling defaults', () => {
+    expect(mainRequest('mistral-local', false).body).toMatchObject({ temperature: 0.3, max_tokens: 500, top_p: 0.9, repeat_penalty: 1.1 });
+  });
+});
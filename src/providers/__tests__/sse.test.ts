@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createRequire } from 'module';
+import { readServerSentEvents } from '../sse';
+
+// Main-process provider module, which parses SSE with the build of ../sse
+const electronProviders = createRequire(import.meta.url)('../../../electron/modelProviders.js');
+
+function streamResponse(chunks: string[]): Response {
+  const encoder = new TextEncoder();
+  return new Response(new ReadableStream({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    }
+  }));
+}
+
+async function readEvents(chunks: string[]) {
+  const events: Array<{ data: string; event?: string }> = [];
+  await readServerSentEvents(streamResponse(chunks), (data, event) => events.push({ data, event }));
+  return events;
+}
+
+const delta = (content: string) => `data: {"choices":[{"delta":{"content":${JSON.stringify(content)}}}]}\n\n`;
+
+describe('server-sent events', () => {
+  it('reassembles lines split across chunks', async () => {
+    const stream = `${delta('Small ')}${delta('effusion.')}`;
+    const events = await readEvents([stream.slice(0, 7), stream.slice(7, 40), stream.slice(40)]);
+
+    expect(events.map(event => JSON.parse(event.data).choices[0].delta.content)).toEqual(['Small ', 'effusion.']);
+  });
+
+  it('joins multi-line data fields and keeps the event name', async () => {
+    const events = await readEvents(['event: message_delta\r\ndata: {"a":\r\ndata: 1}\r\n\r\n', ': keep-alive\n\ndata: plain\n\n']);
+
+    expect(events).toEqual([
+      { data: '{"a":\n1}', event: 'message_delta' },
+      { data: 'plain', event: undefined }
+    ]);
+  });
+
+  it('skips the [DONE] marker and empty payloads', async () => {
+    const events = await readEvents([`${delta('ok')}data:\n\ndata: [DONE]\n\n`]);
+
+    expect(events).toHaveLength(1);
+  });
+
+  it('delivers a trailing event the stream ends without a newline after', async () => {
+    const events = await readEvents(['data: first\n\ndata: sec', 'ond']);
+
+    expect(events.map(event => event.data)).toEqual(['first', 'second']);
+  });
+});
+
+describe('main-process streaming', () => {
+  const entry = electronProviders.getProviderEntry('openai');
+  const config = { OPENAI_API_KEY: 'test-key' };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  // node-fetch exposes the body as an async iterable of Buffers
+  function fetchWith(body: AsyncIterable<Buffer>) {
+    return async () => ({ ok: true, body });
+  }
+
+  it('forwards chunks in order, including multi-byte characters split across buffers', async () => {
+    const bytes = Buffer.from(`${delta('Grade ')}${delta('2 → 3 ')}${delta('tear.')}data: [DONE]\n\n`);
+    const split = bytes.indexOf(Buffer.from('→')) + 1;
+    const chunks: string[] = [];
+
+    const result = await electronProviders.streamCompletion(entry, 'Findings.', config, fetchWith((async function* () {
+      yield bytes.subarray(0, split);
+      yield bytes.subarray(split);
+    })()), undefined, (chunk: string) => chunks.push(chunk));
+
+    expect(chunks).toEqual(['Grade ', '2 → 3 ', 'tear.']);
+    expect(result.text).toBe('Grade 2 → 3 tear.');
+  });
+
+  it('rejects with the abort error and forwards nothing after a cancel', async () => {
+    const controller = new AbortController();
+    const chunks: string[] = [];
+
+    const stream = electronProviders.streamCompletion(entry, 'Findings.', config, fetchWith((async function* () {
+      yield Buffer.from(delta('Before '));
+      controller.abort();
+      yield Buffer.from(delta('after.'));
+    })()), controller.signal, (chunk: string) => chunks.push(chunk));
+
+    await expect(stream).rejects.toMatchObject({ name: 'AbortError' });
+    expect(chunks).toEqual(['Before ']);
+  });
+});
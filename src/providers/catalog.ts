@@ -0,0 +1,41 @@
+import catalog from "../../electron/providerCatalog.json";
+
+/**
+ * Provider catalog shared with the Electron main process.
+ * electron/providerCatalog.json is the single list of selectable models;
+ * adding a model on an existing backend only requires a new entry there.
+ */
+
+export type ProviderBackend = "openai" | "anthropic" | "gemini" | "kimi" | "llamacpp" | "ollama" | "mock";
+
+// Catalog ids are the values stored as the user's apiProvider preference
+export type ApiProviderId = string;
+
+export interface ProviderCatalogEntry {
+  id: ApiProviderId;
+  displayName: string;
+  backend: ProviderBackend;
+  model: string;
+  maxTokens: number;
+  // OpenAI's newer models take max_completion_tokens instead of max_tokens
+  maxTokensParam?: "max_tokens" | "max_completion_tokens";
+  temperature?: number;
+  topP?: number;
+  // Send the radiology persona as the system prompt when a study sets none
+  defaultSystemPrompt?: boolean;
+  // false for reasoning models that reject temperature, top_p and stop
+  samplingParams?: boolean;
+  streaming: boolean;
+  reportsTokens: boolean;
+  // Minimum subscription tier required to select the model
+  tier: number;
+  local: boolean;
+  // Hidden entries are usable by id but not shown in the model picker
+  hidden?: boolean;
+  // Legacy model strings that should resolve to this entry
+  aliases: string[];
+}
+
+export const PROVIDER_CATALOG = catalog as ProviderCatalogEntry[];
+
+export const DEFAULT_PROVIDER_ID: ApiProviderId = "openai";
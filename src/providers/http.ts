@@ -0,0 +1,73 @@
+import type { ProviderGenerateOptions, ProviderResult, ProviderStreamOptions } from "./ModelProvider";
+import { EMPTY_USAGE, createHttpError } from "./ModelProvider";
+import type { ProviderCatalogEntry } from "./catalog";
+import { getConfig } from "../config/models";
+import { readServerSentEvents } from "./sse";
+import { API_KEYS, buildProviderRequest, parseCompletion, parseStreamEvent } from "./requests";
+
+/**
+ * Renderer-side transport for the HTTP backends.
+ * Requests and responses go through ./requests, the same code the main process runs.
+ */
+
+export function getApiKey(entry: ProviderCatalogEntry): string | undefined {
+  const key = API_KEYS[entry.backend];
+  return key ? (getConfig() as unknown as Record<string, string | undefined>)[key.name] : undefined;
+}
+
+async function send(entry: ProviderCatalogEntry, opts: ProviderGenerateOptions, stream: boolean, signal?: AbortSignal) {
+  const { LLAMACPP_OPENAI_BASE, OLLAMA_BASE, OLLAMA_MODEL } = getConfig();
+  const { prompt, ...options } = opts;
+  const request = buildProviderRequest(entry, prompt, {
+    apiKey: getApiKey(entry),
+    llamacppBase: LLAMACPP_OPENAI_BASE,
+    ollamaBase: OLLAMA_BASE,
+    ollamaModel: OLLAMA_MODEL
+  }, stream, options);
+
+  const response = await fetch(request.url, {
+    method: "POST",
+    headers: request.headers,
+    body: JSON.stringify(request.body),
+    signal
+  });
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw createHttpError(`${entry.displayName} API error: ${response.status} ${response.statusText} - ${errorText}`, response.status);
+  }
+
+  return { response, format: request.format };
+}
+
+export async function requestCompletion(entry: ProviderCatalogEntry, opts: ProviderGenerateOptions): Promise<ProviderResult> {
+  const { response, format } = await send(entry, opts, false);
+  return parseCompletion(format, await response.json());
+}
+
+export async function streamCompletion(
+  entry: ProviderCatalogEntry,
+  opts: ProviderGenerateOptions,
+  { onToken, signal }: ProviderStreamOptions
+): Promise<ProviderResult> {
+  const { response, format } = await send(entry, opts, true, signal);
+  let text = "";
+  const tokens = { ...EMPTY_USAGE };
+
+  await readServerSentEvents(response, (data) => {
+    const { text: delta, usage } = parseStreamEvent(format, data);
+    if (delta) {
+      text += delta;
+      onToken(delta);
+    }
+    if (usage) {
+      Object.assign(tokens, usage);
+    }
+  });
+
+  if (!tokens.total) {
+    tokens.total = tokens.input + tokens.output;
+  }
+
+  return { text, tokens };
+}
@@ -0,0 +1,206 @@
+/**
+ * Deterministic completions for the offline "mock" provider.
+ * Output is derived from the prompt itself (template, findings, exclusions),
+ * so the generate → validate → diff pipeline runs without network or API keys.
+ * electron/mockProvider.js mirrors this logic for the main process.
+ */
+
+export const MOCK_SCENARIOS = ["report", "violation", "malformed-headers", "error", "rate-limit", "empty"] as const;
+
+export type MockScenario = (typeof MOCK_SCENARIOS)[number];
+
+export interface MockFixture {
+  name?: string;
+  // Case-insensitive regular expression tested against the prompt
+  match: string;
+  // Canned completion text; takes precedence over scenario
+  text?: string;
+  scenario?: MockScenario;
+  error?: { status: number; message?: string };
+}
+
+export interface MockSettings {
+  // Scenario used when neither a prompt directive nor a fixture applies
+  scenario?: MockScenario;
+  fixtures?: MockFixture[];
+}
+
+export interface MockCompletion {
+  text: string;
+  scenario: MockScenario | "fixture";
+  error?: { status: number; message: string };
+}
+
+// Typing [[mock:violation]] into the findings selects a scenario for that request only
+const DIRECTIVE_PATTERN = /\[\[mock:([a-z-]+)\]\]/i;
+const HEADER_PATTERN = /^([A-Z][A-Z\s/]+):/;
+const FABRICATED_FINDING = "Incidental 4.2 mm nodule.";
+
+export function isMockScenario(value: unknown): value is MockScenario {
+  return typeof value === "string" && (MOCK_SCENARIOS as readonly string[]).includes(value);
+}
+
+/**
+ * Picks the completion for a prompt: directive, then first matching fixture, then the configured scenario
+ */
+export function resolveMockCompletion(rawPrompt: string, settings: MockSettings = {}): MockCompletion {
+  const prompt = unwrapChatPrompt(rawPrompt);
+  const directive = prompt.match(DIRECTIVE_PATTERN)?.[1]?.toLowerCase();
+
+  if (!isMockScenario(directive)) {
+    const fixture = (settings.fixtures || []).find(candidate => {
+      try {
+        return new RegExp(candidate.match, "i").test(prompt);
+      } catch {
+        return false;
+      }
+    });
+
+    if (fixture?.error) {
+      return {
+        text: "",
+        scenario: "fixture",
+        error: { status: fixture.error.status, message: fixture.error.message || `Mock fixture "${fixture.name || fixture.match}" failed` }
+      };
+    }
+    if (fixture?.text !== undefined) {
+      return { text: fixture.text, scenario: "fixture" };
+    }
+    if (fixture?.scenario) {
+      return buildScenario(prompt, fixture.scenario);
+    }
+  }
+
+  const scenario = isMockScenario(directive) ? directive : settings.scenario || "report";
+  return buildScenario(prompt.replace(DIRECTIVE_PATTERN, ""), scenario);
+}
+
+function buildScenario(prompt: string, scenario: MockScenario): MockCompletion {
+  switch (scenario) {
+    case "error":
+      return { text: "", scenario, error: { status: 500, message: "Mock provider error (scenario: error)" } };
+    case "rate-limit":
+      return { text: "", scenario, error: { status: 429, message: "Mock provider rate limit (scenario: rate-limit)" } };
+    case "empty":
+      return { text: "", scenario };
+    default:
+      return { text: buildText(prompt, scenario), scenario };
+  }
+}
+
+function buildText(prompt: string, scenario: MockScenario): string {
+  const refinement = prompt.match(/<<<REPORT_START\n([\s\S]*?)\nREPORT_END>>>/);
+  if (refinement) {
+    return refineWording(refinement[1]);
+  }
+
+  const findings = splitSentences(extractFindings(prompt));
+  const exclusions = [...prompt.matchAll(/❌ (?:DO NOT include|EXCLUDE:) "([^"]+)"/g)].map(match => match[1]);
+  // A well-behaved impression leaves out findings the logic excludes
+  const impressionItems = findings
+    .filter(sentence => !exclusions.some(exclusion => sentence.toLowerCase().includes(exclusion.toLowerCase())))
+    .slice(0, 5);
+
+  if (scenario === "violation") {
+    // Excluded item leads the impression (where validation looks first), plus a measurement not in the findings
+    if (exclusions.length > 0) impressionItems.unshift(`Small ${exclusions[0]}.`);
+    impressionItems.push(FABRICATED_FINDING);
+    findings.push(FABRICATED_FINDING);
+  }
+
+  const impression = formatImpression(impressionItems);
+
+  // Impression-only prompts don't carry the template structure
+  if (/generating a concise, well-formatted radiology impression/.test(prompt)) {
+    return `IMPRESSION:\n${impression}`;
+  }
+
+  const template = prompt.match(/TEMPLATE STRUCTURE - MANDATORY COMPLIANCE:\n\n([\s\S]*?)\n\nCRITICAL: Preserve/)?.[1];
+  if (template === undefined) {
+    if (findings.length === 0) {
+      return `Mock response: ${prompt.trim().slice(0, 200)}`;
+    }
+    return applyHeaderStyle(`FINDINGS:\n${findings.join(" ")}\n\nIMPRESSION:\n${impression}`, scenario);
+  }
+
+  return applyHeaderStyle(fillTemplate(template, findings, impression), scenario);
+}
+
+function fillTemplate(template: string, findings: string[], impression: string): string {
+  const lines = template.split("\n");
+  const output: string[] = [];
+  let placedFindings = false;
+
+  for (const line of lines) {
+    const header = line.match(HEADER_PATTERN)?.[1]?.trim();
+    if (header === "IMPRESSION") {
+      output.push("IMPRESSION:", impression);
+      continue;
+    }
+    output.push(line);
+    if (header === "FINDINGS" && !placedFindings && findings.length > 0) {
+      output.push(findings.join(" "));
+      placedFindings = true;
+    }
+  }
+
+  if (!placedFindings && findings.length > 0) {
+    output.push("", findings.join(" "));
+  }
+  return output.join("\n");
+}
+
+function applyHeaderStyle(report: string, scenario: MockScenario): string {
+  if (scenario !== "malformed-headers") return report;
+
+  // Title-cased headers no longer match the template's uppercase headers
+  return report
+    .split("\n")
+    .map(line => line.replace(HEADER_PATTERN, (_match, header: string) =>
+      `${header.charAt(0)}${header.slice(1).toLowerCase()}:`))
+    .join("\n");
+}
+
+function extractFindings(prompt: string): string {
+  const report = prompt.match(/=== FINDINGS TO INCORPORATE ===\n([\s\S]*?)\n=== END OF FINDINGS ===/);
+  if (report) return report[1];
+  const impression = prompt.match(/📋 FINDINGS TO SUMMARIZE:\n([\s\S]*?)\n\n(?:🚨|📐|📝|🎯)/);
+  return impression ? impression[1] : "";
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/\n+|(?<=\.)\s+/)
+    .map(sentence => sentence.trim())
+    .filter(Boolean)
+    .map(sentence => (/[.!?]$/.test(sentence) ? sentence : `${sentence}.`));
+}
+
+function formatImpression(items: string[]): string {
+  if (items.length === 0) return "1. No acute abnormality.";
+  return items.map((item, index) => `${index + 1}. ${item}`).join("\n\n");
+}
+
+function refineWording(report: string): string {
+  return report
+    .split("\n")
+    .map(line => line
+      .replace(/[ \t]{2,}/g, " ")
+      .replace(/\bThere is no evidence of\b/g, "No")
+      .replace(/\bthere is no evidence of\b/g, "no")
+      .trimEnd())
+    .join("\n");
+}
+
+// The chat fallback sends JSON.stringify({ messages }) as the prompt; use the last user message
+function unwrapChatPrompt(prompt: string): string {
+  if (!prompt.trimStart().startsWith("{")) return prompt;
+  try {
+    const parsed = JSON.parse(prompt);
+    const messages: Array<{ role: string; content: string }> = Array.isArray(parsed?.messages) ? parsed.messages : [];
+    const lastUser = [...messages].reverse().find(message => message.role === "user");
+    return lastUser?.content ?? prompt;
+  } catch {
+    return prompt;
+  }
+}
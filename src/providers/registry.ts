@@ -0,0 +1,75 @@
+import type { ModelProvider } from "./ModelProvider";
+import { PROVIDER_CATALOG, type ApiProviderId, type ProviderCatalogEntry } from "./catalog";
+import { OpenAIProvider } from "./OpenAIProvider";
+import { AnthropicProvider } from "./AnthropicProvider";
+import { GeminiProvider } from "./GeminiProvider";
+import { KimiProvider } from "./KimiProvider";
+import { MistralLocalLlamaCppProvider } from "./MistralLocalLlamaCppProvider";
+import { MistralLocalOllamaProvider } from "./MistralLocalOllamaProvider";
+import { MockProvider } from "./MockProvider";
+
+/**
+ * Provider registry built from the shared catalog.
+ * Model strings are resolved by exact id or alias only, so a new catalog
+ * entry never collides with an existing one through substring matching.
+ */
+
+const BACKENDS: Record<ProviderCatalogEntry["backend"], new (entry: ProviderCatalogEntry) => ModelProvider> = {
+  openai: OpenAIProvider,
+  anthropic: AnthropicProvider,
+  gemini: GeminiProvider,
+  kimi: KimiProvider,
+  llamacpp: MistralLocalLlamaCppProvider,
+  ollama: MistralLocalOllamaProvider,
+  mock: MockProvider
+};
+
+const instances = new Map<ApiProviderId, ModelProvider>();
+
+export function getProviderEntry(id: ApiProviderId): ProviderCatalogEntry | undefined {
+  return PROVIDER_CATALOG.find(entry => entry.id === id);
+}
+
+/**
+ * Finds the catalog entry for a provider id, legacy alias or raw model name
+ */
+export function resolveProviderEntry(modelOrAlias: string): ProviderCatalogEntry | undefined {
+  const key = modelOrAlias.trim().toLowerCase();
+  return (
+    PROVIDER_CATALOG.find(entry => entry.id === key) ||
+    PROVIDER_CATALOG.find(entry => entry.aliases.some(alias => alias.toLowerCase() === key)) ||
+    PROVIDER_CATALOG.find(entry => entry.model.toLowerCase() === key)
+  );
+}
+
+export function getProvider(id: ApiProviderId): ModelProvider | undefined {
+  const existing = instances.get(id);
+  if (existing) return existing;
+
+  const entry = getProviderEntry(id);
+  if (!entry) return undefined;
+
+  const provider = new BACKENDS[entry.backend](entry);
+  instances.set(id, provider);
+  return provider;
+}
+
+export function resolveProvider(modelOrAlias: string): ModelProvider | undefined {
+  const entry = resolveProviderEntry(modelOrAlias);
+  return entry ? getProvider(entry.id) : undefined;
+}
+
+/**
+ * Catalog entries shown in the model picker (hidden entries excluded)
+ */
+export function listProviderEntries(): ProviderCatalogEntry[] {
+  return PROVIDER_CATALOG.filter(entry => !entry.hidden);
+}
+
+export function listProviders(): ModelProvider[] {
+  return listProviderEntries().map(entry => getProvider(entry.id)!);
+}
+
+export function getProviderTier(id: ApiProviderId): number {
+  return getProviderEntry(id)?.tier ?? 1;
+}
@@ -0,0 +1,293 @@
+import type { ProviderBackend, ProviderCatalogEntry } from "./catalog";
+import type { ProviderGenerateOptions, ProviderUsage } from "./ModelProvider";
+import { DEFAULT_SYSTEM_PERSONA } from "../../agent/generationSettings";
+
+export { createEventStreamParser } from "./sse";
+
+/**
+ * HTTP request building and response parsing (including SSE) for every backend.
+ * This is the only implementation: the renderer providers import it directly and the
+ * main process loads electron/providerRequests.js, built from this file by
+ * scripts/build-provider-requests.js (npm run providers:build).
+ */
+
+export type ResponseFormat = "openai" | "anthropic" | "gemini" | "ollama";
+
+// Generation overrides from agent_logic.generation; unset values fall back to the catalog entry
+export type ProviderRequestOptions = Omit<ProviderGenerateOptions, "prompt">;
+
+export interface ProviderEndpoints {
+  // Key for the entry's backend (see API_KEYS); local backends need none
+  apiKey?: string;
+  llamacppBase: string;
+  ollamaBase: string;
+  // Ollama model tag; defaults to the catalog model
+  ollamaModel?: string;
+}
+
+export interface ProviderRequest {
+  url: string;
+  headers: Record<string, string>;
+  body: Record<string, any>;
+  format: ResponseFormat;
+}
+
+export interface StreamEvent {
+  text: string;
+  usage: Partial<ProviderUsage> | null;
+}
+
+// Config/env variable holding each cloud backend's key, and the name used in errors
+export const API_KEYS: Partial<Record<ProviderBackend, { name: string; label: string }>> = {
+  openai: { name: "OPENAI_API_KEY", label: "OpenAI" },
+  anthropic: { name: "ANTHROPIC_API_KEY", label: "Anthropic" },
+  gemini: { name: "GEMINI_API_KEY", label: "Gemini" },
+  kimi: { name: "MOONSHOT_API_KEY", label: "Moonshot" }
+};
+
+function requireKey(entry: ProviderCatalogEntry, apiKey: string | undefined): string {
+  if (!apiKey) {
+    throw new Error(`${API_KEYS[entry.backend]?.label ?? entry.displayName} API key not configured`);
+  }
+  return apiKey;
+}
+
+function chatMessages(prompt: string, system: string | undefined) {
+  return [
+    ...(system ? [{ role: "system", content: system }] : []),
+    { role: "user", content: prompt }
+  ];
+}
+
+// Drops unset sampling parameters so the backend's own default applies
+function defined(values: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * Applies per-study generation options over the catalog defaults.
+ * Only entries with defaultSystemPrompt get the radiology persona when the study sets none,
+ * and entries with samplingParams: false never get temperature, top_p or stop.
+ */
+function resolveSettings(entry: ProviderCatalogEntry, options: ProviderRequestOptions) {
+  const sampling = entry.samplingParams !== false;
+  return {
+    system: options.system || (entry.defaultSystemPrompt ? DEFAULT_SYSTEM_PERSONA : undefined),
+    temperature: sampling ? options.temperature ?? entry.temperature : undefined,
+    topP: sampling ? options.topP ?? entry.topP : undefined,
+    maxTokens: options.maxTokens ?? entry.maxTokens,
+    stop: sampling && options.stop?.length ? options.stop : undefined
+  };
+}
+
+/**
+ * Builds the HTTP request for a catalog entry
+ */
+export function buildProviderRequest(
+  entry: ProviderCatalogEntry,
+  prompt: string,
+  endpoints: ProviderEndpoints,
+  stream: boolean,
+  options: ProviderRequestOptions = {}
+): ProviderRequest {
+  const settings = resolveSettings(entry, options);
+
+  switch (entry.backend) {
+    case "anthropic":
+      return {
+        url: "https://api.anthropic.com/v1/messages",
+        headers: {
+          "Content-Type": "application/json",
+          "x-api-key": requireKey(entry, endpoints.apiKey),
+          "anthropic-version": "2023-06-01"
+        },
+        body: defined({
+          model: entry.model,
+          max_tokens: settings.maxTokens,
+          system: settings.system,
+          messages: [{ role: "user", content: prompt }],
+          temperature: settings.temperature,
+          top_p: settings.topP,
+          stop_sequences: settings.stop,
+          stream: stream || undefined
+        }),
+        format: "anthropic"
+      };
+
+    case "gemini": {
+      const apiKey = requireKey(entry, endpoints.apiKey);
+      const method = stream ? "streamGenerateContent?alt=sse&" : "generateContent?";
+      return {
+        url: `https://generativelanguage.googleapis.com/v1beta/models/${entry.model}:${method}key=${apiKey}`,
+        headers: { "Content-Type": "application/json" },
+        body: defined({
+          systemInstruction: settings.system ? { parts: [{ text: settings.system }] } : undefined,
+          contents: [{ parts: [{ text: prompt }] }],
+          generationConfig: defined({
+            temperature: settings.temperature,
+            maxOutputTokens: settings.maxTokens,
+            topP: settings.topP,
+            stopSequences: settings.stop
+          })
+        }),
+        format: "gemini"
+      };
+    }
+
+    case "ollama":
+      return {
+        url: `${endpoints.ollamaBase}/api/generate`,
+        headers: { "Content-Type": "application/json" },
+        body: {
+          model: endpoints.ollamaModel || entry.model,
+          prompt: settings.system ? `${settings.system}\n\n${prompt}` : prompt,
+          options: defined({
+            temperature: settings.temperature,
+            top_p: settings.topP,
+            num_predict: settings.maxTokens,
+            repeat_penalty: 1.1,
+            stop: settings.stop
+          }),
+          stream: false
+        },
+        format: "ollama"
+      };
+
+    case "llamacpp":
+      return {
+        url: `${endpoints.llamacppBase}/chat/completions`,
+        headers: { "Content-Type": "application/json" },
+        body: defined({
+          model: entry.model,
+          messages: chatMessages(prompt, settings.system),
+          temperature: settings.temperature,
+          max_tokens: settings.maxTokens,
+          top_p: settings.topP,
+          // Prevent repetition
+          repeat_penalty: 1.1,
+          stop: settings.stop,
+          stream: stream || undefined
+        }),
+        format: "openai"
+      };
+
+    case "kimi":
+      return {
+        url: "https://api.moonshot.ai/v1/chat/completions",
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${requireKey(entry, endpoints.apiKey)}`
+        },
+        body: defined({
+          model: entry.model,
+          messages: chatMessages(prompt, settings.system),
+          temperature: settings.temperature,
+          // Moonshot's own output limit applies unless a study sets one
+          max_tokens: options.maxTokens,
+          top_p: settings.topP,
+          stop: settings.stop,
+          stream
+        }),
+        format: "openai"
+      };
+
+    default:
+      // OpenAI - newer models use max_completion_tokens, older ones max_tokens
+      return {
+        url: "https://api.openai.com/v1/chat/completions",
+        headers: {
+          "Content-Type": "application/json",
+          "Authorization": `Bearer ${requireKey(entry, endpoints.apiKey)}`
+        },
+        body: defined({
+          model: entry.model,
+          messages: chatMessages(prompt, settings.system),
+          [entry.maxTokensParam || "max_tokens"]: settings.maxTokens,
+          temperature: settings.temperature,
+          top_p: settings.topP,
+          stop: settings.stop,
+          stream: stream || undefined,
+          stream_options: stream ? { include_usage: true } : undefined
+        }),
+        format: "openai"
+      };
+  }
+}
+
+/**
+ * Extracts text and token usage from a non-streaming response body
+ */
+export function parseCompletion(format: ResponseFormat, data: any): { text: string; tokens: ProviderUsage } {
+  if (format === "anthropic") {
+    const input = data.usage?.input_tokens || 0;
+    const output = data.usage?.output_tokens || 0;
+    return {
+      text: Array.isArray(data.content) ? data.content.map((part: any) => part.text || "").join("") : "",
+      tokens: { input, output, total: input + output }
+    };
+  }
+
+  if (format === "gemini") {
+    const input = data.usageMetadata?.promptTokenCount || 0;
+    const output = data.usageMetadata?.candidatesTokenCount || 0;
+    return {
+      text: data.candidates?.[0]?.content?.parts?.map((part: any) => part.text || "").join("") || "",
+      tokens: { input, output, total: data.usageMetadata?.totalTokenCount || input + output }
+    };
+  }
+
+  if (format === "ollama") {
+    const input = data.prompt_eval_count || 0;
+    const output = data.eval_count || 0;
+    return { text: data.response || "", tokens: { input, output, total: input + output } };
+  }
+
+  // OpenAI-compatible (OpenAI, Kimi, llama.cpp)
+  const input = data.usage?.prompt_tokens || 0;
+  const output = data.usage?.completion_tokens || 0;
+  return {
+    text: data.choices?.[0]?.message?.content || "",
+    tokens: { input, output, total: data.usage?.total_tokens || input + output }
+  };
+}
+
+/**
+ * Parses one SSE data payload into a text delta and any usage information
+ */
+export function parseStreamEvent(format: ResponseFormat, data: string): StreamEvent {
+  const event = JSON.parse(data);
+
+  if (format === "anthropic") {
+    if (event.type === "message_start") {
+      return { text: "", usage: { input: event.message?.usage?.input_tokens || 0 } };
+    }
+    if (event.type === "content_block_delta") {
+      return { text: event.delta?.text || "", usage: null };
+    }
+    if (event.type === "message_delta") {
+      return { text: "", usage: { output: event.usage?.output_tokens || 0 } };
+    }
+    if (event.type === "error") {
+      throw new Error(event.error?.message || "Claude stream error");
+    }
+    return { text: "", usage: null };
+  }
+
+  if (format === "gemini") {
+    const text = event.candidates?.[0]?.content?.parts?.map((part: any) => part.text || "").join("") || "";
+    const usage = event.usageMetadata ? {
+      input: event.usageMetadata.promptTokenCount || 0,
+      output: event.usageMetadata.candidatesTokenCount || 0,
+      total: event.usageMetadata.totalTokenCount || 0
+    } : null;
+    return { text, usage };
+  }
+
+  // OpenAI-compatible (OpenAI, Kimi, llama.cpp)
+  const usage = event.usage ? {
+    input: event.usage.prompt_tokens || 0,
+    output: event.usage.completion_tokens || 0,
+    total: event.usage.total_tokens || 0
+  } : null;
+  return { text: event.choices?.[0]?.delta?.content || "", usage };
+}
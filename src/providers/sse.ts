@@ -0,0 +1,87 @@
+export interface EventStreamParser {
+  // Feeds decoded text as it arrives; lines may be split anywhere between calls
+  push(text: string): void;
+  // Flushes a trailing line and an event the stream ended without a blank line after
+  end(): void;
+}
+
+/**
+ * Incremental Server-Sent Events parser shared by the renderer and the main process.
+ * Consecutive data lines are joined with "\n" and delivered when the blank line ending the
+ * event is read; empty payloads and the OpenAI "[DONE]" marker are skipped.
+ */
+export function createEventStreamParser(onData: (data: string, event?: string) => void): EventStreamParser {
+  let buffer = "";
+  let eventName: string | undefined;
+  let dataLines: string[] = [];
+
+  const dispatch = () => {
+    const data = dataLines.join("\n");
+    if (data.trim() && data !== "[DONE]") {
+      onData(data, eventName);
+    }
+    dataLines = [];
+    eventName = undefined;
+  };
+
+  const handleLine = (rawLine: string) => {
+    const line = rawLine.replace(/\r$/, "");
+    if (!line) {
+      // Blank line terminates an event
+      dispatch();
+      return;
+    }
+    if (line.startsWith(":")) return;
+
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    const value = colon === -1 ? "" : line.slice(colon + 1).replace(/^ /, "");
+    if (field === "event") {
+      eventName = value;
+    } else if (field === "data") {
+      dataLines.push(value);
+    }
+  };
+
+  return {
+    push(text: string) {
+      buffer += text;
+      const lines = buffer.split("\n");
+      buffer = lines.pop() ?? "";
+      lines.forEach(handleLine);
+    },
+    end() {
+      if (buffer) {
+        handleLine(buffer);
+        buffer = "";
+      }
+      dispatch();
+    }
+  };
+}
+
+/**
+ * Minimal Server-Sent Events reader for streaming completions.
+ * Works with the fetch Response body in both the renderer and Node 18+.
+ */
+export async function readServerSentEvents(
+  response: Response,
+  onData: (data: string, event?: string) => void
+): Promise<void> {
+  if (!response.body) {
+    throw new Error("Streaming response has no body");
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  const parser = createEventStreamParser(onData);
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    parser.push(decoder.decode(value, { stream: true }));
+  }
+
+  parser.push(decoder.decode());
+  parser.end();
+}
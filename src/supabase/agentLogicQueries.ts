@@ -6,6 +6,7 @@ import { supabase } from '../lib/supabase'
 import { mergeLogicLayers, extractLogicDelta, LogicLayers } from '../utils/logicInheritance'
 import { getDefaultAgentLogic } from '../utils/logicMerge'
 import { offlineStorage } from '../services/offlineStorage'
+import { migrateAgentLogic, AppliedLogicMigration } from '../../agent/logicMigrations'
 
 export interface AgentLogicQueryResult {
   success: boolean
@@ -17,6 +18,29 @@ export interface AgentLogicQueryResult {
     base?: string
     study?: string
   }
+  // Version migrations applied to the stored layers while loading
+  migrations?: {
+    base: AppliedLogicMigration[]
+    study: AppliedLogicMigration[]
+  }
+}
+
+/**
+ * Upgrades stored base/study layers to the current logic version.
+ * Upgraded layers are cached offline here; the online path also writes them back to Supabase.
+ */
+function migrateStoredLayers(baseLogic: any, studyLogic: any, studyType: string) {
+  const base = migrateAgentLogic(baseLogic)
+  const study = migrateAgentLogic(studyLogic)
+
+  if (base.applied.length > 0) offlineStorage.saveAgentLogic('__BASE__', base.logic)
+  if (study.applied.length > 0) offlineStorage.saveAgentLogic(studyType, study.logic)
+
+  return {
+    baseLogic: base.logic,
+    studyLogic: study.logic,
+    migrations: { base: base.applied, study: study.applied }
+  }
 }
 
 /**
@@ -30,8 +54,11 @@ export async function fetchAgentLogic(
   try {
     if (isOfflineMode) {
       // Offline mode: get from local storage
-      const baseLogic = offlineStorage.getAgentLogic('__BASE__') || null
-      const studyLogic = offlineStorage.getAgentLogic(studyType) || null
+      const { baseLogic, studyLogic, migrations } = migrateStoredLayers(
+        offlineStorage.getAgentLogic('__BASE__') || null,
+        offlineStorage.getAgentLogic(studyType) || null,
+        studyType
+      )
       
       const layers: LogicLayers = {
         defaultLogic: getDefaultAgentLogic(),
@@ -45,7 +72,8 @@ export async function fetchAgentLogic(
         success: true,
         baseLogic,
         studyLogic,
-        mergedLogic
+        mergedLogic,
+        migrations
       }
     }
     
@@ -70,8 +98,28 @@ export async function fetchAgentLogic(
       .limit(1)
       .single()
     
-    const baseLogic = baseTemplate?.default_agent_logic || null
-    const studyLogic = templates?.agent_logic || null
+    const { baseLogic, studyLogic, migrations } = migrateStoredLayers(
+      baseTemplate?.default_agent_logic || null,
+      templates?.agent_logic || null,
+      studyType
+    )
+    
+    // Write upgraded layers back so each migration runs once; timestamps are left alone since nothing was edited
+    if (migrations.base.length > 0) {
+      const { error: baseMigrationError } = await supabase
+        .from('templates')
+        .update({ default_agent_logic: baseLogic })
+        .eq('user_id', userId)
+      if (baseMigrationError) console.error('Error saving migrated base logic:', baseMigrationError)
+    }
+    if (migrations.study.length > 0) {
+      const { error: studyMigrationError } = await supabase
+        .from('templates')
+        .update({ agent_logic: studyLogic })
+        .eq('user_id', userId)
+        .eq('study_type', studyType)
+      if (studyMigrationError) console.error('Error saving migrated study logic:', studyMigrationError)
+    }
     
     const layers: LogicLayers = {
       defaultLogic: getDefaultAgentLogic(),
@@ -93,14 +141,18 @@ export async function fetchAgentLogic(
       lastUpdated: {
         base: baseTemplate?.default_agent_logic_updated_at,
         study: templates?.agent_logic_updated_at
-      }
+      },
+      migrations
     }
   } catch (error) {
     console.error('Error fetching agent logic:', error)
     
     // Fallback to offline storage
-    const baseLogic = offlineStorage.getAgentLogic('__BASE__') || null
-    const studyLogic = offlineStorage.getAgentLogic(studyType) || null
+    const { baseLogic, studyLogic, migrations } = migrateStoredLayers(
+      offlineStorage.getAgentLogic('__BASE__') || null,
+      offlineStorage.getAgentLogic(studyType) || null,
+      studyType
+    )
     
     const layers: LogicLayers = {
       defaultLogic: getDefaultAgentLogic(),
@@ -114,7 +166,8 @@ export async function fetchAgentLogic(
       success: true,
       baseLogic,
       studyLogic,
-      mergedLogic
+      mergedLogic,
+      migrations
     }
   }
 }
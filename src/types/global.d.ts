@@ -1,3 +1,5 @@
+import type { GenerationOptions } from '../../agent/generationSettings'
+
 declare global {
   interface Window {
     electron?: {
@@ -34,12 +36,27 @@ declare global {
       getFindings: () => Promise<string>;
       setFindings: (findings: string) => void;
       resetWindowSize: () => void;
-      generateReport: (prompt: string) => Promise<string>;
+      generateReport: (prompt: string, options?: GenerationOptions) => Promise<string>;
+      generateReportWithProvider?: (prompt: string, provider?: string, options?: GenerationOptions) => Promise<{
+        text: string;
+        tokens?: { input: number; output: number; total: number };
+        error?: { provider: string; message: string; status?: number };
+      }>;
+      generateReportStream?: (prompt: string, requestId: string, provider?: string, options?: GenerationOptions) => Promise<{
+        text: string;
+        tokens?: { input: number; output: number; total: number };
+        cancelled?: boolean;
+        error?: { provider: string; message: string; status?: number };
+      }>;
+      checkProviderHealth?: (provider: string) => Promise<boolean>;
+      cancelReportStream?: (requestId: string) => Promise<boolean>;
+      onReportStreamChunk?: (callback: (data: { requestId: string; chunk: string }) => void) => () => void;
       readPrompt: (name: string) => Promise<string>;
       saveTextboxSize?: (key: string, size: number) => Promise<void>;
       getTextboxSize?: (key: string) => Promise<number | null>;
-      setApiProvider?: (provider: 'openai' | 'claude-sonnet' | 'claude-opus' | 'claude-opus-4.1' | 'gemini' | 'kimi' | 'gpt-5' | 'mistral-local') => Promise<string>;
-      getApiProvider?: () => Promise<'openai' | 'claude-sonnet' | 'claude-opus' | 'claude-opus-4.1' | 'gemini' | 'kimi' | 'gpt-5' | 'mistral-local'>;
+      setApiProvider?: (provider: string) => Promise<string>;
+      getApiProvider?: () => Promise<string>;
+      isMockProviderAvailable?: () => Promise<boolean>;
       
       // llama.cpp server methods
       onLlamaServerStatus?: (callback: (status: { running: boolean; error?: string; external?: boolean }) => void) => () => void;
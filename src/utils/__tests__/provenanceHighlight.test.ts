@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest'
+import { markUnsupportedParts, wrapUnsupported } from '../provenanceHighlight'
+
+describe('markUnsupportedParts', () => {
+  it('splits parts at range boundaries and skips removed text when counting offsets', () => {
+    const parts = [
+      { value: 'FINDINGS:\n' },
+      { value: '[describe]', removed: true },
+      { value: 'Tear. Invented.', added: true }
+    ]
+
+    // "Invented." sits at offset 16-25 of the generated text
+    expect(markUnsupportedParts(parts, [{ start: 16, end: 25 }])).toEqual([
+      { value: 'FINDINGS:\n' },
+      { value: '[describe]', removed: true },
+      { value: 'Tear. ', added: true },
+      { value: 'Invented.', added: true, unsupported: true }
+    ])
+  })
+
+  it('returns the parts unchanged when nothing is unsupported', () => {
+    const parts = [{ value: 'Tear.' }]
+    expect(markUnsupportedParts(parts, [])).toBe(parts)
+    expect(wrapUnsupported(parts[0], 'Tear.')).toBe('Tear.')
+    expect(wrapUnsupported({ value: 'x', unsupported: true }, 'x')).toContain('dotted')
+  })
+})
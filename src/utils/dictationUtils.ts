@@ -461,18 +461,27 @@ export function convertOClockToTime(text: string): string {
   return result;
 }
 
+// Numbers as dictated: digits or spelled out
+const DIMENSION_NUMBER = '(?:\\d+(?:\\.\\d+)?|zero|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|thirteen|fourteen|fifteen|sixteen|seventeen|eighteen|nineteen|twenty|thirty|forty|fifty|sixty|seventy|eighty|ninety|hundred|thousand)';
+
+// Length units that may follow each number, e.g. "five cm by four cm"
+const DIMENSION_UNIT = '(?:mm|cm|millimet(?:er|re)s?|centimet(?:er|re)s?)';
+
+const DIMENSION_PATTERN = new RegExp(
+  `\\b${DIMENSION_NUMBER}(?:\\s+${DIMENSION_UNIT})?(?:\\s+by\\s+${DIMENSION_NUMBER}(?:\\s+${DIMENSION_UNIT})?)+`,
+  'gi'
+);
+
 /**
  * Convert dimension expressions
- * Handles: "five by four by three" → "5 x 4 x 3"
+ * Handles: "five by four by three" → "5 x 4 x 3", "2 cm by 3 cm" → "2 cm x 3 cm"
  */
 export function convertDimensions(text: string): string {
-  // Convert patterns like "number by number by number" → "number x number x number"
-  // This regex captures numbers (digits or spelled out) separated by "by"
-  return text.replace(/\b(\d+(?:\.\d+)?|zero|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|thirteen|fourteen|fifteen|sixteen|seventeen|eighteen|nineteen|twenty|thirty|forty|fifty|sixty|seventy|eighty|ninety|hundred|thousand)\s+by\s+(\d+(?:\.\d+)?|zero|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|thirteen|fourteen|fifteen|sixteen|seventeen|eighteen|nineteen|twenty|thirty|forty|fifty|sixty|seventy|eighty|ninety|hundred|thousand)(?:\s+by\s+(\d+(?:\.\d+)?|zero|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|thirteen|fourteen|fifteen|sixteen|seventeen|eighteen|nineteen|twenty|thirty|forty|fifty|sixty|seventy|eighty|ninety|hundred|thousand))*/gi, 
-    (match) => {
-      return match.replace(/\s+by\s+/gi, ' x ');
-    }
-  );
+  // Convert patterns like "number by number by number" → "number x number x number";
+  // a unit may follow each number and is kept where it was dictated
+  return text.replace(DIMENSION_PATTERN, (match) => {
+    return match.replace(/\s+by\s+/gi, ' x ');
+  });
 }
 
 /**
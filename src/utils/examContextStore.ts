@@ -0,0 +1,71 @@
+/**
+ * Per-case exam context (indication, history, comparison) persistence utilities
+ */
+
+import type { ExamContext } from '../../agent/examContext';
+
+const STORAGE_KEY_PREFIX = 'radpal_exam_context';
+const RECENT_CASES_KEY = `${STORAGE_KEY_PREFIX}_recent`;
+const MAX_RECENT_CASES = 50;
+
+function caseKey(caseId: string): string {
+  return `${STORAGE_KEY_PREFIX}_${caseId}`;
+}
+
+/**
+ * Case ids with saved exam context, most recently saved first
+ */
+export function loadRecentCaseIds(): string[] {
+  try {
+    const stored = localStorage.getItem(RECENT_CASES_KEY);
+    if (stored) {
+      const ids = JSON.parse(stored);
+      if (Array.isArray(ids)) {
+        return ids.filter((id): id is string => typeof id === 'string');
+      }
+    }
+  } catch (error) {
+    console.error('Error loading recent cases:', error);
+  }
+
+  return [];
+}
+
+/**
+ * Load the exam context saved for a case, or an empty context
+ */
+export function loadExamContext(caseId: string): ExamContext {
+  if (!caseId.trim()) return {};
+
+  try {
+    const stored = localStorage.getItem(caseKey(caseId.trim()));
+    if (stored) {
+      const exam = JSON.parse(stored);
+      if (exam && typeof exam === 'object' && !Array.isArray(exam)) {
+        return exam as ExamContext;
+      }
+    }
+  } catch (error) {
+    console.error('Error loading exam context:', error);
+  }
+
+  return {};
+}
+
+/**
+ * Save a case's exam context; the oldest cases are dropped past the recent-case limit
+ */
+export function saveExamContext(caseId: string, exam: ExamContext): void {
+  const id = caseId.trim();
+  if (!id) return;
+
+  try {
+    localStorage.setItem(caseKey(id), JSON.stringify(exam));
+
+    const recent = [id, ...loadRecentCaseIds().filter(existing => existing !== id)];
+    recent.slice(MAX_RECENT_CASES).forEach(expired => localStorage.removeItem(caseKey(expired)));
+    localStorage.setItem(RECENT_CASES_KEY, JSON.stringify(recent.slice(0, MAX_RECENT_CASES)));
+  } catch (error) {
+    console.error('Error saving exam context:', error);
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Per-user provider fallback chain management utilities
+ */
+
+const SETTINGS_KEY_PREFIX = 'radpal_fallback_chain';
+
+function settingsKey(userId: string): string {
+  return `${SETTINGS_KEY_PREFIX}_${userId}`;
+}
+
+/**
+ * Load the user's fallback chain (provider ids, in order) from localStorage
+ */
+export function loadFallbackChain(userId: string): string[] {
+  try {
+    const stored = localStorage.getItem(settingsKey(userId));
+    if (stored) {
+      const chain = JSON.parse(stored);
+      if (Array.isArray(chain)) {
+        return chain.filter((id): id is string => typeof id === 'string');
+      }
+    }
+  } catch (error) {
+    console.error('Error loading fallback chain:', error);
+  }
+
+  return [];
+}
+
+/**
+ * Save the user's fallback chain to localStorage
+ */
+export function saveFallbackChain(userId: string, chain: string[]): void {
+  try {
+    localStorage.setItem(settingsKey(userId), JSON.stringify(chain));
+  } catch (error) {
+    console.error('Error saving fallback chain:', error);
+  }
+}
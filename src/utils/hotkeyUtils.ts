@@ -65,6 +65,8 @@ export function matchesHotkey(event: KeyboardEvent, config: HotkeyConfig): boole
 
 // Default hotkey configurations
 export const DEFAULT_DICTATION_HOTKEY = 'F5'
+export const DEFAULT_NEXT_FIELD_HOTKEY = 'Tab'
+export const DEFAULT_PREVIOUS_FIELD_HOTKEY = 'Shift+Tab'
 
 // Get current dictation hotkey from localStorage
 export function getDictationHotkey(): string {
@@ -74,4 +76,19 @@ export function getDictationHotkey(): string {
 // Save dictation hotkey to localStorage
 export function setDictationHotkey(hotkey: string): void {
   localStorage.setItem('dictation_hotkey', hotkey)
+}
+
+// Get the hotkeys that move between template fields in the editor
+export function getNextFieldHotkey(): string {
+  return localStorage.getItem('next_field_hotkey') || DEFAULT_NEXT_FIELD_HOTKEY
+}
+
+export function getPreviousFieldHotkey(): string {
+  return localStorage.getItem('previous_field_hotkey') || DEFAULT_PREVIOUS_FIELD_HOTKEY
+}
+
+// Save template field navigation hotkeys to localStorage
+export function setFieldNavigationHotkeys(next: string, previous: string): void {
+  localStorage.setItem('next_field_hotkey', next)
+  localStorage.setItem('previous_field_hotkey', previous)
 }
\ No newline at end of file
@@ -4,6 +4,7 @@
  */
 
 import { deepMergeAgentLogic, getDefaultAgentLogic } from './logicMerge'
+import { validateAgentLogic } from '../../agent/logicSchema'
 
 export interface LogicLayers {
   defaultLogic?: any       // System default (hardcoded)
@@ -74,12 +75,13 @@ export function extractLogicDelta(baseLogic: any, modifiedLogic: any): any {
 }
 
 /**
- * Validates that a logic object has required structure
+ * Validates that a complete (merged) logic object has the required sections
+ * and matches the agent_logic schema; layers and deltas use validateAgentLogic directly
  */
 export function validateLogicStructure(logic: any): { valid: boolean; errors: string[] } {
   const errors: string[] = []
   
-  if (!logic || typeof logic !== 'object') {
+  if (!logic || typeof logic !== 'object' || Array.isArray(logic)) {
     errors.push('Logic must be an object')
     return { valid: false, errors }
   }
@@ -92,10 +94,8 @@ export function validateLogicStructure(logic: any): { valid: boolean; errors: st
     }
   }
   
-  // Validate impression.exclude_by_default is an array if present
-  if (logic.impression?.exclude_by_default && !Array.isArray(logic.impression.exclude_by_default)) {
-    errors.push('impression.exclude_by_default must be an array')
-  }
+  // Unknown keys and wrong types, reported by path
+  errors.push(...validateAgentLogic(logic).errors)
   
   return {
     valid: errors.length === 0,
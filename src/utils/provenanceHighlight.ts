@@ -0,0 +1,60 @@
+/**
+ * Marks diff parts that fall inside unsupported report sentences so the diff view can highlight them
+ */
+
+export interface HighlightDiffPart {
+  value: string
+  added?: boolean
+  removed?: boolean
+  // Text not traceable to the findings or template (see agent/provenance.ts)
+  unsupported?: boolean
+}
+
+export interface TextRange {
+  start: number
+  end: number
+}
+
+export const UNSUPPORTED_HIGHLIGHT_STYLE = 'border-bottom: 2px dotted #ff9500;'
+export const UNSUPPORTED_HIGHLIGHT_TITLE = 'Not supported by the findings or template'
+
+/**
+ * Splits parts at range boundaries and flags the pieces inside a range.
+ * Offsets are positions in the generated text, i.e. the concatenation of the parts that are not removed.
+ */
+export function markUnsupportedParts<T extends HighlightDiffPart>(parts: T[], ranges: TextRange[]): T[] {
+  if (ranges.length === 0) return parts
+
+  const inRange = (position: number) => ranges.some(range => position >= range.start && position < range.end)
+  const result: T[] = []
+  let position = 0
+
+  for (const part of parts) {
+    if (part.removed) {
+      result.push(part)
+      continue
+    }
+
+    let pieceStart = 0
+    for (let i = 1; i <= part.value.length; i++) {
+      const boundary = i === part.value.length || inRange(position + i) !== inRange(position + pieceStart)
+      if (!boundary) continue
+
+      const unsupported = inRange(position + pieceStart)
+      result.push({ ...part, value: part.value.slice(pieceStart, i), ...(unsupported ? { unsupported: true } : {}) })
+      pieceStart = i
+    }
+    position += part.value.length
+  }
+
+  return result
+}
+
+/**
+ * Wraps already-formatted part HTML in the unsupported highlight when the part is flagged
+ */
+export function wrapUnsupported(part: HighlightDiffPart, html: string): string {
+  return part.unsupported
+    ? `<span style="${UNSUPPORTED_HIGHLIGHT_STYLE}" title="${UNSUPPORTED_HIGHLIGHT_TITLE}">${html}</span>`
+    : html
+}
@@ -0,0 +1,118 @@
+/**
+ * Template fields in the rich text editor: field markup is wrapped in highlighted spans
+ * that next/previous field navigation selects whole, so typing or dictating replaces the field
+ */
+
+import { TemplateField, parseTemplateFields } from '../../agent/templateFields'
+
+export const TEMPLATE_FIELD_CLASS = 'template-field'
+
+export type FieldNavigation = 'next' | 'previous' | 'first'
+
+const NAVIGATION_COMMAND = /^\s*(next|previous|prior|last)\s+(?:field|blank)[.!?]?\s*$/i
+
+/**
+ * Voice commands that move between fields ("next field", "previous field")
+ */
+export function matchFieldNavigationCommand(text: string): 'next' | 'previous' | null {
+  const match = NAVIGATION_COMMAND.exec(text)
+  if (!match) return null
+  return match[1].toLowerCase() === 'next' ? 'next' : 'previous'
+}
+
+function unwrap(span: HTMLElement): void {
+  span.replaceWith(...Array.from(span.childNodes))
+}
+
+/**
+ * Wraps field markup in spans and unwraps spans whose field was filled in; returns whether anything changed
+ */
+export function highlightTemplateFields(root: HTMLElement): boolean {
+  let changed = false
+
+  root.querySelectorAll<HTMLElement>(`span.${TEMPLATE_FIELD_CLASS}`).forEach(span => {
+    const text = span.textContent || ''
+    const fields = parseTemplateFields(text)
+    if (fields.length !== 1 || fields[0].raw !== text) {
+      unwrap(span)
+      changed = true
+    }
+  })
+  root.normalize()
+
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT)
+  const textNodes: Text[] = []
+  while (walker.nextNode()) {
+    const node = walker.currentNode as Text
+    if (node.data.includes('{{') && !node.parentElement?.closest(`span.${TEMPLATE_FIELD_CLASS}`)) {
+      textNodes.push(node)
+    }
+  }
+
+  for (const node of textNodes) {
+    const fields = parseTemplateFields(node.data)
+    if (fields.length === 0) continue
+
+    const fragment = document.createDocumentFragment()
+    let position = 0
+    for (const field of fields) {
+      if (field.index > position) fragment.append(node.data.slice(position, field.index))
+      const span = document.createElement('span')
+      span.className = TEMPLATE_FIELD_CLASS
+      span.textContent = field.raw
+      fragment.append(span)
+      position = field.end
+    }
+    if (position < node.data.length) fragment.append(node.data.slice(position))
+    node.replaceWith(fragment)
+    changed = true
+  }
+
+  return changed
+}
+
+function textOffset(root: HTMLElement, container: Node, offset: number): number {
+  const range = document.createRange()
+  range.setStart(root, 0)
+  range.setEnd(container, offset)
+  return range.toString().length
+}
+
+/**
+ * Selects the next or previous field around the caret (wrapping around) and returns it
+ */
+export function selectTemplateField(root: HTMLElement, direction: FieldNavigation): { element: HTMLElement; field: TemplateField } | null {
+  highlightTemplateFields(root)
+  const spans = Array.from(root.querySelectorAll<HTMLElement>(`span.${TEMPLATE_FIELD_CLASS}`))
+  if (spans.length === 0) return null
+
+  const selection = window.getSelection()
+  const current = selection && selection.rangeCount > 0 && root.contains(selection.getRangeAt(0).commonAncestorContainer)
+    ? selection.getRangeAt(0)
+    : null
+
+  let target: HTMLElement | undefined
+  if (direction === 'first' || !current) {
+    target = direction === 'previous' ? spans[spans.length - 1] : spans[0]
+  } else {
+    const positions = spans.map(span => {
+      const start = textOffset(root, span.parentNode!, Array.prototype.indexOf.call(span.parentNode!.childNodes, span))
+      return { span, start, end: start + (span.textContent || '').length }
+    })
+    if (direction === 'next') {
+      const caret = textOffset(root, current.endContainer, current.endOffset)
+      target = (positions.find(position => position.start >= caret) || positions[0]).span
+    } else {
+      const caret = textOffset(root, current.startContainer, current.startOffset)
+      target = ([...positions].reverse().find(position => position.end <= caret) || positions[positions.length - 1]).span
+    }
+  }
+
+  const range = document.createRange()
+  range.selectNode(target)
+  selection?.removeAllRanges()
+  selection?.addRange(range)
+  target.scrollIntoView?.({ block: 'nearest' })
+
+  return { element: target, field: parseTemplateFields(target.textContent || '')[0] }
+}